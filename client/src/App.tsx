@@ -1,4 +1,4 @@
-import { Switch, Route, Redirect } from "wouter";
+import { Switch, Route, Redirect, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -9,6 +9,7 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { NotificationBell } from "@/components/notification-bell";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { LiveEventsProvider } from "@/hooks/use-live-events";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { Skeleton } from "@/components/ui/skeleton";
 import NotFound from "@/pages/not-found";
@@ -17,6 +18,7 @@ import AdrCreate from "@/pages/adr-create";
 import AdrDetail from "@/pages/adr-detail";
 import AdrEdit from "@/pages/adr-edit";
 import AuthPage from "@/pages/auth";
+import ResetPasswordPage from "@/pages/reset-password";
 import UserManagement from "@/pages/user-management";
 import Projects from "@/pages/projects";
 import ProjectSettings from "@/pages/project-settings";
@@ -24,6 +26,9 @@ import AuditLog from "@/pages/audit-log";
 import ProjectRequirements from "@/pages/project-requirements";
 import DiagramEditor from "@/pages/diagram-editor";
 import AdrView from "@/pages/adr-view";
+import AdrGraph from "@/pages/adr-graph";
+import Profile from "@/pages/profile";
+import NotificationSettings from "@/pages/notification-settings";
 
 function Router() {
   return (
@@ -39,9 +44,12 @@ function Router() {
       <Route path="/projects/:projectId/adrs/:id" component={AdrDetail} />
       <Route path="/projects/:projectId/settings" component={ProjectSettings} />
       <Route path="/projects/:projectId/requirements" component={ProjectRequirements} />
+      <Route path="/projects/:projectId/graph" component={AdrGraph} />
       <Route path="/projects/:projectId/adrs/:adrId/diagram" component={DiagramEditor} />
       <Route path="/users" component={UserManagement} />
       <Route path="/audit" component={AuditLog} />
+      <Route path="/profile" component={Profile} />
+      <Route path="/profile/notifications" component={NotificationSettings} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -54,6 +62,12 @@ const sidebarStyle = {
 
 function AuthenticatedApp() {
   const { user, isLoading } = useAuth();
+  // Reset links are opened signed out, so they render outside the app shell
+  const [isResetLink, resetParams] = useRoute("/reset-password/:token");
+
+  if (isResetLink) {
+    return <ResetPasswordPage token={resetParams.token} />;
+  }
 
   if (isLoading) {
     return (
@@ -71,23 +85,25 @@ function AuthenticatedApp() {
   }
 
   return (
-    <SidebarProvider style={sidebarStyle as React.CSSProperties}>
-      <div className="flex h-screen w-full">
-        <AppSidebar />
-        <div className="flex flex-col flex-1 min-w-0">
-          <header className="flex items-center justify-between gap-1 px-3 py-2 border-b border-border/60 sticky top-0 z-50 bg-background/95 backdrop-blur-sm">
-            <SidebarTrigger data-testid="button-sidebar-toggle" />
-            <div className="flex items-center gap-1.5">
-              <NotificationBell />
-              <ThemeToggle />
-            </div>
-          </header>
-          <main className="flex-1 overflow-auto">
-            <Router />
-          </main>
+    <LiveEventsProvider>
+      <SidebarProvider style={sidebarStyle as React.CSSProperties}>
+        <div className="flex h-screen w-full">
+          <AppSidebar />
+          <div className="flex flex-col flex-1 min-w-0">
+            <header className="flex items-center justify-between gap-1 px-3 py-2 border-b border-border/60 sticky top-0 z-50 bg-background/95 backdrop-blur-sm">
+              <SidebarTrigger data-testid="button-sidebar-toggle" />
+              <div className="flex items-center gap-1.5">
+                <NotificationBell />
+                <ThemeToggle />
+              </div>
+            </header>
+            <main className="flex-1 overflow-auto">
+              <Router />
+            </main>
+          </div>
         </div>
-      </div>
-    </SidebarProvider>
+      </SidebarProvider>
+    </LiveEventsProvider>
   );
 }
 
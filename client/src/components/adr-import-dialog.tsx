@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatusBadge } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, FileUp, Link2 } from "lucide-react";
+
+interface ImportEntry {
+  fileName: string;
+  originalNumber: number | null;
+  adrNumber: number;
+  title: string;
+  rawStatus: string | null;
+  status: string;
+  tags: string[];
+  relations: { relationType: string; targetNumber: number }[];
+  conflicts: string[];
+  warnings: string[];
+}
+
+interface ImportResult {
+  entries: ImportEntry[];
+  skipped: { fileName: string; reason: string }[];
+  created?: number;
+}
+
+async function postImport(projectId: string, files: File[], mode: "preview" | "commit"): Promise<ImportResult> {
+  const formData = new FormData();
+  for (const file of files) formData.append("files", file);
+  const res = await fetch(`/api/projects/${projectId}/import?mode=${mode}`, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message ?? res.statusText);
+  }
+  return res.json();
+}
+
+interface AdrImportDialogProps {
+  readonly projectId: string;
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+}
+
+export function AdrImportDialog({ projectId, open, onOpenChange }: AdrImportDialogProps) {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<File[]>([]);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+
+  const reset = () => {
+    setFiles([]);
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () => postImport(projectId, files, "preview"),
+    onSuccess: (result) => setPreview(result),
+    onError: (err: Error) => {
+      toast({ title: "Could not read files", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () => postImport(projectId, files, "commit"),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "adrs"] });
+      toast({ title: `Imported ${result.created ?? 0} ADRs` });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Import failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const conflictCount = preview?.entries.filter((e) => e.conflicts.length > 0).length ?? 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import ADRs</DialogTitle>
+          <DialogDescription>
+            Upload adr-tools or MADR Markdown files, or a zip of your <code>doc/adr</code> folder.
+            Nothing is saved until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-3">
+            <Input
+              type="file"
+              multiple
+              accept=".md,.markdown,.zip"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              data-testid="input-import-files"
+            />
+            {files.length > 0 && (
+              <p className="text-xs text-muted-foreground">{files.length} file(s) selected</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3 text-sm">
+              <span>{preview.entries.length} ADRs ready to import</span>
+              {conflictCount > 0 && (
+                <span className="text-amber-600 dark:text-amber-400 flex items-center gap-1" data-testid="text-import-conflicts">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  {conflictCount} renumbered
+                </span>
+              )}
+              {preview.skipped.length > 0 && (
+                <span className="text-muted-foreground">{preview.skipped.length} skipped</span>
+              )}
+            </div>
+            <div className="max-h-[50vh] overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-24">Number</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead className="w-32">Status</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.entries.map((entry) => {
+                    const renumbered = entry.originalNumber !== null && entry.originalNumber !== entry.adrNumber;
+                    return (
+                      <TableRow key={entry.fileName} data-testid={`import-entry-${entry.adrNumber}`}>
+                        <TableCell className="font-mono text-xs">
+                          <span className={cn(renumbered && "text-amber-600 dark:text-amber-400")}>
+                            {renumbered ? `${entry.originalNumber} → ${entry.adrNumber}` : entry.adrNumber}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{entry.title}</div>
+                          <div className="text-[11px] text-muted-foreground font-mono truncate">{entry.fileName}</div>
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={entry.status} projectId={projectId} />
+                        </TableCell>
+                        <TableCell className="text-xs space-y-1">
+                          {entry.relations.length > 0 && (
+                            <div className="flex items-center gap-1 text-muted-foreground">
+                              <Link2 className="w-3 h-3" />
+                              {entry.relations.map((r) => `${r.relationType.replace(/_/g, " ")} ${r.targetNumber}`).join(", ")}
+                            </div>
+                          )}
+                          {entry.conflicts.map((c) => (
+                            <div key={c} className="text-amber-600 dark:text-amber-400">{c}</div>
+                          ))}
+                          {entry.warnings.map((w) => (
+                            <div key={w} className="text-muted-foreground">{w}</div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {preview.skipped.length > 0 && (
+              <div className="text-xs text-muted-foreground space-y-0.5">
+                {preview.skipped.map((s) => (
+                  <div key={s.fileName}>
+                    <span className="font-mono">{s.fileName}</span>: {s.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => commitMutation.mutate()}
+                disabled={commitMutation.isPending || preview.entries.length === 0}
+                data-testid="button-confirm-import"
+              >
+                {commitMutation.isPending ? "Importing..." : `Import ${preview.entries.length} ADRs`}
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={() => previewMutation.mutate()}
+              disabled={files.length === 0 || previewMutation.isPending}
+              data-testid="button-preview-import"
+            >
+              <FileUp className="w-4 h-4 mr-1.5" />
+              {previewMutation.isPending ? "Reading..." : "Preview Import"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { StatusBadge } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { adrRelationTypeEnum, type Adr, type AdrRelation, type AdrRelationType, type Project } from "@shared/schema";
+import { Link2, Lock, Plus, X } from "lucide-react";
+
+export const relationLabels: Record<AdrRelationType, string> = {
+  supersedes: "Supersedes",
+  superseded_by: "Superseded by",
+  conflicts_with: "Conflicts with",
+  depends_on: "Depends on",
+  related_to: "Related to",
+};
+
+// How an incoming relation reads from this ADR's side
+const incomingLabels: Record<AdrRelationType, string> = {
+  supersedes: "Superseded by",
+  superseded_by: "Supersedes",
+  conflicts_with: "Conflicts with",
+  depends_on: "Depended on by",
+  related_to: "Related to",
+};
+
+interface ResolvedRelation extends AdrRelation {
+  direction: "outgoing" | "incoming";
+  related: {
+    id: number;
+    projectId: number;
+    projectKey: string;
+    adrNumber: number;
+    title: string;
+    status: string;
+    archived: boolean;
+  } | null;
+  // The related ADR lives in a project the current user cannot access
+  redacted: boolean;
+}
+
+const pairedTypes: AdrRelationType[] = ["supersedes", "superseded_by"];
+
+interface AdrRelationsProps {
+  readonly projectId: string;
+  readonly adrId: string;
+  readonly canEdit: boolean;
+}
+
+export function AdrRelations({ projectId, adrId, canEdit }: AdrRelationsProps) {
+  const { toast } = useToast();
+  const [showAdd, setShowAdd] = useState(false);
+  const [relationType, setRelationType] = useState<AdrRelationType>("related_to");
+  const [targetRef, setTargetRef] = useState("");
+
+  const relationsKey = ["/api/projects", projectId, "adrs", adrId, "relations"];
+
+  const { data: relations = [] } = useQuery<ResolvedRelation[]>({
+    queryKey: relationsKey,
+    enabled: !!projectId && !!adrId,
+  });
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", projectId],
+    enabled: !!projectId,
+  });
+
+  const { data: projectAdrs = [] } = useQuery<Adr[]>({
+    queryKey: ["/api/projects", projectId, "adrs"],
+    enabled: !!projectId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: relationsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "graph"] });
+    // Adding a supersedes relation can change the target ADR's status
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "adrs"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/projects/${projectId}/adrs/${adrId}/relations`, {
+        targetRef: targetRef.trim(),
+        relationType,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Relation added" });
+      setShowAdd(false);
+      setTargetRef("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to add relation", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (relationId: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/adrs/${adrId}/relations/${relationId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Relation removed" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to remove relation", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const currentId = parseInt(adrId);
+  const ref = (key: string, adrNumber: number) => `${key}-${String(adrNumber).padStart(3, "0")}`;
+
+  // Paired types are stored in both directions, so their incoming side is already listed as outgoing
+  const rows = relations
+    .filter((r) => r.direction === "outgoing" || !pairedTypes.includes(r.relationType as AdrRelationType))
+    .map((r) => {
+      const type = r.relationType as AdrRelationType;
+      return {
+        relation: r,
+        label: r.direction === "outgoing" ? relationLabels[type] : incomingLabels[type],
+        other: r.related,
+      };
+    });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <Link2 className="w-4 h-4" />
+            Relations
+          </CardTitle>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={() => setShowAdd(true)} data-testid="button-add-relation">
+              <Plus className="w-3.5 h-3.5 mr-1.5" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No related decisions.</p>
+        ) : (
+          <div className="space-y-2">
+            {rows.map(({ relation, label, other }) => (
+              <div key={relation.id} className="flex items-center gap-2 text-sm" data-testid={`relation-${relation.id}`}>
+                <span className="text-xs text-muted-foreground w-28 flex-shrink-0">{label}</span>
+                {other ? (
+                  <Link href={`/projects/${other.projectId}/adrs/${other.id}`} className="flex items-center gap-2 min-w-0 flex-1 hover:underline">
+                    <span className="font-mono text-xs text-muted-foreground">{ref(other.projectKey, other.adrNumber)}</span>
+                    <span className={`truncate ${other.archived ? "text-muted-foreground line-through" : ""}`}>{other.title}</span>
+                  </Link>
+                ) : relation.redacted ? (
+                  <span className="flex items-center gap-1.5 flex-1 text-muted-foreground italic" data-testid={`relation-redacted-${relation.id}`}>
+                    <Lock className="w-3 h-3" />
+                    Decision in a project you don't have access to
+                  </span>
+                ) : (
+                  <span className="flex-1 text-muted-foreground italic">Deleted decision</span>
+                )}
+                {other && <StatusBadge status={other.status} projectId={other.projectId} />}
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeMutation.mutate(relation.id)}
+                    data-testid={`button-remove-relation-${relation.id}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showAdd} onOpenChange={setShowAdd}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Relation</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Select value={relationType} onValueChange={(v) => setRelationType(v as AdrRelationType)}>
+              <SelectTrigger data-testid="select-relation-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {adrRelationTypeEnum.map((t) => (
+                  <SelectItem key={t} value={t}>{relationLabels[t]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value="" onValueChange={setTargetRef}>
+              <SelectTrigger data-testid="select-relation-target">
+                <SelectValue placeholder="Pick a decision from this project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projectAdrs
+                  .filter((a) => a.id !== currentId)
+                  .sort((a, b) => a.adrNumber - b.adrNumber)
+                  .map((a) => (
+                    <SelectItem key={a.id} value={ref(project?.key ?? "ADR", a.adrNumber)}>
+                      {ref(project?.key ?? "ADR", a.adrNumber)}: {a.title}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <div className="space-y-1">
+              <Input
+                value={targetRef}
+                onChange={(e) => setTargetRef(e.target.value)}
+                placeholder="e.g. PLAT-012"
+                className="font-mono"
+                data-testid="input-relation-ref"
+              />
+              <p className="text-xs text-muted-foreground">
+                Use a <span className="font-mono">KEY-NNN</span> reference to link a decision in another project you have access to.
+              </p>
+            </div>
+            {relationType === "supersedes" && (
+              <p className="text-xs text-muted-foreground">
+                If this decision is accepted, the selected decision will be marked as superseded.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAdd(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => addMutation.mutate()}
+              disabled={!targetRef.trim() || addMutation.isPending}
+              data-testid="button-confirm-add-relation"
+            >
+              {addMutation.isPending ? "Adding..." : "Add Relation"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { ReviewDecision } from "@shared/schema";
+import { reviewDecisionEnum } from "@shared/schema";
+import { ClipboardCheck, UserPlus, X } from "lucide-react";
+
+interface ReviewUser {
+  id: string;
+  username: string;
+  displayName: string;
+}
+
+export interface ReviewSummary {
+  reviewers: { userId: string; user: ReviewUser; decision: ReviewDecision | null }[];
+  reviews: {
+    id: number;
+    reviewerId: string;
+    reviewer: ReviewUser;
+    decision: ReviewDecision;
+    comment: string;
+    adrVersion: string;
+    dismissedAt: string | null;
+    createdAt: string;
+  }[];
+  quorum: number;
+  approvals: number;
+  blocking: number;
+  quorumMet: boolean;
+}
+
+const decisionLabels: Record<ReviewDecision, string> = {
+  approve: "Approved",
+  reject: "Rejected",
+  request_changes: "Changes requested",
+};
+
+const decisionActions: Record<ReviewDecision, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  request_changes: "Request changes",
+};
+
+const decisionStyles: Record<ReviewDecision, string> = {
+  approve: "bg-emerald-50 text-emerald-700 dark:bg-emerald-950/60 dark:text-emerald-400",
+  reject: "bg-red-50 text-red-700 dark:bg-red-950/60 dark:text-red-400",
+  request_changes: "bg-amber-50 text-amber-700 dark:bg-amber-950/60 dark:text-amber-400",
+};
+
+function DecisionPill({ decision }: { decision: ReviewDecision | null }) {
+  return (
+    <span
+      className={cn(
+        "text-[11px] px-2 py-0.5 rounded-full font-medium",
+        decision ? decisionStyles[decision] : "bg-muted text-muted-foreground"
+      )}
+    >
+      {decision ? decisionLabels[decision] : "Pending"}
+    </span>
+  );
+}
+
+interface AdrReviewsProps {
+  readonly projectId: string;
+  readonly adrId: string;
+  readonly members: { userId: string; user: ReviewUser }[];
+  readonly canRequest: boolean;
+}
+
+export function AdrReviews({ projectId, adrId, members, canRequest }: AdrReviewsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [showRequest, setShowRequest] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [decision, setDecision] = useState<ReviewDecision>("approve");
+  const [comment, setComment] = useState("");
+
+  const reviewsKey = ["/api/projects", projectId, "adrs", adrId, "reviews"];
+
+  const { data: summary } = useQuery<ReviewSummary>({
+    queryKey: reviewsKey,
+    enabled: !!projectId && !!adrId,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/projects/${projectId}/adrs/${adrId}/reviewers`, { userIds: selected });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewsKey });
+      toast({ title: "Reviewers requested" });
+      setShowRequest(false);
+      setSelected([]);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to request reviewers", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/adrs/${adrId}/reviewers/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewsKey });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to remove reviewer", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/projects/${projectId}/adrs/${adrId}/reviews`, { decision, comment });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewsKey });
+      setComment("");
+      toast({ title: "Review submitted" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to submit review", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const reviewers = summary?.reviewers ?? [];
+  const requestedIds = new Set(reviewers.map((r) => r.userId));
+  const candidates = members.filter((m) => !requestedIds.has(m.userId));
+  const isReviewer = !!user && requestedIds.has(user.id);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <ClipboardCheck className="w-4 h-4" />
+            Reviews
+            {summary && summary.quorum > 0 && (
+              <span
+                className={cn(
+                  "text-[11px] font-medium px-2 py-0.5 rounded-full",
+                  summary.quorumMet
+                    ? "bg-emerald-50 text-emerald-700 dark:bg-emerald-950/60 dark:text-emerald-400"
+                    : "bg-muted text-muted-foreground"
+                )}
+                data-testid="text-review-quorum"
+              >
+                {summary.approvals}/{summary.quorum} approvals
+              </span>
+            )}
+          </CardTitle>
+          {canRequest && (
+            <Button size="sm" variant="outline" onClick={() => setShowRequest(true)} data-testid="button-request-reviewers">
+              <UserPlus className="w-3.5 h-3.5 mr-1.5" />
+              Request
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviewers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reviewers requested yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {reviewers.map((r) => (
+              <div key={r.userId} className="flex items-center justify-between gap-2" data-testid={`reviewer-${r.userId}`}>
+                <span className="text-sm truncate">{r.user.displayName}</span>
+                <div className="flex items-center gap-1.5">
+                  <DecisionPill decision={r.decision} />
+                  {canRequest && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeMutation.mutate(r.userId)}
+                      data-testid={`button-remove-reviewer-${r.userId}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isReviewer && (
+          <div className="space-y-2 border-t pt-3">
+            <Select value={decision} onValueChange={(v) => setDecision(v as ReviewDecision)}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-review-decision">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reviewDecisionEnum.map((d) => (
+                  <SelectItem key={d} value={d}>
+                    {decisionActions[d]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="Review comment..."
+              className="min-h-[60px]"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              data-testid="input-review-comment"
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={() => reviewMutation.mutate()}
+              disabled={!comment.trim() || reviewMutation.isPending}
+              data-testid="button-submit-review"
+            >
+              {reviewMutation.isPending ? "Submitting..." : "Submit Review"}
+            </Button>
+          </div>
+        )}
+
+        {(summary?.reviews ?? []).length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            {summary!.reviews.map((review) => (
+              <div key={review.id} className="bg-muted/50 rounded-md p-3" data-testid={`review-${review.id}`}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-xs font-medium">{review.reviewer.displayName}</span>
+                  <DecisionPill decision={review.decision} />
+                </div>
+                <p className="text-sm">{review.comment}</p>
+                <p className="text-[11px] text-muted-foreground mt-1">
+                  v{review.adrVersion} - {new Date(review.createdAt).toLocaleString()}
+                  {review.dismissedAt && " - outdated by a later edit"}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showRequest} onOpenChange={setShowRequest}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Reviewers</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 max-h-72 overflow-auto">
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">All project members are already reviewers.</p>
+            ) : (
+              candidates.map((m) => (
+                <label key={m.userId} className="flex items-center gap-2 text-sm py-1 cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(m.userId)}
+                    onCheckedChange={(checked) =>
+                      setSelected((prev) =>
+                        checked === true ? [...prev, m.userId] : prev.filter((id) => id !== m.userId)
+                      )
+                    }
+                  />
+                  {m.user.displayName}
+                  <span className="text-xs text-muted-foreground">@{m.user.username}</span>
+                </label>
+              ))
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRequest(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => requestMutation.mutate()}
+              disabled={selected.length === 0 || requestMutation.isPending}
+              data-testid="button-confirm-request-reviewers"
+            >
+              {requestMutation.isPending ? "Requesting..." : "Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
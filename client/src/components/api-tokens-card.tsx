@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiTokenScopeEnum, type ApiToken, type ApiTokenScope } from "@shared/schema";
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+
+type SafeApiToken = Omit<ApiToken, "tokenHash">;
+
+const scopeDescriptions: Record<ApiTokenScope, string> = {
+  read: "Read-only: GET requests only",
+  write: "Read-write: acts with your full permissions",
+};
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+function tokenState(token: SafeApiToken): { label: string; className: string } {
+  if (token.revokedAt) return { label: "Revoked", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" };
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) {
+    return { label: "Expired", className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400" };
+  }
+  return { label: "Active", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" };
+}
+
+export function ApiTokensCard() {
+  const { toast } = useToast();
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [expiry, setExpiry] = useState("90");
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const { data: tokens = [] } = useQuery<SafeApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tokens", {
+        name,
+        scope,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      });
+      return res.json() as Promise<SafeApiToken & { token: string }>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setCreatedSecret(created.token);
+      setName("");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to create token", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({ title: "Token revoked" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to revoke token", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const closeCreate = () => {
+    setShowCreate(false);
+    setCreatedSecret(null);
+    setName("");
+    setScope("read");
+    setExpiry("90");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            API Tokens
+          </CardTitle>
+          <Button size="sm" onClick={() => setShowCreate(true)} data-testid="button-create-token">
+            <Plus className="w-3.5 h-3.5 mr-1.5" />
+            New Token
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Use a token from scripts and CI with an <span className="font-mono">Authorization: Bearer &lt;token&gt;</span> header.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No API tokens yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map((t) => {
+              const state = tokenState(t);
+              return (
+                <div key={t.id} className="flex items-center justify-between gap-3 p-3 rounded-md border" data-testid={`token-row-${t.id}`}>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">{t.name}</p>
+                      <Badge variant="outline" className="text-[10px]">{t.scope === "write" ? "read-write" : "read-only"}</Badge>
+                      <Badge className={`text-[10px] ${state.className}`}>{state.label}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      <span className="font-mono">{t.tokenPrefix}…</span>
+                      {" · "}created {new Date(t.createdAt).toLocaleDateString()}
+                      {" · "}{t.expiresAt ? `expires ${new Date(t.expiresAt).toLocaleDateString()}` : "never expires"}
+                      {" · "}{t.lastUsedAt ? `last used ${new Date(t.lastUsedAt).toLocaleString()}` : "never used"}
+                    </p>
+                  </div>
+                  {!t.revokedAt && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive flex-shrink-0"
+                      onClick={() => revokeMutation.mutate(t.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-token-${t.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showCreate} onOpenChange={(open) => { if (!open) closeCreate(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdSecret ? "Token Created" : "New API Token"}</DialogTitle>
+            <DialogDescription>
+              {createdSecret
+                ? "Copy the token now. It will not be shown again."
+                : "Tokens act on your behalf and can be revoked at any time."}
+            </DialogDescription>
+          </DialogHeader>
+          {createdSecret ? (
+            <div className="flex items-center gap-2">
+              <Input readOnly value={createdSecret} className="font-mono text-xs" data-testid="input-created-token" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdSecret);
+                  toast({ title: "Token copied" });
+                }}
+                data-testid="button-copy-token"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  placeholder="CI pipeline"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-token-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scope</Label>
+                <Select value={scope} onValueChange={(v) => setScope(v as ApiTokenScope)}>
+                  <SelectTrigger data-testid="select-token-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {apiTokenScopeEnum.map((s) => (
+                      <SelectItem key={s} value={s}>{s === "write" ? "Read-write" : "Read-only"}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{scopeDescriptions[scope]}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Expiry</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger data-testid="select-token-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {createdSecret ? (
+              <Button onClick={closeCreate}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeCreate}>Cancel</Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!name.trim() || createMutation.isPending}
+                  data-testid="button-confirm-create-token"
+                >
+                  {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Create Token
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
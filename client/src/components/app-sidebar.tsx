@@ -10,6 +10,7 @@ import {
   ChevronLeft,
   Shield,
   ListChecks,
+  Network,
 } from "lucide-react";
 import {
   Sidebar,
@@ -163,6 +164,13 @@ export function AppSidebar() {
                     isActive(`/projects/${projectId}/requirements`),
                     "link-requirements"
                   )}
+                  {navItem(
+                    `/projects/${projectId}/graph`,
+                    "Graph",
+                    Network,
+                    isActive(`/projects/${projectId}/graph`),
+                    "link-graph"
+                  )}
                   {(isGlobalAdmin || currentProject) &&
                     navItem(
                       `/projects/${projectId}/settings`,
@@ -235,7 +243,11 @@ export function AppSidebar() {
       <SidebarFooter className="px-3 py-3 border-t border-sidebar-border/60">
         {user && (
           <div className="space-y-2">
-            <div className="flex items-center gap-2.5 px-1">
+            <Link
+              href="/profile"
+              className="flex items-center gap-2.5 px-1 py-1 rounded-md hover:bg-sidebar-accent"
+              data-testid="link-profile"
+            >
               <UserAvatar name={user.displayName} />
               <div className="min-w-0 flex-1">
                 <p className="text-xs font-medium truncate leading-none" data-testid="text-user-name">
@@ -245,7 +257,7 @@ export function AppSidebar() {
                   {user.role}
                 </p>
               </div>
-            </div>
+            </Link>
             <Button
               variant="ghost"
               size="sm"
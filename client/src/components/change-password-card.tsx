@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, LockKeyhole } from "lucide-react";
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+export function ChangePasswordCard() {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/password", { currentPassword, newPassword });
+      return res.json() as Promise<{ sessionsRevoked: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirm("");
+      toast({
+        title: "Password changed",
+        description: result.sessionsRevoked > 0
+          ? `Signed out ${result.sessionsRevoked} other session${result.sessionsRevoked === 1 ? "" : "s"}.`
+          : undefined,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to change password", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const mismatch = confirm.length > 0 && newPassword !== confirm;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <LockKeyhole className="w-4 h-4" />
+          Password
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Changing your password signs you out of every other browser and device.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            changeMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                data-testid="input-current-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="Minimum 6 characters"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                data-testid="input-new-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-new-password">Confirm new password</Label>
+              <Input
+                id="confirm-new-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                data-testid="input-confirm-new-password"
+              />
+            </div>
+          </div>
+          {mismatch && <p className="text-xs text-destructive">Passwords do not match</p>}
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!currentPassword || newPassword.length < 6 || newPassword !== confirm || changeMutation.isPending}
+              data-testid="button-change-password"
+            >
+              {changeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Change Password
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
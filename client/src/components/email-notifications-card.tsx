@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EmailDelivery, SafeUser } from "@shared/schema";
+import { Loader2, Mail } from "lucide-react";
+
+interface EmailSettings {
+  email: string | null;
+  emailDelivery: EmailDelivery;
+  mailConfigured: boolean;
+}
+
+const deliveryOptions: { value: EmailDelivery; label: string; hint: string }[] = [
+  { value: "immediate", label: "Immediately", hint: "One email per notification, as it happens." },
+  { value: "daily", label: "Daily digest", hint: "One email a day summarising new notifications." },
+  { value: "weekly", label: "Weekly digest", hint: "One email every Monday summarising the week." },
+  { value: "off", label: "Off", hint: "Notifications only appear in the app." },
+];
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+export function EmailNotificationsCard() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [delivery, setDelivery] = useState<EmailDelivery>("immediate");
+
+  const { data: settings, isLoading } = useQuery<EmailSettings>({
+    queryKey: ["/api/auth/email-settings"],
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setEmail(settings.email ?? "");
+    setDelivery(settings.emailDelivery);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", "/api/auth/email-settings", {
+        email: email.trim() || null,
+        emailDelivery: delivery,
+      });
+      return res.json() as Promise<SafeUser>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/auth/me"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/email-settings"] });
+      toast({ title: "Email settings saved" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to save email settings", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const dirty = !!settings && ((settings.email ?? "") !== email.trim() || settings.emailDelivery !== delivery);
+  const hint = deliveryOptions.find((o) => o.value === delivery)?.hint;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Mail className="w-4 h-4" />
+          Email Notifications
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Get status changes, comments, mentions and membership changes by email as well as in the app.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            {settings && !settings.mailConfigured && (
+              <p className="text-xs text-muted-foreground rounded-md border border-dashed p-2" data-testid="text-mail-not-configured">
+                Email delivery is not set up on this server, so nothing will be sent until an administrator configures it.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="notification-email">Email address</Label>
+                <Input
+                  id="notification-email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-notification-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email-delivery">Send</Label>
+                <Select value={delivery} onValueChange={(v) => setDelivery(v as EmailDelivery)}>
+                  <SelectTrigger id="email-delivery" data-testid="select-email-delivery">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {deliveryOptions.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {email.trim() ? hint : "Add an address to receive email."}
+            </p>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!dirty || saveMutation.isPending}
+                data-testid="button-save-email-settings"
+              >
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
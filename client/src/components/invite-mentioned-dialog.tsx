@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectAccess } from "@/hooks/use-project-access";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ProjectRoleDefinition } from "@shared/schema";
+import { Loader2, UserPlus } from "lucide-react";
+
+interface CandidateUser {
+  id: string;
+  username: string;
+  displayName: string;
+}
+
+interface InviteMentionedDialogProps {
+  projectId: string;
+  // Mentioned usernames that are not project members; the dialog is open while set
+  usernames: string[] | null;
+  onClose: () => void;
+  // Called once everyone has been added, e.g. to post the comment again
+  onInvited: () => void;
+}
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+/** Offers to add people mentioned in a comment to the project so the comment can be posted. */
+export function InviteMentionedDialog({ projectId, usernames, onClose, onInvited }: Readonly<InviteMentionedDialogProps>) {
+  const { toast } = useToast();
+  const [role, setRole] = useState("viewer");
+  const { isAdmin } = useProjectAccess(projectId);
+  const open = !!usernames;
+
+  const { data: candidates, isLoading } = useQuery<CandidateUser[]>({
+    queryKey: ["/api/projects", projectId, "members", "candidates"],
+    enabled: open,
+  });
+
+  const { data: roles } = useQuery<ProjectRoleDefinition[]>({
+    queryKey: ["/api/projects", projectId, "roles"],
+    enabled: open,
+  });
+  const assignableRoles = (roles ?? []).filter((r) => isAdmin || r.key !== "admin");
+
+  const resolved = (usernames ?? []).map((username) => ({
+    username,
+    user: candidates?.find((c) => c.username.toLowerCase() === username.toLowerCase()),
+  }));
+  const unknown = resolved.filter((r) => !r.user).map((r) => r.username);
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      for (const { user } of resolved) {
+        await apiRequest("POST", `/api/projects/${projectId}/members`, { userId: user!.id, role });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "members"] });
+      toast({ title: resolved.length === 1 ? "Member added" : "Members added" });
+      onInvited();
+    },
+    onError: (err: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "members"] });
+      toast({ title: "Failed to add member", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mentioned People Are Not Members</DialogTitle>
+          <DialogDescription>
+            Only project members can be mentioned. Add them to the project to post the comment,
+            or edit the comment instead.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ul className="space-y-1.5">
+              {resolved.map(({ username, user }) => (
+                <li key={username} className="flex items-baseline gap-2 text-sm" data-testid={`invite-${username}`}>
+                  <span className="font-mono">@{username}</span>
+                  {user
+                    ? <span className="text-muted-foreground">{user.displayName}</span>
+                    : <span className="text-destructive text-xs">No active user with this username</span>}
+                </li>
+              ))}
+            </ul>
+            {unknown.length === 0 && (
+              <div className="space-y-2">
+                <Label>Add as</Label>
+                <Select value={role} onValueChange={setRole}>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((r) => (
+                      <SelectItem key={r.key} value={r.key}>{r.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Edit Comment</Button>
+          <Button
+            onClick={() => inviteMutation.mutate()}
+            disabled={isLoading || unknown.length > 0 || inviteMutation.isPending}
+            data-testid="button-invite-mentioned"
+          >
+            {inviteMutation.isPending
+              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              : <UserPlus className="w-4 h-4 mr-2" />}
+            Add and Post
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CheckCircle2, FolderTree, Loader2, RefreshCw, XCircle } from "lucide-react";
+
+interface LdapSyncResult {
+  finishedAt: string;
+  checked: number;
+  updated: number;
+  disabled: number;
+  error?: string;
+}
+
+type LdapStatus =
+  | { configured: false }
+  | {
+      configured: true;
+      url: string;
+      userSearchBase: string;
+      serviceAccount: boolean;
+      syncIntervalMinutes: number;
+      roleMappings: number;
+      projectMappings: number;
+      lastSync: LdapSyncResult | null;
+    };
+
+interface LdapTestStep {
+  step: string;
+  ok: boolean;
+  detail: string;
+}
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+export function LdapSettingsCard() {
+  const { toast } = useToast();
+  const [showTest, setShowTest] = useState(false);
+  const [testUsername, setTestUsername] = useState("");
+  const [testPassword, setTestPassword] = useState("");
+
+  const { data: status } = useQuery<LdapStatus>({
+    queryKey: ["/api/admin/ldap"],
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/ldap/test", {
+        username: testUsername || undefined,
+        password: testPassword || undefined,
+      });
+      return res.json() as Promise<{ ok: boolean; steps: LdapTestStep[] }>;
+    },
+    onError: (err: Error) => {
+      toast({ title: "Test failed", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/ldap/sync");
+      return res.json() as Promise<LdapSyncResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ldap"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Directory sync finished",
+        description: `${result.checked} checked, ${result.updated} updated, ${result.disabled} disabled`,
+      });
+    },
+    onError: (err: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ldap"] });
+      toast({ title: "Directory sync failed", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  if (!status?.configured) return null;
+
+  const closeTest = () => {
+    setShowTest(false);
+    setTestUsername("");
+    setTestPassword("");
+    testMutation.reset();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <FolderTree className="w-4 h-4" />
+            LDAP Directory
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setShowTest(true)} data-testid="button-ldap-test">
+              Test Configuration
+            </Button>
+            {status.serviceAccount && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => syncMutation.mutate()}
+                disabled={syncMutation.isPending}
+                data-testid="button-ldap-sync"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+                Sync Now
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="text-xs text-muted-foreground space-y-1">
+        <p>
+          <span className="font-mono">{status.url}</span> · users under <span className="font-mono">{status.userSearchBase}</span>
+        </p>
+        <p>
+          {status.roleMappings} role mapping{status.roleMappings === 1 ? "" : "s"}, {status.projectMappings} project mapping
+          {status.projectMappings === 1 ? "" : "s"}
+        </p>
+        <p>
+          {status.serviceAccount && status.syncIntervalMinutes > 0
+            ? `Accounts removed from the directory are disabled every ${status.syncIntervalMinutes} minutes.`
+            : "Scheduled sync is off (needs a service account and a positive interval)."}
+          {status.lastSync && (
+            <>
+              {" "}Last sync {new Date(status.lastSync.finishedAt).toLocaleString()}:{" "}
+              {status.lastSync.error
+                ? <span className="text-destructive">{status.lastSync.error}</span>
+                : `${status.lastSync.checked} checked, ${status.lastSync.updated} updated, ${status.lastSync.disabled} disabled`}
+            </>
+          )}
+        </p>
+      </CardContent>
+
+      <Dialog open={showTest} onOpenChange={(open) => { if (!open) closeTest(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Test LDAP Configuration</DialogTitle>
+            <DialogDescription>
+              Checks the connection and service account. Enter a directory user to also test their bind and group mapping; no account is changed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="ldap-test-username">Username (optional)</Label>
+                <Input
+                  id="ldap-test-username"
+                  value={testUsername}
+                  onChange={(e) => setTestUsername(e.target.value)}
+                  data-testid="input-ldap-test-username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ldap-test-password">Password</Label>
+                <Input
+                  id="ldap-test-password"
+                  type="password"
+                  value={testPassword}
+                  onChange={(e) => setTestPassword(e.target.value)}
+                  data-testid="input-ldap-test-password"
+                />
+              </div>
+            </div>
+            {testMutation.data && (
+              <div className="space-y-2" data-testid="ldap-test-results">
+                {testMutation.data.steps.map((s) => (
+                  <div key={s.step} className="flex items-start gap-2 text-sm">
+                    {s.ok
+                      ? <CheckCircle2 className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+                      : <XCircle className="w-4 h-4 text-destructive mt-0.5 flex-shrink-0" />}
+                    <div className="min-w-0">
+                      <p className="font-medium">{s.step}</p>
+                      <p className="text-xs text-muted-foreground break-words">{s.detail}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeTest}>Close</Button>
+            <Button onClick={() => testMutation.mutate()} disabled={testMutation.isPending} data-testid="button-run-ldap-test">
+              {testMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Run Test
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
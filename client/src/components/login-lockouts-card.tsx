@@ -0,0 +1,108 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LockOpen, ShieldAlert } from "lucide-react";
+
+export interface LoginLockout {
+  id: number;
+  scope: "username" | "ip";
+  key: string;
+  failures: number;
+  lockedUntil: string;
+  user: { id: string; username: string; displayName: string } | null;
+}
+
+export interface LoginLockoutsResponse {
+  settings: {
+    windowMinutes: number;
+    delayAfter: number;
+    lockoutThreshold: number;
+    ipLockoutThreshold: number;
+    lockoutMinutes: number;
+  };
+  lockouts: LoginLockout[];
+}
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+export function LoginLockoutsCard() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<LoginLockoutsResponse>({
+    queryKey: ["/api/admin/lockouts"],
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/lockouts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/lockouts"] });
+      toast({ title: "Lockout cleared" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to clear lockout", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  if (!data) return null;
+  const { settings, lockouts } = data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4" />
+          Login Lockouts ({lockouts.length})
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Sign-ins slow down after {settings.delayAfter} failures. An account is locked for {settings.lockoutMinutes} minutes
+          after {settings.lockoutThreshold} failures within {settings.windowMinutes} minutes, an IP address after{" "}
+          {settings.ipLockoutThreshold}.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {lockouts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No accounts or addresses are locked out.</p>
+        ) : (
+          <div className="space-y-2">
+            {lockouts.map((l) => (
+              <div key={l.id} className="flex items-center justify-between gap-3 p-3 rounded-md border" data-testid={`lockout-row-${l.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-[10px]">{l.scope === "ip" ? "IP address" : "Account"}</Badge>
+                    <p className="text-sm font-medium truncate">
+                      {l.user ? `${l.user.displayName} (@${l.user.username})` : <span className="font-mono">{l.key}</span>}
+                    </p>
+                    {l.scope === "username" && !l.user && (
+                      <span className="text-[10px] text-muted-foreground">unknown username</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {l.failures} failed attempts · locked until {new Date(l.lockedUntil).toLocaleString()}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => unlockMutation.mutate(l.id)}
+                  disabled={unlockMutation.isPending}
+                  data-testid={`button-unlock-${l.id}`}
+                >
+                  <LockOpen className="w-3.5 h-3.5 mr-1.5" />
+                  Unlock
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+const formats = [
+  { value: "madr", label: "MADR", description: "Markdown Any Decision Records" },
+  { value: "nygard", label: "Nygard", description: "Classic adr-tools layout" },
+] as const;
+
+interface MarkdownExportMenuProps {
+  /** Export endpoint; the chosen format is appended as a query parameter */
+  readonly href: string;
+  readonly label: string;
+}
+
+export function MarkdownExportMenu({ href, label }: MarkdownExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-export-markdown">
+          <Download className="w-4 h-4 mr-1" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {formats.map((f) => (
+          <DropdownMenuItem key={f.value} asChild>
+            <a
+              href={`${href}?format=${f.value}`}
+              download
+              className="flex-col items-start gap-0.5 cursor-pointer"
+              data-testid={`link-export-${f.value}`}
+            >
+              <span className="text-sm font-medium">{f.label}</span>
+              <span className="text-xs text-muted-foreground">{f.description}</span>
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,173 @@
+import { forwardRef, useImperativeHandle, useRef, useState, type ComponentProps, type CSSProperties, type ReactNode } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { mentionPattern } from "@shared/schema";
+import type { MentionCandidate } from "@/hooks/use-mention-candidates";
+
+const MAX_SUGGESTIONS = 6;
+
+/** The `@query` being typed just before the caret, if any. */
+export function mentionQueryBefore(text: string): string | null {
+  const match = /(^|[^\w@])@([\w.+@-]*)$/.exec(text);
+  return match ? match[2] : null;
+}
+
+// Prefix matches on the username or a word of the name first, then anything containing the query
+export function filterMentionCandidates(candidates: MentionCandidate[], query: string): MentionCandidate[] {
+  const q = query.toLowerCase();
+  const rank = (c: MentionCandidate) => {
+    const username = c.username.toLowerCase();
+    const name = c.displayName.toLowerCase();
+    if (username.startsWith(q) || name.split(/\s+/).some((word) => word.startsWith(q))) return 0;
+    if (username.includes(q) || name.includes(q)) return 1;
+    return -1;
+  };
+  return candidates
+    .map((c) => ({ c, r: rank(c) }))
+    .filter(({ r }) => r >= 0)
+    .sort((a, b) => a.r - b.r || a.c.username.localeCompare(b.c.username))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ c }) => c);
+}
+
+interface MentionSuggestionsProps {
+  items: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export function MentionSuggestions({ items, activeIndex, onSelect, className, style }: Readonly<MentionSuggestionsProps>) {
+  return (
+    <div
+      role="listbox"
+      className={cn("z-50 w-64 rounded-md border bg-popover p-1 text-popover-foreground shadow-md", className)}
+      style={style}
+      data-testid="mention-suggestions"
+    >
+      {items.map((c, i) => (
+        <button
+          key={c.userId}
+          type="button"
+          role="option"
+          aria-selected={i === activeIndex}
+          className={cn(
+            "flex w-full items-baseline gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+            i === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+          )}
+          // Keep focus (and the caret) in the editor
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(c)}
+          data-testid={`mention-option-${c.username}`}
+        >
+          <span className="truncate">{c.displayName}</span>
+          <span className="truncate text-xs text-muted-foreground">@{c.username}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Comment text with mentions of project members highlighted. */
+export function MentionText({ text, candidates }: Readonly<{ text: string; candidates: MentionCandidate[] }>) {
+  const known = new Set(candidates.map((c) => c.username.toLowerCase()));
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(mentionPattern))) {
+    const start = match.index! + match[1].length;
+    if (!known.has(match[2].toLowerCase())) continue;
+    parts.push(text.slice(last, start));
+    parts.push(
+      <span key={start} className="font-medium text-primary">@{match[2]}</span>
+    );
+    last = start + match[2].length + 1;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+interface MentionTextareaProps extends Omit<ComponentProps<"textarea">, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  candidates: MentionCandidate[];
+  containerClassName?: string;
+}
+
+/** A textarea that suggests project members after `@`. */
+export const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ value, onChange, candidates, containerClassName, onKeyDown, ...props }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    useImperativeHandle(ref, () => textareaRef.current!);
+    const [query, setQuery] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    const items = query === null ? [] : filterMentionCandidates(candidates, query);
+
+    const refresh = (el: HTMLTextAreaElement) => {
+      const next = el.selectionStart === el.selectionEnd ? mentionQueryBefore(el.value.slice(0, el.selectionStart)) : null;
+      if (next !== query) setActiveIndex(0);
+      setQuery(next);
+    };
+
+    const select = (candidate: MentionCandidate) => {
+      const el = textareaRef.current;
+      if (!el || query === null) return;
+      const caret = el.selectionStart;
+      const start = caret - query.length - 1;
+      const inserted = `@${candidate.username} `;
+      onChange(value.slice(0, start) + inserted + value.slice(caret));
+      setQuery(null);
+      requestAnimationFrame(() => {
+        el.focus();
+        el.setSelectionRange(start + inserted.length, start + inserted.length);
+      });
+    };
+
+    return (
+      <div className={cn("relative", containerClassName)}>
+        <Textarea
+          {...props}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            refresh(e.target);
+          }}
+          onSelect={(e) => refresh(e.currentTarget)}
+          onBlur={() => setQuery(null)}
+          onKeyDown={(e) => {
+            if (items.length > 0) {
+              if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                e.preventDefault();
+                const step = e.key === "ArrowDown" ? 1 : -1;
+                setActiveIndex((i) => (i + step + items.length) % items.length);
+                return;
+              }
+              if (e.key === "Enter" || e.key === "Tab") {
+                e.preventDefault();
+                select(items[Math.min(activeIndex, items.length - 1)]);
+                return;
+              }
+              if (e.key === "Escape") {
+                e.preventDefault();
+                setQuery(null);
+                return;
+              }
+            }
+            onKeyDown?.(e);
+          }}
+        />
+        {items.length > 0 && (
+          <MentionSuggestions
+            items={items}
+            activeIndex={Math.min(activeIndex, items.length - 1)}
+            onSelect={select}
+            className="absolute left-0 top-full mt-1"
+          />
+        )}
+      </div>
+    );
+  }
+);
+MentionTextarea.displayName = "MentionTextarea";
@@ -8,22 +8,27 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
-import { Bell, Check } from "lucide-react";
+import { Bell, Check, Settings } from "lucide-react";
 import { useLocation } from "wouter";
+import { useLiveEvents } from "@/hooks/use-live-events";
 import type { Notification } from "@shared/schema";
 
 export function NotificationBell() {
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
 
+  // New notifications arrive over the live stream; poll only while it is down
+  const { connected } = useLiveEvents();
+  const pollInterval = connected ? false : 30000;
+
   const { data: notifications = [] } = useQuery<Notification[]>({
     queryKey: ["/api/notifications", "?limit=10"],
-    refetchInterval: 30000, // Poll every 30 seconds
+    refetchInterval: pollInterval,
   });
 
   const { data: unreadCount } = useQuery<{ count: number }>({
     queryKey: ["/api/notifications/unread-count"],
-    refetchInterval: 30000,
+    refetchInterval: pollInterval,
   });
 
   const markAsReadMutation = useMutation({
@@ -85,17 +90,29 @@ export function NotificationBell() {
       <DropdownMenuContent align="end" className="w-80">
         <div className="flex items-center justify-between px-2 py-1.5">
           <span className="text-sm font-semibold">Notifications</span>
-          {count > 0 && (
+          <div className="flex items-center gap-1">
+            {count > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-auto p-1 text-xs"
+                onClick={() => markAllAsReadMutation.mutate()}
+              >
+                <Check className="w-3 h-3 mr-1" />
+                Mark all as read
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
-              className="h-auto p-1 text-xs"
-              onClick={() => markAllAsReadMutation.mutate()}
+              className="h-auto p-1"
+              onClick={() => navigate("/profile/notifications")}
+              title="Notification settings"
+              data-testid="button-notification-settings"
             >
-              <Check className="w-3 h-3 mr-1" />
-              Mark all as read
+              <Settings className="w-3.5 h-3.5" />
             </Button>
-          )}
+          </div>
         </div>
         <DropdownMenuSeparator />
         {notifications.length === 0 ? (
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectAccess } from "@/hooks/use-project-access";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ProjectGroupGrant, ProjectRoleDefinition } from "@shared/schema";
+import type { UserGroupWithCounts } from "@/components/user-groups-card";
+import { Plus, Trash2, UsersRound } from "lucide-react";
+
+interface ProjectGroupGrantWithGroup extends ProjectGroupGrant {
+  groupName: string;
+  memberCount: number;
+}
+
+interface ProjectGroupsCardProps {
+  readonly projectId: string;
+}
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+export function ProjectGroupsCard({ projectId }: ProjectGroupsCardProps) {
+  const { toast } = useToast();
+  const { can, isAdmin } = useProjectAccess(projectId);
+  const canManage = can("members.manage");
+  const [showAdd, setShowAdd] = useState(false);
+  const [selectedGroupId, setSelectedGroupId] = useState("");
+  const [selectedRole, setSelectedRole] = useState("viewer");
+
+  const { data: grants } = useQuery<ProjectGroupGrantWithGroup[]>({
+    queryKey: ["/api/projects", projectId, "groups"],
+  });
+
+  const { data: roles } = useQuery<ProjectRoleDefinition[]>({
+    queryKey: ["/api/projects", projectId, "roles"],
+  });
+
+  const { data: candidates } = useQuery<UserGroupWithCounts[]>({
+    queryKey: ["/api/projects", projectId, "groups", "candidates"],
+    enabled: canManage,
+  });
+
+  const roleName = (key: string) => roles?.find((r) => r.key === key)?.name ?? key;
+  const assignableRoles = (roles ?? []).filter((r) => isAdmin || r.key !== "admin");
+  const canChange = (role: string) => canManage && (isAdmin || role !== "admin");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "groups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "members"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "access"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/projects/${projectId}/groups`, {
+        groupId: parseInt(selectedGroupId),
+        role: selectedRole,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Group added" });
+      setShowAdd(false);
+      setSelectedGroupId("");
+      setSelectedRole("viewer");
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to add group", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ groupId, role }: { groupId: number; role: string }) => {
+      await apiRequest("PATCH", `/api/projects/${projectId}/groups/${groupId}`, { role });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Group role updated" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to update group role", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (groupId: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/groups/${groupId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Group removed" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to remove group", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <UsersRound className="w-4 h-4" />
+            Groups ({grants?.length ?? 0})
+          </CardTitle>
+          {canManage && (
+            <Button size="sm" variant="outline" onClick={() => setShowAdd(true)} data-testid="button-add-project-group">
+              <Plus className="w-3.5 h-3.5 mr-1.5" />
+              Add Group
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!grants?.length ? (
+          <p className="text-sm text-muted-foreground">No groups have access to this project.</p>
+        ) : (
+          <div className="space-y-2">
+            {grants.map((grant) => (
+              <div
+                key={grant.groupId}
+                className="flex items-center justify-between gap-3 py-2 border-b last:border-0"
+                data-testid={`project-group-row-${grant.groupId}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{grant.groupName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {grant.memberCount} member{grant.memberCount === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canChange(grant.role) ? (
+                    <>
+                      <Select
+                        value={grant.role}
+                        onValueChange={(role) => updateMutation.mutate({ groupId: grant.groupId, role })}
+                      >
+                        <SelectTrigger className="h-7 w-[140px] text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableRoles.map((r) => (
+                            <SelectItem key={r.key} value={r.key}>{r.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        onClick={() => removeMutation.mutate(grant.groupId)}
+                        disabled={removeMutation.isPending}
+                        data-testid={`button-remove-project-group-${grant.groupId}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{roleName(grant.role)}</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showAdd} onOpenChange={setShowAdd}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Group</DialogTitle>
+            <DialogDescription>
+              Everyone in the group gets this role, unless they already hold a higher one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-1.5 block">Group</label>
+              <Select value={selectedGroupId} onValueChange={setSelectedGroupId}>
+                <SelectTrigger data-testid="select-project-group">
+                  <SelectValue placeholder="Select a group..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {(candidates ?? []).length === 0 ? (
+                    <SelectItem value="_none" disabled>
+                      No other groups available
+                    </SelectItem>
+                  ) : (
+                    (candidates ?? []).map((g) => (
+                      <SelectItem key={g.id} value={String(g.id)}>
+                        {g.name} ({g.memberCount})
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1.5 block">Role</label>
+              <Select value={selectedRole} onValueChange={setSelectedRole}>
+                <SelectTrigger data-testid="select-project-group-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map((r) => (
+                    <SelectItem key={r.key} value={r.key}>{r.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAdd(false)}>Cancel</Button>
+            <Button
+              onClick={() => addMutation.mutate()}
+              disabled={!selectedGroupId || addMutation.isPending}
+              data-testid="button-confirm-add-project-group"
+            >
+              {addMutation.isPending ? "Adding..." : "Add Group"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
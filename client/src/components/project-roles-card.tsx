@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  projectPermissionEnum,
+  projectPermissionLabels,
+  type ProjectPermission,
+  type ProjectRoleDefinition,
+} from "@shared/schema";
+import { KeyRound, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface ProjectRolesCardProps {
+  readonly projectId: string;
+  readonly canManage: boolean;
+}
+
+interface RoleDraft {
+  key: string;
+  name: string;
+  description: string;
+  permissions: ProjectPermission[];
+  statusTargets: string[];
+}
+
+const emptyDraft: RoleDraft = { key: "", name: "", description: "", permissions: ["adr.comment"], statusTargets: [] };
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+export function ProjectRolesCard({ projectId, canManage }: ProjectRolesCardProps) {
+  const { toast } = useToast();
+  const { states, getState } = useProjectWorkflow(projectId);
+  // Key of the role being edited; null while creating a new one
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [deleting, setDeleting] = useState<ProjectRoleDefinition | null>(null);
+
+  const { data: roles } = useQuery<ProjectRoleDefinition[]>({
+    queryKey: ["/api/projects", projectId, "roles"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "roles"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "access"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (role: RoleDraft) => {
+      const body = {
+        name: role.name,
+        description: role.description || null,
+        permissions: role.permissions,
+        statusTargets: role.permissions.includes("adr.change_status") ? role.statusTargets : [],
+      };
+      if (editingKey) {
+        await apiRequest("PATCH", `/api/projects/${projectId}/roles/${editingKey}`, body);
+      } else {
+        await apiRequest("POST", `/api/projects/${projectId}/roles`, { ...body, key: role.key });
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingKey ? "Role updated" : "Role created" });
+      setDraft(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to save role", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (key: string) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/roles/${key}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Role deleted" });
+      setDeleting(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to delete role", description: errorMessage(err), variant: "destructive" });
+      setDeleting(null);
+    },
+  });
+
+  const openEditor = (role?: ProjectRoleDefinition) => {
+    setEditingKey(role?.key ?? null);
+    setDraft(role
+      ? {
+          key: role.key,
+          name: role.name,
+          description: role.description ?? "",
+          permissions: role.permissions,
+          statusTargets: role.statusTargets,
+        }
+      : emptyDraft);
+  };
+
+  const togglePermission = (permission: ProjectPermission) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter((p) => p !== permission)
+        : [...prev.permissions, permission],
+    });
+  };
+
+  const toggleTarget = (target: string) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      statusTargets: prev.statusTargets.includes(target)
+        ? prev.statusTargets.filter((t) => t !== target)
+        : [...prev.statusTargets, target],
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            Roles
+          </CardTitle>
+          {canManage && (
+            <Button size="sm" variant="outline" onClick={() => openEditor()} data-testid="button-add-role">
+              <Plus className="w-3.5 h-3.5 mr-1.5" />
+              New Role
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {(roles ?? []).map((role) => (
+            <div
+              key={role.key}
+              className="flex items-start justify-between gap-3 py-2 border-b last:border-0"
+              data-testid={`role-row-${role.key}`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium">{role.name}</p>
+                  {role.builtIn && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Built-in</Badge>
+                  )}
+                </div>
+                {role.description && <p className="text-xs text-muted-foreground">{role.description}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {role.permissions.map((p) => (
+                    <span key={p} className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                      {p === "adr.change_status" && role.statusTargets.length > 0
+                        ? `Change status to ${role.statusTargets.map((t) => getState(t)?.label ?? t).join(", ")}`
+                        : projectPermissionLabels[p]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              {canManage && !role.builtIn && (
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground"
+                    onClick={() => openEditor(role)}
+                    data-testid={`button-edit-role-${role.key}`}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => setDeleting(role)}
+                    data-testid={`button-delete-role-${role.key}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingKey ? "Edit Role" : "New Role"}</DialogTitle>
+            <DialogDescription>
+              Members with this role can view the project and do what is ticked below.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  placeholder="key (e.g. reviewer)"
+                  className="h-8 text-xs font-mono"
+                  value={draft.key}
+                  onChange={(e) => setDraft({ ...draft, key: e.target.value.toLowerCase() })}
+                  disabled={!!editingKey}
+                  data-testid="input-role-key"
+                />
+                <Input
+                  placeholder="Name"
+                  className="h-8 text-xs"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  data-testid="input-role-name"
+                />
+              </div>
+              <Input
+                placeholder="Description (optional)"
+                className="h-8 text-xs"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                data-testid="input-role-description"
+              />
+              <div className="space-y-2">
+                {projectPermissionEnum.map((permission) => (
+                  <div key={permission}>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.permissions.includes(permission)}
+                        onCheckedChange={() => togglePermission(permission)}
+                        data-testid={`checkbox-permission-${permission}`}
+                      />
+                      {projectPermissionLabels[permission]}
+                    </label>
+                    {permission === "adr.change_status" && draft.permissions.includes(permission) && (
+                      <div className="flex items-center gap-1.5 flex-wrap mt-1.5 ml-6">
+                        <span className="text-xs text-muted-foreground">
+                          {draft.statusTargets.length === 0 ? "To any state; limit to:" : "Only to:"}
+                        </span>
+                        {states.map((state) => {
+                          const active = draft.statusTargets.includes(state.key);
+                          return (
+                            <button
+                              key={state.key}
+                              type="button"
+                              onClick={() => toggleTarget(state.key)}
+                              className={cn(
+                                "text-[11px] px-2 py-0.5 rounded-full border transition-colors",
+                                active
+                                  ? "bg-primary text-primary-foreground border-primary"
+                                  : "text-muted-foreground hover:border-primary/50"
+                              )}
+                            >
+                              {state.label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={!draft?.key || !draft?.name || saveMutation.isPending}
+              data-testid="button-save-role"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Role</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the <strong>{deleting?.name}</strong> role? Roles still given to members cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90"
+              onClick={() => deleting && deleteMutation.mutate(deleting.key)}
+              data-testid="button-confirm-delete-role"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,400 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { webhookEventEnum, webhookEventLabels, type WebhookEvent } from "@shared/schema";
+import { Copy, History, Loader2, Plus, RefreshCw, RotateCw, Trash2, Webhook as WebhookIcon } from "lucide-react";
+
+interface SafeWebhook {
+  id: number;
+  projectId: number;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  secretHint: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  event: WebhookEvent;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  durationMs: number | null;
+  lastError: string | null;
+  nextAttemptAt: string;
+  redeliveryOf: number | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+const deliveryStatusStyles: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  delivered: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+};
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+function WebhookDeliveriesDialog({
+  projectId,
+  webhook,
+  onClose,
+}: {
+  projectId: string;
+  webhook: SafeWebhook;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const deliveriesKey = ["/api/projects", projectId, "webhooks", String(webhook.id), "deliveries"];
+  const { data: deliveries, isLoading, refetch, isFetching } = useQuery<WebhookDelivery[]>({
+    queryKey: deliveriesKey,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      await apiRequest("POST", `/api/projects/${projectId}/webhooks/${webhook.id}/deliveries/${deliveryId}/redeliver`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      toast({ title: "Redelivery queued" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to redeliver", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recent Deliveries</DialogTitle>
+          <DialogDescription className="font-mono text-xs break-all">{webhook.url}</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !deliveries || deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing has been sent to this webhook yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {deliveries.map((d) => (
+                <div key={d.id} className="flex items-start justify-between gap-3 p-3 rounded-md border" data-testid={`delivery-row-${d.id}`}>
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <Badge className={`text-[10px] ${deliveryStatusStyles[d.status]}`}>{d.status}</Badge>
+                      <span className="text-sm font-mono">{d.event}</span>
+                      {d.redeliveryOf && (
+                        <span className="text-xs text-muted-foreground">redelivery of #{d.redeliveryOf}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      #{d.id} · {new Date(d.createdAt).toLocaleString()}
+                      {" · "}{d.attempts} attempt{d.attempts === 1 ? "" : "s"}
+                      {d.responseStatus !== null && <> · HTTP {d.responseStatus}</>}
+                      {d.durationMs !== null && <> · {d.durationMs} ms</>}
+                      {d.status === "pending" && d.attempts > 0 && <> · next try {new Date(d.nextAttemptAt).toLocaleTimeString()}</>}
+                    </p>
+                    {d.lastError && d.status !== "delivered" && (
+                      <p className="text-xs text-destructive break-all">{d.lastError}</p>
+                    )}
+                  </div>
+                  {d.status !== "pending" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs flex-shrink-0"
+                      onClick={() => redeliverMutation.mutate(d.id)}
+                      disabled={redeliverMutation.isPending || !webhook.active}
+                      title={webhook.active ? undefined : "Enable the webhook to redeliver"}
+                      data-testid={`button-redeliver-${d.id}`}
+                    >
+                      <RotateCw className="w-3.5 h-3.5 mr-1" />
+                      Redeliver
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ProjectWebhooksCard({ projectId }: { projectId: string }) {
+  const { toast } = useToast();
+  const [showCreate, setShowCreate] = useState(false);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...webhookEventEnum]);
+  const [secret, setSecret] = useState("");
+  const [shownSecret, setShownSecret] = useState<string | null>(null);
+  const [viewingId, setViewingId] = useState<number | null>(null);
+
+  const webhooksKey = ["/api/projects", projectId, "webhooks"];
+  const { data: webhooks = [] } = useQuery<SafeWebhook[]>({ queryKey: webhooksKey });
+  const viewing = webhooks.find((w) => w.id === viewingId);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/webhooks`, {
+        url: url.trim(),
+        events,
+        ...(secret.trim() ? { secret: secret.trim() } : {}),
+      });
+      return res.json() as Promise<SafeWebhook & { secret: string }>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      setShownSecret(created.secret);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to add webhook", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...body }: { id: number; active?: boolean; rotateSecret?: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/projects/${projectId}/webhooks/${id}`, body);
+      return res.json() as Promise<SafeWebhook & { secret?: string }>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      if (updated.secret) {
+        setShownSecret(updated.secret);
+        setShowCreate(true);
+      }
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to update webhook", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to delete webhook", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const closeCreate = () => {
+    setShowCreate(false);
+    setShownSecret(null);
+    setUrl("");
+    setEvents([...webhookEventEnum]);
+    setSecret("");
+  };
+
+  const toggleEvent = (event: WebhookEvent, on: boolean) => {
+    setEvents((current) => (on ? [...current, event] : current.filter((e) => e !== event)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <WebhookIcon className="w-4 h-4" />
+            Webhooks
+          </CardTitle>
+          <Button size="sm" onClick={() => setShowCreate(true)} data-testid="button-create-webhook">
+            <Plus className="w-3.5 h-3.5 mr-1.5" />
+            Add Webhook
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          POST a signed JSON payload to another system whenever something changes in this project.
+          Verify the <span className="font-mono">X-ADR-Signature</span> header with the webhook's secret.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No webhooks yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {webhooks.map((w) => (
+              <div key={w.id} className="flex items-center justify-between gap-3 p-3 rounded-md border" data-testid={`webhook-row-${w.id}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-mono truncate">{w.url}</p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {w.events.length === webhookEventEnum.length
+                      ? "All events"
+                      : w.events.map((e) => webhookEventLabels[e]).join(", ")}
+                    {" · "}secret <span className="font-mono">…{w.secretHint}</span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Switch
+                    checked={w.active}
+                    onCheckedChange={(active) => updateMutation.mutate({ id: w.id, active })}
+                    disabled={updateMutation.isPending}
+                    aria-label="Active"
+                    data-testid={`switch-webhook-active-${w.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    onClick={() => setViewingId(w.id)}
+                    title="Recent deliveries"
+                    data-testid={`button-webhook-deliveries-${w.id}`}
+                  >
+                    <History className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    onClick={() => updateMutation.mutate({ id: w.id, rotateSecret: true })}
+                    disabled={updateMutation.isPending}
+                    title="Rotate secret"
+                    data-testid={`button-rotate-webhook-secret-${w.id}`}
+                  >
+                    <RotateCw className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteMutation.mutate(w.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-webhook-${w.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showCreate} onOpenChange={(open) => { if (!open) closeCreate(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{shownSecret ? "Webhook Secret" : "Add Webhook"}</DialogTitle>
+            <DialogDescription>
+              {shownSecret
+                ? "Copy the secret now. It will not be shown again."
+                : "Deliveries that fail are retried with increasing delays for about half an hour."}
+            </DialogDescription>
+          </DialogHeader>
+          {shownSecret ? (
+            <div className="flex items-center gap-2">
+              <Input readOnly value={shownSecret} className="font-mono text-xs" data-testid="input-webhook-secret" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  navigator.clipboard.writeText(shownSecret);
+                  toast({ title: "Secret copied" });
+                }}
+                data-testid="button-copy-webhook-secret"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">Payload URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  placeholder="https://example.com/hooks/adr"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  data-testid="input-webhook-url"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="space-y-2">
+                  {webhookEventEnum.map((event) => (
+                    <label key={event} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={events.includes(event)}
+                        onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                        data-testid={`checkbox-webhook-event-${event}`}
+                      />
+                      {webhookEventLabels[event]}
+                      <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-secret">Secret</Label>
+                <Input
+                  id="webhook-secret"
+                  placeholder="Leave empty to generate one"
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                  className="font-mono text-xs"
+                  data-testid="input-webhook-custom-secret"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {shownSecret ? (
+              <Button onClick={closeCreate}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeCreate}>Cancel</Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!url.trim() || events.length === 0 || createMutation.isPending}
+                  data-testid="button-confirm-create-webhook"
+                >
+                  {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Add Webhook
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {viewing && (
+        <WebhookDeliveriesDialog projectId={projectId} webhook={viewing} onClose={() => setViewingId(null)} />
+      )}
+    </Card>
+  );
+}
@@ -1,8 +1,10 @@
-import { useEditor, EditorContent } from "@tiptap/react";
+import { useEditor, EditorContent, type Editor } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import Placeholder from "@tiptap/extension-placeholder";
-import { useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
+import { MentionSuggestions, filterMentionCandidates, mentionQueryBefore } from "@/components/mention-suggestions";
+import type { MentionCandidate } from "@/hooks/use-mention-candidates";
 import {
   Bold,
   Italic,
@@ -23,6 +25,16 @@ interface RichTextEditorProps {
   placeholder?: string;
   minHeight?: string;
   disabled?: boolean;
+  // Project members to suggest after `@`; no suggestions when left out
+  mentionCandidates?: MentionCandidate[];
+}
+
+interface MentionState {
+  query: string;
+  from: number;
+  to: number;
+  left: number;
+  top: number;
 }
 
 interface ToolbarButtonProps {
@@ -58,7 +70,29 @@ export function RichTextEditor({
   placeholder = "Start writing...",
   minHeight = "120px",
   disabled = false,
+  mentionCandidates,
 }: Readonly<RichTextEditorProps>) {
+  const [mention, setMention] = useState<MentionState | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  // The editor's callbacks are bound once, so they read the latest props and state through refs
+  const candidatesRef = useRef(mentionCandidates);
+  candidatesRef.current = mentionCandidates;
+  const mentionKeyDownRef = useRef<(event: KeyboardEvent) => boolean>(() => false);
+
+  const updateMention = (ed: Editor) => {
+    const { selection } = ed.state;
+    const { $from } = selection;
+    const query = selection.empty && candidatesRef.current?.length && !$from.parent.type.spec.code
+      ? mentionQueryBefore($from.parent.textBetween(0, $from.parentOffset, undefined, "\ufffc"))
+      : null;
+    if (query === null) {
+      setMention(null);
+      return;
+    }
+    const coords = ed.view.coordsAtPos(selection.from);
+    setMention({ query, from: selection.from - query.length - 1, to: selection.from, left: coords.left, top: coords.bottom });
+  };
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -70,20 +104,55 @@ export function RichTextEditor({
     ],
     content: value,
     editable: !disabled,
+    editorProps: {
+      handleKeyDown: (_view, event) => mentionKeyDownRef.current(event),
+    },
     onUpdate: ({ editor: ed }) => {
       const html = ed.getHTML();
       // Treat empty editor as empty string so zod .min(1) validation works correctly
       onChange(html === "<p></p>" ? "" : html);
+      updateMention(ed);
     },
+    onSelectionUpdate: ({ editor: ed }) => updateMention(ed),
+    onBlur: () => setMention(null),
   });
 
+  useEffect(() => setMentionIndex(0), [mention?.query]);
+
+  const mentionItems = mention ? filterMentionCandidates(mentionCandidates ?? [], mention.query) : [];
+  const activeMention = Math.min(mentionIndex, Math.max(mentionItems.length - 1, 0));
+
+  const selectMention = (candidate: MentionCandidate) => {
+    if (!editor || !mention) return;
+    editor.chain().focus().insertContentAt({ from: mention.from, to: mention.to }, `@${candidate.username} `).run();
+    setMention(null);
+  };
+
+  mentionKeyDownRef.current = (event) => {
+    if (mentionItems.length === 0) return false;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setMentionIndex((activeMention + step + mentionItems.length) % mentionItems.length);
+      return true;
+    }
+    if (event.key === "Enter" || event.key === "Tab") {
+      selectMention(mentionItems[activeMention]);
+      return true;
+    }
+    if (event.key === "Escape") {
+      setMention(null);
+      return true;
+    }
+    return false;
+  };
+
   // Sync external value changes (e.g. form reset or edit pre-population)
   useEffect(() => {
     if (!editor) return;
     const current = editor.getHTML();
     const incoming = value === "" ? "<p></p>" : value;
     if (current !== incoming) {
-      editor.commands.setContent(incoming, false);
+      editor.commands.setContent(incoming, { emitUpdate: false });
     }
   }, [value, editor]);
 
@@ -199,6 +268,16 @@ export function RichTextEditor({
         )}
         style={{ minHeight }}
       />
+
+      {mention && mentionItems.length > 0 && (
+        <MentionSuggestions
+          items={mentionItems}
+          activeIndex={activeMention}
+          onSelect={selectMention}
+          className="fixed"
+          style={{ left: mention.left, top: mention.top + 4 }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,257 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SafeUser } from "@shared/schema";
+import { Loader2, LogOut, Monitor, Smartphone, X } from "lucide-react";
+
+export interface SessionInfo {
+  id: string;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  current: boolean;
+}
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/curl\//, "curl"],
+];
+
+const systems: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// Good enough to recognise your own devices; not a full user-agent parser
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = browsers.find(([re]) => re.test(userAgent))?.[1];
+  const system = systems.find(([re]) => re.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? userAgent.slice(0, 60);
+}
+
+function SessionRow({ session, onRevoke, revoking }: {
+  session: SessionInfo;
+  onRevoke?: () => void;
+  revoking?: boolean;
+}) {
+  const mobile = /Mobile|Android|iPhone|iPad/.test(session.userAgent ?? "");
+  const Icon = mobile ? Smartphone : Monitor;
+  return (
+    <div className="flex items-center justify-between gap-3 py-2.5" data-testid={`session-${session.id}`}>
+      <div className="flex items-center gap-3 min-w-0">
+        <Icon className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium truncate">{describeUserAgent(session.userAgent)}</p>
+            {session.current && (
+              <Badge className="text-[10px] bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                This device
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {session.ip ?? "Unknown IP"}
+            {session.lastSeenAt && ` · Active ${new Date(session.lastSeenAt).toLocaleString()}`}
+            {session.createdAt && ` · Signed in ${new Date(session.createdAt).toLocaleDateString()}`}
+          </p>
+        </div>
+      </div>
+      {onRevoke && !session.current && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-destructive flex-shrink-0"
+          title="Sign out this session"
+          onClick={onRevoke}
+          disabled={revoking}
+          data-testid={`button-revoke-session-${session.id}`}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function SessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to sign out session", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/auth/sessions");
+      return res.json() as Promise<{ sessionsRevoked: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Other sessions signed out",
+        description: `${data.sessionsRevoked} session${data.sessionsRevoked === 1 ? "" : "s"} ended`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to sign out other sessions", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const others = sessions?.filter((s) => !s.current).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <Monitor className="w-4 h-4" />
+            Active Sessions
+          </CardTitle>
+          {others > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+              data-testid="button-revoke-other-sessions"
+            >
+              {revokeOthersMutation.isPending
+                ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                : <LogOut className="w-3.5 h-3.5 mr-1.5" />}
+              Sign Out Other Sessions
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !sessions?.length ? (
+          <p className="text-xs text-muted-foreground">No active sessions.</p>
+        ) : (
+          <div className="divide-y" data-testid="list-sessions">
+            {sessions.map((s) => (
+              <SessionRow
+                key={s.id}
+                session={s}
+                onRevoke={() => revokeMutation.mutate(s.id)}
+                revoking={revokeMutation.isPending && revokeMutation.variables === s.id}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Admin view of another user's sessions with a force sign-out. */
+export function UserSessionsDialog({ user, onClose }: { user: SafeUser | null; onClose: () => void }) {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/users", user?.id, "sessions"],
+    enabled: !!user,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/logout`);
+      return res.json() as Promise<{ sessionsRevoked: number }>;
+    },
+    onSuccess: (data, userId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId, "sessions"] });
+      toast({
+        title: "User signed out",
+        description: `${data.sessionsRevoked} session${data.sessionsRevoked === 1 ? "" : "s"} ended`,
+      });
+      onClose();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to sign out user", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            Browsers where <strong>{user?.displayName}</strong> (@{user?.username}) is signed in. Signing them out
+            everywhere ends all of these; API tokens are not affected.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !sessions?.length ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No active sessions.</p>
+        ) : (
+          <div className="divide-y max-h-80 overflow-y-auto" data-testid="list-user-sessions">
+            {sessions.map((s) => <SessionRow key={s.id} session={s} />)}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button
+            variant="destructive"
+            onClick={() => user && logoutMutation.mutate(user.id)}
+            disabled={!sessions?.length || logoutMutation.isPending}
+            data-testid="button-force-logout"
+          >
+            {logoutMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Sign Out Everywhere
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,38 +1,64 @@
-import { statusLabels } from "@shared/schema";
+import type { WorkflowColor } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
 
-const statusConfig: Record<string, { pill: string; dot: string }> = {
-  draft: {
+export const workflowColorStyles: Record<WorkflowColor, { pill: string; dot: string; chart: string }> = {
+  zinc: {
     pill: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800/70 dark:text-zinc-400",
     dot: "bg-zinc-400 dark:bg-zinc-500",
+    chart: "#a1a1aa",
   },
-  proposed: {
+  blue: {
     pill: "bg-blue-50 text-blue-700 dark:bg-blue-950/60 dark:text-blue-400",
     dot: "bg-blue-500",
+    chart: "#3b82f6",
   },
-  in_review: {
+  amber: {
     pill: "bg-amber-50 text-amber-700 dark:bg-amber-950/60 dark:text-amber-400",
     dot: "bg-amber-500",
+    chart: "#f59e0b",
   },
-  accepted: {
+  emerald: {
     pill: "bg-emerald-50 text-emerald-700 dark:bg-emerald-950/60 dark:text-emerald-400",
     dot: "bg-emerald-500",
+    chart: "#10b981",
   },
-  deprecated: {
+  red: {
     pill: "bg-red-50 text-red-700 dark:bg-red-950/60 dark:text-red-400",
     dot: "bg-red-500",
+    chart: "#ef4444",
   },
-  superseded: {
+  violet: {
     pill: "bg-violet-50 text-violet-700 dark:bg-violet-950/60 dark:text-violet-400",
     dot: "bg-violet-500",
+    chart: "#8b5cf6",
+  },
+  sky: {
+    pill: "bg-sky-50 text-sky-700 dark:bg-sky-950/60 dark:text-sky-400",
+    dot: "bg-sky-500",
+    chart: "#0ea5e9",
+  },
+  orange: {
+    pill: "bg-orange-50 text-orange-700 dark:bg-orange-950/60 dark:text-orange-400",
+    dot: "bg-orange-500",
+    chart: "#f97316",
+  },
+  rose: {
+    pill: "bg-rose-50 text-rose-700 dark:bg-rose-950/60 dark:text-rose-400",
+    dot: "bg-rose-500",
+    chart: "#f43f5e",
+  },
+  teal: {
+    pill: "bg-teal-50 text-teal-700 dark:bg-teal-950/60 dark:text-teal-400",
+    dot: "bg-teal-500",
+    chart: "#14b8a6",
   },
 };
 
-export function StatusBadge({ status }: { status: string }) {
-  const config = statusConfig[status] ?? {
-    pill: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800/70 dark:text-zinc-400",
-    dot: "bg-zinc-400",
-  };
+export function StatusBadge({ status, projectId }: { status: string; projectId?: string | number }) {
+  const { getState } = useProjectWorkflow(projectId);
+  const state = getState(status);
+  const config = workflowColorStyles[state?.color ?? "zinc"];
 
   return (
     <span
@@ -43,7 +69,7 @@ export function StatusBadge({ status }: { status: string }) {
       data-testid={`badge-status-${status}`}
     >
       <span className={cn("w-1.5 h-1.5 rounded-full flex-shrink-0", config.dot)} />
-      {statusLabels[status] || status}
+      {state?.label || status}
     </span>
   );
 }
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+
+interface TwoFactorStatus {
+  available: boolean;
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+type DialogMode = "enable" | "disable" | "regenerate";
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  return (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={value} onChange={onChange} data-testid="input-two-factor-code">
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map((i) => <InputOTPSlot key={i} index={i} />)}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+}
+
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<DialogMode | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to start setup", description: errorMessage(err), variant: "destructive" });
+      setMode(null);
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const url = mode === "enable" ? "/api/auth/2fa/enable" : "/api/auth/2fa/recovery-codes";
+      const res = await apiRequest("POST", url, { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      refresh();
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      if (mode === "enable") toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: (err: Error) => {
+      setCode("");
+      toast({ title: "Verification failed", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      refresh();
+      closeDialog();
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: (err: Error) => {
+      setCode("");
+      toast({ title: "Failed to disable", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  if (!status) return null;
+
+  const openDialog = (next: DialogMode) => {
+    setMode(next);
+    setCode("");
+    setRecoveryCodes(null);
+    if (next === "enable") setupMutation.mutate();
+  };
+
+  const closeDialog = () => {
+    setMode(null);
+    setCode("");
+    setRecoveryCodes(null);
+    setupMutation.reset();
+  };
+
+  const setup = setupMutation.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            Two-Factor Authentication
+            {status.enabled && (
+              <Badge className="text-[10px] bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                Enabled
+              </Badge>
+            )}
+          </CardTitle>
+          {status.available && (
+            status.enabled ? (
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" onClick={() => openDialog("regenerate")} data-testid="button-regenerate-recovery-codes">
+                  New Recovery Codes
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => openDialog("disable")} data-testid="button-disable-two-factor">
+                  Disable
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" onClick={() => openDialog("enable")} data-testid="button-enable-two-factor">
+                Enable
+              </Button>
+            )
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="text-xs text-muted-foreground">
+        {!status.available ? (
+          <p>Your account signs in with single sign-on; two-factor authentication is handled by your identity provider.</p>
+        ) : status.enabled ? (
+          <p>
+            Enabled {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : ""} · {status.recoveryCodesRemaining} recovery
+            code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            {status.recoveryCodesRemaining <= 2 && " — generate new ones before you run out."}
+          </p>
+        ) : (
+          <p>Protect your account with a one-time code from an authenticator app in addition to your password.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {recoveryCodes
+                ? "Save Your Recovery Codes"
+                : mode === "enable"
+                  ? "Set Up Two-Factor Authentication"
+                  : mode === "disable"
+                    ? "Disable Two-Factor Authentication"
+                    : "Generate New Recovery Codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {recoveryCodes
+                ? "Each code signs you in once if you lose your authenticator. They will not be shown again."
+                : mode === "enable"
+                  ? "Scan the QR code with your authenticator app, then enter the 6-digit code it shows."
+                  : mode === "disable"
+                    ? "Enter a code from your authenticator app or one of your recovery codes."
+                    : "Your existing recovery codes stop working. Enter a code from your authenticator app to continue."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {recoveryCodes ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2 rounded-md border p-3 font-mono text-sm" data-testid="list-recovery-codes">
+                {recoveryCodes.map((c) => <span key={c}>{c}</span>)}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  navigator.clipboard.writeText(recoveryCodes.join("\n"));
+                  toast({ title: "Recovery codes copied" });
+                }}
+                data-testid="button-copy-recovery-codes"
+              >
+                <Copy className="w-3.5 h-3.5 mr-1.5" />
+                Copy
+              </Button>
+            </div>
+          ) : mode === "enable" ? (
+            setup ? (
+              <div className="space-y-4">
+                <div className="flex justify-center">
+                  <img src={setup.qrCode} alt="Authenticator QR code" className="w-44 h-44" data-testid="img-two-factor-qr" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Can't scan? Enter this key manually</Label>
+                  <Input readOnly value={setup.secret} className="font-mono text-xs" data-testid="input-two-factor-secret" />
+                </div>
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+            ) : (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            )
+          ) : mode === "disable" ? (
+            <Input
+              placeholder="123456 or xxxxx-xxxxx"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="font-mono"
+              data-testid="input-disable-two-factor-code"
+            />
+          ) : (
+            <CodeInput value={code} onChange={setCode} />
+          )}
+
+          <DialogFooter>
+            {recoveryCodes ? (
+              <Button onClick={closeDialog} data-testid="button-recovery-codes-done">Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                {mode === "disable" ? (
+                  <Button
+                    variant="destructive"
+                    onClick={() => disableMutation.mutate()}
+                    disabled={!code.trim() || disableMutation.isPending}
+                    data-testid="button-confirm-disable-two-factor"
+                  >
+                    {disableMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Disable
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => confirmMutation.mutate()}
+                    disabled={code.length < 6 || confirmMutation.isPending || (mode === "enable" && !setup)}
+                    data-testid="button-confirm-two-factor"
+                  >
+                    {confirmMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {mode === "enable" ? "Verify & Enable" : "Generate Codes"}
+                  </Button>
+                )}
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SafeUser, UserGroup } from "@shared/schema";
+import { Pencil, Plus, Trash2, UsersRound, X } from "lucide-react";
+
+export interface UserGroupWithCounts extends UserGroup {
+  memberCount: number;
+  projectCount: number;
+}
+
+interface UserGroupDetail extends UserGroup {
+  members: { id: string; username: string; displayName: string; active: boolean; addedAt: string }[];
+  projects: { id: number; projectId: number; projectName: string; projectKey: string; role: string }[];
+}
+
+interface GroupDraft {
+  id: number | null;
+  name: string;
+  description: string;
+}
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+function GroupMembersDialog({ groupId, users, onClose }: {
+  groupId: number | null;
+  users: SafeUser[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [selectedUserId, setSelectedUserId] = useState("");
+
+  const { data: group, isLoading } = useQuery<UserGroupDetail>({
+    queryKey: ["/api/groups", groupId],
+    enabled: groupId !== null,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/groups/${groupId}/members`, { userIds: [userId] });
+    },
+    onSuccess: () => {
+      invalidate();
+      setSelectedUserId("");
+      toast({ title: "Member added" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to add member", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/groups/${groupId}/members/${userId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Member removed" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to remove member", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const memberIds = new Set(group?.members.map((m) => m.id));
+  const candidates = users.filter((u) => u.active && !memberIds.has(u.id));
+
+  return (
+    <Dialog open={groupId !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{group?.name ?? "Group"}</DialogTitle>
+          <DialogDescription>
+            Members get the group's role on each project below, alongside any role they hold directly.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !group ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {group.projects.length > 0 && (
+              <div className="flex flex-wrap gap-1.5" data-testid="list-group-projects">
+                {group.projects.map((p) => (
+                  <Badge key={p.id} variant="secondary" className="text-[11px]">
+                    {p.projectKey} · {p.role}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                <SelectTrigger className="h-8 text-xs" data-testid="select-group-member">
+                  <SelectValue placeholder="Add a user..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>{u.displayName} (@{u.username})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                className="h-8"
+                onClick={() => addMutation.mutate(selectedUserId)}
+                disabled={!selectedUserId || addMutation.isPending}
+                data-testid="button-add-group-member"
+              >
+                Add
+              </Button>
+            </div>
+            {group.members.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-4">No members yet.</p>
+            ) : (
+              <div className="divide-y max-h-72 overflow-y-auto" data-testid="list-group-members">
+                {group.members.map((m) => (
+                  <div key={m.id} className="flex items-center justify-between py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{m.displayName}</p>
+                      <p className="text-xs text-muted-foreground">@{m.username}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeMutation.mutate(m.id)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-group-member-${m.id}`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function UserGroupsCard({ users }: { users: SafeUser[] }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<GroupDraft | null>(null);
+  const [deleting, setDeleting] = useState<UserGroupWithCounts | null>(null);
+  const [openGroupId, setOpenGroupId] = useState<number | null>(null);
+
+  const { data: groups, isLoading } = useQuery<UserGroupWithCounts[]>({
+    queryKey: ["/api/groups"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (group: GroupDraft) => {
+      const body = { name: group.name, description: group.description || null };
+      if (group.id) {
+        await apiRequest("PATCH", `/api/groups/${group.id}`, body);
+      } else {
+        await apiRequest("POST", "/api/groups", body);
+      }
+    },
+    onSuccess: (_data, group) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+      toast({ title: group.id ? "Group updated" : "Group created" });
+      setDraft(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to save group", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/groups/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+      toast({ title: "Group deleted" });
+      setDeleting(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to delete group", description: errorMessage(err), variant: "destructive" });
+      setDeleting(null);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <UsersRound className="w-4 h-4" />
+            Groups ({groups?.length || 0})
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setDraft({ id: null, name: "", description: "" })}
+            data-testid="button-add-group"
+          >
+            <Plus className="w-3.5 h-3.5 mr-1.5" />
+            New Group
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !groups?.length ? (
+          <p className="text-xs text-muted-foreground">
+            No groups yet. Groups let you give a whole team a role on a project at once.
+          </p>
+        ) : (
+          <div className="divide-y" data-testid="list-groups">
+            {groups.map((group) => (
+              <div key={group.id} className="flex items-center justify-between gap-3 py-2.5" data-testid={`group-row-${group.id}`}>
+                <button
+                  type="button"
+                  className="min-w-0 text-left"
+                  onClick={() => setOpenGroupId(group.id)}
+                  data-testid={`button-open-group-${group.id}`}
+                >
+                  <p className="text-sm font-medium truncate hover:underline">{group.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {group.memberCount} member{group.memberCount === 1 ? "" : "s"}
+                    {" · "}
+                    {group.projectCount} project{group.projectCount === 1 ? "" : "s"}
+                    {group.description && ` · ${group.description}`}
+                  </p>
+                </button>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground"
+                    onClick={() => setDraft({ id: group.id, name: group.name, description: group.description ?? "" })}
+                    data-testid={`button-edit-group-${group.id}`}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => setDeleting(group)}
+                    data-testid={`button-delete-group-${group.id}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Group" : "New Group"}</DialogTitle>
+            <DialogDescription>Give the group a role on projects from each project's settings.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-2">
+              <Input
+                placeholder="Name (e.g. Payments Team)"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                data-testid="input-group-name"
+              />
+              <Input
+                placeholder="Description (optional)"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                data-testid="input-group-description"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || saveMutation.isPending}
+              data-testid="button-save-group"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Group"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Group</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{deleting?.name}</strong>? Its members lose any project access they only had through
+              this group.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              data-testid="button-confirm-delete-group"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <GroupMembersDialog groupId={openGroupId} users={users} onClose={() => setOpenGroupId(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge, workflowColorStyles } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  defaultWorkflowStates,
+  workflowColorOptions,
+  workflowCategoryEnum,
+  workflowCategoryLabels,
+  type WorkflowState,
+} from "@shared/schema";
+import { GitBranch, Plus, Trash2, ArrowRight, RotateCcw } from "lucide-react";
+
+interface WorkflowEditorProps {
+  readonly projectId: string;
+  readonly canManage: boolean;
+}
+
+export function WorkflowEditor({ projectId, canManage }: WorkflowEditorProps) {
+  const { toast } = useToast();
+  const { states } = useProjectWorkflow(projectId);
+  const [draft, setDraft] = useState<WorkflowState[] | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: WorkflowState[]) => {
+      await apiRequest("PUT", `/api/projects/${projectId}/workflow`, { states: next });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "workflow"] });
+      toast({ title: "Workflow saved" });
+      setDraft(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to save workflow", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const updateState = (index: number, patch: Partial<WorkflowState>) => {
+    setDraft((prev) => prev && prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const renameKey = (index: number, key: string) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const oldKey = prev[index].key;
+      return prev.map((s, i) => ({
+        ...s,
+        key: i === index ? key : s.key,
+        transitions: s.transitions.map((t) => (t === oldKey ? key : t)),
+      }));
+    });
+  };
+
+  const removeState = (index: number) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const removed = prev[index].key;
+      return prev
+        .filter((_, i) => i !== index)
+        .map((s) => ({ ...s, transitions: s.transitions.filter((t) => t !== removed) }));
+    });
+  };
+
+  const toggleTransition = (index: number, target: string) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      return prev.map((s, i) => {
+        if (i !== index) return s;
+        const transitions = s.transitions.includes(target)
+          ? s.transitions.filter((t) => t !== target)
+          : [...s.transitions, target];
+        return { ...s, transitions };
+      });
+    });
+  };
+
+  const addState = () => {
+    setDraft((prev) => [
+      ...(prev ?? []),
+      { key: "", label: "", color: "zinc", isTerminal: false, category: "open", transitions: [] },
+    ]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <GitBranch className="w-4 h-4" />
+            Status Workflow
+          </CardTitle>
+          {canManage && !draft && (
+            <Button size="sm" variant="outline" onClick={() => setDraft(states)} data-testid="button-edit-workflow">
+              Edit Workflow
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!draft ? (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground mb-3">
+              New ADRs start in the first state. Terminal states have no outgoing transitions.
+              Moving an ADR to an accepted state requires the review quorum.
+            </p>
+            {states.map((state) => (
+              <div
+                key={state.key}
+                className="flex items-center gap-2 flex-wrap py-1.5 border-b last:border-0"
+                data-testid={`workflow-state-${state.key}`}
+              >
+                <div className="w-32 flex-shrink-0">
+                  <StatusBadge status={state.key} projectId={projectId} />
+                </div>
+                {state.category === "accepted" && (
+                  <span className="text-xs text-muted-foreground italic">accepted</span>
+                )}
+                {state.isTerminal ? (
+                  <span className="text-xs text-muted-foreground italic">terminal</span>
+                ) : (
+                  <>
+                    <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" />
+                    {state.transitions.map((t) => (
+                      <StatusBadge key={t} status={t} projectId={projectId} />
+                    ))}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {draft.map((state, index) => (
+              <div key={index} className="rounded-md border p-3 space-y-3" data-testid={`workflow-edit-state-${index}`}>
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_120px_auto] gap-2 items-center">
+                  <Input
+                    placeholder="key (e.g. rejected)"
+                    className="h-8 text-xs font-mono"
+                    value={state.key}
+                    onChange={(e) => renameKey(index, e.target.value.toLowerCase())}
+                    data-testid={`input-state-key-${index}`}
+                  />
+                  <Input
+                    placeholder="Label"
+                    className="h-8 text-xs"
+                    value={state.label}
+                    onChange={(e) => updateState(index, { label: e.target.value })}
+                    data-testid={`input-state-label-${index}`}
+                  />
+                  <Select
+                    value={state.color}
+                    onValueChange={(color) => updateState(index, { color: color as WorkflowState["color"] })}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workflowColorOptions.map((c) => (
+                        <SelectItem key={c} value={c}>
+                          <span className="flex items-center gap-2 capitalize">
+                            <span className={cn("w-2 h-2 rounded-full", workflowColorStyles[c].dot)} />
+                            {c}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeState(index)}
+                    disabled={draft.length === 1}
+                    data-testid={`button-remove-state-${index}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-4 flex-wrap">
+                  <label className="flex items-center gap-2 text-xs">
+                    <Checkbox
+                      checked={state.isTerminal}
+                      onCheckedChange={(checked) =>
+                        updateState(index, {
+                          isTerminal: checked === true,
+                          transitions: checked === true ? [] : state.transitions,
+                        })
+                      }
+                    />
+                    Terminal
+                  </label>
+                  <Select
+                    value={state.category}
+                    onValueChange={(category) => updateState(index, { category: category as WorkflowState["category"] })}
+                  >
+                    <SelectTrigger className="h-7 w-28 text-xs" data-testid={`select-state-category-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workflowCategoryEnum.map((c) => (
+                        <SelectItem key={c} value={c}>{workflowCategoryLabels[c]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!state.isTerminal && (
+                    <div className="flex items-center gap-1.5 flex-wrap">
+                      <span className="text-xs text-muted-foreground">Can move to:</span>
+                      {draft
+                        .filter((other) => other.key && other.key !== state.key)
+                        .map((other) => {
+                          const active = state.transitions.includes(other.key);
+                          return (
+                            <button
+                              key={other.key}
+                              type="button"
+                              onClick={() => toggleTransition(index, other.key)}
+                              className={cn(
+                                "text-[11px] px-2 py-0.5 rounded-full border transition-colors",
+                                active
+                                  ? "bg-primary text-primary-foreground border-primary"
+                                  : "text-muted-foreground hover:border-primary/50"
+                              )}
+                            >
+                              {other.label || other.key}
+                            </button>
+                          );
+                        })}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={addState} data-testid="button-add-state">
+                  <Plus className="w-3.5 h-3.5 mr-1.5" />
+                  Add State
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setDraft(defaultWorkflowStates)}>
+                  <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+                  Reset to Default
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => saveMutation.mutate(draft)}
+                  disabled={saveMutation.isPending || draft.some((s) => !s.key || !s.label)}
+                  data-testid="button-save-workflow"
+                >
+                  {saveMutation.isPending ? "Saving..." : "Save Workflow"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,14 +2,16 @@ import { createContext, useContext, type ReactNode } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { User } from "@shared/schema";
+import type { SafeUser } from "@shared/schema";
 
-type SafeUser = Omit<User, "password">;
+// Returned instead of the user when the account has two-factor authentication enabled
+type LoginResponse = SafeUser | { twoFactorRequired: true };
 
 interface AuthContextType {
   user: SafeUser | null;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
+  verifyTwoFactor: (code: string) => Promise<void>;
   register: (username: string, password: string, displayName: string) => Promise<void>;
   logout: () => Promise<void>;
 }
@@ -27,11 +29,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const loginMutation = useMutation({
-    mutationFn: async ({ username, password }: { username: string; password: string }) => {
-      const res = await apiRequest("POST", "/api/auth/login", { username, password });
-      return res.json();
+    mutationFn: async (body: { username: string; password: string } | { code: string }) => {
+      const res = await apiRequest("POST", "/api/auth/login", body);
+      return res.json() as Promise<LoginResponse>;
     },
     onSuccess: (data) => {
+      if ("twoFactorRequired" in data) return;
       queryClient.setQueryData(["/api/auth/me"], data);
       toast({ title: `Welcome back, ${data.displayName}!` });
     },
@@ -60,7 +63,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const login = async (username: string, password: string) => {
-    await loginMutation.mutateAsync({ username, password });
+    const data = await loginMutation.mutateAsync({ username, password });
+    return { twoFactorRequired: "twoFactorRequired" in data };
+  };
+
+  // Answers the challenge the server stored in the session after the password step
+  const verifyTwoFactor = async (code: string) => {
+    await loginMutation.mutateAsync({ code });
   };
 
   const register = async (username: string, password: string, displayName: string) => {
@@ -72,7 +81,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user: user ?? null, isLoading, login, register, logout }}>
+    <AuthContext.Provider value={{ user: user ?? null, isLoading, login, verifyTwoFactor, register, logout }}>
       {children}
     </AuthContext.Provider>
   );
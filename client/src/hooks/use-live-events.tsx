@@ -0,0 +1,121 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { useLocation } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import type { Adr, LiveEvent, Notification } from "@shared/schema";
+
+// Wait before reopening a stream the server refused, e.g. after a deploy
+const RECONNECT_MS = 30 * 1000;
+
+const LiveEventsContext = createContext<{ connected: boolean }>({ connected: false });
+
+function applyNotification(notification: Notification) {
+  queryClient.setQueryData<Notification[]>(["/api/notifications", "?limit=10"], (old) =>
+    old && [notification, ...old.filter((n) => n.id !== notification.id)].slice(0, 10)
+  );
+  queryClient.setQueryData<{ count: number }>(["/api/notifications/unread-count"], (old) =>
+    old && { count: old.count + 1 }
+  );
+}
+
+function applyAdrChange(event: Extract<LiveEvent, { type: "adr" }>) {
+  const projectId = String(event.projectId);
+  const adrId = String(event.adrId);
+  const listKey = ["/api/projects", projectId, "adrs"];
+
+  switch (event.change) {
+    case "created":
+      queryClient.invalidateQueries({ queryKey: listKey, exact: true });
+      break;
+    case "updated":
+    case "status_changed":
+    case "archived": {
+      const summary = event.adr;
+      if (summary) {
+        // The project list leaves out archived ADRs
+        queryClient.setQueryData<Adr[]>(listKey, (old) =>
+          old && (summary.archived
+            ? old.filter((a) => a.id !== summary.id)
+            : old.map((a) => (a.id === summary.id ? { ...a, ...summary } : a)))
+        );
+      } else {
+        queryClient.invalidateQueries({ queryKey: listKey, exact: true });
+      }
+      // The detail page, its versions and its review state
+      queryClient.invalidateQueries({ queryKey: [...listKey, adrId] });
+      break;
+    }
+    case "comment":
+      queryClient.invalidateQueries({ queryKey: [...listKey, adrId, "comments"] });
+      break;
+    case "review":
+      queryClient.invalidateQueries({ queryKey: [...listKey, adrId, "reviews"] });
+      break;
+    case "relation":
+      queryClient.invalidateQueries({ queryKey: [...listKey, adrId, "relations"] });
+      break;
+  }
+  if (event.change !== "comment" && event.change !== "review") {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "graph"] });
+  }
+}
+
+/**
+ * Keeps one Server-Sent Events stream open for the signed-in user, following
+ * the project in the URL, and applies what it receives to the query cache.
+ * `connected` is false whenever the stream is down, so callers can poll.
+ */
+export function LiveEventsProvider({ children }: { children: ReactNode }) {
+  const [location] = useLocation();
+  const projectId = /^\/projects\/(\d+)/.exec(location)?.[1] ?? null;
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let missedEvents = false;
+
+    const open = () => {
+      source = new EventSource(projectId ? `/api/events?projectId=${projectId}` : "/api/events", {
+        withCredentials: true,
+      });
+      source.addEventListener("ready", () => {
+        setConnected(true);
+        // Catch up on anything that happened while the stream was down
+        if (missedEvents) {
+          queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+          if (projectId) queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+        }
+      });
+      source.addEventListener("notification", (e) => {
+        const event = JSON.parse((e as MessageEvent).data) as Extract<LiveEvent, { type: "notification" }>;
+        applyNotification(event.notification);
+      });
+      source.addEventListener("adr", (e) => {
+        applyAdrChange(JSON.parse((e as MessageEvent).data) as Extract<LiveEvent, { type: "adr" }>);
+      });
+      source.onerror = () => {
+        setConnected(false);
+        missedEvents = true;
+        // The browser retries dropped streams itself, but not refused ones
+        if (source?.readyState === EventSource.CLOSED) {
+          retry = setTimeout(open, RECONNECT_MS);
+        }
+      };
+    };
+
+    open();
+    return () => {
+      clearTimeout(retry);
+      source?.close();
+      setConnected(false);
+    };
+  }, [projectId]);
+
+  return <LiveEventsContext.Provider value={{ connected }}>{children}</LiveEventsContext.Provider>;
+}
+
+export function useLiveEvents() {
+  return useContext(LiveEventsContext);
+}
@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { isMentionableUsername } from "@shared/schema";
+
+export interface MentionCandidate {
+  userId: string;
+  username: string;
+  displayName: string;
+}
+
+interface ProjectMemberEntry {
+  userId: string;
+  user: { username: string; displayName: string };
+}
+
+/**
+ * Project members who can be @mentioned, for mention autocomplete.
+ * Shares its query with the member lists elsewhere on the page.
+ */
+export function useMentionCandidates(projectId?: string | number | null): MentionCandidate[] {
+  const { data } = useQuery<ProjectMemberEntry[]>({
+    queryKey: ["/api/projects", String(projectId), "members"],
+    enabled: !!projectId,
+  });
+
+  return (data ?? [])
+    .filter((m) => isMentionableUsername(m.user.username))
+    .map((m) => ({ userId: m.userId, username: m.user.username, displayName: m.user.displayName }));
+}
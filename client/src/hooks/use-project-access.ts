@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  hasProjectPermission,
+  canMoveToStatus,
+  type ProjectAccess,
+  type ProjectPermission,
+} from "@shared/schema";
+
+/**
+ * Loads what the signed-in user may do in a project. Everything is denied
+ * while loading, so actions appear once the role is known rather than flicker.
+ */
+export function useProjectAccess(projectId?: string | number | null) {
+  const { data, isLoading } = useQuery<ProjectAccess>({
+    queryKey: ["/api/projects", String(projectId), "access"],
+    enabled: !!projectId,
+  });
+
+  const can = (permission: ProjectPermission) => hasProjectPermission(data, permission);
+  const canMoveTo = (status: string) => canMoveToStatus(data, status);
+
+  return { access: data, isAdmin: !!data?.isAdmin, can, canMoveTo, isLoading };
+}
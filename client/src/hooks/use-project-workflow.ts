@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultWorkflowStates, type WorkflowState } from "@shared/schema";
+
+/**
+ * Loads the status workflow for a project. Falls back to the default
+ * workflow while loading or when no project is given.
+ */
+export function useProjectWorkflow(projectId?: string | number | null) {
+  const { data, isLoading } = useQuery<WorkflowState[]>({
+    queryKey: ["/api/projects", String(projectId), "workflow"],
+    enabled: !!projectId,
+  });
+
+  const states = data ?? defaultWorkflowStates;
+  const getState = (key: string) => states.find((s) => s.key === key);
+
+  return { states, getState, isLoading };
+}
@@ -24,13 +24,14 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useMentionCandidates } from "@/hooks/use-mention-candidates";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { tagOptions, teamOptions } from "@shared/schema";
 import { ArrowLeft, X } from "lucide-react";
 
 const createAdrSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Max 200 characters"),
-  status: z.string().default("draft"),
+  status: z.string().optional(),
   context: z.string().min(1, "Context is required"),
   decision: z.string().min(1, "Decision is required"),
   consequences: z.string().min(1, "Consequences are required"),
@@ -46,12 +47,12 @@ export default function AdrCreate() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const projectId = params.projectId;
+  const mentionCandidates = useMentionCandidates(projectId);
 
   const form = useForm<CreateAdrForm>({
     resolver: zodResolver(createAdrSchema),
     defaultValues: {
       title: "",
-      status: "draft",
       context: "",
       decision: "",
       consequences: "",
@@ -162,6 +163,7 @@ export default function AdrCreate() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="Why is this decision needed? What problem are we solving?"
                         minHeight="120px"
                       />
@@ -181,6 +183,7 @@ export default function AdrCreate() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="What was decided and why?"
                         minHeight="120px"
                       />
@@ -200,6 +203,7 @@ export default function AdrCreate() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="What are the outcomes and trade-offs?"
                         minHeight="100px"
                       />
@@ -219,6 +223,7 @@ export default function AdrCreate() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="What other options were evaluated?"
                         minHeight="100px"
                       />
@@ -3,11 +3,14 @@ import { useParams, useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StatusBadge } from "@/components/status-badge";
+import { AdrReviews, type ReviewSummary } from "@/components/adr-reviews";
+import { AdrRelations } from "@/components/adr-relations";
+import { MentionText, MentionTextarea } from "@/components/mention-suggestions";
+import { InviteMentionedDialog } from "@/components/invite-mentioned-dialog";
 import {
   Select,
   SelectContent,
@@ -24,7 +27,6 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { statusLabels, statusTransitionMap, projectRolePermissions } from "@shared/schema";
 import type { Adr, AdrComment, AdrVersion, Project } from "@shared/schema";
 import type { ProjectMemberWithUser } from "@server/storage";
 import {
@@ -36,22 +38,27 @@ import {
   Archive,
   PenTool,
   FileText,
+  Eye,
+  EyeOff,
 } from "lucide-react";
-import { useState } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useEffect, useState } from "react";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
+import { useProjectAccess } from "@/hooks/use-project-access";
+import { useMentionCandidates } from "@/hooks/use-mention-candidates";
 import { sanitize } from "@/lib/sanitize";
 
 export default function AdrDetail() {
   const params = useParams<{ projectId: string; id: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const { user } = useAuth();
   const { projectId, id: adrId } = params;
 
   const [showStatusDialog, setShowStatusDialog] = useState(false);
   const [newStatus, setNewStatus] = useState("");
   const [statusReason, setStatusReason] = useState("");
   const [commentText, setCommentText] = useState("");
+  const [uninvitedMentions, setUninvitedMentions] = useState<string[] | null>(null);
+  const [highlightedComment, setHighlightedComment] = useState<string | null>(null);
   const [showArchiveDialog, setShowArchiveDialog] = useState(false);
   const [archiveReason, setArchiveReason] = useState("");
 
@@ -65,11 +72,10 @@ export default function AdrDetail() {
     enabled: !!projectId,
   });
 
-  // Resolve effective project role: global admin → "admin", otherwise use membership role
-  const myProjectRole = user?.role === "admin"
-    ? "admin"
-    : (members?.find((m) => m.userId === user?.id)?.role ?? "viewer");
-  const permissions = projectRolePermissions[myProjectRole];
+  const { can, canMoveTo } = useProjectAccess(projectId);
+  const mentionCandidates = useMentionCandidates(projectId);
+
+  const { getState } = useProjectWorkflow(projectId);
 
   const { data: adr, isLoading } = useQuery<Adr>({
     queryKey: ["/api/projects", projectId, "adrs", adrId],
@@ -81,11 +87,46 @@ export default function AdrDetail() {
     enabled: !!projectId && !!adrId,
   });
 
+  // Notifications link to `#comment-<id>`; scroll there once the comments have loaded
+  useEffect(() => {
+    const anchor = window.location.hash.slice(1);
+    if (!comments || !anchor.startsWith("comment-")) return;
+    const el = document.getElementById(anchor);
+    if (!el) return;
+    el.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedComment(anchor);
+  }, [comments]);
+
   const { data: versions } = useQuery<AdrVersion[]>({
     queryKey: ["/api/projects", projectId, "adrs", adrId, "versions"],
     enabled: !!projectId && !!adrId,
   });
 
+  const { data: reviewSummary } = useQuery<ReviewSummary>({
+    queryKey: ["/api/projects", projectId, "adrs", adrId, "reviews"],
+    enabled: !!projectId && !!adrId,
+  });
+
+  const { data: watch } = useQuery<{ watching: boolean; explicit: boolean }>({
+    queryKey: ["/api/projects", projectId, "adrs", adrId, "watch"],
+    enabled: !!projectId && !!adrId,
+  });
+
+  const watchMutation = useMutation({
+    mutationFn: async (watching: boolean) => {
+      const res = await apiRequest("PUT", `/api/projects/${projectId}/adrs/${adrId}/watch`, { watching });
+      return res.json() as Promise<{ watching: boolean; explicit: boolean }>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/projects", projectId, "adrs", adrId, "watch"], result);
+      queryClient.invalidateQueries({ queryKey: ["/api/watches"] });
+      toast({ title: result.watching ? "Watching this ADR" : "Stopped watching this ADR" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to update watch", description: err.message, variant: "destructive" });
+    },
+  });
+
   const statusMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("PATCH", `/api/projects/${projectId}/adrs/${adrId}/status`, {
@@ -118,7 +159,16 @@ export default function AdrDetail() {
       toast({ title: "Comment added" });
     },
     onError: (err: Error) => {
-      toast({ title: "Failed to add comment", description: err.message, variant: "destructive" });
+      let nonMembers: string[] | undefined;
+      try { nonMembers = JSON.parse(err.message.replace(/^\d+:\s*/, "")).nonMembers; } catch { /* not JSON */ }
+      if (nonMembers?.length && can("members.manage")) {
+        setUninvitedMentions(nonMembers);
+        return;
+      }
+      const description = nonMembers?.length
+        ? `${nonMembers.map((u) => `@${u}`).join(", ")} ${nonMembers.length === 1 ? "is not a member" : "are not members"} of this project. Ask a project admin to add them.`
+        : err.message;
+      toast({ title: "Failed to add comment", description, variant: "destructive" });
     },
   });
 
@@ -160,7 +210,8 @@ export default function AdrDetail() {
     );
   }
 
-  const allowedTransitions = statusTransitionMap[adr.status] || [];
+  // Only the transitions the workflow allows and the user's role may make
+  const allowedTransitions = (getState(adr.status)?.transitions ?? []).filter(canMoveTo);
   const projectKey = project?.key ?? "ADR";
 
   return (
@@ -183,7 +234,7 @@ export default function AdrDetail() {
             <span className="text-sm font-mono text-muted-foreground font-medium">
               {projectKey}-{String(adr.adrNumber).padStart(3, "0")}
             </span>
-            <StatusBadge status={adr.status} />
+            <StatusBadge status={adr.status} projectId={projectId} />
             <span className="text-xs font-mono text-muted-foreground">v{adr.version}</span>
           </div>
           <h1 className="text-xl font-bold tracking-tight" data-testid="text-adr-title">
@@ -196,7 +247,7 @@ export default function AdrDetail() {
           </div>
         </div>
         <div className="flex gap-2 flex-wrap">
-          {permissions.canChangeStatus && allowedTransitions.length > 0 && (
+          {allowedTransitions.length > 0 && (
             <Select
               onValueChange={(val) => {
                 setNewStatus(val);
@@ -208,14 +259,33 @@ export default function AdrDetail() {
               </SelectTrigger>
               <SelectContent>
                 {allowedTransitions.map((s) => (
-                  <SelectItem key={s} value={s}>
-                    {statusLabels[s]}
+                  <SelectItem
+                    key={s}
+                    value={s}
+                    disabled={getState(s)?.category === "accepted" && reviewSummary !== undefined && !reviewSummary.quorumMet}
+                  >
+                    {getState(s)?.label ?? s}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           )}
-          {permissions.canEdit && (
+          {watch && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => watchMutation.mutate(!watch.watching)}
+              disabled={watchMutation.isPending}
+              title={watch.watching
+                ? "You are notified of comments and status changes on this ADR"
+                : "Get notified of every comment on this ADR"}
+              data-testid="button-watch"
+            >
+              {watch.watching ? <EyeOff className="w-4 h-4 mr-1" /> : <Eye className="w-4 h-4 mr-1" />}
+              {watch.watching ? "Unwatch" : "Watch"}
+            </Button>
+          )}
+          {can("adr.edit") && (
             <Button
               variant="outline"
               size="sm"
@@ -244,7 +314,7 @@ export default function AdrDetail() {
             <PenTool className="w-4 h-4 mr-1" />
             Diagram
           </Button>
-          {permissions.canArchive && !adr.archived && (
+          {can("adr.archive") && !adr.archived && (
             <Button
               variant="outline"
               size="sm"
@@ -340,6 +410,15 @@ export default function AdrDetail() {
 
       <Separator />
 
+      <AdrReviews
+        projectId={projectId}
+        adrId={adrId}
+        members={members ?? []}
+        canRequest={can("adr.edit")}
+      />
+
+      <AdrRelations projectId={projectId} adrId={adrId} canEdit={can("adr.edit")} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
         <Card>
           <CardHeader className="pb-3">
@@ -359,7 +438,7 @@ export default function AdrDetail() {
                     <div className="min-w-0">
                       <div className="flex items-center gap-2 flex-wrap">
                         <span className="text-xs font-mono font-medium">v{v.version}</span>
-                        <StatusBadge status={v.status} />
+                        <StatusBadge status={v.status} projectId={projectId} />
                       </div>
                       {v.changeReason && (
                         <p className="text-xs text-muted-foreground mt-0.5">{v.changeReason}</p>
@@ -390,7 +469,8 @@ export default function AdrDetail() {
               {comments?.map((c) => (
                 <div
                   key={c.id}
-                  className="bg-muted/50 rounded-md p-3"
+                  id={`comment-${c.id}`}
+                  className={`bg-muted/50 rounded-md p-3 scroll-mt-20 ${highlightedComment === `comment-${c.id}` ? "ring-2 ring-primary/50" : ""}`}
                   data-testid={`comment-${c.id}`}
                 >
                   <div className="flex items-center justify-between gap-2 mb-1">
@@ -399,36 +479,52 @@ export default function AdrDetail() {
                       {new Date(c.createdAt).toLocaleString()}
                     </span>
                   </div>
-                  <p className="text-sm">{c.content}</p>
+                  <p className="text-sm">
+                    <MentionText text={c.content} candidates={mentionCandidates} />
+                  </p>
                 </div>
               ))}
             </div>
-            <div className="flex gap-2">
-              <Textarea
-                placeholder="Add a comment..."
-                className="min-h-[60px] flex-1"
-                value={commentText}
-                onChange={(e) => setCommentText(e.target.value)}
-                data-testid="input-comment"
-              />
-              <Button
-                size="icon"
-                onClick={() => commentMutation.mutate()}
-                disabled={!commentText.trim() || commentMutation.isPending}
-                data-testid="button-send-comment"
-              >
-                <Send className="w-4 h-4" />
-              </Button>
-            </div>
+            {can("adr.comment") && (
+              <div className="flex gap-2">
+                <MentionTextarea
+                  placeholder="Add a comment... Type @ to mention someone"
+                  containerClassName="flex-1"
+                  className="min-h-[60px]"
+                  value={commentText}
+                  onChange={setCommentText}
+                  candidates={mentionCandidates}
+                  data-testid="input-comment"
+                />
+                <Button
+                  size="icon"
+                  onClick={() => commentMutation.mutate()}
+                  disabled={!commentText.trim() || commentMutation.isPending}
+                  data-testid="button-send-comment"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      <InviteMentionedDialog
+        projectId={projectId}
+        usernames={uninvitedMentions}
+        onClose={() => setUninvitedMentions(null)}
+        onInvited={() => {
+          setUninvitedMentions(null);
+          commentMutation.mutate();
+        }}
+      />
+
       <Dialog open={showStatusDialog} onOpenChange={setShowStatusDialog}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
-              Change Status to {statusLabels[newStatus]}
+              Change Status to {getState(newStatus)?.label ?? newStatus}
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-3">
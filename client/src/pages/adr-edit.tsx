@@ -25,6 +25,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useMentionCandidates } from "@/hooks/use-mention-candidates";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { tagOptions, teamOptions } from "@shared/schema";
 import type { Adr } from "@shared/schema";
@@ -49,6 +50,7 @@ export default function AdrEdit() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const { projectId, id: adrId } = params;
+  const mentionCandidates = useMentionCandidates(projectId);
 
   const { data: adr, isLoading } = useQuery<Adr>({
     queryKey: ["/api/projects", projectId, "adrs", adrId],
@@ -199,6 +201,7 @@ export default function AdrEdit() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="Why is this decision needed? What problem are we solving?"
                         minHeight="120px"
                       />
@@ -218,6 +221,7 @@ export default function AdrEdit() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="What was decided and why?"
                         minHeight="120px"
                       />
@@ -237,6 +241,7 @@ export default function AdrEdit() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="What are the outcomes and trade-offs?"
                         minHeight="100px"
                       />
@@ -256,6 +261,7 @@ export default function AdrEdit() {
                       <RichTextEditor
                         value={field.value ?? ""}
                         onChange={field.onChange}
+                        mentionCandidates={mentionCandidates}
                         placeholder="What other options were evaluated?"
                         minHeight="100px"
                       />
@@ -0,0 +1,378 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import {
+  forceSimulation,
+  forceLink,
+  forceManyBody,
+  forceCenter,
+  forceCollide,
+  type SimulationNodeDatum,
+  type SimulationLinkDatum,
+} from "d3-force";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge, workflowColorStyles } from "@/components/status-badge";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
+import { cn } from "@/lib/utils";
+import type { Project, AdrRelationType } from "@shared/schema";
+import { Network, Crosshair, ExternalLink, X } from "lucide-react";
+
+interface GraphNode {
+  id: number;
+  adrNumber: number;
+  title: string;
+  status: string;
+  tags: string[];
+  team: string | null;
+}
+
+interface GraphEdge {
+  id: number;
+  source: number;
+  target: number;
+  type: AdrRelationType;
+}
+
+interface ProjectGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+type LayoutNode = GraphNode & SimulationNodeDatum;
+type LayoutLink = SimulationLinkDatum<LayoutNode> & { id: string; type: AdrRelationType };
+
+const WIDTH = 960;
+const HEIGHT = 600;
+const NODE_RADIUS = 14;
+
+// superseded_by is drawn as the reverse supersedes edge, so it has no style of its own
+const edgeStyles: Record<Exclude<AdrRelationType, "superseded_by">, { label: string; color: string; dash?: string }> = {
+  supersedes: { label: "Supersedes", color: "#8b5cf6" },
+  depends_on: { label: "Depends on", color: "#3b82f6", dash: "6 4" },
+  conflicts_with: { label: "Conflicts with", color: "#ef4444" },
+  related_to: { label: "Related to", color: "#a1a1aa", dash: "2 4" },
+};
+
+/** Merge inverse pairs so each relationship is drawn once. */
+function normalizeEdges(edges: GraphEdge[]) {
+  const seen = new Map<string, { source: number; target: number; type: keyof typeof edgeStyles }>();
+  for (const edge of edges) {
+    const [source, target, type] =
+      edge.type === "superseded_by"
+        ? [edge.target, edge.source, "supersedes" as const]
+        : [edge.source, edge.target, edge.type];
+    // Symmetric relations are keyed regardless of direction
+    const symmetric = type === "conflicts_with" || type === "related_to";
+    const key = symmetric
+      ? `${type}:${Math.min(source, target)}:${Math.max(source, target)}`
+      : `${type}:${source}:${target}`;
+    if (!seen.has(key)) seen.set(key, { source, target, type });
+  }
+  return Array.from(seen.entries()).map(([id, e]) => ({ id, ...e }));
+}
+
+function neighbourhood(focusId: number, edges: { source: number; target: number }[], depth: number): Set<number> {
+  const visible = new Set([focusId]);
+  let frontier = [focusId];
+  for (let i = 0; i < depth; i++) {
+    const next: number[] = [];
+    for (const edge of edges) {
+      for (const [from, to] of [[edge.source, edge.target], [edge.target, edge.source]]) {
+        if (frontier.includes(from) && !visible.has(to)) {
+          visible.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return visible;
+}
+
+export default function AdrGraph() {
+  const params = useParams<{ projectId: string }>();
+  const [, navigate] = useLocation();
+  const projectId = params.projectId;
+  const { states, getState } = useProjectWorkflow(projectId);
+
+  const [statusFilter, setStatusFilter] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState("all");
+  const [focusId, setFocusId] = useState<number | null>(null);
+  const [depth, setDepth] = useState(1);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", projectId],
+    enabled: !!projectId,
+  });
+
+  const { data: graph, isLoading } = useQuery<ProjectGraph>({
+    queryKey: ["/api/projects", projectId, "graph"],
+    enabled: !!projectId,
+  });
+
+  const allTags = useMemo(
+    () => Array.from(new Set((graph?.nodes ?? []).flatMap((n) => n.tags))).sort(),
+    [graph]
+  );
+
+  const { nodes, links } = useMemo(() => {
+    if (!graph) return { nodes: [] as LayoutNode[], links: [] as LayoutLink[] };
+    const edges = normalizeEdges(graph.edges);
+    let visible = graph.nodes.filter(
+      (n) =>
+        (statusFilter.length === 0 || statusFilter.includes(n.status)) &&
+        (tagFilter === "all" || n.tags.includes(tagFilter))
+    );
+    if (focusId !== null) {
+      const around = neighbourhood(focusId, edges, depth);
+      visible = graph.nodes.filter((n) => around.has(n.id));
+    }
+    const ids = new Set(visible.map((n) => n.id));
+    const layoutNodes: LayoutNode[] = visible.map((n) => ({ ...n }));
+    const layoutLinks: LayoutLink[] = edges
+      .filter((e) => ids.has(e.source) && ids.has(e.target))
+      .map((e) => ({ id: e.id, source: e.source, target: e.target, type: e.type }));
+
+    // Run the simulation to completion up front; the graph is static once drawn
+    forceSimulation(layoutNodes)
+      .force("link", forceLink<LayoutNode, LayoutLink>(layoutLinks).id((d) => d.id).distance(90))
+      .force("charge", forceManyBody().strength(-260))
+      .force("center", forceCenter(WIDTH / 2, HEIGHT / 2))
+      .force("collide", forceCollide(NODE_RADIUS * 2.2))
+      .stop()
+      .tick(300);
+
+    return { nodes: layoutNodes, links: layoutLinks };
+  }, [graph, statusFilter, tagFilter, focusId, depth]);
+
+  // Fit the drawing to whatever the simulation produced
+  const viewBox = useMemo(() => {
+    if (nodes.length === 0) return `0 0 ${WIDTH} ${HEIGHT}`;
+    const pad = NODE_RADIUS * 4;
+    const xs = nodes.map((n) => n.x ?? 0);
+    const ys = nodes.map((n) => n.y ?? 0);
+    const minX = Math.min(...xs) - pad;
+    const minY = Math.min(...ys) - pad;
+    return `${minX} ${minY} ${Math.max(...xs) - minX + pad} ${Math.max(...ys) - minY + pad}`;
+  }, [nodes]);
+
+  const selected = graph?.nodes.find((n) => n.id === selectedId) ?? null;
+  const ref = (n: { adrNumber: number }) => `${project?.key ?? "ADR"}-${String(n.adrNumber).padStart(3, "0")}`;
+  const nodeColor = (status: string) => workflowColorStyles[getState(status)?.color ?? "zinc"].chart;
+
+  const toggleStatus = (key: string) => {
+    setStatusFilter((prev) => (prev.includes(key) ? prev.filter((s) => s !== key) : [...prev, key]));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 max-w-6xl mx-auto space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-[600px]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-5">
+      <div className="flex items-center gap-3">
+        <Network className="w-6 h-6 text-primary" />
+        <div>
+          <h1 className="text-xl font-bold tracking-tight" data-testid="text-graph-title">Decision Graph</h1>
+          <p className="text-sm text-muted-foreground">How the decisions in {project?.name ?? "this project"} relate to each other</p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {states.map((state) => (
+            <button
+              key={state.key}
+              type="button"
+              onClick={() => toggleStatus(state.key)}
+              className={cn(
+                "rounded-full transition-opacity",
+                statusFilter.length > 0 && !statusFilter.includes(state.key) && "opacity-40"
+              )}
+              data-testid={`filter-graph-status-${state.key}`}
+            >
+              <StatusBadge status={state.key} projectId={projectId} />
+            </button>
+          ))}
+        </div>
+        <Select value={tagFilter} onValueChange={setTagFilter}>
+          <SelectTrigger className="w-[150px] h-8" data-testid="select-graph-tag">
+            <SelectValue placeholder="Tag" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Tags</SelectItem>
+            {allTags.map((t) => (
+              <SelectItem key={t} value={t}>{t}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {focusId !== null && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Focused on</span>
+            <span className="font-mono text-xs">{ref(graph!.nodes.find((n) => n.id === focusId)!)}</span>
+            <Select value={String(depth)} onValueChange={(v) => setDepth(parseInt(v))}>
+              <SelectTrigger className="w-[110px] h-8" data-testid="select-graph-depth">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3].map((d) => (
+                  <SelectItem key={d} value={String(d)}>{d} hop{d > 1 ? "s" : ""}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={() => setFocusId(null)} data-testid="button-clear-focus">
+              <X className="w-3.5 h-3.5 mr-1" />
+              Show all
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_260px] gap-4">
+        <Card>
+          <CardContent className="p-0">
+            {nodes.length === 0 ? (
+              <div className="h-[600px] flex items-center justify-center text-sm text-muted-foreground">
+                No decisions match the current filters
+              </div>
+            ) : (
+              <svg viewBox={viewBox} className="w-full h-[600px]" data-testid="svg-adr-graph">
+                <defs>
+                  {Object.entries(edgeStyles).map(([type, style]) => (
+                    <marker
+                      key={type}
+                      id={`arrow-${type}`}
+                      viewBox="0 0 10 10"
+                      refX={10 + NODE_RADIUS}
+                      refY={5}
+                      markerWidth={6}
+                      markerHeight={6}
+                      orient="auto-start-reverse"
+                    >
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill={style.color} />
+                    </marker>
+                  ))}
+                </defs>
+                {links.map((link) => {
+                  const source = link.source as LayoutNode;
+                  const target = link.target as LayoutNode;
+                  const style = edgeStyles[link.type as keyof typeof edgeStyles];
+                  const directed = link.type === "supersedes" || link.type === "depends_on";
+                  return (
+                    <line
+                      key={link.id}
+                      x1={source.x}
+                      y1={source.y}
+                      x2={target.x}
+                      y2={target.y}
+                      stroke={style.color}
+                      strokeWidth={1.5}
+                      strokeDasharray={style.dash}
+                      markerEnd={directed ? `url(#arrow-${link.type})` : undefined}
+                    >
+                      <title>{`${ref(source)} ${style.label.toLowerCase()} ${ref(target)}`}</title>
+                    </line>
+                  );
+                })}
+                {nodes.map((node) => (
+                  <g
+                    key={node.id}
+                    transform={`translate(${node.x}, ${node.y})`}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedId(node.id)}
+                    onDoubleClick={() => navigate(`/projects/${projectId}/adrs/${node.id}`)}
+                    data-testid={`graph-node-${node.id}`}
+                  >
+                    <circle
+                      r={NODE_RADIUS}
+                      fill={nodeColor(node.status)}
+                      stroke="currentColor"
+                      strokeWidth={node.id === selectedId || node.id === focusId ? 3 : 0}
+                      className="text-foreground"
+                    />
+                    <text
+                      y={NODE_RADIUS + 12}
+                      textAnchor="middle"
+                      className="fill-foreground text-[10px] font-mono select-none"
+                    >
+                      {ref(node)}
+                    </text>
+                    <title>{`${ref(node)}: ${node.title}`}</title>
+                  </g>
+                ))}
+              </svg>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              {selected ? (
+                <>
+                  <div className="space-y-1.5">
+                    <span className="font-mono text-xs text-muted-foreground">{ref(selected)}</span>
+                    <p className="text-sm font-semibold leading-snug" data-testid="text-graph-selected">{selected.title}</p>
+                    <StatusBadge status={selected.status} projectId={projectId} />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => navigate(`/projects/${projectId}/adrs/${selected.id}`)}
+                      data-testid="button-open-adr"
+                    >
+                      <ExternalLink className="w-3.5 h-3.5 mr-1.5" />
+                      Open ADR
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setFocusId(selected.id)}
+                      disabled={focusId === selected.id}
+                      data-testid="button-focus-adr"
+                    >
+                      <Crosshair className="w-3.5 h-3.5 mr-1.5" />
+                      Focus neighbourhood
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Select a decision to see its details. Double-click a node to open it.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Relations</p>
+              {Object.entries(edgeStyles).map(([type, style]) => (
+                <div key={type} className="flex items-center gap-2 text-xs">
+                  <svg width="28" height="8">
+                    <line x1="0" y1="4" x2="28" y2="4" stroke={style.color} strokeWidth={2} strokeDasharray={style.dash} />
+                  </svg>
+                  {style.label}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import { Excalidraw } from "@excalidraw/excalidraw";
+import type { BinaryFiles } from "@excalidraw/excalidraw/types";
+import type { ExcalidrawElement } from "@excalidraw/excalidraw/element/types";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StatusBadge } from "@/components/status-badge";
-import { statusLabels, projectRolePermissions } from "@shared/schema";
+import { MarkdownExportMenu } from "@/components/markdown-export-menu";
 import type { Adr, AdrComment, AdrVersion, Project, ProjectRequirement } from "@shared/schema";
 import {
   ArrowLeft,
@@ -18,14 +20,14 @@ import {
   Clock,
   AlertCircle,
 } from "lucide-react";
-import { useAuth } from "@/hooks/use-auth";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
+import { useProjectAccess } from "@/hooks/use-project-access";
 import { sanitize } from "@/lib/sanitize";
-import type { ProjectMemberWithUser } from "@server/storage";
 
 interface DiagramScene {
-  elements: unknown[];
+  elements: readonly ExcalidrawElement[];
   appState?: { viewBackgroundColor?: string };
-  files?: Record<string, unknown> | null;
+  files?: BinaryFiles | null;
 }
 
 interface SavedDiagram {
@@ -67,7 +69,6 @@ function Section({ num, title, children }: Readonly<{ num: string; title: string
 export default function AdrView() {
   const params = useParams<{ projectId: string; id: string }>();
   const [, navigate] = useLocation();
-  const { user } = useAuth();
   const { projectId, id: adrId } = params;
 
   const { data: project } = useQuery<Project>({
@@ -75,15 +76,9 @@ export default function AdrView() {
     enabled: !!projectId,
   });
 
-  const { data: members } = useQuery<ProjectMemberWithUser[]>({
-    queryKey: ["/api/projects", projectId, "members"],
-    enabled: !!projectId,
-  });
+  const { can } = useProjectAccess(projectId);
 
-  const myProjectRole = user?.role === "admin"
-    ? "admin"
-    : (members?.find((m) => m.userId === user?.id)?.role ?? "viewer");
-  const permissions = projectRolePermissions[myProjectRole];
+  const { getState } = useProjectWorkflow(projectId);
 
   const { data: adr, isLoading } = useQuery<Adr>({
     queryKey: ["/api/projects", projectId, "adrs", adrId],
@@ -158,7 +153,7 @@ export default function AdrView() {
           Back to Detail
         </Button>
         <div className="flex items-center gap-2">
-          {permissions.canEdit && (
+          {can("adr.edit") && (
             <Button
               variant="outline"
               size="sm"
@@ -176,6 +171,10 @@ export default function AdrView() {
             <PenTool className="w-4 h-4 mr-1" />
             Edit Diagram
           </Button>
+          <MarkdownExportMenu
+            href={`/api/projects/${projectId}/adrs/${adrId}/export`}
+            label="Markdown"
+          />
           <Button size="sm" onClick={() => globalThis.print()}>
             <Printer className="w-4 h-4 mr-1" />
             Print / Export PDF
@@ -192,7 +191,7 @@ export default function AdrView() {
             <span className="text-sm font-mono font-semibold text-primary bg-primary/10 px-2 py-0.5 rounded">
               {adrRef}
             </span>
-            <StatusBadge status={adr.status} />
+            <StatusBadge status={adr.status} projectId={projectId} />
             <span className="text-xs font-mono text-muted-foreground border rounded px-1.5 py-0.5">
               v{adr.version}
             </span>
@@ -233,7 +232,7 @@ export default function AdrView() {
             )}
             <div>
               <div className="text-xs text-muted-foreground uppercase tracking-wider mb-0.5">Status</div>
-              <div className="font-medium capitalize">{statusLabels[adr.status]}</div>
+              <div className="font-medium capitalize">{getState(adr.status)?.label ?? adr.status}</div>
             </div>
           </div>
 
@@ -299,7 +298,7 @@ export default function AdrView() {
                         appState: {
                           viewBackgroundColor: diagramScene.appState?.viewBackgroundColor ?? "#ffffff",
                         },
-                        files: diagramScene.files ?? null,
+                        files: diagramScene.files ?? undefined,
                       }}
                       viewModeEnabled={true}
                       zenModeEnabled={false}
@@ -413,7 +412,7 @@ export default function AdrView() {
                       <div className="pb-4 flex-1 min-w-0">
                         <div className="flex items-center gap-2 flex-wrap">
                           <span className="text-xs font-mono font-semibold">v{v.version}</span>
-                          <StatusBadge status={v.status} />
+                          <StatusBadge status={v.status} projectId={projectId} />
                           <span className="text-[11px] text-muted-foreground">
                             {v.changedBy} · {new Date(v.createdAt).toLocaleString()}
                           </span>
@@ -20,7 +20,13 @@ const entityTypeLabels: Record<string, string> = {
   adr: "ADR",
   project: "Project",
   project_member: "Member",
+  project_role: "Project Role",
+  project_group: "Project Group",
+  user_group: "Group",
   user: "User",
+  api_token: "API Token",
+  webhook: "Webhook",
+  ip_address: "IP Address",
 };
 
 const actionLabels: Record<string, string> = {
@@ -32,6 +38,27 @@ const actionLabels: Record<string, string> = {
   added: "Added",
   removed: "Removed",
   role_updated: "Role Updated",
+  revoked: "Revoked",
+  disabled: "Disabled",
+  deactivated: "Deactivated",
+  reactivated: "Reactivated",
+  anonymised: "Anonymised",
+  "2fa_enrolled": "2FA Enabled",
+  "2fa_disabled": "2FA Disabled",
+  "2fa_reset": "2FA Reset",
+  recovery_codes_regenerated: "Recovery Codes",
+  recovery_code_used: "Recovery Code Used",
+  password_changed: "Password Changed",
+  password_reset_issued: "Reset Link",
+  password_reset: "Password Reset",
+  locked_out: "Locked Out",
+  unlocked: "Unlocked",
+  suspicious_login: "Suspicious Login",
+  session_revoked: "Session Revoked",
+  force_logout: "Signed Out",
+  email_settings_updated: "Email Settings",
+  members_added: "Members Added",
+  member_removed: "Member Removed",
 };
 
 const actionColors: Record<string, string> = {
@@ -43,6 +70,27 @@ const actionColors: Record<string, string> = {
   added: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
   removed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
   role_updated: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  revoked: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  disabled: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  deactivated: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  reactivated: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  anonymised: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  "2fa_enrolled": "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  "2fa_disabled": "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  "2fa_reset": "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  recovery_codes_regenerated: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  recovery_code_used: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  password_changed: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  password_reset_issued: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  password_reset: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  locked_out: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  unlocked: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  suspicious_login: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  session_revoked: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  force_logout: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  email_settings_updated: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  members_added: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  member_removed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
 };
 
 export default function AuditLog() {
@@ -116,6 +164,9 @@ export default function AuditLog() {
                     <SelectItem value="project">Project</SelectItem>
                     <SelectItem value="project_member">Member</SelectItem>
                     <SelectItem value="user">User</SelectItem>
+                    <SelectItem value="api_token">API Token</SelectItem>
+                    <SelectItem value="webhook">Webhook</SelectItem>
+                    <SelectItem value="ip_address">IP Address</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -135,6 +186,24 @@ export default function AuditLog() {
                     <SelectItem value="added">Added</SelectItem>
                     <SelectItem value="removed">Removed</SelectItem>
                     <SelectItem value="role_updated">Role Updated</SelectItem>
+                    <SelectItem value="revoked">Revoked</SelectItem>
+                    <SelectItem value="disabled">Disabled</SelectItem>
+                    <SelectItem value="deactivated">Deactivated</SelectItem>
+                    <SelectItem value="reactivated">Reactivated</SelectItem>
+                    <SelectItem value="anonymised">Anonymised</SelectItem>
+                    <SelectItem value="2fa_enrolled">2FA Enabled</SelectItem>
+                    <SelectItem value="2fa_disabled">2FA Disabled</SelectItem>
+                    <SelectItem value="2fa_reset">2FA Reset</SelectItem>
+                    <SelectItem value="recovery_code_used">Recovery Code Used</SelectItem>
+                    <SelectItem value="password_changed">Password Changed</SelectItem>
+                    <SelectItem value="password_reset_issued">Reset Link Issued</SelectItem>
+                    <SelectItem value="password_reset">Password Reset</SelectItem>
+                    <SelectItem value="locked_out">Locked Out</SelectItem>
+                    <SelectItem value="unlocked">Unlocked</SelectItem>
+                    <SelectItem value="suspicious_login">Suspicious Login</SelectItem>
+                    <SelectItem value="session_revoked">Session Revoked</SelectItem>
+                    <SelectItem value="force_logout">Signed Out</SelectItem>
+                    <SelectItem value="email_settings_updated">Email Settings</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -206,11 +275,33 @@ export default function AuditLog() {
                       {log.action === "added" && "added"}
                       {log.action === "removed" && "removed"}
                       {log.action === "role_updated" && "updated role of"}
+                      {log.action === "revoked" && "revoked"}
+                      {log.action === "disabled" && "disabled"}
+                      {log.action === "deactivated" && "deactivated"}
+                      {log.action === "reactivated" && "reactivated"}
+                      {log.action === "anonymised" && "anonymised"}
+                      {log.action === "2fa_enrolled" && "enabled two-factor authentication for"}
+                      {log.action === "2fa_disabled" && "disabled two-factor authentication for"}
+                      {log.action === "2fa_reset" && "reset two-factor authentication of"}
+                      {log.action === "recovery_codes_regenerated" && "regenerated recovery codes of"}
+                      {log.action === "recovery_code_used" && "signed in with a recovery code as"}
+                      {log.action === "password_changed" && "changed the password of"}
+                      {log.action === "password_reset_issued" && "issued a password reset link for"}
+                      {log.action === "password_reset" && "reset the password of"}
+                      {log.action === "locked_out" && "locked out"}
+                      {log.action === "unlocked" && "unlocked"}
+                      {log.action === "suspicious_login" && "flagged a suspicious sign-in to"}
+                      {log.action === "session_revoked" && "revoked sessions of"}
+                      {log.action === "force_logout" && "signed out everywhere"}
+                      {log.action === "email_settings_updated" && "changed the email settings of"}
                       {" "}
                       {log.entityType === "adr" && "an ADR"}
                       {log.entityType === "project" && "a project"}
                       {log.entityType === "project_member" && "a project member"}
                       {log.entityType === "user" && "a user"}
+                      {log.entityType === "api_token" && "an API token"}
+                      {log.entityType === "webhook" && "a webhook"}
+                      {log.entityType === "ip_address" && "an IP address"}
                     </p>
                     {log.changes && (
                       <pre className="text-xs text-muted-foreground mt-1 font-mono bg-muted/30 p-2 rounded overflow-x-auto">
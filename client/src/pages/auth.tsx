@@ -1,11 +1,13 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useAuth } from "@/hooks/use-auth";
-import { FileText, Loader2, GitBranch, Search, History } from "lucide-react";
+import { FileText, Loader2, GitBranch, Search, History, LogIn, ShieldCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 const FEATURES = [
@@ -14,19 +16,44 @@ const FEATURES = [
   { icon: Search, text: "AI-queryable knowledge across your org" },
 ];
 
+function parseAuthError(err: unknown): { message: string; twoFactorRequired: boolean } {
+  const msg = err instanceof Error ? err.message : "Something went wrong";
+  const cleaned = msg.replace(/^\d+:\s*/, "").replace(/^"(.*)"$/, "$1");
+  try {
+    const obj = JSON.parse(cleaned) as { message?: string; twoFactorRequired?: boolean };
+    return { message: obj.message || cleaned, twoFactorRequired: obj.twoFactorRequired === true };
+  } catch {
+    return { message: cleaned, twoFactorRequired: false };
+  }
+}
+
 export default function AuthPage() {
   const [isLogin, setIsLogin] = useState(true);
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [displayName, setDisplayName] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const { login, register } = useAuth();
+  // Second sign-in step for accounts with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const { login, verifyTwoFactor, register } = useAuth();
   const { toast } = useToast();
 
   const { data: setupData, isLoading: setupLoading } = useQuery<{ setupNeeded: boolean }>({
     queryKey: ["/api/auth/setup-needed"],
   });
 
+  const { data: providers } = useQuery<{ oidc: { label: string; loginUrl: string; localLogin: "admin" | "all" } | null }>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  // The OIDC callback redirects back here with ?ssoError=... when sign-in fails
+  const [ssoError] = useState(() => new URLSearchParams(window.location.search).get("ssoError"));
+  useEffect(() => {
+    if (ssoError) window.history.replaceState(null, "", window.location.pathname);
+  }, [ssoError]);
+
   const setupNeeded = setupData?.setupNeeded === true;
   const showRegister = !isLogin && setupNeeded;
   const effectiveIsLogin = setupNeeded ? isLogin : true;
@@ -37,23 +64,18 @@ export default function AuthPage() {
 
     try {
       if (effectiveIsLogin && !showRegister) {
-        await login(username, password);
+        const result = await login(username, password);
+        if (result.twoFactorRequired) {
+          setTwoFactorStep(true);
+          setCode("");
+        }
       } else {
         await register(username, password, displayName);
       }
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Something went wrong";
-      const cleaned = msg.replace(/^\d+:\s*/, "").replace(/^"(.*)"$/, "$1");
-      let parsed = cleaned;
-      try {
-        const obj = JSON.parse(cleaned) as { message?: string };
-        parsed = obj.message || cleaned;
-      } catch {
-        // keep cleaned as-is
-      }
       toast({
         title: effectiveIsLogin && !showRegister ? "Login failed" : "Registration failed",
-        description: parsed,
+        description: parseAuthError(err).message,
         variant: "destructive",
       });
     } finally {
@@ -61,6 +83,29 @@ export default function AuthPage() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await verifyTwoFactor(code);
+    } catch (err) {
+      const { message, twoFactorRequired } = parseAuthError(err);
+      setCode("");
+      // The challenge expired or ran out of attempts: start over with the password
+      if (!twoFactorRequired) resetTwoFactor();
+      toast({ title: "Verification failed", description: message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetTwoFactor = () => {
+    setTwoFactorStep(false);
+    setUseRecoveryCode(false);
+    setCode("");
+    setPassword("");
+  };
+
   if (setupLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -149,106 +194,199 @@ export default function AuthPage() {
               className="text-2xl font-bold tracking-tight text-foreground"
               data-testid="text-auth-title"
             >
-              {setupNeeded && !isLogin ? "Create admin account" : "Welcome back"}
+              {twoFactorStep ? "Two-factor authentication" : setupNeeded && !isLogin ? "Create admin account" : "Welcome back"}
             </h1>
             <p className="text-sm text-muted-foreground mt-1.5">
-              {setupNeeded && !isLogin
-                ? "Set up the first admin account to get started"
-                : "Sign in to access your team's decisions"}
+              {twoFactorStep
+                ? `Confirm it's you, ${username}`
+                : setupNeeded && !isLogin
+                  ? "Set up the first admin account to get started"
+                  : "Sign in to access your team's decisions"}
             </p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {showRegister && (
-              <div className="space-y-1.5">
-                <Label htmlFor="displayName" className="text-sm font-medium">
-                  Display Name
-                </Label>
+          {twoFactorStep ? (
+            <form onSubmit={handleVerify} className="space-y-4" data-testid="form-two-factor">
+              <div className="flex items-start gap-3 rounded-md border p-3">
+                <ShieldCheck className="w-5 h-5 text-primary mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-muted-foreground">
+                  {useRecoveryCode
+                    ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                    : "Enter the 6-digit code from your authenticator app."}
+                </p>
+              </div>
+
+              {useRecoveryCode ? (
                 <Input
-                  id="displayName"
-                  placeholder="Jane Architect"
-                  value={displayName}
-                  onChange={(e) => setDisplayName(e.target.value)}
-                  required
-                  className="h-10"
-                  data-testid="input-display-name"
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoFocus
+                  autoComplete="one-time-code"
+                  className="h-10 font-mono"
+                  data-testid="input-recovery-code"
                 />
-              </div>
-            )}
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus data-testid="input-totp-code">
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((i) => <InputOTPSlot key={i} index={i} />)}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
 
-            <div className="space-y-1.5">
-              <Label htmlFor="username" className="text-sm font-medium">
-                Username
-              </Label>
-              <Input
-                id="username"
-                placeholder="jane.architect"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                required
-                className="h-10"
-                data-testid="input-username"
-              />
-            </div>
+              <Button
+                type="submit"
+                className="w-full h-10 font-medium"
+                disabled={isSubmitting || (useRecoveryCode ? !code.trim() : code.length < 6)}
+                data-testid="button-verify-two-factor"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Verify
+              </Button>
 
-            <div className="space-y-1.5">
-              <Label htmlFor="password" className="text-sm font-medium">
-                Password
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="h-10"
-                data-testid="input-password"
-              />
-            </div>
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-primary hover:underline font-medium"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </button>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:underline"
+                  onClick={resetTwoFactor}
+                  data-testid="button-two-factor-back"
+                >
+                  Back to sign in
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              {ssoError && (
+                <Alert variant="destructive" className="mb-4" data-testid="alert-sso-error">
+                  <AlertDescription>{ssoError}</AlertDescription>
+                </Alert>
+              )}
 
-            <Button
-              type="submit"
-              className="w-full h-10 mt-2 font-medium"
-              disabled={isSubmitting}
-              data-testid="button-auth-submit"
-            >
-              {isSubmitting ? (
+              {providers?.oidc && !showRegister && (
                 <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  {showRegister ? "Creating account..." : "Signing in..."}
+                  <Button asChild variant="outline" className="w-full h-10 font-medium" data-testid="button-sso-login">
+                    <a href={providers.oidc.loginUrl}>
+                      <LogIn className="w-4 h-4 mr-2" />
+                      {providers.oidc.label}
+                    </a>
+                  </Button>
+                  <div className="flex items-center gap-3 my-5">
+                    <div className="h-px flex-1 bg-border" />
+                    <span className="text-xs text-muted-foreground">
+                      {providers.oidc.localLogin === "all" ? "or sign in with a password" : "or administrator sign-in"}
+                    </span>
+                    <div className="h-px flex-1 bg-border" />
+                  </div>
                 </>
-              ) : showRegister ? (
-                "Create Admin Account"
-              ) : (
-                "Sign In"
               )}
-            </Button>
-          </form>
 
-          {setupNeeded && (
-            <p className="mt-5 text-center text-sm text-muted-foreground">
-              {isLogin ? "No accounts exist yet." : "Already have an account?"}{" "}
-              <button
-                type="button"
-                className="text-primary hover:underline font-medium"
-                onClick={() => {
-                  setIsLogin(!isLogin);
-                  setUsername("");
-                  setPassword("");
-                  setDisplayName("");
-                }}
-                data-testid="button-toggle-auth"
-              >
-                {isLogin ? "Create first admin" : "Sign in"}
-              </button>
-            </p>
-          )}
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {showRegister && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="displayName" className="text-sm font-medium">
+                      Display Name
+                    </Label>
+                    <Input
+                      id="displayName"
+                      placeholder="Jane Architect"
+                      value={displayName}
+                      onChange={(e) => setDisplayName(e.target.value)}
+                      required
+                      className="h-10"
+                      data-testid="input-display-name"
+                    />
+                  </div>
+                )}
 
-          {!setupNeeded && (
-            <p className="mt-5 text-xs text-muted-foreground text-center">
-              Need an account? Contact your team admin.
-            </p>
+                <div className="space-y-1.5">
+                  <Label htmlFor="username" className="text-sm font-medium">
+                    Username
+                  </Label>
+                  <Input
+                    id="username"
+                    placeholder="jane.architect"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    className="h-10"
+                    data-testid="input-username"
+                  />
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="password" className="text-sm font-medium">
+                    Password
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="h-10"
+                    data-testid="input-password"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full h-10 mt-2 font-medium"
+                  disabled={isSubmitting}
+                  data-testid="button-auth-submit"
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {showRegister ? "Creating account..." : "Signing in..."}
+                    </>
+                  ) : showRegister ? (
+                    "Create Admin Account"
+                  ) : (
+                    "Sign In"
+                  )}
+                </Button>
+              </form>
+
+              {setupNeeded && (
+                <p className="mt-5 text-center text-sm text-muted-foreground">
+                  {isLogin ? "No accounts exist yet." : "Already have an account?"}{" "}
+                  <button
+                    type="button"
+                    className="text-primary hover:underline font-medium"
+                    onClick={() => {
+                      setIsLogin(!isLogin);
+                      setUsername("");
+                      setPassword("");
+                      setDisplayName("");
+                    }}
+                    data-testid="button-toggle-auth"
+                  >
+                    {isLogin ? "Create first admin" : "Sign in"}
+                  </button>
+                </p>
+              )}
+
+              {!setupNeeded && (
+                <p className="mt-5 text-xs text-muted-foreground text-center">
+                  Need an account? Contact your team admin.
+                </p>
+              )}
+            </>
           )}
         </div>
       </div>
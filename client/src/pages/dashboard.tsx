@@ -1,8 +1,10 @@
-import React from "react";
+import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useParams, useLocation, Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { StatusBadge } from "@/components/status-badge";
+import { StatusBadge, workflowColorStyles } from "@/components/status-badge";
+import { MarkdownExportMenu } from "@/components/markdown-export-menu";
+import { AdrImportDialog } from "@/components/adr-import-dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -14,11 +16,11 @@ import {
   TrendingUp,
   Plus,
   ArrowRight,
+  Upload,
 } from "lucide-react";
 import type { Adr, Project } from "@shared/schema";
-import { projectRolePermissions } from "@shared/schema";
-import { useAuth } from "@/hooks/use-auth";
-import type { ProjectMemberWithUser } from "@server/storage";
+import { useProjectWorkflow } from "@/hooks/use-project-workflow";
+import { useProjectAccess } from "@/hooks/use-project-access";
 import {
   BarChart,
   Bar,
@@ -32,15 +34,6 @@ import {
   Cell,
 } from "recharts";
 
-const PIE_COLORS = [
-  "hsl(var(--chart-1))",
-  "hsl(var(--chart-2))",
-  "hsl(var(--chart-3))",
-  "hsl(var(--chart-4))",
-  "hsl(var(--chart-5))",
-  "hsl(var(--muted))",
-];
-
 interface StatCardProps {
   readonly title: string;
   readonly value: string | number;
@@ -102,8 +95,8 @@ function StatCard({ title, value, icon: Icon, description, testId, accent }: Sta
 export default function Dashboard() {
   const params = useParams<{ projectId: string }>();
   const [, navigate] = useLocation();
-  const { user } = useAuth();
   const projectId = params.projectId;
+  const [showImport, setShowImport] = useState(false);
 
   const { data: project, isLoading: projectLoading } = useQuery<Project>({
     queryKey: ["/api/projects", projectId],
@@ -115,16 +108,9 @@ export default function Dashboard() {
     enabled: !!projectId,
   });
 
-  const { data: members } = useQuery<ProjectMemberWithUser[]>({
-    queryKey: ["/api/projects", projectId, "members"],
-    enabled: !!projectId,
-  });
+  const { states: workflowStates } = useProjectWorkflow(projectId);
 
-  const myProjectRole =
-    user?.role === "admin"
-      ? "admin"
-      : (members?.find((m) => m.userId === user?.id)?.role ?? "viewer");
-  const projectPermissions = projectRolePermissions[myProjectRole];
+  const { can } = useProjectAccess(projectId);
 
   if (projectLoading || adrsLoading) {
     return (
@@ -161,16 +147,25 @@ export default function Dashboard() {
   const inReview = allAdrs.filter(
     (a) => a.status === "in_review" || a.status === "proposed"
   ).length;
-  const deprecated = allAdrs.filter(
-    (a) => a.status === "deprecated" || a.status === "superseded"
-  ).length;
+  const terminalStatuses = new Set(workflowStates.filter((s) => s.isTerminal).map((s) => s.key));
+  const closed = allAdrs.filter((a) => terminalStatuses.has(a.status)).length;
 
   const statusCounts: Record<string, number> = {};
   allAdrs.forEach((a) => {
     statusCounts[a.status] = (statusCounts[a.status] || 0) + 1;
   });
 
-  const pieData = Object.entries(statusCounts).map(([name, value]) => ({ name, value }));
+  // Follow workflow order; statuses unknown to the workflow go last in neutral grey
+  const pieData = [
+    ...workflowStates.map((s) => ({
+      name: s.label,
+      value: statusCounts[s.key] || 0,
+      color: workflowColorStyles[s.color].chart,
+    })),
+    ...Object.keys(statusCounts)
+      .filter((key) => !workflowStates.some((s) => s.key === key))
+      .map((key) => ({ name: key, value: statusCounts[key], color: workflowColorStyles.zinc.chart })),
+  ].filter((d) => d.value > 0);
 
   const tagCounts: Record<string, number> = {};
   allAdrs.forEach((a) => {
@@ -207,16 +202,27 @@ export default function Dashboard() {
             <p className="text-sm text-muted-foreground mt-1 max-w-xl">{project.description}</p>
           )}
         </div>
-        {projectPermissions.canCreate && (
-          <Button asChild size="sm" data-testid="button-new-adr">
-            <Link href={`/projects/${projectId}/adrs/new`}>
-              <Plus className="w-3.5 h-3.5 mr-1.5" />
-              New ADR
-            </Link>
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          <MarkdownExportMenu href={`/api/projects/${projectId}/export`} label="Export" />
+          {can("adr.create") && (
+            <Button variant="outline" size="sm" onClick={() => setShowImport(true)} data-testid="button-import-adrs">
+              <Upload className="w-3.5 h-3.5 mr-1.5" />
+              Import
+            </Button>
+          )}
+          {can("adr.create") && (
+            <Button asChild size="sm" data-testid="button-new-adr">
+              <Link href={`/projects/${projectId}/adrs/new`}>
+                <Plus className="w-3.5 h-3.5 mr-1.5" />
+                New ADR
+              </Link>
+            </Button>
+          )}
+        </div>
       </div>
 
+      <AdrImportDialog projectId={projectId} open={showImport} onOpenChange={setShowImport} />
+
       {/* Stat Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatCard
@@ -244,11 +250,11 @@ export default function Dashboard() {
           accent="amber"
         />
         <StatCard
-          title="Deprecated"
-          value={deprecated}
+          title="Closed"
+          value={closed}
           icon={AlertTriangle}
-          description="No longer active"
-          testId="stat-deprecated"
+          description="In a terminal state"
+          testId="stat-closed"
           accent="red"
         />
       </div>
@@ -330,8 +336,8 @@ export default function Dashboard() {
                       paddingAngle={2}
                       dataKey="value"
                     >
-                      {pieData.map((entry, index) => (
-                        <Cell key={entry.name} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                      {pieData.map((entry) => (
+                        <Cell key={entry.name} fill={entry.color} />
                       ))}
                     </Pie>
                     <Tooltip
@@ -346,14 +352,14 @@ export default function Dashboard() {
                   </PieChart>
                 </ResponsiveContainer>
                 <div className="space-y-2 flex-1 min-w-0">
-                  {pieData.map((entry, index) => (
+                  {pieData.map((entry) => (
                     <div key={entry.name} className="flex items-center gap-2 text-xs">
                       <div
                         className="w-2 h-2 rounded-full flex-shrink-0"
-                        style={{ background: PIE_COLORS[index % PIE_COLORS.length] }}
+                        style={{ background: entry.color }}
                       />
-                      <span className="truncate text-muted-foreground capitalize">
-                        {entry.name.replace("_", " ")}
+                      <span className="truncate text-muted-foreground">
+                        {entry.name}
                       </span>
                       <span className="ml-auto font-semibold tabular-nums">{entry.value}</span>
                     </div>
@@ -389,7 +395,7 @@ export default function Dashboard() {
               <p className="text-xs text-muted-foreground mb-4">
                 Start documenting architecture decisions
               </p>
-              {projectPermissions.canCreate && (
+              {can("adr.create") && (
                 <Button asChild size="sm">
                   <Link href={`/projects/${projectId}/adrs/new`}>
                     <Plus className="w-3.5 h-3.5 mr-1.5" />
@@ -413,7 +419,7 @@ export default function Dashboard() {
                     <span className="text-sm font-medium truncate flex-1 group-hover:text-primary transition-colors">
                       {adr.title}
                     </span>
-                    <StatusBadge status={adr.status} />
+                    <StatusBadge status={adr.status} projectId={projectId} />
                     <span className="text-xs text-muted-foreground flex-shrink-0 hidden sm:block tabular-nums">
                       {new Date(adr.createdAt).toLocaleDateString()}
                     </span>
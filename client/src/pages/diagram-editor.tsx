@@ -1,13 +1,14 @@
 import { useState, useEffect, useRef } from "react";
 import { useParams } from "wouter";
 import { Excalidraw, MainMenu, WelcomeScreen } from "@excalidraw/excalidraw";
-import type { ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/dist/types/excalidraw/types";
+import type { ExcalidrawImperativeAPI } from "@excalidraw/excalidraw/types";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Save, FileText, Plus, FolderOpen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useProjectAccess } from "@/hooks/use-project-access";
 
 interface SavedDiagram {
   id: number;
@@ -23,6 +24,7 @@ export default function DiagramEditor() {
   const { projectId, adrId } = useParams<{ projectId: string; adrId: string }>();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useProjectAccess(projectId);
   const [diagramName, setDiagramName] = useState("Architecture Diagram");
   const [currentDiagramId, setCurrentDiagramId] = useState<number | null>(null);
   const [excalidrawAPI, setExcalidrawAPI] = useState<ExcalidrawImperativeAPI | null>(null);
@@ -183,10 +185,12 @@ export default function DiagramEditor() {
               </div>
             </DialogContent>
           </Dialog>
-          <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
-            <Save className="w-4 h-4 mr-2" />
-            {saveMutation.isPending ? "Saving..." : "Save"}
-          </Button>
+          {can("diagrams.manage") && (
+            <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+              <Save className="w-4 h-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          )}
         </div>
       </div>
       <div style={{ height: "calc(100% - 4rem)" }}>
@@ -0,0 +1,232 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { StatusBadge } from "@/components/status-badge";
+import { EmailNotificationsCard } from "@/components/email-notifications-card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  notificationEventEnum,
+  notificationEventLabels,
+  type NotificationChannel,
+  type NotificationEvent,
+} from "@shared/schema";
+import { ArrowLeft, BellRing, Eye, EyeOff, X } from "lucide-react";
+
+type ChannelSettings = Record<NotificationChannel, boolean>;
+
+interface ProjectPreferences {
+  projectId: number;
+  projectKey: string;
+  projectName: string;
+  preferences: Record<NotificationEvent, ChannelSettings>;
+}
+
+interface AdrWatchEntry {
+  id: number;
+  adrId: number;
+  watching: boolean;
+  adr: { id: number; projectId: number; adrNumber: number; title: string; status: string; projectKey: string; projectName: string };
+}
+
+const channelLabels: Record<NotificationChannel, string> = { inApp: "In app", email: "Email" };
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+function ProjectPreferencesCard({ project }: { project: ProjectPreferences }) {
+  const { toast } = useToast();
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ event, settings }: { event: NotificationEvent; settings: ChannelSettings }) => {
+      const res = await apiRequest("PUT", `/api/notification-preferences/${project.projectId}`, {
+        preferences: [{ event, ...settings }],
+      });
+      return res.json() as Promise<Pick<ProjectPreferences, "projectId" | "preferences">>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData<ProjectPreferences[]>(["/api/notification-preferences"], (old) =>
+        old?.map((p) => (p.projectId === result.projectId ? { ...p, preferences: result.preferences } : p))
+      );
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to save preference", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  const toggle = (event: NotificationEvent, channel: NotificationChannel, on: boolean) => {
+    updateMutation.mutate({ event, settings: { ...project.preferences[event], [channel]: on } });
+  };
+
+  return (
+    <Card data-testid={`card-preferences-${project.projectId}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <span className="font-mono text-xs text-muted-foreground">{project.projectKey}</span>
+          {project.projectName}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-medium pb-2">Event</th>
+              {(Object.keys(channelLabels) as NotificationChannel[]).map((channel) => (
+                <th key={channel} className="font-medium pb-2 w-20 text-center">{channelLabels[channel]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {notificationEventEnum.map((event) => (
+              <tr key={event}>
+                <td className="py-2">{notificationEventLabels[event]}</td>
+                {(Object.keys(channelLabels) as NotificationChannel[]).map((channel) => (
+                  <td key={channel} className="py-2 text-center">
+                    <Checkbox
+                      checked={project.preferences[event][channel]}
+                      onCheckedChange={(checked) => toggle(event, channel, checked === true)}
+                      disabled={updateMutation.isPending}
+                      aria-label={`${notificationEventLabels[event]}: ${channelLabels[channel]}`}
+                      data-testid={`checkbox-${project.projectId}-${event}-${channel}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function WatchedAdrsCard() {
+  const { toast } = useToast();
+  const { data: watches, isLoading } = useQuery<AdrWatchEntry[]>({ queryKey: ["/api/watches"] });
+
+  const resetMutation = useMutation({
+    mutationFn: async (watch: AdrWatchEntry) => {
+      await apiRequest("DELETE", `/api/projects/${watch.adr.projectId}/adrs/${watch.adrId}/watch`);
+      return watch;
+    },
+    onSuccess: (watch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/watches"] });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/projects", String(watch.adr.projectId), "adrs", String(watch.adrId), "watch"],
+      });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to update watch", description: errorMessage(err), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Eye className="w-4 h-4" />
+          Watched ADRs
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Watching an ADR notifies you of every comment on it; you always watch ADRs you wrote.
+          Unwatching mutes its status changes and comments. Use the Watch button on an ADR to change this.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : !watches || watches.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-watches">
+            You haven't watched or muted any ADRs.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {watches.map((watch) => (
+              <div key={watch.id} className="flex items-center justify-between gap-3 py-2" data-testid={`watch-${watch.adrId}`}>
+                <div className="flex items-center gap-2 min-w-0">
+                  {watch.watching
+                    ? <Eye className="w-4 h-4 text-primary flex-shrink-0" />
+                    : <EyeOff className="w-4 h-4 text-muted-foreground flex-shrink-0" />}
+                  <Link
+                    href={`/projects/${watch.adr.projectId}/adrs/${watch.adrId}`}
+                    className="text-sm truncate hover:underline"
+                  >
+                    <span className="font-mono text-xs text-muted-foreground mr-1.5">
+                      {watch.adr.projectKey}-{String(watch.adr.adrNumber).padStart(3, "0")}
+                    </span>
+                    {watch.adr.title}
+                  </Link>
+                  <StatusBadge status={watch.adr.status} projectId={watch.adr.projectId} />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => resetMutation.mutate(watch)}
+                  disabled={resetMutation.isPending}
+                  title="Back to default"
+                  data-testid={`button-reset-watch-${watch.adrId}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function NotificationSettings() {
+  const [, navigate] = useLocation();
+  const { data: projects, isLoading } = useQuery<ProjectPreferences[]>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-5">
+      <div className="flex items-center gap-3">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => navigate("/profile")}
+          data-testid="button-back-profile"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <BellRing className="w-6 h-6 text-primary" />
+        <div>
+          <h1 className="text-xl font-bold tracking-tight" data-testid="text-page-title">
+            Notification Settings
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Choose what you hear about, per project, and where.
+          </p>
+        </div>
+      </div>
+
+      <EmailNotificationsCard />
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : !projects || projects.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-sm text-muted-foreground">
+            You are not a member of any project yet.
+          </CardContent>
+        </Card>
+      ) : (
+        projects.map((project) => <ProjectPreferencesCard key={project.projectId} project={project} />)
+      )}
+
+      <WatchedAdrsCard />
+    </div>
+  );
+}
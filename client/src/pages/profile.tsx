@@ -0,0 +1,71 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ApiTokensCard } from "@/components/api-tokens-card";
+import { TwoFactorCard } from "@/components/two-factor-card";
+import { ChangePasswordCard } from "@/components/change-password-card";
+import { SessionsCard } from "@/components/sessions-card";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocation } from "wouter";
+import { BellRing, UserCircle } from "lucide-react";
+
+export default function Profile() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  if (!user) return null;
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-5">
+      <div className="flex items-center gap-3">
+        <UserCircle className="w-6 h-6 text-primary" />
+        <div>
+          <h1 className="text-xl font-bold tracking-tight" data-testid="text-page-title">
+            Profile
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Your account and access settings.
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-medium" data-testid="text-profile-name">{user.displayName}</p>
+            <p className="text-xs text-muted-foreground">@{user.username}</p>
+          </div>
+          <Badge variant="outline" className="capitalize">{user.role}</Badge>
+        </CardContent>
+      </Card>
+
+      {/* Directory and SSO accounts change their password at the identity provider */}
+      {user.authProvider === "local" && <ChangePasswordCard />}
+
+      <Card>
+        <CardContent className="p-4 flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-medium">Notifications</p>
+            <p className="text-xs text-muted-foreground">
+              Email, digests, which project events reach you, and the ADRs you watch.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate("/profile/notifications")}
+            data-testid="button-notification-settings"
+          >
+            <BellRing className="w-4 h-4 mr-2" />
+            Manage
+          </Button>
+        </CardContent>
+      </Card>
+
+      <TwoFactorCard />
+
+      <SessionsCard />
+
+      <ApiTokensCard />
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
 import { useState } from "react";
-import type { InsertProjectRequirement } from "@shared/schema";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useParams } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -25,10 +24,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, Pencil, Trash2, FileText } from "lucide-react";
-import { useAuth } from "@/hooks/use-auth";
+import { useProjectAccess } from "@/hooks/use-project-access";
 import { useToast } from "@/hooks/use-toast";
-import type { ProjectRequirement, ProjectMemberWithUser } from "@server/storage";
-import { projectRolePermissions } from "@shared/schema";
+import type { InsertProjectRequirement, ProjectRequirement } from "@shared/schema";
 
 const priorityColors = {
   must: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
@@ -45,7 +43,6 @@ const statusColors = {
 
 export default function ProjectRequirements() {
   const { projectId } = useParams<{ projectId: string }>();
-  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
@@ -56,18 +53,10 @@ export default function ProjectRequirements() {
     queryKey: [`/api/projects/${projectId}/requirements`],
   });
 
-  const { data: members = [] } = useQuery<ProjectMemberWithUser[]>({
-    queryKey: [`/api/projects/${projectId}/members`],
-  });
-
-  const myProjectRole =
-    user?.role === "admin"
-      ? "admin"
-      : members.find((m) => m.userId === user?.id)?.role || "viewer";
-  const permissions = projectRolePermissions[myProjectRole];
+  const { can } = useProjectAccess(projectId);
 
   const createMutation = useMutation({
-    mutationFn: async (data: Omit<InsertProjectRequirement, "projectId" | "createdAt" | "updatedAt">) => {
+    mutationFn: async (data: Omit<InsertProjectRequirement, "projectId" | "createdBy" | "createdAt" | "updatedAt">) => {
       const res = await fetch(`/api/projects/${projectId}/requirements`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -130,12 +119,12 @@ export default function ProjectRequirements() {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     createMutation.mutate({
-      type: formData.get("type"),
-      code: formData.get("code"),
-      title: formData.get("title"),
-      description: formData.get("description") || "",
-      priority: formData.get("priority"),
-      status: formData.get("status"),
+      type: String(formData.get("type") ?? ""),
+      code: String(formData.get("code") ?? ""),
+      title: String(formData.get("title") ?? ""),
+      description: String(formData.get("description") ?? ""),
+      priority: String(formData.get("priority") ?? ""),
+      status: String(formData.get("status") ?? ""),
     });
   };
 
@@ -146,10 +135,10 @@ export default function ProjectRequirements() {
     updateMutation.mutate({
       id: editingReq.id,
       data: {
-        title: formData.get("title"),
-        description: formData.get("description") || "",
-        priority: formData.get("priority"),
-        status: formData.get("status"),
+        title: String(formData.get("title") ?? ""),
+        description: String(formData.get("description") ?? ""),
+        priority: String(formData.get("priority") ?? ""),
+        status: String(formData.get("status") ?? ""),
       },
     });
   };
@@ -180,7 +169,7 @@ export default function ProjectRequirements() {
             </p>
           </div>
         </div>
-        {permissions.canEdit && (
+        {can("requirements.manage") && (
           <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
             <DialogTrigger asChild>
               <Button data-testid="button-new-requirement">
@@ -326,7 +315,7 @@ export default function ProjectRequirements() {
                           </p>
                         )}
                       </div>
-                      {permissions.canEdit && (
+                      {can("requirements.manage") && (
                         <div className="flex gap-2">
                           <Button
                             size="sm"
@@ -335,19 +324,17 @@ export default function ProjectRequirements() {
                           >
                             <Pencil className="w-3 h-3" />
                           </Button>
-                          {myProjectRole === "admin" && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => {
-                                if (confirm("Delete this requirement?")) {
-                                  deleteMutation.mutate(req.id);
-                                }
-                              }}
-                            >
-                              <Trash2 className="w-3 h-3" />
-                            </Button>
-                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              if (confirm("Delete this requirement?")) {
+                                deleteMutation.mutate(req.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
                         </div>
                       )}
                     </div>
@@ -1,9 +1,11 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -31,23 +33,29 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
-import type { Project } from "@shared/schema";
-import { projectMemberRoleEnum } from "@shared/schema";
+import { useProjectAccess } from "@/hooks/use-project-access";
+import { WorkflowEditor } from "@/components/workflow-editor";
+import { ProjectRolesCard } from "@/components/project-roles-card";
+import { ProjectGroupsCard } from "@/components/project-groups-card";
+import { ProjectWebhooksCard } from "@/components/project-webhooks-card";
+import type { Project, ProjectRoleDefinition } from "@shared/schema";
 import type { ProjectMemberWithUser } from "@server/storage";
-import { ArrowLeft, UserPlus, Trash2, Shield } from "lucide-react";
+import { ArrowLeft, UserPlus, Trash2, Shield, ClipboardCheck, ShieldCheck } from "lucide-react";
 import { useState } from "react";
 
-const roleLabels: Record<string, string> = {
-  admin: "Admin",
-  editor: "Editor",
-  viewer: "Viewer",
-};
-
+// Custom roles share one colour
 const roleColors: Record<string, string> = {
   admin: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
   editor: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
   viewer: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400",
 };
+const customRoleColor = "bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-400";
+
+interface MemberGroupGrant {
+  groupId: number;
+  groupName: string;
+  role: string;
+}
 
 export default function ProjectSettings() {
   const params = useParams<{ projectId: string }>();
@@ -60,6 +68,7 @@ export default function ProjectSettings() {
   const [selectedUserId, setSelectedUserId] = useState("");
   const [selectedRole, setSelectedRole] = useState<string>("viewer");
   const [removingMemberId, setRemovingMemberId] = useState<string | null>(null);
+  const [reviewQuorum, setReviewQuorum] = useState<string | null>(null);
 
   const { data: project, isLoading: projectLoading } = useQuery<Project>({
     queryKey: ["/api/projects", projectId],
@@ -71,11 +80,18 @@ export default function ProjectSettings() {
     enabled: !!projectId,
   });
 
-  // Determine if current user can manage project members (global admin OR project admin)
-  const currentUserProjectRole = members?.find((m) => m.userId === currentUser?.id)?.role ?? null;
-  const canManageMembers = currentUser?.role === "admin" || currentUserProjectRole === "admin";
+  const { data: roles } = useQuery<ProjectRoleDefinition[]>({
+    queryKey: ["/api/projects", projectId, "roles"],
+    enabled: !!projectId,
+  });
 
-  // Fetch users not yet in the project – available only to project/global admins
+  const { can, isAdmin } = useProjectAccess(projectId);
+  const canManageMembers = can("members.manage");
+  const roleName = (key: string) => roles?.find((r) => r.key === key)?.name ?? key;
+  // Only admins may hand out or take away the admin role
+  const assignableRoles = (roles ?? []).filter((r) => isAdmin || r.key !== "admin");
+
+  // Fetch users not yet in the project – available only to members who manage members
   const { data: availableUsers } = useQuery<{ id: string; username: string; displayName: string; role: string }[]>({
     queryKey: ["/api/projects", projectId, "members", "candidates"],
     enabled: canManageMembers,
@@ -106,6 +122,7 @@ export default function ProjectSettings() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "access"] });
       toast({ title: "Role updated" });
     },
     onError: (err: Error) => {
@@ -113,6 +130,36 @@ export default function ProjectSettings() {
     },
   });
 
+  const reviewQuorumMutation = useMutation({
+    mutationFn: async (quorum: number) => {
+      await apiRequest("PATCH", `/api/projects/${projectId}`, { reviewQuorum: quorum });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      toast({ title: "Review policy updated" });
+      setReviewQuorum(null);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Failed to update review policy", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const twoFactorPolicyMutation = useMutation({
+    mutationFn: async (requireAdminTwoFactor: boolean) => {
+      await apiRequest("PATCH", `/api/projects/${projectId}`, { requireAdminTwoFactor });
+    },
+    onSuccess: (_data, requireAdminTwoFactor) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      toast({ title: requireAdminTwoFactor ? "Two-factor authentication required for admins" : "Two-factor requirement removed" });
+    },
+    onError: (err: Error) => {
+      const msg = err.message.replace(/^\d+:\s*/, "");
+      let parsed = msg;
+      try { parsed = JSON.parse(msg).message || msg; } catch {}
+      toast({ title: "Failed to update security policy", description: parsed, variant: "destructive" });
+    },
+  });
+
   const removeMemberMutation = useMutation({
     mutationFn: async (userId: string) => {
       await apiRequest("DELETE", `/api/projects/${projectId}/members/${userId}`);
@@ -193,6 +240,74 @@ export default function ProjectSettings() {
         </CardContent>
       </Card>
 
+      {/* Review Policy */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ClipboardCheck className="w-4 h-4" />
+            Review Policy
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Number of reviewer approvals required before an ADR can be accepted. Any rejection or
+            change request blocks acceptance. Set to 0 to disable the review gate.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              max={20}
+              className="w-24 h-8"
+              value={reviewQuorum ?? String(project.reviewQuorum)}
+              onChange={(e) => setReviewQuorum(e.target.value)}
+              disabled={!isAdmin}
+              data-testid="input-review-quorum"
+            />
+            {isAdmin && reviewQuorum !== null && (
+              <Button
+                size="sm"
+                onClick={() => reviewQuorumMutation.mutate(parseInt(reviewQuorum) || 0)}
+                disabled={reviewQuorumMutation.isPending}
+                data-testid="button-save-review-quorum"
+              >
+                {reviewQuorumMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Security */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            Security
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Require two-factor authentication before anyone can change project settings, manage members or
+              archive ADRs. Single sign-on accounts rely on their identity provider.
+            </p>
+            <Switch
+              checked={project.requireAdminTwoFactor}
+              onCheckedChange={(checked) => twoFactorPolicyMutation.mutate(checked)}
+              disabled={!isAdmin || twoFactorPolicyMutation.isPending}
+              data-testid="switch-require-admin-2fa"
+            />
+          </div>
+          {project.requireAdminTwoFactor && currentUser && !currentUser.twoFactorEnabled && currentUser.authProvider !== "oidc" && (
+            <p className="text-xs text-amber-600 dark:text-amber-400" data-testid="text-2fa-required-warning">
+              Admin actions in this project are blocked until you{" "}
+              <Link href="/profile" className="underline">enable two-factor authentication</Link>.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Members */}
       <Card>
         <CardHeader className="pb-3">
@@ -214,59 +329,88 @@ export default function ProjectSettings() {
             <p className="text-sm text-muted-foreground">No members yet.</p>
           ) : (
             <div className="space-y-2">
-              {members.map((member) => (
-                <div
-                  key={member.id}
-                  className="flex items-center justify-between gap-3 py-2 border-b last:border-0"
-                  data-testid={`member-row-${member.userId}`}
-                >
-                  <div className="min-w-0 flex-1">
-                    <p className="text-sm font-medium truncate">{member.user.displayName}</p>
-                    <p className="text-xs text-muted-foreground">@{member.user.username}</p>
+              {members.map((member) => {
+                // Only direct roles are edited here; group grants are managed below
+                const editable = !!member.directRole && canManageMembers && member.userId !== currentUser?.id
+                  && (isAdmin || member.directRole !== "admin");
+                return (
+                  <div
+                    key={member.userId}
+                    className="flex items-center justify-between gap-3 py-2 border-b last:border-0"
+                    data-testid={`member-row-${member.userId}`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{member.user.displayName}</p>
+                      <p className="text-xs text-muted-foreground">@{member.user.username}</p>
+                      <div className="flex flex-wrap gap-1 mt-1" data-testid={`member-sources-${member.userId}`}>
+                        {member.directRole && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                            Direct · {roleName(member.directRole)}
+                          </span>
+                        )}
+                        {member.groups.map((g: MemberGroupGrant) => (
+                          <span key={g.groupId} className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground">
+                            via {g.groupName} · {roleName(g.role)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {editable ? (
+                        <Select
+                          value={member.directRole ?? undefined}
+                          onValueChange={(role) =>
+                            updateRoleMutation.mutate({ userId: member.userId, role })
+                          }
+                        >
+                          <SelectTrigger className="h-7 w-[140px] text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {assignableRoles.map((r) => (
+                              <SelectItem key={r.key} value={r.key}>
+                                {r.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge className={`text-[10px] px-1.5 py-0 ${roleColors[member.role] ?? customRoleColor}`}>
+                          {roleName(member.role)}
+                        </Badge>
+                      )}
+                      {editable && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          onClick={() => setRemovingMemberId(member.userId)}
+                          data-testid={`button-remove-member-${member.userId}`}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    {canManageMembers && member.userId !== currentUser?.id ? (
-                      <Select
-                        value={member.role}
-                        onValueChange={(role) =>
-                          updateRoleMutation.mutate({ userId: member.userId, role })
-                        }
-                      >
-                        <SelectTrigger className="h-7 w-[100px] text-xs">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {projectMemberRoleEnum.map((r) => (
-                            <SelectItem key={r} value={r}>
-                              {roleLabels[r]}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    ) : (
-                      <Badge className={`text-[10px] px-1.5 py-0 ${roleColors[member.role]}`}>
-                        {roleLabels[member.role]}
-                      </Badge>
-                    )}
-                    {canManageMembers && member.userId !== currentUser?.id && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
-                        onClick={() => setRemovingMemberId(member.userId)}
-                        data-testid={`button-remove-member-${member.userId}`}
-                      >
-                        <Trash2 className="w-3.5 h-3.5" />
-                      </Button>
-                    )}
-                  </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Groups */}
+      <ProjectGroupsCard projectId={projectId} />
+
+      {/* Roles */}
+      <ProjectRolesCard projectId={projectId} canManage={isAdmin} />
+
+      {/* Status Workflow */}
+      <WorkflowEditor projectId={projectId} canManage={isAdmin} />
+
+      {/* Webhooks */}
+      {isAdmin && <ProjectWebhooksCard projectId={projectId} />}
+
       {/* Add Member Dialog */}
       <Dialog open={showAddMember} onOpenChange={setShowAddMember}>
         <DialogContent>
@@ -302,9 +446,9 @@ export default function ProjectSettings() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {projectMemberRoleEnum.map((r) => (
-                    <SelectItem key={r} value={r}>
-                      {roleLabels[r]}
+                  {assignableRoles.map((r) => (
+                    <SelectItem key={r.key} value={r.key}>
+                      {r.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle2, FileText, Loader2 } from "lucide-react";
+
+interface ResetTokenInfo {
+  username: string;
+  displayName: string;
+  expiresAt: string;
+}
+
+function errorMessage(err: Error) {
+  const msg = err.message.replace(/^\d+:\s*/, "");
+  try { return JSON.parse(msg).message || msg; } catch { return msg; }
+}
+
+export default function ResetPasswordPage({ token }: { token: string }) {
+  const [, navigate] = useLocation();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  const { data: info, isLoading, error } = useQuery<ResetTokenInfo>({
+    queryKey: [`/api/auth/password-reset?token=${encodeURIComponent(token)}`],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/password-reset", { token, newPassword: password });
+    },
+  });
+
+  const mismatch = confirm.length > 0 && password !== confirm;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-background">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center gap-2 mb-10">
+          <div className="w-8 h-8 rounded-lg bg-primary flex items-center justify-center">
+            <FileText className="w-4 h-4 text-white" />
+          </div>
+          <span className="font-semibold text-sm">ADR Manager</span>
+        </div>
+
+        <h1 className="text-2xl font-bold tracking-tight" data-testid="text-reset-title">
+          Choose a new password
+        </h1>
+
+        {isLoading ? (
+          <div className="space-y-3 mt-6">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : error || !info ? (
+          <Alert variant="destructive" className="mt-6" data-testid="alert-reset-invalid">
+            <AlertDescription>
+              {error ? errorMessage(error as Error) : "This reset link is invalid or has expired"}. Ask an administrator
+              for a new link.
+            </AlertDescription>
+          </Alert>
+        ) : resetMutation.isSuccess ? (
+          <div className="mt-6 space-y-4" data-testid="reset-success">
+            <div className="flex items-start gap-2 text-sm">
+              <CheckCircle2 className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+              <p>Your password has been updated and you were signed out everywhere else.</p>
+            </div>
+            <Button className="w-full h-10" onClick={() => navigate("/")} data-testid="button-reset-continue">
+              Continue to sign in
+            </Button>
+          </div>
+        ) : (
+          <form
+            className="mt-6 space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              resetMutation.mutate();
+            }}
+          >
+            <p className="text-sm text-muted-foreground">
+              Resetting the password for <span className="font-medium text-foreground">{info.displayName}</span> (@{info.username}).
+              This link expires {new Date(info.expiresAt).toLocaleString()}.
+            </p>
+            <div className="space-y-1.5">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                placeholder="Minimum 6 characters"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                className="h-10"
+                data-testid="input-reset-password"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="confirm-password">Confirm password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                autoComplete="new-password"
+                className="h-10"
+                data-testid="input-reset-confirm"
+              />
+              {mismatch && <p className="text-xs text-destructive">Passwords do not match</p>}
+            </div>
+            {resetMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{errorMessage(resetMutation.error as Error)}</AlertDescription>
+              </Alert>
+            )}
+            <Button
+              type="submit"
+              className="w-full h-10"
+              disabled={password.length < 6 || password !== confirm || resetMutation.isPending}
+              data-testid="button-reset-submit"
+            >
+              {resetMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Set Password
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
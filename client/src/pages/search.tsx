@@ -14,8 +14,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Search as SearchIcon, SlidersHorizontal, ChevronRight } from "lucide-react";
-import { statusLabels, tagOptions, teamOptions } from "@shared/schema";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Search as SearchIcon, SlidersHorizontal, ChevronRight, ChevronLeft, ChevronDown } from "lucide-react";
+import { statusLabels } from "@shared/schema";
+import { cn } from "@/lib/utils";
 
 interface SearchResult {
   id: number;
@@ -33,46 +36,158 @@ interface SearchResult {
   projectId: number;
   projectKey: string;
   projectName: string;
+  rank: number;
+  snippet: string;
+}
+
+interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+type FacetName = "status" | "team" | "tag" | "author" | "project";
+
+interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  facets: Record<FacetName, FacetCount[]>;
+}
+
+const facetTitles: Record<FacetName, string> = {
+  status: "Status",
+  team: "Team",
+  tag: "Tags",
+  author: "Author",
+  project: "Project",
+};
+
+const facetNames = Object.keys(facetTitles) as FacetName[];
+
+function readList(params: URLSearchParams, key: string): string[] {
+  return (params.get(key) || "").split(",").filter(Boolean);
+}
+
+interface FacetFilterProps {
+  readonly name: FacetName;
+  readonly options: FacetCount[];
+  readonly selected: string[];
+  readonly onChange: (values: string[]) => void;
+  readonly children?: React.ReactNode;
+}
+
+function FacetFilter({ name, options, selected, onChange, children }: FacetFilterProps) {
+  // Keep selected values visible even when the current results no longer contain them
+  const missing = selected
+    .filter((value) => !options.some((o) => o.value === value))
+    .map((value) => ({ value, label: value, count: 0 }));
+  const all = [...options, ...missing];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("h-8", selected.length > 0 && "border-primary text-primary")}
+          data-testid={`button-filter-${name}`}
+        >
+          {facetTitles[name]}
+          {selected.length > 0 && <span className="ml-1.5 text-xs">({selected.length})</span>}
+          <ChevronDown className="w-3.5 h-3.5 ml-1" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-2">
+        {children}
+        <div className="max-h-64 overflow-auto space-y-0.5">
+          {all.length === 0 ? (
+            <p className="text-xs text-muted-foreground px-2 py-1.5">No values in the current results</p>
+          ) : (
+            all.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer hover:bg-muted"
+                data-testid={`facet-${name}-${option.value}`}
+              >
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) =>
+                    onChange(
+                      checked === true
+                        ? [...selected, option.value]
+                        : selected.filter((v) => v !== option.value)
+                    )
+                  }
+                />
+                <span className="flex-1 truncate">{option.label}</span>
+                <span className="text-xs text-muted-foreground tabular-nums">{option.count}</span>
+              </label>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// The server wraps matched terms in <mark> (see server/search.ts); everything
+// else is plain text, so split on the markers instead of injecting HTML.
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <p className="text-xs text-muted-foreground line-clamp-3" data-testid="text-result-snippet">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-amber-100 text-foreground dark:bg-amber-900/60 rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
 }
 
 export default function SearchPage() {
-  const [location, setLocation] = useLocation();
+  const [, setLocation] = useLocation();
   const urlParams = new URLSearchParams(window.location.search);
-  
+
   const [query, setQuery] = useState(urlParams.get("q") || "");
-  const [statusFilter, setStatusFilter] = useState(urlParams.get("status") || "all");
-  const [teamFilter, setTeamFilter] = useState(urlParams.get("team") || "all");
-  const [tagFilter, setTagFilter] = useState(urlParams.get("tag") || "all");
-  const [sortBy, setSortBy] = useState(urlParams.get("sort") || "newest");
+  const [filters, setFilters] = useState<Record<FacetName, string[]>>(() => ({
+    status: readList(urlParams, "status"),
+    team: readList(urlParams, "team"),
+    tag: readList(urlParams, "tag"),
+    author: readList(urlParams, "author"),
+    project: readList(urlParams, "projectId"),
+  }));
+  const [tagMode, setTagMode] = useState(urlParams.get("tagMode") === "all" ? "all" : "any");
+  const [sortBy, setSortBy] = useState(urlParams.get("sort") || "relevance");
   const [showFilters, setShowFilters] = useState(false);
   const [page, setPage] = useState(0);
   const limit = 20;
 
-  useEffect(() => {
-    const params = new URLSearchParams();
-    if (query) params.set("q", query);
-    if (statusFilter !== "all") params.set("status", statusFilter);
-    if (teamFilter !== "all") params.set("team", teamFilter);
-    if (tagFilter !== "all") params.set("tag", tagFilter);
-    if (sortBy !== "newest") params.set("sort", sortBy);
-    const newSearch = params.toString();
-    if (newSearch) {
-      setLocation(`/search?${newSearch}`, { replace: true });
-    } else {
-      setLocation("/search", { replace: true });
+  const filterParams = new URLSearchParams();
+  if (query) filterParams.set("q", query);
+  for (const name of facetNames) {
+    if (filters[name].length > 0) {
+      filterParams.set(name === "project" ? "projectId" : name, filters[name].join(","));
     }
-  }, [query, statusFilter, teamFilter, tagFilter, sortBy, setLocation]);
+  }
+  if (filters.tag.length > 1 && tagMode === "all") filterParams.set("tagMode", "all");
+  if (sortBy !== "relevance") filterParams.set("sort", sortBy);
+  const filterString = filterParams.toString();
 
-  const searchParams = new URLSearchParams();
-  if (query) searchParams.set("q", query);
-  if (statusFilter !== "all") searchParams.set("status", statusFilter);
-  if (teamFilter !== "all") searchParams.set("team", teamFilter);
-  if (tagFilter !== "all") searchParams.set("tag", tagFilter);
+  useEffect(() => {
+    setLocation(filterString ? `/search?${filterString}` : "/search", { replace: true });
+  }, [filterString, setLocation]);
+
+  const searchParams = new URLSearchParams(filterParams);
   searchParams.set("sort", sortBy);
   searchParams.set("limit", String(limit));
   searchParams.set("offset", String(page * limit));
 
-  const { data: results = [], isLoading } = useQuery<SearchResult[]>({
+  const { data, isLoading } = useQuery<SearchResponse>({
     queryKey: ["/api/search", searchParams.toString()],
     queryFn: async () => {
       const res = await fetch(`/api/search?${searchParams.toString()}`, {
@@ -81,8 +196,26 @@ export default function SearchPage() {
       if (!res.ok) throw new Error(await res.text());
       return res.json();
     },
+    placeholderData: (previous) => previous,
   });
 
+  const results = data?.results ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / limit));
+  const hasFilters = facetNames.some((name) => filters[name].length > 0);
+
+  const setFilter = (name: FacetName, values: string[]) => {
+    setFilters((prev) => ({ ...prev, [name]: values }));
+    setPage(0);
+  };
+
+  const facetOptions = (name: FacetName): FacetCount[] => {
+    const options = data?.facets[name] ?? [];
+    if (name !== "status") return options;
+    const labels: Record<string, string> = statusLabels;
+    return options.map((o) => ({ ...o, label: labels[o.value] ?? o.value }));
+  };
+
   return (
     <div className="p-6 max-w-4xl mx-auto space-y-5">
       <div>
@@ -98,10 +231,10 @@ export default function SearchPage() {
         <div className="relative">
           <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
           <Input
-            placeholder="Search by title, context, decision, tags, author..."
+            placeholder='Search decisions... use "exact phrase", -exclude, prefix*, OR'
             className="pl-11 h-11 text-base"
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            onChange={(e) => { setQuery(e.target.value); setPage(0); }}
             autoFocus
             data-testid="input-search"
           />
@@ -117,13 +250,11 @@ export default function SearchPage() {
               <SlidersHorizontal className="w-4 h-4" />
               Filters
             </button>
-            {(statusFilter !== "all" || teamFilter !== "all" || tagFilter !== "all") && (
+            {hasFilters && (
               <button
                 className="text-xs text-primary"
                 onClick={() => {
-                  setStatusFilter("all");
-                  setTeamFilter("all");
-                  setTagFilter("all");
+                  setFilters({ status: [], team: [], tag: [], author: [], project: [] });
                   setPage(0);
                 }}
                 data-testid="button-clear-filters"
@@ -137,51 +268,45 @@ export default function SearchPage() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="relevance">Most Relevant</SelectItem>
               <SelectItem value="newest">Newest First</SelectItem>
               <SelectItem value="oldest">Oldest First</SelectItem>
               <SelectItem value="title">Title A-Z</SelectItem>
-              <SelectItem value="relevance">Most Relevant</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
-        {showFilters && (
-          <div className="flex gap-3 flex-wrap p-3 bg-muted/50 rounded-md">
-            <Select value={statusFilter} onValueChange={(v) => { setStatusFilter(v); setPage(0); }}>
-              <SelectTrigger className="w-[150px]" data-testid="select-filter-status">
-                <SelectValue placeholder="Status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Statuses</SelectItem>
-                {Object.entries(statusLabels).map(([k, v]) => (
-                  <SelectItem key={k} value={k}>{v}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            <Select value={teamFilter} onValueChange={(v) => { setTeamFilter(v); setPage(0); }}>
-              <SelectTrigger className="w-[150px]" data-testid="select-filter-team">
-                <SelectValue placeholder="Team" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Teams</SelectItem>
-                {teamOptions.map((t) => (
-                  <SelectItem key={t} value={t}>{t}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            <Select value={tagFilter} onValueChange={(v) => { setTagFilter(v); setPage(0); }}>
-              <SelectTrigger className="w-[150px]" data-testid="select-filter-tag">
-                <SelectValue placeholder="Tag" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Tags</SelectItem>
-                {tagOptions.map((t) => (
-                  <SelectItem key={t} value={t}>{t}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+        {(showFilters || hasFilters) && (
+          <div className="flex gap-2 flex-wrap p-3 bg-muted/50 rounded-md">
+            {facetNames.map((name) => (
+              <FacetFilter
+                key={name}
+                name={name}
+                options={facetOptions(name)}
+                selected={filters[name]}
+                onChange={(values) => setFilter(name, values)}
+              >
+                {name === "tag" && (
+                  <div className="flex items-center gap-1 mb-2 px-1" data-testid="toggle-tag-mode">
+                    {(["any", "all"] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => { setTagMode(mode); setPage(0); }}
+                        className={cn(
+                          "text-[11px] px-2 py-0.5 rounded-full border transition-colors",
+                          tagMode === mode
+                            ? "bg-primary text-primary-foreground border-primary"
+                            : "text-muted-foreground hover:border-primary/50"
+                        )}
+                      >
+                        Match {mode}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </FacetFilter>
+            ))}
           </div>
         )}
       </div>
@@ -194,8 +319,8 @@ export default function SearchPage() {
         </div>
       ) : (
         <>
-          <p className="text-sm text-muted-foreground">
-            {results.length} result{results.length !== 1 ? "s" : ""}
+          <p className="text-sm text-muted-foreground" data-testid="text-result-count">
+            {total} result{total !== 1 ? "s" : ""}
             {query && ` for "${query}"`}
           </p>
           {results.length === 0 ? (
@@ -216,7 +341,7 @@ export default function SearchPage() {
                           <span className="text-xs font-mono text-muted-foreground">
                             {result.projectKey}-{String(result.adrNumber).padStart(3, "0")}
                           </span>
-                          <StatusBadge status={result.status} />
+                          <StatusBadge status={result.status} projectId={result.projectId} />
                           {result.team && (
                             <Badge variant="secondary" className="text-xs">{result.team}</Badge>
                           )}
@@ -225,9 +350,7 @@ export default function SearchPage() {
                           </Badge>
                         </div>
                         <h3 className="font-semibold text-sm mb-1">{result.title}</h3>
-                        <p className="text-xs text-muted-foreground line-clamp-2">
-                          {result.context.slice(0, 200)}
-                        </p>
+                        <HighlightedSnippet snippet={result.snippet} />
                         {(result.tags || []).length > 0 && (
                           <div className="flex gap-1 mt-2 flex-wrap">
                             {(result.tags || []).slice(0, 5).map((tag) => (
@@ -242,14 +365,15 @@ export default function SearchPage() {
                   </Link>
                 ))}
               </div>
-              {results.length === limit && (
-                <div className="flex justify-center gap-2 mt-4">
-                  {page > 0 && (
-                    <Button variant="outline" onClick={() => setPage(page - 1)}>
-                      Previous
-                    </Button>
-                  )}
-                  <Button variant="outline" onClick={() => setPage(page + 1)}>
+              {pageCount > 1 && (
+                <div className="flex items-center justify-center gap-3 mt-4">
+                  <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                    <ChevronLeft className="w-4 h-4 mr-1" /> Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground" data-testid="text-page">
+                    Page {page + 1} of {pageCount}
+                  </span>
+                  <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
                     Next <ChevronRight className="w-4 h-4 ml-1" />
                   </Button>
                 </div>
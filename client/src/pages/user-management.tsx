@@ -20,16 +20,31 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { LdapSettingsCard } from "@/components/ldap-settings-card";
+import { LoginLockoutsCard, type LoginLockoutsResponse } from "@/components/login-lockouts-card";
+import { UserSessionsDialog } from "@/components/sessions-card";
+import { UserGroupsCard } from "@/components/user-groups-card";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { userRoleEnum } from "@shared/schema";
-import type { User } from "@shared/schema";
-import { Shield, Users, UserPlus, Trash2, Loader2 } from "lucide-react";
+import type { SafeUser } from "@shared/schema";
+import { Shield, ShieldOff, Users, UserPlus, UserX, UserCheck, Eraser, Loader2, Link2, Copy, MonitorSmartphone } from "lucide-react";
 import { useLocation } from "wouter";
 import { useState } from "react";
 
-type SafeUser = Omit<User, "password">;
+interface ResetLinkResult {
+  url: string;
+  expiresAt: string;
+  emailQueuedFor: string | null;
+}
+
+const resetExpiryOptions = [
+  { value: "1", label: "1 hour" },
+  { value: "24", label: "24 hours" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "7 days" },
+];
 
 export default function UserManagement() {
   const { user: currentUser } = useAuth();
@@ -38,8 +53,14 @@ export default function UserManagement() {
   const isAdmin = currentUser?.role === "admin";
 
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [deleteTarget, setDeleteTarget] = useState<SafeUser | null>(null);
+  const [deactivateTarget, setDeactivateTarget] = useState<SafeUser | null>(null);
+  const [anonymiseTarget, setAnonymiseTarget] = useState<SafeUser | null>(null);
+  const [anonymiseConfirm, setAnonymiseConfirm] = useState("");
+  const [resetTwoFactorTarget, setResetTwoFactorTarget] = useState<SafeUser | null>(null);
+  const [resetLinkTarget, setResetLinkTarget] = useState<SafeUser | null>(null);
+  const [sessionsTarget, setSessionsTarget] = useState<SafeUser | null>(null);
+  const [resetExpiry, setResetExpiry] = useState("24");
+  const [resetEmail, setResetEmail] = useState("");
   const [newUsername, setNewUsername] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [newDisplayName, setNewDisplayName] = useState("");
@@ -50,6 +71,20 @@ export default function UserManagement() {
     enabled: isAdmin,
   });
 
+  // Shared with LoginLockoutsCard; used here to flag locked accounts in the list
+  const { data: lockoutData } = useQuery<LoginLockoutsResponse>({
+    queryKey: ["/api/admin/lockouts"],
+    enabled: isAdmin,
+  });
+  const lockedUserIds = new Set(
+    (lockoutData?.lockouts ?? []).map((l) => l.user?.id).filter((id): id is string => !!id),
+  );
+
+  const { data: mailer } = useQuery<{ configured: boolean; transport: string | null }>({
+    queryKey: ["/api/admin/mailer"],
+    enabled: isAdmin,
+  });
+
   const roleMutation = useMutation({
     mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
       await apiRequest("PATCH", `/api/users/${userId}/role`, { role });
@@ -90,24 +125,106 @@ export default function UserManagement() {
     },
   });
 
-  const deleteMutation = useMutation({
+  const deactivateMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/users/${userId}/deactivate`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setDeactivateTarget(null);
+      toast({ title: "User deactivated" });
+    },
+    onError: (err: Error) => {
+      const msg = err.message.replace(/^\d+:\s*/, "");
+      let parsed = msg;
+      try { parsed = JSON.parse(msg).message || msg; } catch {}
+      toast({ title: "Failed to deactivate user", description: parsed, variant: "destructive" });
+    },
+  });
+
+  const reactivateMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/users/${userId}/reactivate`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "User reactivated", description: "Add them back to their projects to restore access." });
+    },
+    onError: (err: Error) => {
+      const msg = err.message.replace(/^\d+:\s*/, "");
+      let parsed = msg;
+      try { parsed = JSON.parse(msg).message || msg; } catch {}
+      toast({ title: "Failed to reactivate user", description: parsed, variant: "destructive" });
+    },
+  });
+
+  const anonymiseMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("POST", `/api/users/${userId}/anonymise`, { confirmUsername: anonymiseConfirm });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      closeAnonymise();
+      toast({ title: "User anonymised" });
+    },
+    onError: (err: Error) => {
+      const msg = err.message.replace(/^\d+:\s*/, "");
+      let parsed = msg;
+      try { parsed = JSON.parse(msg).message || msg; } catch {}
+      toast({ title: "Failed to anonymise user", description: parsed, variant: "destructive" });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
     mutationFn: async (userId: string) => {
-      await apiRequest("DELETE", `/api/users/${userId}`);
+      await apiRequest("POST", `/api/users/${userId}/2fa/reset`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
-      setShowDeleteDialog(false);
-      setDeleteTarget(null);
-      toast({ title: "User deleted" });
+      setResetTwoFactorTarget(null);
+      toast({ title: "Two-factor authentication reset" });
     },
     onError: (err: Error) => {
       const msg = err.message.replace(/^\d+:\s*/, "");
       let parsed = msg;
       try { parsed = JSON.parse(msg).message || msg; } catch {}
-      toast({ title: "Failed to delete user", description: parsed, variant: "destructive" });
+      toast({ title: "Failed to reset two-factor authentication", description: parsed, variant: "destructive" });
     },
   });
 
+  const resetLinkMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/password-reset`, {
+        expiresInHours: parseInt(resetExpiry),
+        email: resetEmail.trim() || undefined,
+      });
+      return res.json() as Promise<ResetLinkResult>;
+    },
+    onSuccess: (result) => {
+      if (result.emailQueuedFor) {
+        toast({ title: "Reset email queued", description: `It will be sent to ${result.emailQueuedFor} shortly` });
+      }
+    },
+    onError: (err: Error) => {
+      const msg = err.message.replace(/^\d+:\s*/, "");
+      let parsed = msg;
+      try { parsed = JSON.parse(msg).message || msg; } catch {}
+      toast({ title: "Failed to create reset link", description: parsed, variant: "destructive" });
+    },
+  });
+
+  const closeAnonymise = () => {
+    setAnonymiseTarget(null);
+    setAnonymiseConfirm("");
+  };
+
+  const closeResetLink = () => {
+    setResetLinkTarget(null);
+    setResetExpiry("24");
+    setResetEmail("");
+    resetLinkMutation.reset();
+  };
+
   if (!isAdmin) {
     navigate("/");
     return null;
@@ -166,7 +283,7 @@ export default function UserManagement() {
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
         {(["admin", "editor", "viewer"] as const).map((role) => {
-          const count = users?.filter((u) => u.role === role).length || 0;
+          const count = users?.filter((u) => u.active && u.role === role).length || 0;
           return (
             <Card key={role}>
               <CardContent className="p-4 flex items-center justify-between">
@@ -181,6 +298,10 @@ export default function UserManagement() {
         })}
       </div>
 
+      <LdapSettingsCard />
+
+      <LoginLockoutsCard />
+
       <Card>
         <CardHeader>
           <CardTitle className="text-sm font-semibold flex items-center gap-2">
@@ -214,6 +335,22 @@ export default function UserManagement() {
                         {u.id === currentUser?.id && (
                           <span className="text-[10px] text-muted-foreground">(you)</span>
                         )}
+                        {u.authProvider !== "local" && (
+                          <Badge variant="outline" className="text-[10px] uppercase">{u.authProvider}</Badge>
+                        )}
+                        {u.twoFactorEnabled && (
+                          <Badge variant="outline" className="text-[10px]" data-testid={`badge-2fa-${u.id}`}>2FA</Badge>
+                        )}
+                        {lockedUserIds.has(u.id) && (
+                          <Badge variant="outline" className="text-[10px] text-amber-600 dark:text-amber-400" data-testid={`badge-locked-${u.id}`}>
+                            Locked
+                          </Badge>
+                        )}
+                        {!u.active && (
+                          <Badge variant="outline" className="text-[10px] text-muted-foreground" data-testid={`badge-inactive-${u.id}`}>
+                            {u.anonymisedAt ? "Anonymised" : "Deactivated"}
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-xs text-muted-foreground">@{u.username}</p>
                     </div>
@@ -245,17 +382,75 @@ export default function UserManagement() {
                       {new Date(u.createdAt).toLocaleDateString()}
                     </span>
                     {u.id !== currentUser?.id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        title="Active sessions"
+                        onClick={() => setSessionsTarget(u)}
+                        data-testid={`button-sessions-${u.id}`}
+                      >
+                        <MonitorSmartphone className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {u.id !== currentUser?.id && u.authProvider === "local" && u.active && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        title="Create password reset link"
+                        onClick={() => setResetLinkTarget(u)}
+                        data-testid={`button-reset-password-${u.id}`}
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {u.id !== currentUser?.id && u.twoFactorEnabled && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        title="Reset two-factor authentication"
+                        onClick={() => setResetTwoFactorTarget(u)}
+                        data-testid={`button-reset-2fa-${u.id}`}
+                      >
+                        <ShieldOff className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {u.id !== currentUser?.id && (u.active ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        title="Deactivate user"
+                        onClick={() => setDeactivateTarget(u)}
+                        data-testid={`button-deactivate-${u.id}`}
+                      >
+                        <UserX className="w-4 h-4" />
+                      </Button>
+                    ) : !u.anonymisedAt && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        title="Reactivate user"
+                        onClick={() => reactivateMutation.mutate(u.id)}
+                        disabled={reactivateMutation.isPending}
+                        data-testid={`button-reactivate-${u.id}`}
+                      >
+                        <UserCheck className="w-4 h-4" />
+                      </Button>
+                    ))}
+                    {u.id !== currentUser?.id && !u.anonymisedAt && (
                       <Button
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                        onClick={() => {
-                          setDeleteTarget(u);
-                          setShowDeleteDialog(true);
-                        }}
-                        data-testid={`button-delete-${u.id}`}
+                        title="Anonymise user"
+                        onClick={() => setAnonymiseTarget(u)}
+                        data-testid={`button-anonymise-${u.id}`}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <Eraser className="w-4 h-4" />
                       </Button>
                     )}
                   </div>
@@ -266,6 +461,8 @@ export default function UserManagement() {
         </CardContent>
       </Card>
 
+      <UserGroupsCard users={users ?? []} />
+
       <Dialog open={showCreateDialog} onOpenChange={(open) => { setShowCreateDialog(open); if (!open) resetCreateForm(); }}>
         <DialogContent>
           <DialogHeader>
@@ -348,33 +545,172 @@ export default function UserManagement() {
         </DialogContent>
       </Dialog>
 
-      <Dialog open={showDeleteDialog} onOpenChange={(open) => { setShowDeleteDialog(open); if (!open) setDeleteTarget(null); }}>
+      <Dialog open={!!resetLinkTarget} onOpenChange={(open) => { if (!open) closeResetLink(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{resetLinkMutation.data ? "Reset Link Created" : "Password Reset Link"}</DialogTitle>
+            <DialogDescription>
+              {resetLinkMutation.data
+                ? `The link works once and expires ${new Date(resetLinkMutation.data.expiresAt).toLocaleString()}. It will not be shown again.`
+                : <>Create a single-use link for <strong>{resetLinkTarget?.displayName}</strong> (@{resetLinkTarget?.username}) to choose a new password. Any earlier link stops working.</>}
+            </DialogDescription>
+          </DialogHeader>
+          {resetLinkMutation.data ? (
+            <div className="flex items-center gap-2">
+              <Input readOnly value={resetLinkMutation.data.url} className="font-mono text-xs" data-testid="input-reset-link" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  navigator.clipboard.writeText(resetLinkMutation.data!.url);
+                  toast({ title: "Link copied" });
+                }}
+                data-testid="button-copy-reset-link"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Expires after</Label>
+                <Select value={resetExpiry} onValueChange={setResetExpiry}>
+                  <SelectTrigger data-testid="select-reset-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {resetExpiryOptions.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {mailer?.configured && (
+                <div className="space-y-2">
+                  <Label htmlFor="reset-email">Email the link to (optional)</Label>
+                  <Input
+                    id="reset-email"
+                    type="email"
+                    placeholder="jane@example.com"
+                    value={resetEmail}
+                    onChange={(e) => setResetEmail(e.target.value)}
+                    data-testid="input-reset-email"
+                  />
+                  <p className="text-xs text-muted-foreground">Leave empty to share the link yourself.</p>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            {resetLinkMutation.data ? (
+              <Button onClick={closeResetLink}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeResetLink}>Cancel</Button>
+                <Button
+                  onClick={() => resetLinkTarget && resetLinkMutation.mutate(resetLinkTarget.id)}
+                  disabled={resetLinkMutation.isPending}
+                  data-testid="button-confirm-reset-link"
+                >
+                  {resetLinkMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Create Link
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <UserSessionsDialog user={sessionsTarget} onClose={() => setSessionsTarget(null)} />
+
+      <Dialog open={!!resetTwoFactorTarget} onOpenChange={(open) => { if (!open) setResetTwoFactorTarget(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              <strong>{resetTwoFactorTarget?.displayName}</strong> (@{resetTwoFactorTarget?.username}) will sign in with
+              their password only until they set up two-factor authentication again. Their recovery codes stop working.
+              Only do this after verifying their identity.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetTwoFactorTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => resetTwoFactorTarget && resetTwoFactorMutation.mutate(resetTwoFactorTarget.id)}
+              disabled={resetTwoFactorMutation.isPending}
+              data-testid="button-confirm-reset-2fa"
+            >
+              {resetTwoFactorMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Reset 2FA
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deactivateTarget} onOpenChange={(open) => { if (!open) setDeactivateTarget(null); }}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete User</DialogTitle>
+            <DialogTitle>Deactivate User</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete <strong>{deleteTarget?.displayName}</strong> (@{deleteTarget?.username})?
-              This action cannot be undone.
+              <strong>{deactivateTarget?.displayName}</strong> (@{deactivateTarget?.username}) will be signed out, can no
+              longer sign in or use API tokens, and is removed from all projects. Their ADRs, comments and audit history
+              stay as they are, and the account can be reactivated later.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
-            <Button variant="outline" onClick={() => { setShowDeleteDialog(false); setDeleteTarget(null); }}>
+            <Button variant="outline" onClick={() => setDeactivateTarget(null)}>
               Cancel
             </Button>
             <Button
               variant="destructive"
-              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
-              disabled={deleteMutation.isPending}
-              data-testid="button-confirm-delete"
+              onClick={() => deactivateTarget && deactivateMutation.mutate(deactivateTarget.id)}
+              disabled={deactivateMutation.isPending}
+              data-testid="button-confirm-deactivate"
             >
-              {deleteMutation.isPending ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Deleting...
-                </>
-              ) : (
-                "Delete User"
-              )}
+              {deactivateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Deactivate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!anonymiseTarget} onOpenChange={(open) => { if (!open) closeAnonymise(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Anonymise User</DialogTitle>
+            <DialogDescription>
+              Replaces the name of <strong>{anonymiseTarget?.displayName}</strong> on every ADR, version, comment,
+              attachment, diagram, requirement, notification and audit entry with a placeholder, deactivates the account
+              and deletes its credentials. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Label htmlFor="anonymise-confirm">
+              Type <span className="font-mono">{anonymiseTarget?.username}</span> to confirm
+            </Label>
+            <Input
+              id="anonymise-confirm"
+              value={anonymiseConfirm}
+              onChange={(e) => setAnonymiseConfirm(e.target.value)}
+              autoComplete="off"
+              data-testid="input-anonymise-confirm"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeAnonymise}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => anonymiseTarget && anonymiseMutation.mutate(anonymiseTarget.id)}
+              disabled={anonymiseConfirm !== anonymiseTarget?.username || anonymiseMutation.isPending}
+              data-testid="button-confirm-anonymise"
+            >
+              {anonymiseMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Anonymise
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -16,14 +16,18 @@ const allowlist = [
   "express-rate-limit",
   "express-session",
   "jsonwebtoken",
+  "ldapts",
   "memorystore",
   "multer",
   "nanoid",
   "nodemailer",
   "openai",
+  "openid-client",
+  "otpauth",
   "passport",
   "passport-local",
   "pg",
+  "qrcode",
   "stripe",
   "uuid",
   "ws",
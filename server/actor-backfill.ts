@@ -0,0 +1,52 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "./db";
+import { logger } from "./logger";
+import { dataMigrations } from "@shared/schema";
+
+const MIGRATION = "actor-ids";
+
+// Tables that used to record actors by display name only: [table, name column, ID column, timestamp column]
+const actorColumns = [
+  ["adrs", "author", "author_id", "created_at"],
+  ["adr_versions", "changed_by", "changed_by_id", "created_at"],
+  ["adr_comments", "author", "author_id", "created_at"],
+  ["audit_logs", "performed_by", "performed_by_id", "performed_at"],
+  ["attachments", "uploaded_by", "uploaded_by_id", "created_at"],
+  ["diagrams", "created_by", "created_by_id", "created_at"],
+] as const;
+
+/**
+ * Link rows written before actors were stored by ID to the user of the same
+ * display name. Only unambiguous names are matched, and never to an account
+ * created after the row, so a newcomer who happens to share a former
+ * colleague's name is not credited with their work. Runs once per database:
+ * instances starting together wait on a lock, and later starts find the
+ * completion marker and skip it.
+ */
+export async function backfillActorIds(): Promise<void> {
+  const linked = await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`data_migration:${MIGRATION}`}))`);
+    const [done] = await tx.select().from(dataMigrations).where(eq(dataMigrations.name, MIGRATION));
+    if (done) return null;
+
+    let rows = 0;
+    for (const [table, nameColumn, idColumn, timeColumn] of actorColumns) {
+      const t = sql.identifier(table);
+      const name = sql.identifier(nameColumn);
+      const id = sql.identifier(idColumn);
+      const time = sql.identifier(timeColumn);
+      const result = await tx.execute(sql`
+        UPDATE ${t} SET ${id} = u.id
+        FROM users u
+        WHERE ${t}.${id} IS NULL
+          AND u.display_name = ${t}.${name}
+          AND u.created_at <= ${t}.${time}
+          AND (SELECT count(*) FROM users d WHERE d.display_name = ${t}.${name}) = 1
+      `);
+      rows += result.rowCount ?? 0;
+    }
+    await tx.insert(dataMigrations).values({ name: MIGRATION });
+    return rows;
+  });
+  if (linked) logger.info("Linked existing records to their authors", { rows: linked });
+}
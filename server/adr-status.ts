@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { logAudit } from "./audit";
+import { notifyProjectMembers } from "./notifications";
+import { publishAdrChange } from "./live-events";
+import { adrWebhookData, emitWebhookEvent } from "./webhooks";
+import type { Actor, Adr } from "@shared/schema";
+
+/**
+ * Move an ADR to a new status: bumps the major version, records a version
+ * snapshot, writes the audit entry, notifies project members, publishes
+ * the change to live clients and queues webhooks. Callers are responsible for checking that the
+ * transition is allowed.
+ */
+export async function applyStatusChange(
+  existing: Adr,
+  status: string,
+  reason: string,
+  actor: Actor
+): Promise<Adr | undefined> {
+  const currentMajor = parseInt(existing.version.split(".")[0] || "1");
+  const newVersion = `${currentMajor + 1}.0`;
+
+  const updated = await storage.updateAdr(existing.id, { status, version: newVersion });
+  if (updated) {
+    await storage.createVersion({
+      adrId: existing.id,
+      version: newVersion,
+      title: updated.title,
+      status: updated.status,
+      context: updated.context,
+      decision: updated.decision,
+      consequences: updated.consequences,
+      alternatives: updated.alternatives,
+      tags: updated.tags,
+      team: updated.team,
+      author: updated.author,
+      changeReason: `Status changed to ${status}: ${reason}`,
+      changedById: actor.id,
+      changedBy: actor.displayName,
+    });
+  }
+
+  await logAudit({
+    entityType: "adr",
+    entityId: existing.id,
+    action: "status_changed",
+    performedBy: actor,
+    changes: { status: { before: existing.status, after: status } },
+    metadata: { reason },
+  });
+  await publishAdrChange(existing.projectId, existing.id, "status_changed", actor, updated);
+  if (updated) {
+    await emitWebhookEvent(existing.projectId, "adr.status_changed", {
+      adr: adrWebhookData(updated),
+      previousStatus: existing.status,
+      reason,
+    }, actor);
+  }
+
+  await notifyProjectMembers(
+    existing.projectId,
+    actor.id,
+    "status_changed",
+    `ADR ${existing.adrNumber} status changed`,
+    `${actor.displayName} changed status from ${existing.status} to ${status}`,
+    `/projects/${existing.projectId}/adrs/${existing.id}`,
+    existing.id
+  );
+
+  return updated;
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import type { ApiToken, User } from "@shared/schema";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getApiTokenByHash: vi.fn(),
+    getUser: vi.fn(),
+    touchApiToken: vi.fn(),
+  },
+}));
+vi.mock("./storage", () => ({ storage }));
+
+import { authenticateApiToken, generateApiToken, hashApiToken } from "./api-tokens";
+import { authenticateRequest } from "./auth";
+
+const owner: User = {
+  id: "user-1",
+  username: "alice",
+  password: "",
+  displayName: "Alice",
+  role: "editor",
+  authProvider: "local",
+  externalId: null,
+  active: true,
+  deactivatedAt: null,
+  anonymisedAt: null,
+  totpSecret: null,
+  totpEnabledAt: null,
+  totpLastStep: null,
+  email: null,
+  emailDelivery: "immediate",
+  emailDigestSentAt: null,
+  createdAt: new Date(),
+};
+
+const { secret, tokenHash, tokenPrefix } = generateApiToken();
+
+function token(overrides: Partial<ApiToken> = {}): ApiToken {
+  return {
+    id: 1,
+    userId: owner.id,
+    name: "CI",
+    tokenHash,
+    tokenPrefix,
+    scope: "read",
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getApiTokenByHash.mockImplementation(async (hash: string) => (hash === tokenHash ? token() : undefined));
+  storage.getUser.mockResolvedValue(owner);
+});
+
+describe("generateApiToken", () => {
+  it("stores only the hash and a short prefix of the secret", () => {
+    expect(secret).toMatch(/^adrm_[\w-]{43}$/);
+    expect(tokenHash).toBe(hashApiToken(secret));
+    expect(tokenHash).not.toContain(secret);
+    expect(secret.startsWith(tokenPrefix)).toBe(true);
+    expect(tokenPrefix).toHaveLength(11);
+  });
+});
+
+describe("authenticateApiToken", () => {
+  it("resolves a valid token to its owner and records the use", async () => {
+    expect(await authenticateApiToken(secret)).toEqual({ user: owner, token: token() });
+    expect(storage.touchApiToken).toHaveBeenCalledWith(1);
+  });
+
+  it("rejects unknown and revoked tokens", async () => {
+    expect(await authenticateApiToken("adrm_unknown")).toEqual({ error: "Invalid API token" });
+    storage.getApiTokenByHash.mockResolvedValue(token({ revokedAt: new Date() }));
+    expect(await authenticateApiToken(secret)).toEqual({ error: "Invalid API token" });
+    expect(storage.touchApiToken).not.toHaveBeenCalled();
+  });
+
+  it("rejects expired tokens", async () => {
+    storage.getApiTokenByHash.mockResolvedValue(token({ expiresAt: new Date(Date.now() - 1000) }));
+    expect(await authenticateApiToken(secret)).toEqual({ error: "API token has expired" });
+  });
+
+  it("rejects tokens of deactivated or deleted users", async () => {
+    storage.getUser.mockResolvedValue({ ...owner, active: false });
+    expect(await authenticateApiToken(secret)).toEqual({ error: "Invalid API token" });
+    storage.getUser.mockResolvedValue(undefined);
+    expect(await authenticateApiToken(secret)).toEqual({ error: "Invalid API token" });
+    expect(storage.touchApiToken).not.toHaveBeenCalled();
+  });
+});
+
+function bearerRequest(method: string, authorization = `Bearer ${secret}`) {
+  const req = { method, headers: { authorization }, isAuthenticated: () => false } as unknown as Request;
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return { req, res, response: res as unknown as Response };
+}
+
+describe("authenticateRequest with an API token", () => {
+  it.each(["GET", "HEAD", "OPTIONS"])("lets read tokens %s", async (method) => {
+    const { req, res, response } = bearerRequest(method);
+    expect(await authenticateRequest(req, response)).toBe(true);
+    expect(req.user).toEqual(owner);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it.each(["POST", "PATCH", "PUT", "DELETE"])("refuses %s with a read token", async (method) => {
+    const { req, res, response } = bearerRequest(method);
+    expect(await authenticateRequest(req, response)).toBe(false);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: "This API token is read-only" });
+  });
+
+  it("lets write tokens change data", async () => {
+    storage.getApiTokenByHash.mockResolvedValue(token({ scope: "write" }));
+    const { req, response } = bearerRequest("POST");
+    expect(await authenticateRequest(req, response)).toBe(true);
+    expect(req.apiToken?.scope).toBe("write");
+  });
+
+  it("answers 401 for a bad token instead of falling back to the session", async () => {
+    const { req, res, response } = bearerRequest("GET", "Bearer adrm_unknown");
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    expect(await authenticateRequest(req, response)).toBe(false);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({ message: "Invalid API token" });
+  });
+
+  it("checks the scope of a token an earlier middleware already resolved", async () => {
+    const { req, res, response } = bearerRequest("DELETE");
+    req.apiToken = token();
+    expect(await authenticateRequest(req, response)).toBe(false);
+    expect(storage.getApiTokenByHash).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
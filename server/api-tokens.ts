@@ -0,0 +1,36 @@
+import { createHash, randomBytes } from "node:crypto";
+import { storage } from "./storage";
+import type { ApiToken, User } from "@shared/schema";
+
+// Recognisable prefix so leaked tokens are easy to spot in logs and secret scanners
+const TOKEN_PREFIX = "adrm_";
+
+export function hashApiToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/** A new random token; only the hash and a short display prefix are persisted. */
+export function generateApiToken(): { secret: string; tokenHash: string; tokenPrefix: string } {
+  const secret = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { secret, tokenHash: hashApiToken(secret), tokenPrefix: secret.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+export type ApiTokenAuthResult =
+  | { user: User; token: ApiToken }
+  | { error: string };
+
+/**
+ * Resolve a bearer secret to its owner. Expired, revoked and unknown tokens
+ * all fail; a successful lookup records the token as used.
+ */
+export async function authenticateApiToken(secret: string): Promise<ApiTokenAuthResult> {
+  const token = await storage.getApiTokenByHash(hashApiToken(secret));
+  if (!token || token.revokedAt) return { error: "Invalid API token" };
+  if (token.expiresAt && token.expiresAt.getTime() <= Date.now()) return { error: "API token has expired" };
+
+  const user = await storage.getUser(token.userId);
+  if (!user || !user.active) return { error: "Invalid API token" };
+
+  await storage.touchApiToken(token.id);
+  return { user, token };
+}
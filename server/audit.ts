@@ -1,23 +1,40 @@
 import { db } from "./db";
-import { auditLogs } from "@shared/schema";
+import { auditLogs, type Actor } from "@shared/schema";
 import { logger } from "./logger";
 
 export interface AuditLogData {
   entityType: string;
   entityId: string | number;
   action: string;
-  performedBy: string;
+  // A user, or the name of a system actor such as "LDAP sync"
+  performedBy: Actor | string;
   changes?: Record<string, { before: unknown; after: unknown }>;
   metadata?: Record<string, unknown>;
 }
 
+/** Before/after pairs for the fields an update sets, leaving out unchanged ones. */
+export function changedFields(
+  before: object,
+  update: Record<string, unknown>
+): Record<string, { before: unknown; after: unknown }> {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  for (const [key, after] of Object.entries(update)) {
+    const previous = (before as Record<string, unknown>)[key];
+    if (after !== undefined && JSON.stringify(previous) !== JSON.stringify(after)) {
+      changes[key] = { before: previous, after };
+    }
+  }
+  return changes;
+}
+
 export async function logAudit(data: AuditLogData): Promise<void> {
   try {
     await db.insert(auditLogs).values({
       entityType: data.entityType,
       entityId: String(data.entityId),
       action: data.action,
-      performedBy: data.performedBy,
+      performedById: typeof data.performedBy === "string" ? null : data.performedBy.id,
+      performedBy: typeof data.performedBy === "string" ? data.performedBy : data.performedBy.displayName,
       changes: data.changes ? JSON.stringify(data.changes) : null,
       metadata: data.metadata ? JSON.stringify(data.metadata) : null,
     });
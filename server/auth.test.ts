@@ -0,0 +1,234 @@
+import { createHash } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import * as OTPAuth from "otpauth";
+import type { User } from "@shared/schema";
+
+const { storage, throttle, logAudit } = vi.hoisted(() => ({
+  storage: {
+    getUserByUsername: vi.fn(),
+    getUser: vi.fn(),
+    recordTotpStep: vi.fn(),
+    consumeRecoveryCode: vi.fn(),
+  },
+  throttle: {
+    checkLoginAllowed: vi.fn(),
+    recordLoginFailure: vi.fn(),
+    recordLoginSuccess: vi.fn(),
+    reportSuspiciousLogin: vi.fn(),
+  },
+  logAudit: vi.fn(),
+}));
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./login-throttle", () => throttle);
+vi.mock("./audit", () => ({ logAudit }));
+// Sessions live in memory instead of PostgreSQL
+vi.mock("connect-pg-simple", () => ({
+  default: (session: typeof import("express-session")) => session.MemoryStore,
+}));
+
+import { hashPassword, requireAuth, setupAuth } from "./auth";
+
+const TOTP_SECRET = new OTPAuth.Secret({ size: 20 }).base32;
+const RECOVERY_CODE = "abcde-12345";
+const totp = new OTPAuth.TOTP({ algorithm: "SHA1", digits: 6, period: 30, secret: OTPAuth.Secret.fromBase32(TOTP_SECRET) });
+
+function makeUser(overrides: Partial<User>): User {
+  return {
+    id: "",
+    username: "",
+    password: "",
+    displayName: "",
+    role: "editor",
+    authProvider: "local",
+    externalId: null,
+    active: true,
+    deactivatedAt: null,
+    anonymisedAt: null,
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastStep: null,
+    email: null,
+    emailDelivery: "immediate",
+    emailDigestSentAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+let users: User[] = [];
+let lastSteps = new Map<string, number>();
+let recoveryCodes = new Set<string>();
+let server: Server;
+let baseUrl = "";
+
+beforeAll(async () => {
+  process.env.SESSION_SECRET = "test-secret";
+  const password = await hashPassword("correct horse");
+  users = [
+    makeUser({ id: "u-plain", username: "alice", password }),
+    makeUser({ id: "u-2fa", username: "bob", password, totpSecret: TOTP_SECRET, totpEnabledAt: new Date() }),
+  ];
+
+  const app = express();
+  app.use(express.json());
+  setupAuth(app);
+  app.get("/api/private", requireAuth, (req, res) => {
+    res.json({ username: req.user!.username });
+  });
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  lastSteps = new Map();
+  recoveryCodes = new Set([createHash("sha256").update(RECOVERY_CODE.replace("-", "")).digest("hex")]);
+  storage.getUserByUsername.mockImplementation(async (username: string) => users.find((u) => u.username === username));
+  storage.getUser.mockImplementation(async (id: string) => users.find((u) => u.id === id));
+  storage.recordTotpStep.mockImplementation(async (userId: string, step: number) => {
+    if ((lastSteps.get(userId) ?? -1) >= step) return false;
+    lastSteps.set(userId, step);
+    return true;
+  });
+  storage.consumeRecoveryCode.mockImplementation(async (_userId: string, hash: string) => recoveryCodes.delete(hash));
+  throttle.checkLoginAllowed.mockResolvedValue({ allowed: true });
+});
+
+// A browser-like client that keeps the session cookie between requests
+function client() {
+  let cookie = "";
+  const send = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    return { status: res.status, headers: res.headers, body: await res.json() };
+  };
+  return {
+    login: (body: Record<string, string>) => send("POST", "/api/auth/login", body),
+    me: () => send("GET", "/api/auth/me"),
+    private: () => send("GET", "/api/private"),
+  };
+}
+
+describe("password sign-in", () => {
+  it("signs users without 2FA straight in", async () => {
+    const browser = client();
+    const res = await browser.login({ username: "alice", password: "correct horse" });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ username: "alice", twoFactorEnabled: false });
+    expect(res.body).not.toHaveProperty("password");
+    expect((await browser.private()).body).toEqual({ username: "alice" });
+    expect(throttle.recordLoginSuccess).toHaveBeenCalledWith("u-plain", "alice", expect.any(String));
+  });
+
+  it("counts a wrong password as a failure", async () => {
+    const res = await client().login({ username: "alice", password: "wrong" });
+    expect(res.status).toBe(401);
+    expect(res.body).toEqual({ message: "Invalid username or password" });
+    expect(throttle.recordLoginFailure).toHaveBeenCalledWith("alice", expect.any(String));
+  });
+
+  it("refuses throttled usernames before checking the password", async () => {
+    throttle.checkLoginAllowed.mockResolvedValue({ allowed: false, locked: false, retryAfterSeconds: 4, message: "Wait 4 seconds" });
+    const res = await client().login({ username: "alice", password: "correct horse" });
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("4");
+    expect(storage.getUserByUsername).not.toHaveBeenCalled();
+  });
+
+  it("refuses disabled accounts", async () => {
+    users[0].active = false;
+    try {
+      const res = await client().login({ username: "alice", password: "correct horse" });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ message: "This account has been disabled" });
+    } finally {
+      users[0].active = true;
+    }
+  });
+});
+
+describe("two-factor sign-in", () => {
+  it("asks for a code after the password and signs in only once it is given", async () => {
+    const browser = client();
+    const first = await browser.login({ username: "bob", password: "correct horse" });
+    expect(first.status).toBe(200);
+    expect(first.body).toEqual({ twoFactorRequired: true });
+    expect((await browser.me()).status).toBe(401);
+    expect((await browser.private()).status).toBe(401);
+
+    const second = await browser.login({ code: totp.generate() });
+    expect(second.status).toBe(200);
+    expect(second.body).toMatchObject({ username: "bob", twoFactorEnabled: true });
+    expect(second.body).not.toHaveProperty("totpSecret");
+    expect((await browser.private()).body).toEqual({ username: "bob" });
+  });
+
+  it("does not let a code answer a challenge from another browser", async () => {
+    await client().login({ username: "bob", password: "correct horse" });
+    const res = await client().login({ code: totp.generate() });
+    expect(res.status).toBe(401);
+  });
+
+  it("counts wrong codes as failures and drops the challenge after five", async () => {
+    const browser = client();
+    await browser.login({ username: "bob", password: "correct horse" });
+    for (let i = 0; i < 4; i++) {
+      const res = await browser.login({ code: "000000" });
+      expect(res.status).toBe(401);
+      expect(res.body).toEqual({ message: "Invalid authentication code", twoFactorRequired: true });
+    }
+    const last = await browser.login({ code: "000000" });
+    expect(last.body).toEqual({ message: "Too many invalid codes, please sign in again" });
+    expect(throttle.recordLoginFailure).toHaveBeenCalledTimes(5);
+    expect(throttle.reportSuspiciousLogin).toHaveBeenCalledWith("u-2fa", "Too many invalid two-factor codes", expect.any(Object));
+
+    // The challenge is gone: even a valid code now needs the password again
+    expect((await browser.login({ code: totp.generate() })).status).toBe(401);
+    expect((await browser.me()).status).toBe(401);
+  });
+
+  it("refuses a TOTP code that was already used", async () => {
+    const code = totp.generate();
+    const first = client();
+    await first.login({ username: "bob", password: "correct horse" });
+    expect((await first.login({ code })).status).toBe(200);
+
+    const second = client();
+    await second.login({ username: "bob", password: "correct horse" });
+    expect((await second.login({ code })).status).toBe(401);
+  });
+
+  it("accepts the password and code in a single request", async () => {
+    const browser = client();
+    const res = await browser.login({ username: "bob", password: "correct horse", code: totp.generate() });
+    expect(res.status).toBe(200);
+    expect((await browser.private()).body).toEqual({ username: "bob" });
+
+    const wrong = await client().login({ username: "bob", password: "correct horse", code: "000000" });
+    expect(wrong.status).toBe(401);
+    expect(wrong.body).toEqual({ message: "Invalid authentication code" });
+  });
+
+  it("accepts a recovery code once and audits its use", async () => {
+    const first = client();
+    await first.login({ username: "bob", password: "correct horse" });
+    expect((await first.login({ code: RECOVERY_CODE.toUpperCase() })).status).toBe(200);
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ entityId: "u-2fa", action: "recovery_code_used" }));
+
+    const second = client();
+    await second.login({ username: "bob", password: "correct horse" });
+    expect((await second.login({ code: RECOVERY_CODE })).status).toBe(401);
+  });
+});
@@ -7,7 +7,14 @@ import { storage } from "./storage";
 import type { Express, Request, Response, NextFunction } from "express";
 import { pool } from "./db";
 import connectPgSimple from "connect-pg-simple";
-import type { User } from "@shared/schema";
+import type { ApiToken, User } from "@shared/schema";
+import { authenticateApiToken } from "./api-tokens";
+import { getOidcSettings, setupOidc } from "./oidc";
+import { getLdapSettings, createLdapStrategy } from "./ldap";
+import { isTwoFactorEnabled, toSafeUser, verifySecondFactor } from "./two-factor";
+import { logAudit } from "./audit";
+import { stampSession, trackSessionActivity } from "./sessions";
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess, reportSuspiciousLogin, type LoginCheck } from "./login-throttle";
 
 const scryptAsync = promisify(scrypt);
 
@@ -31,9 +38,51 @@ declare global {
       displayName: string;
       role: string;
       password: string;
+      authProvider: string;
+      externalId: string | null;
+      active: boolean;
+      deactivatedAt: Date | null;
+      anonymisedAt: Date | null;
+      totpSecret: string | null;
+      totpEnabledAt: Date | null;
+      totpLastStep: number | null;
+      email: string | null;
+      emailDelivery: string;
+      emailDigestSentAt: Date | null;
       createdAt: Date;
     }
+    interface Request {
+      // Set when the request was authenticated with a bearer API token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Password accepted, waiting for the second factor before the user is logged in
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+  }
+}
+
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+/**
+ * Check the second factor for a user whose password was accepted. Recovery
+ * code use is audited so admins can spot a lost or compromised authenticator.
+ */
+async function checkSecondFactor(user: User, code: string): Promise<boolean> {
+  const method = await verifySecondFactor(user, code);
+  if (method === "recovery_code") {
+    await logAudit({
+      entityType: "user",
+      entityId: user.id,
+      action: "recovery_code_used",
+      performedBy: user,
+    });
   }
+  return method !== null;
 }
 
 export function setupAuth(app: Express) {
@@ -59,6 +108,7 @@ export function setupAuth(app: Express) {
 
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -67,10 +117,25 @@ export function setupAuth(app: Express) {
         if (!user) {
           return done(null, false, { message: "Invalid username or password" });
         }
+        if (!user.active) {
+          return done(null, false, { message: "This account has been disabled" });
+        }
+        if (user.authProvider === "oidc") {
+          return done(null, false, { message: "This account signs in with single sign-on" });
+        }
+        // Directory accounts are verified by the LDAP strategy
+        if (user.authProvider !== "local") {
+          return done(null, false, { message: "Invalid username or password" });
+        }
         const valid = await comparePasswords(password, user.password);
         if (!valid) {
           return done(null, false, { message: "Invalid username or password" });
         }
+        // With SSO configured, password sign-in stays available as an admin fallback
+        const oidc = getOidcSettings();
+        if (oidc && oidc.localLogin === "admin" && user.role !== "admin") {
+          return done(null, false, { message: "Please sign in with single sign-on" });
+        }
         return done(null, user);
       } catch (err) {
         return done(err);
@@ -78,6 +143,9 @@ export function setupAuth(app: Express) {
     })
   );
 
+  const ldap = getLdapSettings();
+  if (ldap) passport.use("ldap", createLdapStrategy(ldap));
+
   passport.serializeUser((user, done) => {
     done(null, user.id);
   });
@@ -85,14 +153,24 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: string, done) => {
     try {
       const user = await storage.getUser(id);
-      // If the user no longer exists (e.g. after a DB reset), return false so
-      // Passport clears the session automatically instead of throwing an error.
-      done(null, user ?? false);
+      // If the user no longer exists (e.g. after a DB reset) or was disabled,
+      // return false so Passport clears the session instead of throwing an error.
+      done(null, user?.active ? user : false);
     } catch (err) {
       done(null, false);
     }
   });
 
+  setupOidc(app);
+
+  app.get("/api/auth/providers", (_req: Request, res: Response) => {
+    const oidc = getOidcSettings();
+    res.json({
+      oidc: oidc ? { label: oidc.label, loginUrl: "/api/auth/oidc/login", localLogin: oidc.localLogin } : null,
+      ldap: !!getLdapSettings(),
+    });
+  });
+
   app.get("/api/auth/setup-needed", async (_req: Request, res: Response) => {
     try {
       const allUsers = await storage.getUsers();
@@ -142,8 +220,8 @@ export function setupAuth(app: Express) {
         if (err) {
           return res.status(500).json({ message: "Login failed after registration" });
         }
-        const { password: _, ...safeUser } = user;
-        return res.status(201).json(safeUser);
+        stampSession(req);
+        return res.status(201).json(toSafeUser(user));
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : "Internal server error";
@@ -151,17 +229,95 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
-    passport.authenticate("local", (err: unknown, user: User | false, info: { message?: string } | undefined) => {
-      if (err) return next(err);
-      if (!user) {
-        return res.status(401).json({ message: info?.message || "Invalid credentials" });
-      }
+  app.post("/api/auth/login", async (req: Request, res: Response, next: NextFunction) => {
+    const ip = req.ip || "unknown";
+    const refuse = (check: Exclude<LoginCheck, { allowed: true }>) => {
+      res.set("Retry-After", String(check.retryAfterSeconds));
+      return res.status(429).json({ message: check.message });
+    };
+    const finishLogin = async (user: User) => {
+      await recordLoginSuccess(user.id, user.username, ip);
       req.login(user, (err) => {
         if (err) return next(err);
-        const { password: _, ...safeUser } = user;
-        return res.json(safeUser);
+        stampSession(req);
+        return res.json(toSafeUser(user));
       });
+    };
+
+    // Second step: only a code is sent, answering the challenge stored in the session
+    const pending = req.session.pendingTwoFactor;
+    if (pending && !req.body?.username && typeof req.body?.code === "string") {
+      try {
+        const user = await storage.getUser(pending.userId);
+        if (!user || !user.active || pending.expiresAt < Date.now()) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "The sign-in attempt has expired, please sign in again" });
+        }
+        const check = await checkLoginAllowed(user.username, ip);
+        if (!check.allowed) {
+          delete req.session.pendingTwoFactor;
+          return refuse(check);
+        }
+        if (!(await checkSecondFactor(user, req.body.code))) {
+          // Code failures count like password failures, so re-entering the password cannot reset them
+          await recordLoginFailure(user.username, ip);
+          pending.attempts += 1;
+          if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+            delete req.session.pendingTwoFactor;
+            // Whoever got here knows the password
+            await reportSuspiciousLogin(user.id, "Too many invalid two-factor codes", { ip });
+            return res.status(401).json({ message: "Too many invalid codes, please sign in again" });
+          }
+          return res.status(401).json({ message: "Invalid authentication code", twoFactorRequired: true });
+        }
+        return await finishLogin(user);
+      } catch (err) {
+        return next(err);
+      }
+    }
+
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+    if (username) {
+      try {
+        const check = await checkLoginAllowed(username, ip);
+        if (!check.allowed) return refuse(check);
+      } catch (err) {
+        return next(err);
+      }
+    }
+
+    // Directory accounts fall through to LDAP after the local strategy declines them
+    const strategies = getLdapSettings() ? ["local", "ldap"] : ["local"];
+    type Failure = { message?: string } | undefined;
+    passport.authenticate(strategies, async (err: unknown, user: User | false, info: Failure | Failure[]) => {
+      if (err) return next(err);
+      try {
+        if (!user) {
+          if (username) await recordLoginFailure(username, ip);
+          // With several strategies passport reports one failure per strategy; prefer a specific one
+          const messages = (Array.isArray(info) ? info : [info]).map((i) => i?.message).filter(Boolean);
+          const message = messages.find((m) => m !== "Invalid username or password") ?? messages[0];
+          return res.status(401).json({ message: message || "Invalid credentials" });
+        }
+        if (!isTwoFactorEnabled(user)) return await finishLogin(user);
+
+        // Scripts may send the code along with the password in a single request
+        if (typeof req.body?.code === "string") {
+          if (!(await checkSecondFactor(user, req.body.code))) {
+            await recordLoginFailure(user.username, ip);
+            return res.status(401).json({ message: "Invalid authentication code" });
+          }
+          return await finishLogin(user);
+        }
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS,
+          attempts: 0,
+        };
+        return res.json({ twoFactorRequired: true });
+      } catch (err) {
+        return next(err);
+      }
     })(req, res, next);
   });
 
@@ -176,23 +332,52 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Not authenticated" });
     }
-    const { password: _, ...safeUser } = req.user!;
-    res.json(safeUser);
+    res.json(toSafeUser(req.user!));
   });
 }
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+const readOnlyMethods = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Authenticate from an `Authorization: Bearer` API token if one is sent,
+ * otherwise from the session cookie. Sends the error response and returns
+ * false when the request is not allowed through.
+ */
+export async function authenticateRequest(req: Request, res: Response): Promise<boolean> {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    // An earlier middleware in the chain may already have resolved the token
+    if (!req.apiToken) {
+      const result = await authenticateApiToken(header.slice("Bearer ".length).trim());
+      if ("error" in result) {
+        res.status(401).json({ message: result.error });
+        return false;
+      }
+      req.user = result.user;
+      req.apiToken = result.token;
+    }
+    if (req.apiToken.scope !== "write" && !readOnlyMethods.includes(req.method)) {
+      res.status(403).json({ message: "This API token is read-only" });
+      return false;
+    }
+    return true;
+  }
+
   if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Authentication required" });
+    res.status(401).json({ message: "Authentication required" });
+    return false;
   }
+  return true;
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!(await authenticateRequest(req, res))) return;
   next();
 }
 
 export function requireRole(...roles: string[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Authentication required" });
-    }
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!(await authenticateRequest(req, res))) return;
     if (!roles.includes(req.user!.role)) {
       return res.status(403).json({ message: "Insufficient permissions" });
     }
@@ -200,4 +385,4 @@ export function requireRole(...roles: string[]) {
   };
 }
 
-export { hashPassword };
+export { hashPassword, comparePasswords };
@@ -12,6 +12,7 @@ import { createServer, type Server } from "node:http";
 import { setupAuth } from "./auth";
 import { registerRoutes } from "./routes";
 import { seedDatabase } from "./seed";
+import { backfillActorIds } from "./actor-backfill";
 import { logger } from "./logger";
 
 declare module "http" {
@@ -68,6 +69,8 @@ export async function createApp(): Promise<{ app: express.Express; httpServer: S
   });
   app.use("/api/auth/login", authLimiter);
   app.use("/api/auth/register", authLimiter);
+  app.use("/api/auth/password", authLimiter);
+  app.use("/api/auth/password-reset", authLimiter);
 
   // ── Request logger ────────────────────────────────────────────────────────
   app.use((req, res, next) => {
@@ -101,6 +104,7 @@ export async function createApp(): Promise<{ app: express.Express; httpServer: S
 
   // ── Core setup ────────────────────────────────────────────────────────────
   await seedDatabase();
+  await backfillActorIds();
   setupAuth(app);
   await registerRoutes(httpServer, app);
 
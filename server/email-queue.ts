@@ -0,0 +1,184 @@
+import { and, asc, eq, inArray, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { getMailer, type MailMessage } from "./mailer";
+import { renderDigestEmail } from "./email-templates";
+import { logger } from "./logger";
+import { emailQueue, notifications, users, type EmailDelivery, type QueuedEmail, type User } from "@shared/schema";
+
+const POLL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 6;
+// Claimed messages stay hidden from other instances this long while being sent
+const LEASE = sql`now() + interval '5 minutes'`;
+// Hour of day (UTC) when digests go out; weekly digests go out on Mondays
+const DIGEST_HOUR = Number.parseInt(process.env.EMAIL_DIGEST_HOUR || "7", 10);
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+// Set when asked to run during a run, so mail queued meanwhile is not left for the next poll
+let rerun = false;
+
+/** How notifications should reach this user by email right now. */
+export function emailDeliveryFor(user: User | undefined): EmailDelivery {
+  if (!user || !user.active || !user.email || !getMailer()) return "off";
+  return user.emailDelivery as EmailDelivery;
+}
+
+/**
+ * Store a message for the background worker and nudge it. The nudge matters
+ * where no worker runs (serverless); elsewhere it only saves a poll interval.
+ * Sensitive messages do not keep their body once the queue is done with them.
+ */
+export async function enqueueEmail(message: MailMessage, userId: string | null = null, sensitive = false): Promise<void> {
+  await db.insert(emailQueue).values({
+    userId,
+    recipient: message.to,
+    subject: message.subject,
+    textBody: message.text,
+    htmlBody: message.html ?? null,
+    sensitive,
+  });
+  setImmediate(() => void processEmailQueue());
+}
+
+/** Forget notifications waiting for a digest, e.g. after switching digests off. */
+export async function clearPendingDigest(userId: string): Promise<void> {
+  await db
+    .update(notifications)
+    .set({ emailPending: false })
+    .where(and(eq(notifications.userId, userId), eq(notifications.emailPending, true)));
+}
+
+// The most recent daily or weekly digest time at or before `now`
+function lastDigestSlot(delivery: "daily" | "weekly", now: Date): Date {
+  const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), DIGEST_HOUR));
+  if (slot > now) slot.setUTCDate(slot.getUTCDate() - 1);
+  if (delivery === "weekly") slot.setUTCDate(slot.getUTCDate() - ((slot.getUTCDay() + 6) % 7));
+  return slot;
+}
+
+/**
+ * Claim every user whose digest slot has passed by stamping the send time
+ * (so another instance cannot claim them too), then queue one email with
+ * whatever notifications piled up. Users with nothing pending are stamped
+ * all the same; otherwise their next notification would go out at once.
+ */
+async function queueDueDigests(): Promise<void> {
+  for (const delivery of ["daily", "weekly"] as const) {
+    const slot = lastDigestSlot(delivery, new Date());
+    const due = await db
+      .update(users)
+      .set({ emailDigestSentAt: sql`now()` })
+      .where(and(
+        eq(users.emailDelivery, delivery),
+        eq(users.active, true),
+        isNotNull(users.email),
+        or(isNull(users.emailDigestSentAt), lt(users.emailDigestSentAt, slot)),
+      ))
+      .returning();
+
+    for (const user of due) {
+      const pending = await db
+        .update(notifications)
+        .set({ emailPending: false })
+        .where(and(eq(notifications.userId, user.id), eq(notifications.emailPending, true)))
+        .returning();
+      if (pending.length === 0) continue;
+      pending.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      await enqueueEmail(renderDigestEmail(user, pending, delivery), user.id);
+    }
+  }
+}
+
+async function claimDueEmails(): Promise<QueuedEmail[]> {
+  const due = db
+    .select({ id: emailQueue.id })
+    .from(emailQueue)
+    .where(and(eq(emailQueue.status, "pending"), lte(emailQueue.sendAfter, sql`now()`)))
+    .orderBy(asc(emailQueue.id))
+    .limit(BATCH_SIZE)
+    .for("update", { skipLocked: true });
+  return db.update(emailQueue).set({ sendAfter: LEASE }).where(inArray(emailQueue.id, due)).returning();
+}
+
+// Blanks the body of a sensitive message alongside its final status
+function scrubbed(email: QueuedEmail) {
+  return email.sensitive ? { textBody: "", htmlBody: null } : {};
+}
+
+async function deliver(email: QueuedEmail): Promise<void> {
+  const mailer = getMailer();
+  if (!mailer) return;
+  const attempts = email.attempts + 1;
+  try {
+    await mailer.send({
+      to: email.recipient,
+      subject: email.subject,
+      text: email.textBody,
+      html: email.htmlBody ?? undefined,
+    });
+    await db
+      .update(emailQueue)
+      .set({ status: "sent", attempts, lastError: null, sentAt: sql`now()`, ...scrubbed(email) })
+      .where(eq(emailQueue.id, email.id));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const giveUp = attempts >= MAX_ATTEMPTS;
+    // Back off 2, 4, 8, 16, 32 minutes between attempts
+    const retryMinutes = 2 ** attempts;
+    await db
+      .update(emailQueue)
+      .set({
+        status: giveUp ? "failed" : "pending",
+        attempts,
+        lastError: message.slice(0, 1000),
+        sendAfter: sql`now() + make_interval(mins => ${retryMinutes})`,
+        ...(giveUp ? scrubbed(email) : {}),
+      })
+      .where(eq(emailQueue.id, email.id));
+    logger.warn(giveUp ? "Email delivery failed, giving up" : "Email delivery failed, will retry", {
+      id: email.id,
+      attempts,
+      message,
+    });
+  }
+}
+
+/** Queue due digests and send whatever is waiting. Safe to call at any time. */
+export async function processEmailQueue(): Promise<void> {
+  if (!getMailer()) return;
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = true;
+  try {
+    do {
+      rerun = false;
+      await queueDueDigests();
+      let batch: QueuedEmail[];
+      do {
+        batch = await claimDueEmails();
+        for (const email of batch) await deliver(email);
+      } while (batch.length === BATCH_SIZE);
+    } while (rerun);
+    await db
+      .delete(emailQueue)
+      .where(and(eq(emailQueue.status, "sent"), lt(emailQueue.sentAt, sql`now() - interval '30 days'`)));
+  } catch (err) {
+    logger.error("Email queue run failed", { message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    running = false;
+  }
+}
+
+export function startEmailWorker() {
+  if (timer) return;
+  timer = setInterval(() => void processEmailQueue(), POLL_MS);
+  timer.unref();
+}
+
+export function stopEmailWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
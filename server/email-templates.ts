@@ -0,0 +1,120 @@
+import type { EmailDelivery, Notification, User } from "@shared/schema";
+import type { MailMessage } from "./mailer";
+
+interface TemplateStyle {
+  label: string;
+  action: string;
+  accent: string;
+}
+
+// Keyed by notification type; anything else uses the fallback
+const templates: Record<string, TemplateStyle> = {
+  status_changed: { label: "Status change", action: "View ADR", accent: "#7c3aed" },
+  adr_created: { label: "New ADR", action: "Read the ADR", accent: "#7c3aed" },
+  comment_added: { label: "New comment", action: "Read the comment", accent: "#2563eb" },
+  mention: { label: "Mention", action: "Reply", accent: "#0891b2" },
+  member_added: { label: "Project membership", action: "Open project", accent: "#16a34a" },
+  role_changed: { label: "Project membership", action: "Open project", accent: "#16a34a" },
+  member_removed: { label: "Project membership", action: "Open ADR Manager", accent: "#dc2626" },
+  review_requested: { label: "Review request", action: "Review ADR", accent: "#d97706" },
+  review_submitted: { label: "Review", action: "View ADR", accent: "#d97706" },
+};
+const fallback: TemplateStyle = { label: "Notification", action: "Open ADR Manager", accent: "#475569" };
+
+/** Absolute link into the app; set APP_URL wherever the server is not on localhost. */
+export function appUrl(href = "/"): string {
+  const base = process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`;
+  return `${base.replace(/\/$/, "")}${href.startsWith("/") ? href : `/${href}`}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Inline styles and tables only: most mail clients ignore stylesheets
+function layout(preheader: string, content: string): string {
+  const settingsUrl = escapeHtml(appUrl("/profile/notifications"));
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"></head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#18181b">
+<span style="display:none;max-height:0;overflow:hidden">${escapeHtml(preheader)}</span>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;padding:24px 0">
+<tr><td align="center">
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;width:100%;background:#ffffff;border-radius:8px;border:1px solid #e4e4e7">
+<tr><td style="padding:20px 28px;border-bottom:1px solid #e4e4e7;font-weight:600;font-size:15px">ADR Manager</td></tr>
+${content}
+<tr><td style="padding:16px 28px;border-top:1px solid #e4e4e7;font-size:12px;color:#71717a">
+You can change how and when you get these emails in your <a href="${settingsUrl}" style="color:#71717a">notification settings</a>.
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body></html>`;
+}
+
+function button(href: string, label: string, accent: string): string {
+  return `<a href="${escapeHtml(href)}" style="display:inline-block;padding:9px 16px;background:${accent};color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px;font-weight:500">${escapeHtml(label)}</a>`;
+}
+
+export function renderNotificationEmail(user: User, notification: Notification): MailMessage {
+  const style = templates[notification.type] ?? fallback;
+  const link = appUrl(notification.href ?? "/");
+  const html = layout(notification.body, `
+<tr><td style="padding:24px 28px 8px">
+<div style="font-size:11px;font-weight:600;letter-spacing:.06em;text-transform:uppercase;color:${style.accent}">${escapeHtml(style.label)}</div>
+<h1 style="margin:6px 0 0;font-size:18px;line-height:1.4">${escapeHtml(notification.title)}</h1>
+</td></tr>
+<tr><td style="padding:8px 28px 4px;font-size:14px;line-height:1.6">
+<p style="margin:0 0 4px">Hello ${escapeHtml(user.displayName)},</p>
+<p style="margin:0">${escapeHtml(notification.body)}</p>
+</td></tr>
+<tr><td style="padding:16px 28px 24px">${button(link, style.action, style.accent)}</td></tr>`);
+
+  return {
+    to: user.email!,
+    subject: notification.title,
+    text: [`Hello ${user.displayName},`, "", notification.body, "", `${style.action}: ${link}`].join("\n"),
+    html,
+  };
+}
+
+export function renderDigestEmail(
+  user: User,
+  notifications: Notification[],
+  delivery: Extract<EmailDelivery, "daily" | "weekly">,
+): MailMessage {
+  const period = delivery === "daily" ? "today" : "this week";
+  const count = `${notifications.length} notification${notifications.length === 1 ? "" : "s"}`;
+  const rows = notifications.map((n) => {
+    const style = templates[n.type] ?? fallback;
+    return `
+<tr><td style="padding:12px 28px;border-top:1px solid #f4f4f5">
+<div style="font-size:11px;font-weight:600;letter-spacing:.06em;text-transform:uppercase;color:${style.accent}">${escapeHtml(style.label)}</div>
+<a href="${escapeHtml(appUrl(n.href ?? "/"))}" style="display:block;margin-top:2px;font-size:14px;font-weight:600;color:#18181b;text-decoration:none">${escapeHtml(n.title)}</a>
+<div style="margin-top:2px;font-size:13px;line-height:1.5;color:#52525b">${escapeHtml(n.body)}</div>
+<div style="margin-top:2px;font-size:12px;color:#a1a1aa">${escapeHtml(n.createdAt.toUTCString())}</div>
+</td></tr>`;
+  }).join("");
+
+  const html = layout(`${count} ${period}`, `
+<tr><td style="padding:24px 28px 12px">
+<h1 style="margin:0;font-size:18px">Your ${delivery} digest</h1>
+<p style="margin:6px 0 0;font-size:14px;color:#52525b">Hello ${escapeHtml(user.displayName)}, here is what happened ${period}: ${count}.</p>
+</td></tr>
+${rows}
+<tr><td style="padding:16px 28px 24px">${button(appUrl("/projects"), "Open ADR Manager", fallback.accent)}</td></tr>`);
+
+  const text = [
+    `Hello ${user.displayName},`,
+    "",
+    `Here is what happened ${period}: ${count}.`,
+    ...notifications.flatMap((n) => ["", `${n.title}`, n.body, appUrl(n.href ?? "/")]),
+  ].join("\n");
+
+  return { to: user.email!, subject: `ADR Manager ${delivery} digest: ${count}`, text, html };
+}
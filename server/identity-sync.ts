@@ -0,0 +1,203 @@
+import { randomBytes } from "node:crypto";
+import { storage } from "./storage";
+import { logAudit } from "./audit";
+import { createNotification } from "./notifications";
+import { logger } from "./logger";
+import {
+  userRoleEnum,
+  projectMemberRoleEnum,
+  type AuthProvider,
+  type ProjectMemberRole,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+
+/** A user as asserted by an external identity provider. */
+export interface ExternalIdentity {
+  provider: AuthProvider;
+  externalId: string;
+  username: string;
+  displayName: string;
+  groups: string[];
+}
+
+export interface ProjectGroupMapping {
+  group: string;
+  projectKey: string;
+  role: ProjectMemberRole;
+}
+
+export interface GroupMappings {
+  roles: Map<string, UserRole>;
+  projects: ProjectGroupMapping[];
+  // Global role for new users whose groups match no role mapping
+  defaultRole: UserRole;
+  // Adopt an existing local account with the same username on first sign-in
+  linkExistingUsers: boolean;
+}
+
+const roleRank: Record<string, number> = { admin: 3, editor: 2, viewer: 1 };
+
+function highestRole<T extends string>(roles: T[]): T | undefined {
+  return roles.reduce<T | undefined>((best, r) => (!best || roleRank[r] > roleRank[best] ? r : best), undefined);
+}
+
+function splitMappingList(raw: string | undefined): Array<[string, string]> {
+  return (raw ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const at = entry.lastIndexOf("=");
+      if (at <= 0) throw new Error(`Invalid group mapping "${entry}", expected group=value`);
+      return [entry.slice(0, at).trim(), entry.slice(at + 1).trim()];
+    });
+}
+
+/** Parses `group=role,group=role` into a lookup of global roles. */
+export function parseRoleMapping(raw: string | undefined): Map<string, UserRole> {
+  const mapping = new Map<string, UserRole>();
+  for (const [group, role] of splitMappingList(raw)) {
+    if (!(userRoleEnum as readonly string[]).includes(role)) {
+      throw new Error(`Invalid role "${role}" for group "${group}"`);
+    }
+    mapping.set(group, role as UserRole);
+  }
+  return mapping;
+}
+
+/** Parses `group=PROJECTKEY:role,...` into project membership grants. */
+export function parseProjectMapping(raw: string | undefined): ProjectGroupMapping[] {
+  return splitMappingList(raw).map(([group, value]) => {
+    const [projectKey, role] = value.split(":");
+    if (!projectKey || !(projectMemberRoleEnum as readonly string[]).includes(role)) {
+      throw new Error(`Invalid project mapping "${group}=${value}", expected group=KEY:role`);
+    }
+    return { group, projectKey: projectKey.toUpperCase(), role: role as ProjectMemberRole };
+  });
+}
+
+/** Highest global role granted by any of the groups, if one maps at all. */
+export function resolveMappedRole(groups: string[], mappings: GroupMappings): UserRole | undefined {
+  return highestRole(groups.map((g) => mappings.roles.get(g)).filter((r): r is UserRole => !!r));
+}
+
+async function syncProjectMemberships(user: User, groups: string[], mappings: GroupMappings, performedBy: string) {
+  const granted = new Map<string, ProjectMemberRole[]>();
+  for (const m of mappings.projects) {
+    if (groups.includes(m.group)) granted.set(m.projectKey, [...(granted.get(m.projectKey) ?? []), m.role]);
+  }
+
+  for (const [projectKey, roles] of Array.from(granted.entries())) {
+    const role = highestRole(roles)!;
+    const project = await storage.getProjectByKey(projectKey);
+    if (!project) {
+      logger.warn("Group mapping references unknown project", { projectKey });
+      continue;
+    }
+
+    const current = await storage.getProjectMemberRole(project.id, user.id);
+    if (current === role) continue;
+    if (!current) {
+      const member = await storage.addProjectMember(project.id, user.id, role);
+      await logAudit({
+        entityType: "project_member",
+        entityId: member.id,
+        action: "added",
+        performedBy,
+        metadata: { projectId: project.id, userId: user.id, role, source: "group_mapping" },
+      });
+      await createNotification({
+        userId: user.id,
+        type: "member_added",
+        title: "Added to project",
+        body: `You have been added to ${project.name} as ${role}`,
+        href: `/projects/${project.id}`,
+        projectId: project.id,
+      });
+    } else {
+      const member = await storage.updateProjectMemberRole(project.id, user.id, role);
+      await logAudit({
+        entityType: "project_member",
+        entityId: member?.id ?? user.id,
+        action: "role_updated",
+        performedBy,
+        changes: { role: { before: current, after: role } },
+        metadata: { projectId: project.id, userId: user.id, source: "group_mapping" },
+      });
+    }
+  }
+}
+
+/**
+ * Find or just-in-time create the local account for an external identity,
+ * then align its display name, global role and mapped project memberships
+ * with what the provider asserted. Memberships are only added or changed,
+ * never removed, so grants made by project admins survive.
+ */
+export async function provisionExternalUser(identity: ExternalIdentity, mappings: GroupMappings): Promise<User> {
+  const performedBy = `${identity.provider.toUpperCase()} sync`;
+  const mappedRole = resolveMappedRole(identity.groups, mappings);
+
+  let user = await storage.getUserByExternalId(identity.provider, identity.externalId);
+  if (!user) {
+    const existing = await storage.getUserByUsername(identity.username);
+    if (existing && !(mappings.linkExistingUsers && existing.authProvider === "local")) {
+      throw new Error(`The username "${identity.username}" is already taken by another account`);
+    }
+    // Linking ends password sign-in, and a directory entry sharing an admin's username must not take over the account
+    if (existing?.role === "admin") {
+      throw new Error(`The username "${identity.username}" belongs to a local administrator and is not linked automatically`);
+    }
+    if (existing) {
+      user = (await storage.updateUser(existing.id, { authProvider: identity.provider, externalId: identity.externalId }))!;
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "updated",
+        performedBy,
+        changes: { authProvider: { before: existing.authProvider, after: identity.provider } },
+      });
+    } else {
+      user = await storage.createUser({
+        username: identity.username,
+        // Never matched: the local strategy refuses accounts owned by an external provider
+        password: `!${randomBytes(24).toString("hex")}`,
+        displayName: identity.displayName,
+        role: mappedRole ?? mappings.defaultRole,
+        authProvider: identity.provider,
+        externalId: identity.externalId,
+      });
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "created",
+        performedBy,
+        metadata: { username: user.username, role: user.role, authProvider: identity.provider },
+      });
+    }
+  }
+
+  if (!user.active) throw new Error("This account has been disabled");
+
+  const updates: Partial<Pick<User, "displayName" | "role">> = {};
+  if (identity.displayName && identity.displayName !== user.displayName) updates.displayName = identity.displayName;
+  // Users outside every mapped group keep whatever role an admin gave them
+  if (mappedRole && mappedRole !== user.role) updates.role = mappedRole;
+  if (Object.keys(updates).length > 0) {
+    const before = user;
+    user = (await storage.updateUser(user.id, updates))!;
+    if (updates.role) {
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "role_updated",
+        performedBy,
+        changes: { role: { before: before.role, after: user.role } },
+      });
+    }
+  }
+
+  await syncProjectMemberships(user, identity.groups, mappings, performedBy);
+  return user;
+}
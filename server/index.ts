@@ -1,6 +1,9 @@
 import { createApp, log } from "./create-app";
 import { serveStatic } from "./static";
 import { logger } from "./logger";
+import { startLdapSync, stopLdapSync } from "./ldap";
+import { startEmailWorker, stopEmailWorker } from "./email-queue";
+import { startWebhookWorker, stopWebhookWorker } from "./webhooks";
 
 // ── Env validation ─────────────────────────────────────────────────────────
 const REQUIRED_ENV = ["DATABASE_URL", "SESSION_SECRET", "MINIO_ENDPOINT", "MINIO_ACCESS_KEY", "MINIO_SECRET_KEY"];
@@ -24,9 +27,15 @@ for (const key of REQUIRED_ENV) {
   httpServer.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
   });
+  startLdapSync();
+  startEmailWorker();
+  startWebhookWorker();
 
   const shutdown = () => {
     logger.info("Shutting down server...");
+    stopLdapSync();
+    stopEmailWorker();
+    stopWebhookWorker();
     httpServer.close(() => {
       logger.info("Server closed.");
       process.exit(0);
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+
+const { storage, logAudit, provisionExternalUser, directory } = vi.hoisted(() => ({
+  storage: {
+    getUsers: vi.fn(),
+    deactivateUser: vi.fn(),
+  },
+  logAudit: vi.fn(),
+  provisionExternalUser: vi.fn(),
+  // uid → display name in the fake directory; looking up `failOn` throws
+  directory: { entries: new Map<string, string>(), failOn: null as string | null },
+}));
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./audit", () => ({ logAudit }));
+vi.mock("./logger", () => ({ logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } }));
+vi.mock("./identity-sync", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./identity-sync")>()),
+  provisionExternalUser,
+}));
+vi.mock("ldapts", () => ({
+  InvalidCredentialsError: class extends Error {},
+  Client: class {
+    async bind() {}
+    async unbind() {}
+    async startTLS() {}
+    async search(_base: string, options: { filter: string }) {
+      const uid = /^\(uid=(.*)\)$/.exec(options.filter)![1];
+      if (uid === directory.failOn) throw new Error("Size limit exceeded");
+      const displayName = directory.entries.get(uid);
+      return { searchEntries: displayName ? [{ dn: `uid=${uid},ou=people,dc=example,dc=org`, displayName, memberOf: [] }] : [] };
+    }
+  },
+}));
+
+import { ldapSettingsFromEnv, syncLdapUsers } from "./ldap";
+
+const settings = ldapSettingsFromEnv({
+  LDAP_URL: "ldap://ldap.example.org",
+  LDAP_USER_BIND_TEMPLATE: "uid={username},ou=people,dc=example,dc=org",
+  LDAP_USER_SEARCH_BASE: "ou=people,dc=example,dc=org",
+  LDAP_SERVICE_BIND_DN: "cn=sync,dc=example,dc=org",
+  LDAP_SERVICE_BIND_PASSWORD: "secret",
+  LDAP_SYNC_MAX_DISABLE: "2",
+})!;
+
+function ldapUser(username: string): User {
+  return {
+    id: `u-${username}`,
+    username,
+    password: "",
+    displayName: username,
+    role: "viewer",
+    authProvider: "ldap",
+    externalId: username,
+    active: true,
+    deactivatedAt: null,
+    anonymisedAt: null,
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastStep: null,
+    email: null,
+    emailDelivery: "immediate",
+    emailDigestSentAt: null,
+    createdAt: new Date(),
+  };
+}
+
+const usernames = ["ann", "ben", "cat", "dan", "eve"];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  directory.entries = new Map(usernames.map((u) => [u, u]));
+  directory.failOn = null;
+  storage.getUsers.mockResolvedValue(usernames.map(ldapUser));
+  storage.deactivateUser.mockResolvedValue({ memberships: [], groups: [] });
+  provisionExternalUser.mockImplementation(async (identity: { username: string }) => ldapUser(identity.username));
+});
+
+describe("syncLdapUsers", () => {
+  it("disables accounts removed from the directory, up to the limit", async () => {
+    directory.entries.delete("ben");
+    directory.entries.delete("dan");
+    const result = await syncLdapUsers(settings);
+    expect(result).toMatchObject({ checked: 5, disabled: 2 });
+    expect(result.error).toBeUndefined();
+    expect(storage.deactivateUser.mock.calls.map(([id]) => id)).toEqual(["u-ben", "u-dan"]);
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({
+      entityId: "u-ben",
+      action: "disabled",
+      metadata: expect.objectContaining({ reason: "Removed from directory" }),
+    }));
+    expect(provisionExternalUser).toHaveBeenCalledTimes(3);
+  });
+
+  it("disables nobody when more accounts are missing than the limit allows", async () => {
+    ["ann", "ben", "cat"].forEach((u) => directory.entries.delete(u));
+    const result = await syncLdapUsers(settings);
+    expect(result.disabled).toBe(0);
+    expect(result.error).toBe("3 of 5 LDAP users were not found in the directory; no accounts were disabled");
+    expect(storage.deactivateUser).not.toHaveBeenCalled();
+    expect(logAudit).not.toHaveBeenCalled();
+    // Accounts that were found are still refreshed
+    expect(provisionExternalUser).toHaveBeenCalledTimes(2);
+  });
+
+  it("disables nobody when no account is found at all", async () => {
+    storage.getUsers.mockResolvedValue([ldapUser("ann")]);
+    directory.entries.clear();
+    const result = await syncLdapUsers(settings);
+    expect(result.disabled).toBe(0);
+    expect(result.error).toMatch(/no accounts were disabled/);
+    expect(storage.deactivateUser).not.toHaveBeenCalled();
+  });
+
+  it("changes nothing when a directory search fails part-way", async () => {
+    directory.entries.delete("ann");
+    directory.failOn = "cat";
+    const result = await syncLdapUsers(settings);
+    expect(result).toMatchObject({ disabled: 0, updated: 0, error: "Size limit exceeded" });
+    expect(storage.deactivateUser).not.toHaveBeenCalled();
+    expect(provisionExternalUser).not.toHaveBeenCalled();
+  });
+
+  it("only checks active LDAP accounts", async () => {
+    storage.getUsers.mockResolvedValue([
+      ldapUser("ann"),
+      { ...ldapUser("ben"), active: false },
+      { ...ldapUser("cat"), authProvider: "local" },
+    ]);
+    directory.entries.clear();
+    directory.entries.set("ann", "Ann");
+    const result = await syncLdapUsers(settings);
+    expect(result).toMatchObject({ checked: 1, disabled: 0 });
+    expect(storage.deactivateUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,413 @@
+import { Client, InvalidCredentialsError, type Entry } from "ldapts";
+import { Strategy as LocalStrategy } from "passport-local";
+import {
+  provisionExternalUser,
+  parseRoleMapping,
+  parseProjectMapping,
+  resolveMappedRole,
+  type GroupMappings,
+} from "./identity-sync";
+import { storage } from "./storage";
+import { logAudit } from "./audit";
+import { logger } from "./logger";
+import { userRoleEnum, type User, type UserRole } from "@shared/schema";
+
+export interface LdapSettings {
+  url: string;
+  startTls: boolean;
+  rejectUnauthorized: boolean;
+  // DN or UPN to bind as, with {username} substituted, e.g. uid={username},ou=people,dc=example,dc=org
+  userBindTemplate: string;
+  userSearchBase: string;
+  // Locates the user's own entry, e.g. (uid={username}) or (sAMAccountName={username})
+  userFilter: string;
+  displayNameAttribute: string;
+  groupAttribute: string;
+  // Optional group search for directories without a memberOf attribute; {dn} is the user's DN
+  groupSearchBase?: string;
+  groupFilter: string;
+  // Service account used by the scheduled sync and the admin configuration test
+  serviceBindDn?: string;
+  serviceBindPassword?: string;
+  syncIntervalMinutes: number;
+  // A sync that would disable more accounts than this disables none, as it points at a directory problem
+  syncMaxDisable: number;
+  mappings: GroupMappings;
+}
+
+/** Reads LDAP settings from the environment; null when LDAP is not configured. */
+export function ldapSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): LdapSettings | null {
+  if (!env.LDAP_URL) return null;
+  if (!env.LDAP_USER_BIND_TEMPLATE || !env.LDAP_USER_SEARCH_BASE) {
+    throw new Error("LDAP_URL requires LDAP_USER_BIND_TEMPLATE and LDAP_USER_SEARCH_BASE");
+  }
+  const defaultRole = (env.LDAP_DEFAULT_ROLE || "viewer") as UserRole;
+  if (!userRoleEnum.includes(defaultRole)) {
+    throw new Error(`Invalid LDAP_DEFAULT_ROLE "${defaultRole}"`);
+  }
+
+  return {
+    url: env.LDAP_URL,
+    startTls: env.LDAP_START_TLS === "true",
+    rejectUnauthorized: env.LDAP_TLS_REJECT_UNAUTHORIZED !== "false",
+    userBindTemplate: env.LDAP_USER_BIND_TEMPLATE,
+    userSearchBase: env.LDAP_USER_SEARCH_BASE,
+    userFilter: env.LDAP_USER_FILTER || "(uid={username})",
+    displayNameAttribute: env.LDAP_DISPLAY_NAME_ATTRIBUTE || "displayName",
+    groupAttribute: env.LDAP_GROUP_ATTRIBUTE || "memberOf",
+    groupSearchBase: env.LDAP_GROUP_SEARCH_BASE || undefined,
+    groupFilter: env.LDAP_GROUP_FILTER || "(member={dn})",
+    serviceBindDn: env.LDAP_SERVICE_BIND_DN || undefined,
+    serviceBindPassword: env.LDAP_SERVICE_BIND_PASSWORD || undefined,
+    syncIntervalMinutes: Number.parseInt(env.LDAP_SYNC_INTERVAL_MINUTES || "60", 10),
+    syncMaxDisable: Number.parseInt(env.LDAP_SYNC_MAX_DISABLE || "10", 10),
+    mappings: {
+      roles: parseRoleMapping(env.LDAP_ROLE_MAPPING),
+      projects: parseProjectMapping(env.LDAP_PROJECT_MAPPING),
+      defaultRole,
+      linkExistingUsers: env.LDAP_LINK_EXISTING_USERS === "true",
+    },
+  };
+}
+
+let settings: LdapSettings | null | undefined;
+
+export function getLdapSettings(): LdapSettings | null {
+  if (settings === undefined) settings = ldapSettingsFromEnv();
+  return settings;
+}
+
+// RFC 4514 escaping for a value substituted into a DN
+function escapeDnValue(value: string): string {
+  return value
+    .replace(/[\\,+"<>;=]/g, (c) => `\\${c}`)
+    .replace(/^[ #]/, (c) => `\\${c}`)
+    .replace(/ $/, "\\ ");
+}
+
+// RFC 4515 escaping for a value substituted into a search filter
+function escapeFilterValue(value: string): string {
+  return value.replace(/[\\*()\0]/g, (c) => `\\${c.charCodeAt(0).toString(16).padStart(2, "0")}`);
+}
+
+async function connect(s: LdapSettings): Promise<Client> {
+  const client = new Client({
+    url: s.url,
+    timeout: 10_000,
+    connectTimeout: 5_000,
+    tlsOptions: { rejectUnauthorized: s.rejectUnauthorized },
+  });
+  if (s.startTls) await client.startTLS({ rejectUnauthorized: s.rejectUnauthorized });
+  return client;
+}
+
+function attributeValues(entry: Entry, name: string): string[] {
+  // Attribute names are case-insensitive in LDAP
+  const key = Object.keys(entry).find((k) => k.toLowerCase() === name.toLowerCase());
+  const value = key ? entry[key] : undefined;
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map((v) => v.toString());
+}
+
+// Groups are matched by their CN, so mappings read `architects=editor` rather than a full DN
+function groupName(value: string): string {
+  const match = /^cn=([^,]+)/i.exec(value);
+  return match ? match[1].replace(/\\(.)/g, "$1") : value;
+}
+
+export interface DirectoryUser {
+  dn: string;
+  username: string;
+  displayName: string;
+  groups: string[];
+}
+
+async function findDirectoryUser(client: Client, s: LdapSettings, username: string): Promise<DirectoryUser | null> {
+  const { searchEntries } = await client.search(s.userSearchBase, {
+    scope: "sub",
+    filter: s.userFilter.replace(/\{username\}/g, escapeFilterValue(username)),
+    attributes: ["dn", "cn", s.displayNameAttribute, s.groupAttribute],
+    sizeLimit: 2,
+  });
+  if (searchEntries.length !== 1) return null;
+  const entry = searchEntries[0];
+
+  let groups = attributeValues(entry, s.groupAttribute);
+  if (s.groupSearchBase) {
+    const result = await client.search(s.groupSearchBase, {
+      scope: "sub",
+      filter: s.groupFilter.replace(/\{dn\}/g, escapeFilterValue(entry.dn)),
+      attributes: ["cn"],
+    });
+    groups = groups.concat(result.searchEntries.map((g) => g.dn));
+  }
+
+  return {
+    dn: entry.dn,
+    username,
+    displayName: attributeValues(entry, s.displayNameAttribute)[0] ?? attributeValues(entry, "cn")[0] ?? username,
+    groups: Array.from(new Set(groups.map(groupName))),
+  };
+}
+
+/**
+ * Bind as the user to check the password, then read their entry and groups
+ * with the same connection. Null when the credentials are rejected.
+ */
+export async function authenticateLdapUser(s: LdapSettings, username: string, password: string): Promise<DirectoryUser | null> {
+  // An empty password would be an unauthenticated bind, which many servers accept
+  if (!username || !password) return null;
+
+  const client = await connect(s);
+  try {
+    try {
+      await client.bind(s.userBindTemplate.replace(/\{username\}/g, escapeDnValue(username)), password);
+    } catch (err) {
+      if (err instanceof InvalidCredentialsError) return null;
+      throw err;
+    }
+    return await findDirectoryUser(client, s, username);
+  } finally {
+    await client.unbind().catch(() => undefined);
+  }
+}
+
+/** Passport strategy registered as "ldap" alongside the local strategy. */
+export function createLdapStrategy(s: LdapSettings) {
+  return new LocalStrategy(async (username, password, done) => {
+    let directoryUser: DirectoryUser | null;
+    try {
+      directoryUser = await authenticateLdapUser(s, username, password);
+    } catch (err) {
+      logger.error("LDAP authentication failed", { message: err instanceof Error ? err.message : String(err) });
+      return done(null, false, { message: "The directory server is unavailable" });
+    }
+    if (!directoryUser) {
+      return done(null, false, { message: "Invalid username or password" });
+    }
+
+    try {
+      const user = await provisionExternalUser(
+        {
+          provider: "ldap",
+          externalId: username.toLowerCase(),
+          username,
+          displayName: directoryUser.displayName,
+          groups: directoryUser.groups,
+        },
+        s.mappings
+      );
+      return done(null, user);
+    } catch (err) {
+      // Provisioning refusals (disabled account, username clash) are shown to the user
+      return done(null, false, { message: err instanceof Error ? err.message : "Sign-in failed" });
+    }
+  });
+}
+
+// ── Scheduled sync ────────────────────────────────────────────────────────────
+
+export interface LdapSyncResult {
+  finishedAt: Date;
+  checked: number;
+  updated: number;
+  disabled: number;
+  error?: string;
+}
+
+let lastSync: LdapSyncResult | null = null;
+
+export function getLastLdapSync(): LdapSyncResult | null {
+  return lastSync;
+}
+
+async function bindService(s: LdapSettings): Promise<Client> {
+  if (!s.serviceBindDn || !s.serviceBindPassword) {
+    throw new Error("LDAP_SERVICE_BIND_DN and LDAP_SERVICE_BIND_PASSWORD are required");
+  }
+  const client = await connect(s);
+  try {
+    await client.bind(s.serviceBindDn, s.serviceBindPassword);
+  } catch (err) {
+    await client.unbind().catch(() => undefined);
+    throw err;
+  }
+  return client;
+}
+
+let runningSync: Promise<LdapSyncResult> | null = null;
+
+/**
+ * Re-read every active directory account: refresh names, roles and mapped
+ * memberships, and disable accounts that no longer exist in the directory.
+ * A sync requested while one is running shares its result.
+ */
+export function syncLdapUsers(s: LdapSettings): Promise<LdapSyncResult> {
+  runningSync ??= runSync(s).finally(() => {
+    runningSync = null;
+  });
+  return runningSync;
+}
+
+async function runSync(s: LdapSettings): Promise<LdapSyncResult> {
+  const result: LdapSyncResult = { finishedAt: new Date(), checked: 0, updated: 0, disabled: 0 };
+  let client: Client | null = null;
+  try {
+    client = await bindService(s);
+    const ldapUsers = (await storage.getUsers()).filter((u) => u.authProvider === "ldap" && u.active);
+
+    // Look everyone up before changing anything, so a failing search aborts the sync as a whole
+    const found: { user: User; directoryUser: DirectoryUser }[] = [];
+    const missing: User[] = [];
+    for (const user of ldapUsers) {
+      result.checked++;
+      const directoryUser = await findDirectoryUser(client, s, user.username);
+      if (directoryUser) found.push({ user, directoryUser });
+      else missing.push(user);
+    }
+
+    // Everyone vanishing at once is a wrong search base or filter, not a mass departure
+    if (missing.length > s.syncMaxDisable || (missing.length > 0 && found.length === 0)) {
+      result.error = `${missing.length} of ${ldapUsers.length} LDAP users were not found in the directory; no accounts were disabled`;
+      logger.error("LDAP sync would disable too many accounts, skipping deactivation", {
+        missing: missing.length,
+        checked: ldapUsers.length,
+        limit: s.syncMaxDisable,
+      });
+    } else {
+      for (const user of missing) {
+        const deactivated = await storage.deactivateUser(user.id);
+        await logAudit({
+          entityType: "user",
+          entityId: user.id,
+          action: "disabled",
+          performedBy: "LDAP sync",
+          metadata: {
+            username: user.username,
+            reason: "Removed from directory",
+            memberships: deactivated?.memberships.map((m) => ({ projectId: m.projectId, role: m.role })) ?? [],
+            groups: deactivated?.groups.map((g) => g.groupId) ?? [],
+          },
+        });
+        result.disabled++;
+      }
+    }
+
+    for (const { user, directoryUser } of found) {
+      const synced = await provisionExternalUser(
+        {
+          provider: "ldap",
+          externalId: user.externalId ?? user.username.toLowerCase(),
+          username: user.username,
+          displayName: directoryUser.displayName,
+          groups: directoryUser.groups,
+        },
+        s.mappings
+      );
+      if (synced.displayName !== user.displayName || synced.role !== user.role) result.updated++;
+    }
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    logger.error("LDAP sync failed", { message: result.error });
+  } finally {
+    await client?.unbind().catch(() => undefined);
+  }
+
+  result.finishedAt = new Date();
+  lastSync = result;
+  logger.info("LDAP sync finished", { ...result });
+  return result;
+}
+
+let syncTimer: NodeJS.Timeout | null = null;
+
+/** Starts the periodic directory sync; a no-op unless LDAP and a service account are configured. */
+export function startLdapSync() {
+  const s = getLdapSettings();
+  if (!s || !s.serviceBindDn || s.syncIntervalMinutes <= 0 || syncTimer) return;
+  syncTimer = setInterval(() => void syncLdapUsers(s), s.syncIntervalMinutes * 60 * 1000);
+  syncTimer.unref();
+}
+
+export function stopLdapSync() {
+  if (syncTimer) clearInterval(syncTimer);
+  syncTimer = null;
+}
+
+// ── Configuration test ────────────────────────────────────────────────────────
+
+export interface LdapTestStep {
+  step: string;
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * Walks through connecting, the service bind and (when credentials are given)
+ * a user bind with group resolution, reporting each step without signing
+ * anyone in or changing any account.
+ */
+export async function testLdapConfig(s: LdapSettings, username?: string, password?: string): Promise<LdapTestStep[]> {
+  const steps: LdapTestStep[] = [];
+  const run = async <T>(step: string, fn: () => Promise<T>, detail: (value: T) => string): Promise<T | undefined> => {
+    try {
+      const value = await fn();
+      steps.push({ step, ok: true, detail: detail(value) });
+      return value;
+    } catch (err) {
+      steps.push({ step, ok: false, detail: err instanceof Error ? err.message : String(err) });
+      return undefined;
+    }
+  };
+
+  // ldapts connects lazily, so read the root DSE to prove the server answers
+  await run(
+    "Connect",
+    async () => {
+      const client = await connect(s);
+      try {
+        await client.search("", { scope: "base", attributes: ["namingContexts"] });
+      } finally {
+        await client.unbind().catch(() => undefined);
+      }
+    },
+    () => `Connected to ${s.url}${s.startTls ? " (StartTLS)" : ""}`
+  );
+  if (!steps[steps.length - 1].ok) return steps;
+
+  if (s.serviceBindDn) {
+    const service = await run("Service account bind", () => bindService(s), () => `Bound as ${s.serviceBindDn}`);
+    if (service) {
+      await run(
+        "User search base",
+        () => service.search(s.userSearchBase, { scope: "base", attributes: ["dn"] }),
+        () => `${s.userSearchBase} is readable`
+      );
+      await service.unbind().catch(() => undefined);
+    }
+  } else {
+    steps.push({ step: "Service account bind", ok: false, detail: "Not configured; the scheduled sync is disabled" });
+  }
+
+  if (username && password) {
+    await run(
+      "User bind",
+      async () => {
+        const directoryUser = await authenticateLdapUser(s, username, password);
+        if (!directoryUser) throw new Error("Credentials rejected or user entry not found");
+        return directoryUser;
+      },
+      (u) => {
+        const role = resolveMappedRole(u.groups, s.mappings) ?? `${s.mappings.defaultRole} (default)`;
+        const projects = s.mappings.projects.filter((m) => u.groups.includes(m.group)).map((m) => `${m.projectKey}:${m.role}`);
+        return [
+          `${u.dn} → "${u.displayName}"`,
+          `groups: ${u.groups.join(", ") || "none"}`,
+          `global role: ${role}`,
+          `projects: ${projects.join(", ") || "none"}`,
+        ].join("; ");
+      }
+    );
+  }
+  return steps;
+}
@@ -0,0 +1,165 @@
+import pg from "pg";
+import type { Request, Response } from "express";
+import { pool } from "./db";
+import { logger } from "./logger";
+import type { Adr, AdrChange, LiveEvent } from "@shared/schema";
+
+interface Subscriber {
+  userId: string;
+  projectId: number | null;
+  res: Response;
+  // False until the stream headers are sent
+  open: boolean;
+}
+
+const CHANNEL = "live_events";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_PAYLOAD = 7900;
+const HEARTBEAT_MS = 25 * 1000;
+// Streams are closed now and then so the browser reconnects and the session
+// and project access are checked again
+const MAX_STREAM_MS = 10 * 60 * 1000;
+
+const subscribers = new Set<Subscriber>();
+let listener: pg.Client | null = null;
+let listening: Promise<void> | null = null;
+
+function dispatch(event: LiveEvent): void {
+  const data = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+  subscribers.forEach((sub) => {
+    const wanted = event.type === "notification"
+      ? event.userId === sub.userId
+      : event.projectId === sub.projectId;
+    if (wanted && sub.open) sub.res.write(data);
+  });
+}
+
+/**
+ * Events go through Postgres LISTEN/NOTIFY rather than straight to local
+ * subscribers, so every server instance sees them. The listening connection
+ * is opened with the first stream and closed with the last.
+ */
+function startListening(): Promise<void> {
+  if (listening) return listening;
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  client.on("notification", (msg) => {
+    if (msg.channel !== CHANNEL || !msg.payload) return;
+    try {
+      dispatch(JSON.parse(msg.payload) as LiveEvent);
+    } catch (err) {
+      logger.error("Malformed live event", { message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  client.on("error", (err) => {
+    if (listener !== client) return;
+    logger.error("Live event listener failed", { message: err.message });
+    stopListening();
+    // Browsers reconnect, which starts a new listener
+    subscribers.forEach((sub) => { if (sub.open) sub.res.end(); });
+  });
+  const attempt: Promise<void> = client.connect()
+    .then(() => client.query(`LISTEN ${CHANNEL}`))
+    .then(() => {
+      if (listening === attempt) listener = client;
+      else client.end().catch(() => {});
+    })
+    .catch((err) => {
+      if (listening === attempt) listening = null;
+      client.end().catch(() => {});
+      throw err;
+    });
+  listening = attempt;
+  return attempt;
+}
+
+function stopListening(): void {
+  const client = listener;
+  listener = null;
+  listening = null;
+  client?.end().catch(() => {});
+}
+
+/** Publish an event to everyone subscribed, on any instance. Never throws. */
+export async function publishLiveEvent(event: LiveEvent): Promise<void> {
+  let payload = JSON.stringify(event);
+  if (payload.length > MAX_PAYLOAD && event.type === "notification") {
+    payload = JSON.stringify({
+      ...event,
+      notification: { ...event.notification, body: event.notification.body.slice(0, 500) },
+    });
+  }
+  try {
+    await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, payload]);
+  } catch (err) {
+    logger.error("Failed to publish live event", {
+      message: err instanceof Error ? err.message : String(err),
+      type: event.type,
+    });
+  }
+}
+
+export function publishAdrChange(
+  projectId: number,
+  adrId: number,
+  change: AdrChange,
+  actor: { id: string } | null,
+  adr?: Adr,
+): Promise<void> {
+  return publishLiveEvent({
+    type: "adr",
+    projectId,
+    adrId,
+    change,
+    actorId: actor?.id ?? null,
+    adr: adr && {
+      id: adr.id,
+      adrNumber: adr.adrNumber,
+      title: adr.title,
+      status: adr.status,
+      version: adr.version,
+      archived: adr.archived,
+    },
+  });
+}
+
+/**
+ * Turn the response into a Server-Sent Events stream of the user's
+ * notifications and, when `projectId` is given, changes to that project's
+ * ADRs. The caller checks the user may see the project.
+ */
+export async function openEventStream(req: Request, res: Response, projectId: number | null): Promise<void> {
+  // Registered before connecting so a stream closing meanwhile cannot stop the listener
+  const sub: Subscriber = { userId: req.user!.id, projectId, res, open: false };
+  subscribers.add(sub);
+  let heartbeat: NodeJS.Timeout | undefined;
+  let expiry: NodeJS.Timeout | undefined;
+  const close = () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    subscribers.delete(sub);
+    if (subscribers.size === 0) stopListening();
+  };
+  res.on("close", close);
+
+  try {
+    await startListening();
+  } catch (err) {
+    close();
+    throw err;
+  }
+  if (!subscribers.has(sub)) return;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+  res.write("event: ready\ndata: {}\n\n");
+  sub.open = true;
+
+  heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  expiry = setTimeout(() => res.end(), MAX_STREAM_MS);
+}
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LoginThrottle, LoginThrottleScope } from "@shared/schema";
+
+const { storage, logAudit } = vi.hoisted(() => ({
+  storage: {
+    getLoginThrottle: vi.fn(),
+    recordLoginThrottleFailure: vi.fn(),
+    lockLoginThrottle: vi.fn(),
+    clearLoginThrottle: vi.fn(),
+    pruneLoginThrottles: vi.fn(),
+    getUserByUsername: vi.fn(),
+  },
+  logAudit: vi.fn(),
+}));
+vi.mock("./storage", () => ({ storage }));
+vi.mock("./audit", () => ({ logAudit }));
+
+import { checkLoginAllowed, getLoginThrottleSettings, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+
+// In-memory stand-in for the login_throttles table, following the same window rules
+let rows: LoginThrottle[] = [];
+
+function findRow(scope: LoginThrottleScope, key: string) {
+  return rows.find((r) => r.scope === scope && r.key === key);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"], now: new Date("2026-01-01T09:00:00Z") });
+  vi.clearAllMocks();
+  rows = [];
+  storage.getLoginThrottle.mockImplementation(async (scope: LoginThrottleScope, key: string) => findRow(scope, key));
+  storage.recordLoginThrottleFailure.mockImplementation(async (scope: LoginThrottleScope, key: string, windowMs: number) => {
+    const now = new Date();
+    let row = findRow(scope, key);
+    if (!row) {
+      row = { id: rows.length + 1, scope, key, failures: 0, firstFailureAt: now, lastFailureAt: now, lockedUntil: null };
+      rows.push(row);
+    }
+    if (row.firstFailureAt.getTime() < now.getTime() - windowMs) {
+      row.failures = 0;
+      row.firstFailureAt = now;
+    }
+    row.failures += 1;
+    row.lastFailureAt = now;
+    return { ...row };
+  });
+  storage.lockLoginThrottle.mockImplementation(async (id: number, lockedUntil: Date) => {
+    rows.find((r) => r.id === id)!.lockedUntil = lockedUntil;
+  });
+  storage.clearLoginThrottle.mockImplementation(async (scope: LoginThrottleScope, key: string) => {
+    const row = findRow(scope, key);
+    rows = rows.filter((r) => r !== row);
+    return row;
+  });
+  storage.getUserByUsername.mockImplementation(async (username: string) => (username === "alice" ? { id: "u-alice" } : undefined));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function fail(times: number, username = "alice", ip = "203.0.113.7") {
+  for (let i = 0; i < times; i++) await recordLoginFailure(username, ip);
+}
+
+describe("login throttling", () => {
+  const settings = getLoginThrottleSettings();
+
+  it("lets the first failures through without delay", async () => {
+    await fail(settings.delayAfter - 1);
+    expect(await checkLoginAllowed("alice", "203.0.113.7")).toEqual({ allowed: true });
+  });
+
+  it("delays further attempts, doubling the wait up to the cap", async () => {
+    await fail(settings.delayAfter);
+    expect(await checkLoginAllowed("alice", "203.0.113.7")).toMatchObject({ allowed: false, locked: false, retryAfterSeconds: 1 });
+
+    vi.advanceTimersByTime(1000);
+    expect(await checkLoginAllowed("alice", "203.0.113.7")).toEqual({ allowed: true });
+    await fail(1);
+    expect(await checkLoginAllowed("alice", "203.0.113.7")).toMatchObject({ allowed: false, retryAfterSeconds: 2 });
+
+    await fail(4);
+    expect(await checkLoginAllowed("alice", "203.0.113.7")).toMatchObject({
+      retryAfterSeconds: settings.maxDelayMs / 1000,
+      message: `Too many failed sign-in attempts. Wait ${settings.maxDelayMs / 1000} seconds before trying again.`,
+    });
+  });
+
+  it("counts usernames case-insensitively", async () => {
+    await fail(settings.delayAfter, " Alice");
+    expect(await checkLoginAllowed("ALICE", "198.51.100.1")).toMatchObject({ allowed: false });
+  });
+
+  it("forgets failures once the window has passed", async () => {
+    await fail(settings.delayAfter);
+    vi.advanceTimersByTime(settings.windowMs + 1);
+    expect(await checkLoginAllowed("alice", "203.0.113.7")).toEqual({ allowed: true });
+    await fail(1);
+    expect(findRow("username", "alice")!.failures).toBe(1);
+  });
+
+  it("locks the account after the threshold and audits it against the user", async () => {
+    await fail(settings.lockoutThreshold);
+    const check = await checkLoginAllowed("alice", "198.51.100.1");
+    expect(check).toMatchObject({ allowed: false, locked: true, retryAfterSeconds: settings.lockoutMs / 1000 });
+    expect(logAudit).toHaveBeenCalledTimes(1);
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({
+      entityType: "user",
+      entityId: "u-alice",
+      action: "locked_out",
+      metadata: expect.objectContaining({ failures: settings.lockoutThreshold }),
+    }));
+
+    // Still locked long after the delay would have run out
+    vi.advanceTimersByTime(settings.lockoutMs - 1000);
+    expect(await checkLoginAllowed("alice", "198.51.100.1")).toMatchObject({ allowed: false, locked: true });
+    vi.advanceTimersByTime(1000);
+    expect(await checkLoginAllowed("alice", "198.51.100.1")).toEqual({ allowed: true });
+  });
+
+  it("audits unknown usernames by name", async () => {
+    await fail(settings.lockoutThreshold, "mallory");
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ entityType: "user", entityId: "mallory" }));
+  });
+
+  it("locks an address spraying passwords across accounts", async () => {
+    for (let i = 0; i < settings.ipLockoutThreshold; i++) await recordLoginFailure(`user${i}`, "203.0.113.7");
+    expect(await checkLoginAllowed("someone-else", "203.0.113.7")).toMatchObject({ allowed: false, locked: true });
+    expect(await checkLoginAllowed("someone-else", "198.51.100.1")).toEqual({ allowed: true });
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ entityType: "ip_address", entityId: "203.0.113.7" }));
+  });
+
+  it("clears the username counter on success but keeps the address counter", async () => {
+    await fail(settings.delayAfter);
+    await recordLoginSuccess("u-alice", "alice", "203.0.113.7");
+    expect(findRow("username", "alice")).toBeUndefined();
+    expect(findRow("ip", "203.0.113.7")!.failures).toBe(settings.delayAfter);
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({
+      entityId: "u-alice",
+      action: "suspicious_login",
+      metadata: expect.objectContaining({ reason: "Signed in after repeated failures" }),
+    }));
+  });
+
+  it("does not flag a success after a single typo", async () => {
+    await fail(1);
+    await recordLoginSuccess("u-alice", "alice", "203.0.113.7");
+    expect(logAudit).not.toHaveBeenCalled();
+  });
+});
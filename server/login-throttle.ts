@@ -0,0 +1,153 @@
+import { storage } from "./storage";
+import { logAudit } from "./audit";
+import { logger } from "./logger";
+import type { LoginThrottle, LoginThrottleScope } from "@shared/schema";
+
+export interface LoginThrottleSettings {
+  // Failures older than this no longer count
+  windowMs: number;
+  // Failures before each further attempt has to wait
+  delayAfter: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Failures per username before the account is locked
+  lockoutThreshold: number;
+  // Failures per IP before the address is locked (catches password spraying across accounts)
+  ipLockoutThreshold: number;
+  lockoutMs: number;
+}
+
+const PERFORMED_BY = "Login protection";
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    logger.warn(`Ignoring invalid ${name}`, { value: raw });
+    return fallback;
+  }
+  return value;
+}
+
+export function loginThrottleSettingsFromEnv(): LoginThrottleSettings {
+  return {
+    windowMs: envNumber("LOGIN_FAILURE_WINDOW_MINUTES", 15) * 60 * 1000,
+    delayAfter: envNumber("LOGIN_DELAY_AFTER", 3),
+    baseDelayMs: envNumber("LOGIN_DELAY_BASE_SECONDS", 1) * 1000,
+    maxDelayMs: envNumber("LOGIN_DELAY_MAX_SECONDS", 30) * 1000,
+    lockoutThreshold: envNumber("LOGIN_LOCKOUT_THRESHOLD", 10),
+    ipLockoutThreshold: envNumber("LOGIN_IP_LOCKOUT_THRESHOLD", 50),
+    lockoutMs: envNumber("LOGIN_LOCKOUT_MINUTES", 15) * 60 * 1000,
+  };
+}
+
+const settings = loginThrottleSettingsFromEnv();
+
+export function getLoginThrottleSettings(): LoginThrottleSettings {
+  return settings;
+}
+
+export function normaliseUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// Doubles with every failure past the threshold: 1s, 2s, 4s, ... up to the cap
+function delayFor(failures: number): number {
+  if (settings.delayAfter <= 0 || failures < settings.delayAfter) return 0;
+  return Math.min(settings.baseDelayMs * 2 ** (failures - settings.delayAfter), settings.maxDelayMs);
+}
+
+function waitFor(row: LoginThrottle | undefined, now: number): number {
+  if (!row) return 0;
+  if (row.lockedUntil && row.lockedUntil.getTime() > now) return row.lockedUntil.getTime() - now;
+  if (row.firstFailureAt.getTime() < now - settings.windowMs) return 0;
+  return Math.max(0, row.lastFailureAt.getTime() + delayFor(row.failures) - now);
+}
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterSeconds: number; message: string };
+
+/**
+ * Decide whether a sign-in attempt may be evaluated at all. Locked or
+ * still-delayed usernames and addresses are refused before the password is
+ * checked, so waiting out the delay is the only way to keep guessing.
+ */
+export async function checkLoginAllowed(username: string, ip: string): Promise<LoginCheck> {
+  const now = Date.now();
+  const [byUser, byIp] = await Promise.all([
+    storage.getLoginThrottle("username", normaliseUsername(username)),
+    storage.getLoginThrottle("ip", ip),
+  ]);
+  const waitMs = Math.max(waitFor(byUser, now), waitFor(byIp, now));
+  if (waitMs <= 0) return { allowed: true };
+
+  const locked = [byUser, byIp].some((r) => r?.lockedUntil && r.lockedUntil.getTime() > now);
+  const retryAfterSeconds = Math.ceil(waitMs / 1000);
+  const message = locked
+    ? `Too many failed sign-in attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute${retryAfterSeconds > 60 ? "s" : ""} or ask an admin to unlock the account.`
+    : `Too many failed sign-in attempts. Wait ${retryAfterSeconds} second${retryAfterSeconds === 1 ? "" : "s"} before trying again.`;
+  return { allowed: false, locked, retryAfterSeconds, message };
+}
+
+let lastPrune = 0;
+
+async function recordFailure(
+  scope: LoginThrottleScope,
+  key: string,
+  threshold: number,
+  entityId: () => Promise<string>,
+  context: Record<string, unknown>,
+) {
+  const row = await storage.recordLoginThrottleFailure(scope, key, settings.windowMs);
+  if (threshold <= 0 || row.failures < threshold) return;
+  if (row.lockedUntil && row.lockedUntil.getTime() > Date.now()) return;
+
+  const lockedUntil = new Date(Date.now() + settings.lockoutMs);
+  await storage.lockLoginThrottle(row.id, lockedUntil);
+  await logAudit({
+    entityType: scope === "username" ? "user" : "ip_address",
+    entityId: await entityId(),
+    action: "locked_out",
+    performedBy: PERFORMED_BY,
+    metadata: { ...context, failures: row.failures, lockedUntil },
+  });
+}
+
+/** Count a failed password or second-factor attempt against the username and the client IP. */
+export async function recordLoginFailure(username: string, ip: string): Promise<void> {
+  const key = normaliseUsername(username);
+  // Unknown usernames are audited by name so guessing at accounts is still visible
+  const userEntity = async () => (await storage.getUserByUsername(username.trim()))?.id ?? key;
+  await recordFailure("username", key, settings.lockoutThreshold, userEntity, { username: key, ip });
+  await recordFailure("ip", ip, settings.ipLockoutThreshold, async () => ip, { ip, lastUsername: key });
+
+  if (Date.now() - lastPrune > 60 * 1000) {
+    lastPrune = Date.now();
+    await storage.pruneLoginThrottles(settings.windowMs);
+  }
+}
+
+/**
+ * Reset the username's counter after a successful sign-in. The IP counter is
+ * kept so one valid account cannot launder guesses against others. A success
+ * right after a run of failures is audited as suspicious.
+ */
+export async function recordLoginSuccess(userId: string, username: string, ip: string): Promise<void> {
+  const cleared = await storage.clearLoginThrottle("username", normaliseUsername(username));
+  if (cleared && settings.delayAfter > 0 && cleared.failures >= settings.delayAfter
+    && cleared.firstFailureAt.getTime() >= Date.now() - settings.windowMs) {
+    await reportSuspiciousLogin(userId, "Signed in after repeated failures", { ip, failures: cleared.failures });
+  }
+}
+
+export async function reportSuspiciousLogin(userId: string, reason: string, metadata: Record<string, unknown>): Promise<void> {
+  await logAudit({
+    entityType: "user",
+    entityId: userId,
+    action: "suspicious_login",
+    performedBy: PERFORMED_BY,
+    metadata: { reason, ...metadata },
+  });
+}
@@ -0,0 +1,136 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger";
+import { sendSmtp, type SmtpOptions } from "./smtp";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/** Anything that can deliver a message; register one with `setMailer`. */
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export function mailFrom(): string {
+  return process.env.MAIL_FROM?.trim() || "ADR Manager <adr-manager@localhost>";
+}
+
+// RFC 2047 encoded-word, only when the header is not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+/** Render a message as an RFC 5322 document with CRLF line endings. */
+export function buildMimeMessage(from: string, message: MailMessage): string {
+  const domain = /@([^>\s]+)/.exec(from)?.[1] ?? "localhost";
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+  const textPart = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+  ];
+  if (!message.html) return [...headers, ...textPart].join("\r\n");
+
+  const boundary = `=_${randomBytes(12).toString("hex")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+// Development transport: writes the message to the server log instead of sending it
+class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info("Outgoing email", { to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+// Development transport: saves each message as an .eml file that mail clients can open
+class FileMailer implements Mailer {
+  readonly name = "file";
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}.eml`;
+    await writeFile(path.join(this.dir, fileName), buildMimeMessage(mailFrom(), message));
+  }
+}
+
+class SmtpMailer implements Mailer {
+  readonly name = "smtp";
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const from = mailFrom();
+    await sendSmtp(this.options, from, message.to, buildMimeMessage(from, message));
+  }
+}
+
+function mailerFromEnv(): Mailer | null {
+  const transport = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (!transport) return null;
+  if (transport === "console") return new ConsoleMailer();
+  if (transport === "file") return new FileMailer(path.resolve(process.env.MAIL_FILE_DIR || "mail"));
+  if (transport === "smtp") {
+    const host = process.env.SMTP_HOST?.trim();
+    if (!host) {
+      logger.warn("MAIL_TRANSPORT=smtp needs SMTP_HOST, email delivery is disabled");
+      return null;
+    }
+    const secure = process.env.SMTP_SECURE === "true";
+    return new SmtpMailer({
+      host,
+      port: Number.parseInt(process.env.SMTP_PORT || (secure ? "465" : "587"), 10),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === "true",
+    });
+  }
+  logger.warn("Unknown MAIL_TRANSPORT, email delivery is disabled", { transport });
+  return null;
+}
+
+let mailer: Mailer | null = mailerFromEnv();
+
+/** The configured mailer, or null when email delivery is off. */
+export function getMailer(): Mailer | null {
+  return mailer;
+}
+
+export function setMailer(next: Mailer | null): void {
+  mailer = next;
+}
@@ -0,0 +1,182 @@
+import TurndownService from "turndown";
+import JSZip from "jszip";
+import { storage } from "./storage";
+import type { Adr, AdrRelation, Project, ProjectRequirement, WorkflowState } from "@shared/schema";
+
+export const exportFormatEnum = ["madr", "nygard"] as const;
+export type ExportFormat = typeof exportFormatEnum[number];
+
+export interface AdrExportContext {
+  project: Project;
+  workflow: WorkflowState[];
+  relations: AdrRelation[];
+  // ADRs referenced by the relations, keyed by id
+  relatedAdrs: Map<number, Adr>;
+  requirements: ProjectRequirement[];
+}
+
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+  emDelimiter: "_",
+});
+
+// Headings written in the editor sit below the document's own section headings
+turndown.addRule("nestedHeadings", {
+  filter: ["h1", "h2", "h3", "h4", "h5", "h6"],
+  replacement: (content, node) => {
+    const level = Math.min(Number(node.nodeName.charAt(1)) + 2, 6);
+    return `\n\n${"#".repeat(level)} ${content}\n\n`;
+  },
+});
+
+export function htmlToMarkdown(html: string | null | undefined): string {
+  if (!html) return "";
+  return turndown.turndown(html).trim();
+}
+
+const outgoingLabels: Record<string, string> = {
+  supersedes: "Supersedes",
+  superseded_by: "Superseded by",
+  conflicts_with: "Conflicts with",
+  depends_on: "Depends on",
+  related_to: "Related to",
+};
+
+// How a relation reads from the target's side
+const incomingLabels: Record<string, string> = {
+  supersedes: "Superseded by",
+  superseded_by: "Supersedes",
+  conflicts_with: "Conflicts with",
+  depends_on: "Depended on by",
+  related_to: "Related to",
+};
+
+function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+function padNumber(adrNumber: number): string {
+  return String(adrNumber).padStart(4, "0");
+}
+
+/** File name for an exported ADR, e.g. `PLAT-0001-use-postgresql.md`. */
+export function adrFileName(project: Project, adr: Adr): string {
+  return `${project.key}-${padNumber(adr.adrNumber)}-${slugify(adr.title)}.md`;
+}
+
+function adrRef(project: Project, adr: Adr): string {
+  return `${project.key}-${String(adr.adrNumber).padStart(3, "0")}`;
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function relationLines(adr: Adr, ctx: AdrExportContext): string[] {
+  const lines: string[] = [];
+  for (const rel of ctx.relations) {
+    const outgoing = rel.sourceAdrId === adr.id;
+    const other = ctx.relatedAdrs.get(outgoing ? rel.targetAdrId : rel.sourceAdrId);
+    if (!other) continue;
+    const label = (outgoing ? outgoingLabels : incomingLabels)[rel.relationType] ?? rel.relationType;
+    lines.push(`${label} [${adrRef(ctx.project, other)}: ${other.title}](${adrFileName(ctx.project, other)})`);
+  }
+  return lines;
+}
+
+function requirementLines(ctx: AdrExportContext): string[] {
+  return ctx.requirements.map((r) => `- **${r.code}** (${r.type}, ${r.priority}): ${r.title}`);
+}
+
+function statusLabel(adr: Adr, ctx: AdrExportContext): string {
+  return ctx.workflow.find((s) => s.key === adr.status)?.label ?? adr.status;
+}
+
+function renderNygard(adr: Adr, ctx: AdrExportContext): string {
+  const out: string[] = [];
+  out.push(`# ${adr.adrNumber}. ${adr.title}`, "");
+  out.push(`Date: ${formatDate(adr.createdAt)}`, "");
+  out.push("## Status", "", statusLabel(adr, ctx), "");
+  for (const line of relationLines(adr, ctx)) out.push(line, "");
+  out.push("## Context", "", htmlToMarkdown(adr.context), "");
+  out.push("## Decision", "", htmlToMarkdown(adr.decision), "");
+  out.push("## Consequences", "", htmlToMarkdown(adr.consequences), "");
+  if (adr.alternatives) {
+    out.push("## Alternatives Considered", "", htmlToMarkdown(adr.alternatives), "");
+  }
+  if (ctx.requirements.length > 0) {
+    out.push("## Requirements", "", ...requirementLines(ctx), "");
+  }
+  if ((adr.tags ?? []).length > 0) {
+    out.push(`Tags: ${(adr.tags ?? []).join(", ")}`, "");
+  }
+  return out.join("\n");
+}
+
+function renderMadr(adr: Adr, ctx: AdrExportContext): string {
+  const out: string[] = ["---"];
+  out.push(`status: ${statusLabel(adr, ctx).toLowerCase()}`);
+  out.push(`date: ${formatDate(adr.updatedAt)}`);
+  out.push(`deciders: ${adr.author}`);
+  if ((adr.tags ?? []).length > 0) out.push(`tags: [${(adr.tags ?? []).join(", ")}]`);
+  out.push("---", "");
+  out.push(`# ${adr.title}`, "");
+  out.push("## Context and Problem Statement", "", htmlToMarkdown(adr.context), "");
+  if (adr.alternatives) {
+    out.push("## Considered Options", "", htmlToMarkdown(adr.alternatives), "");
+  }
+  out.push("## Decision Outcome", "", htmlToMarkdown(adr.decision), "");
+  out.push("### Consequences", "", htmlToMarkdown(adr.consequences), "");
+
+  const relations = relationLines(adr, ctx);
+  if (relations.length > 0 || ctx.requirements.length > 0) {
+    out.push("## More Information", "");
+    for (const line of relations) out.push(`- ${line}`);
+    if (relations.length > 0) out.push("");
+    if (ctx.requirements.length > 0) {
+      out.push("Requirements:", "", ...requirementLines(ctx), "");
+    }
+  }
+  return out.join("\n");
+}
+
+export function renderAdrMarkdown(adr: Adr, ctx: AdrExportContext, format: ExportFormat): string {
+  return format === "madr" ? renderMadr(adr, ctx) : renderNygard(adr, ctx);
+}
+
+/**
+ * Render a set of ADRs from one project. Relation targets are looked up in
+ * `relatedAdrs` (the exported set by default), so links between exported
+ * files stay relative.
+ */
+export async function exportAdrs(
+  project: Project,
+  projectAdrs: Adr[],
+  format: ExportFormat,
+  relatedAdrs: Adr[] = projectAdrs
+) {
+  const workflow = await storage.getProjectWorkflow(project.id);
+  const byId = new Map(relatedAdrs.map((a) => [a.id, a]));
+  return Promise.all(
+    projectAdrs.map(async (adr) => {
+      const [relations, requirements] = await Promise.all([
+        storage.getRelations(adr.id),
+        storage.getAdrRequirements(adr.id),
+      ]);
+      const content = renderAdrMarkdown(adr, { project, workflow, relations, relatedAdrs: byId, requirements }, format);
+      return { name: adrFileName(project, adr), content };
+    })
+  );
+}
+
+export async function buildExportZip(files: { name: string; content: string }[]): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const file of files) zip.file(file.name, file.content);
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultWorkflowStates } from "@shared/schema";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getAdrNumbers: vi.fn(),
+    getProjectWorkflow: vi.fn(),
+  },
+}));
+vi.mock("./storage", () => ({ storage }));
+
+import { planImport } from "./markdown-import";
+
+function nygard(number: number, title: string, status: string) {
+  return {
+    name: `${String(number).padStart(4, "0")}-${title.toLowerCase().replace(/\s+/g, "-")}.md`,
+    content: `# ${number}. ${title}\n\n## Status\n\n${status}\n\n## Context\n\nWhy.\n\n## Decision\n\nWhat.\n\n## Consequences\n\nSo what.\n`,
+  };
+}
+
+beforeEach(() => {
+  storage.getAdrNumbers.mockResolvedValue([]);
+  storage.getProjectWorkflow.mockResolvedValue(defaultWorkflowStates);
+});
+
+describe("planImport status refusals", () => {
+  const files = [nygard(1, "Use PostgreSQL", "Accepted"), nygard(2, "Use Redis", "Proposed")];
+
+  it("keeps mapped statuses when nothing is refused", async () => {
+    const planned = await planImport(1, files);
+    expect(planned.map((p) => p.status)).toEqual(["accepted", "proposed"]);
+  });
+
+  it("imports refused states as the initial state with a warning", async () => {
+    const planned = await planImport(1, files, (state) => (state.category === "accepted" ? "Review quorum not met" : null));
+    expect(planned.map((p) => p.status)).toEqual(["draft", "proposed"]);
+    expect(planned[0].warnings).toContain('Review quorum not met; will be imported as "Draft"');
+    expect(planned[1].warnings).toEqual([]);
+  });
+
+  it("never asks about the initial state", async () => {
+    const refuseStatus = vi.fn(() => "No");
+    const planned = await planImport(1, [nygard(3, "Draft idea", "Draft")], refuseStatus);
+    expect(planned[0].status).toBe("draft");
+    expect(refuseStatus).not.toHaveBeenCalled();
+  });
+});
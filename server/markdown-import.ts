@@ -0,0 +1,522 @@
+import MarkdownIt from "markdown-it";
+import JSZip from "jszip";
+import type { Readable } from "node:stream";
+import { storage } from "./storage";
+import { logAudit } from "./audit";
+import type { Actor, Adr, AdrRelationType, WorkflowState } from "@shared/schema";
+
+const MAX_IMPORT_FILES = 1000;
+const MAX_FILE_BYTES = 1024 * 1024;
+// Across all archives in one import, so a zip bomb cannot exhaust memory
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+const markdown = new MarkdownIt({ html: false, linkify: true });
+
+export interface ImportFile {
+  name: string;
+  content: string;
+}
+
+interface ImportUpload {
+  originalname: string;
+  buffer: Buffer;
+}
+
+type SectionKey = "preamble" | "status" | "context" | "decision" | "consequences" | "alternatives";
+
+// Nygard and MADR (2.x–4.x) section headings, lower-cased
+const sectionHeadings: Record<string, SectionKey> = {
+  "status": "status",
+  "context": "context",
+  "context and problem statement": "context",
+  "decision drivers": "context",
+  "decision": "decision",
+  "decision outcome": "decision",
+  "consequences": "consequences",
+  "positive consequences": "consequences",
+  "negative consequences": "consequences",
+  "alternatives": "alternatives",
+  "alternatives considered": "alternatives",
+  "considered options": "alternatives",
+  "pros and cons of the options": "alternatives",
+};
+
+const relationPrefixes: { pattern: RegExp; relationType: AdrRelationType }[] = [
+  { pattern: /^superseded by\s+/i, relationType: "superseded_by" },
+  { pattern: /^supersedes\s+/i, relationType: "supersedes" },
+  { pattern: /^depends on\s+/i, relationType: "depends_on" },
+  { pattern: /^conflicts with\s+/i, relationType: "conflicts_with" },
+  { pattern: /^(related to|relates to|amends|amended by|clarifies|clarified by)\s+/i, relationType: "related_to" },
+];
+
+const statusSynonyms: Record<string, string> = {
+  accepted: "accepted",
+  approved: "accepted",
+  adopted: "accepted",
+  decided: "accepted",
+  proposed: "proposed",
+  proposal: "proposed",
+  draft: "draft",
+  wip: "draft",
+  "in review": "in_review",
+  in_review: "in_review",
+  "under review": "in_review",
+  review: "in_review",
+  deprecated: "deprecated",
+  obsolete: "deprecated",
+  superseded: "superseded",
+};
+
+// Index/readme files that live alongside ADRs in adr-tools and MADR repositories
+const nonAdrFiles = /^(readme|index|template|adr-template|_sidebar)\.(md|markdown)$/i;
+
+export interface ParsedAdr {
+  fileName: string;
+  originalNumber: number | null;
+  title: string;
+  rawStatus: string | null;
+  date: Date | null;
+  context: string;
+  decision: string;
+  consequences: string;
+  alternatives: string | null;
+  tags: string[];
+  links: { relationType: AdrRelationType; targetNumber: number }[];
+  warnings: string[];
+}
+
+function baseName(path: string): string {
+  return path.split("/").pop() ?? path;
+}
+
+function stripInline(text: string): string {
+  return text.replace(/[*`]/g, "").replace(/(^|\s)_+|_+(\s|$)/g, "$1$2").trim();
+}
+
+function parseFrontMatter(lines: string[]): { meta: Record<string, string>; body: string[] } {
+  if (lines[0]?.trim() !== "---") return { meta: {}, body: lines };
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+  if (end === -1) return { meta: {}, body: lines };
+  const meta: Record<string, string> = {};
+  for (const line of lines.slice(1, end)) {
+    const m = /^([A-Za-z-]+):\s*(.*)$/.exec(line);
+    if (m) meta[m[1].toLowerCase()] = m[2].replace(/^["']|["']$/g, "").trim();
+  }
+  return { meta, body: lines.slice(end + 1) };
+}
+
+function parseTags(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, "")
+    .split(",")
+    .map((t) => stripInline(t).replace(/^["']|["']$/g, "").toLowerCase())
+    .filter(Boolean);
+}
+
+function parseDate(value: string): Date | null {
+  const date = new Date(stripInline(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Resolve the ADR number a relation line points at. adr-tools writes
+ * `[2. Title](0002-title.md)`; hand-written repositories tend to use `ADR-2`.
+ */
+function extractTargetNumber(text: string): number | null {
+  const patterns = [/\]\((?:[^)]*\/)?0*(\d+)[-_][^)]*\)/, /\bADR[-\s#]?0*(\d+)\b/i, /^\[?0*(\d+)\.\s/, /^#?0*(\d+)\b/];
+  for (const pattern of patterns) {
+    const m = pattern.exec(text.trim());
+    if (m) return parseInt(m[1]);
+  }
+  return null;
+}
+
+function parseRelationLine(line: string): { relationType: AdrRelationType; targetNumber: number | null } | null {
+  const text = stripInline(line.replace(/^\s*[*-]\s+/, ""));
+  for (const { pattern, relationType } of relationPrefixes) {
+    if (pattern.test(text)) {
+      return { relationType, targetNumber: extractTargetNumber(line.replace(/^\s*[*-]\s+/, "").replace(pattern, "")) };
+    }
+  }
+  return null;
+}
+
+function toHtml(lines: string[]): string {
+  const text = lines.join("\n").trim();
+  return text ? markdown.render(text).trim() : "";
+}
+
+/** Parse a single Nygard (adr-tools) or MADR Markdown file. */
+export function parseAdrMarkdown(fileName: string, text: string): ParsedAdr {
+  const { meta, body } = parseFrontMatter(text.replace(/\r\n?/g, "\n").split("\n"));
+  const buffers: Record<SectionKey, string[]> = {
+    preamble: [], status: [], context: [], decision: [], consequences: [], alternatives: [],
+  };
+  const links: ParsedAdr["links"] = [];
+  const warnings: string[] = [];
+  let title: string | null = null;
+  let rawStatus: string | null = meta.status ?? null;
+  // Status given as a single metadata value rather than a Status section
+  let inlineStatus = !!meta.status;
+  let date = meta.date ? parseDate(meta.date) : null;
+  let tags = meta.tags ? parseTags(meta.tags) : [];
+  let current: SectionKey = "preamble";
+  let fence: string | null = null;
+
+  const addLink = (line: string) => {
+    const relation = parseRelationLine(line);
+    if (!relation) return false;
+    if (relation.targetNumber === null) {
+      warnings.push(`Could not find the ADR number in "${stripInline(line)}"`);
+    } else {
+      links.push({ relationType: relation.relationType, targetNumber: relation.targetNumber });
+    }
+    return true;
+  };
+
+  for (const line of body) {
+    const fenceMatch = /^\s*(```|~~~)/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence) fence = null;
+      buffers[current].push(line);
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      buffers[current].push(line);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      const name = stripInline(heading[2]);
+      if (level === 1 && title === null) {
+        title = name;
+        continue;
+      }
+      const section = level <= 3 ? sectionHeadings[name.toLowerCase()] : undefined;
+      if (section) {
+        current = section;
+        // Keep MADR's positive/negative split visible inside the single consequences field
+        if (/^(positive|negative) consequences$/i.test(name)) {
+          buffers.consequences.push(`#### ${name}`, "");
+        }
+        continue;
+      }
+      buffers[current].push(line);
+      continue;
+    }
+
+    // MADR 2.x lists metadata as bullets; Nygard puts "Date:" under the title
+    const metaLine = /^\s*(?:[*-]\s+)?(status|date|tags)\s*:\s*(.+)$/i.exec(line);
+    if (metaLine && (current === "preamble" || current === "status")) {
+      const key = metaLine[1].toLowerCase();
+      if (key === "status") {
+        rawStatus = stripInline(metaLine[2]);
+        inlineStatus = true;
+      }
+      if (key === "date") date = parseDate(metaLine[2]);
+      if (key === "tags") tags = parseTags(metaLine[2]);
+      continue;
+    }
+    const tagLine = /^Tags:\s*(.+)$/.exec(line);
+    if (tagLine) {
+      tags = parseTags(tagLine[1]);
+      continue;
+    }
+
+    if (current === "status") {
+      if (!line.trim()) continue;
+      if (addLink(line)) {
+        rawStatus ??= stripInline(line.replace(/^\s*[*-]\s+/, "")).split(/\s+/).slice(0, 2).join(" ");
+        continue;
+      }
+      rawStatus ??= stripInline(line.replace(/^\s*[*-]\s+/, ""));
+      continue;
+    }
+
+    addLink(line);
+    buffers[current].push(line);
+  }
+
+  // MADR may carry the relation in the status value itself ("superseded by ADR-0005")
+  if (rawStatus && inlineStatus) addLink(rawStatus);
+
+  const name = baseName(fileName);
+  const fileNumber = /^0*(\d+)[-_ ]/.exec(name);
+  const titleNumber = title ? /^(?:ADR[-\s]?)?0*(\d+)[.:]\s+/i.exec(title) : null;
+  const originalNumber = fileNumber ? parseInt(fileNumber[1]) : titleNumber ? parseInt(titleNumber[1]) : null;
+  if (title && titleNumber) title = title.slice(titleNumber[0].length).trim();
+  if (!title) {
+    title = name.replace(/\.(md|markdown)$/i, "").replace(/^\d+[-_ ]/, "").replace(/[-_]+/g, " ").trim() || name;
+    warnings.push("No title heading; derived the title from the file name");
+  }
+
+  const context = toHtml([...buffers.preamble, ...buffers.context]);
+  const decision = toHtml(buffers.decision);
+  const consequences = toHtml(buffers.consequences);
+  if (!context) warnings.push("No Context section found");
+  if (!decision) warnings.push("No Decision section found");
+  if (!consequences) warnings.push("No Consequences section found");
+
+  return {
+    fileName,
+    originalNumber,
+    title: title.slice(0, 200),
+    rawStatus,
+    date,
+    context,
+    decision,
+    consequences,
+    alternatives: toHtml(buffers.alternatives) || null,
+    tags,
+    links,
+    warnings,
+  };
+}
+
+/**
+ * Map a free-text status line onto the project's workflow. Exact workflow
+ * keys and labels win, then the common adr-tools/MADR spellings of
+ * adrStatusEnum values; anything else falls back to the initial state.
+ */
+export function mapImportedStatus(rawStatus: string | null, workflow: WorkflowState[]): { status: string; warning?: string } {
+  const initial = workflow[0].key;
+  if (!rawStatus) return { status: initial, warning: `No status line; will be imported as "${workflow[0].label}"` };
+
+  const normalized = stripInline(rawStatus).toLowerCase();
+  const exact = workflow.find((s) => s.key === normalized || s.label.toLowerCase() === normalized);
+  if (exact) return { status: exact.key };
+
+  const word = normalized.startsWith("superseded") ? "superseded" : normalized.replace(/[^a-z_ ].*$/, "").trim();
+  const mapped = statusSynonyms[word];
+  if (mapped && workflow.some((s) => s.key === mapped)) return { status: mapped };
+
+  return {
+    status: initial,
+    warning: `Status "${rawStatus}" is not part of this project's workflow; will be imported as "${workflow[0].label}"`,
+  };
+}
+
+// JSZip keeps the size declared in the archive's directory on a private field
+function declaredSize(entry: JSZip.JSZipObject): number {
+  return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+// The declared size can lie, so stop inflating as soon as the output exceeds the limit
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer") as Readable;
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        resolve(null);
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+/** Flatten uploaded `.md` files and zip archives into a list of Markdown files. */
+export async function readImportUploads(uploads: ImportUpload[]): Promise<{ files: ImportFile[]; skipped: { fileName: string; reason: string }[] }> {
+  const files: ImportFile[] = [];
+  const skipped: { fileName: string; reason: string }[] = [];
+  let inflated = 0;
+
+  const accept = (name: string, content: string) => {
+    if (nonAdrFiles.test(baseName(name))) {
+      skipped.push({ fileName: name, reason: "Not an ADR (index or template file)" });
+    } else if (content.length > MAX_FILE_BYTES) {
+      skipped.push({ fileName: name, reason: "File is larger than 1 MB" });
+    } else {
+      files.push({ name, content });
+    }
+  };
+
+  for (const upload of uploads) {
+    if (/\.zip$/i.test(upload.originalname)) {
+      const zip = await JSZip.loadAsync(upload.buffer);
+      const entries = Object.values(zip.files).filter(
+        (entry) => !entry.dir && /\.(md|markdown)$/i.test(entry.name) && !entry.name.startsWith("__MACOSX/")
+      );
+      if (files.length + entries.length > MAX_IMPORT_FILES) {
+        throw new Error(`An import can contain at most ${MAX_IMPORT_FILES} ADRs`);
+      }
+      for (const entry of entries) {
+        if (declaredSize(entry) > MAX_FILE_BYTES) {
+          skipped.push({ fileName: entry.name, reason: "File is larger than 1 MB" });
+          continue;
+        }
+        const content = await inflateEntry(entry, MAX_FILE_BYTES);
+        if (!content) {
+          skipped.push({ fileName: entry.name, reason: "File is larger than 1 MB" });
+          continue;
+        }
+        inflated += content.length;
+        if (inflated > MAX_INFLATED_BYTES) {
+          throw new Error("Archives in an import can contain at most 50 MB of Markdown");
+        }
+        accept(entry.name, content.toString("utf8"));
+      }
+    } else {
+      accept(upload.originalname, upload.buffer.toString("utf8"));
+    }
+  }
+
+  return { files, skipped };
+}
+
+export interface PlannedImport {
+  parsed: ParsedAdr;
+  adrNumber: number;
+  status: string;
+  relations: { relationType: AdrRelationType; targetNumber: number }[];
+  conflicts: string[];
+  warnings: string[];
+}
+
+/**
+ * Work out numbering, statuses and relations for an import without writing
+ * anything. Original numbers are kept unless the project (or an earlier file
+ * in the same import) already uses them; those ADRs are renumbered after the
+ * highest number in use. Relation targets refer to the original numbering.
+ */
+export async function planImport(
+  projectId: number,
+  files: ImportFile[],
+  // Why the importing user may not create ADRs in a state, if they may not; the initial state is always allowed
+  refuseStatus: (state: WorkflowState) => string | null = () => null
+): Promise<PlannedImport[]> {
+  const [existingNumbers, workflow] = await Promise.all([
+    storage.getAdrNumbers(projectId),
+    storage.getProjectWorkflow(projectId),
+  ]);
+  const taken = new Set(existingNumbers);
+  const parsed = files
+    .map((f) => parseAdrMarkdown(f.name, f.content))
+    .sort((a, b) => (a.originalNumber ?? Infinity) - (b.originalNumber ?? Infinity) || a.fileName.localeCompare(b.fileName));
+
+  const planned: PlannedImport[] = [];
+  const pending: PlannedImport[] = [];
+  for (const adr of parsed) {
+    const { status, warning } = mapImportedStatus(adr.rawStatus, workflow);
+    const entry: PlannedImport = { parsed: adr, adrNumber: 0, status, relations: [], conflicts: [], warnings: [...adr.warnings] };
+    if (warning) entry.warnings.push(warning);
+    const refusal = status === workflow[0].key ? null : refuseStatus(workflow.find((s) => s.key === status)!);
+    if (refusal) {
+      entry.status = workflow[0].key;
+      entry.warnings.push(`${refusal}; will be imported as "${workflow[0].label}"`);
+    }
+
+    if (adr.originalNumber === null) {
+      entry.warnings.push("No ADR number in the file name or title; a new number will be assigned");
+      pending.push(entry);
+    } else if (taken.has(adr.originalNumber)) {
+      const byImport = planned.some((p) => p.parsed.originalNumber === adr.originalNumber);
+      entry.conflicts.push(
+        byImport
+          ? `ADR ${adr.originalNumber} appears more than once in this import`
+          : `ADR ${adr.originalNumber} already exists in this project`
+      );
+      pending.push(entry);
+    } else {
+      entry.adrNumber = adr.originalNumber;
+      taken.add(adr.originalNumber);
+    }
+    planned.push(entry);
+  }
+
+  let next = Math.max(0, ...Array.from(taken)) + 1;
+  for (const entry of pending) {
+    entry.adrNumber = next++;
+    if (entry.parsed.originalNumber !== null) {
+      entry.conflicts[entry.conflicts.length - 1] += `; will be imported as ${entry.adrNumber}`;
+    }
+  }
+
+  // The first file carrying an original number owns it for relation lookups
+  const byOriginal = new Map<number, PlannedImport>();
+  for (const entry of planned) {
+    if (entry.parsed.originalNumber !== null && !byOriginal.has(entry.parsed.originalNumber)) {
+      byOriginal.set(entry.parsed.originalNumber, entry);
+    }
+  }
+  for (const entry of planned) {
+    for (const link of entry.parsed.links) {
+      const target = byOriginal.get(link.targetNumber);
+      if (!target) {
+        entry.warnings.push(`Relation "${link.relationType}" points at ADR ${link.targetNumber}, which is not part of this import; skipped`);
+      } else if (target === entry) {
+        entry.warnings.push(`Relation "${link.relationType}" points at itself; skipped`);
+      } else if (!entry.relations.some((r) => r.relationType === link.relationType && r.targetNumber === link.targetNumber)) {
+        entry.relations.push(link);
+      }
+    }
+  }
+
+  return planned.sort((a, b) => a.adrNumber - b.adrNumber);
+}
+
+/** Write a planned import in one transaction: ADRs, their initial versions and relations, then audit entries. */
+export async function commitImport(
+  projectId: number,
+  planned: PlannedImport[],
+  performedBy: Actor
+): Promise<Adr[]> {
+  const byOriginal = new Map<number, number>();
+  planned.forEach((entry, index) => {
+    const n = entry.parsed.originalNumber;
+    if (n !== null && !byOriginal.has(n)) byOriginal.set(n, index);
+  });
+  const relations = planned.flatMap((entry, source) =>
+    entry.relations.flatMap(({ relationType, targetNumber }) => {
+      const target = byOriginal.get(targetNumber);
+      return target === undefined ? [] : [{ source, target, relationType }];
+    })
+  );
+
+  const created = await storage.importAdrs(
+    planned.map((entry) => ({
+      adr: {
+        projectId,
+        title: entry.parsed.title,
+        status: entry.status,
+        context: entry.parsed.context,
+        decision: entry.parsed.decision,
+        consequences: entry.parsed.consequences,
+        alternatives: entry.parsed.alternatives,
+        tags: entry.parsed.tags,
+        team: null,
+        authorId: performedBy.id,
+        author: performedBy.displayName,
+        version: "1.0",
+        archived: false,
+        archiveReason: null,
+      },
+      adrNumber: entry.adrNumber,
+      createdAt: entry.parsed.date ?? undefined,
+    })),
+    relations
+  );
+
+  for (let i = 0; i < created.length; i++) {
+    const adr = created[i];
+    const { parsed } = planned[i];
+    await logAudit({
+      entityType: "adr",
+      entityId: adr.id,
+      action: "imported",
+      performedBy,
+      metadata: { projectId, title: adr.title, adrNumber: adr.adrNumber, fileName: parsed.fileName, originalNumber: parsed.originalNumber },
+    });
+  }
+
+  return created;
+}
@@ -1,6 +1,10 @@
 import { db } from "./db";
-import { notifications } from "@shared/schema";
+import { storage } from "./storage";
+import { notifications, notificationTypeEvents } from "@shared/schema";
 import { logger } from "./logger";
+import { publishLiveEvent } from "./live-events";
+import { emailDeliveryFor, enqueueEmail } from "./email-queue";
+import { renderNotificationEmail } from "./email-templates";
 
 export interface NotificationData {
   userId: string;
@@ -8,16 +12,60 @@ export interface NotificationData {
   title: string;
   body: string;
   href?: string;
+  // Project the event belongs to; the user's preferences for that project apply
+  projectId?: number;
+  // ADR the event is about; unwatching it mutes status changes and comments
+  adrId?: number;
 }
 
-export async function createNotification(data: NotificationData): Promise<void> {
+// Notification types that unwatching an ADR mutes
+const watchableTypes = new Set(["status_changed", "comment_added"]);
+
+/** Which channels a notification may use, by the user's per-project preferences and ADR watches. */
+async function allowedChannels(data: NotificationData): Promise<{ inApp: boolean; email: boolean }> {
+  if (data.adrId !== undefined && watchableTypes.has(data.type)) {
+    const watch = await storage.getAdrWatch(data.adrId, data.userId);
+    if (watch && !watch.watching) return { inApp: false, email: false };
+  }
+  const event = notificationTypeEvents[data.type];
+  if (data.projectId === undefined || !event) return { inApp: true, email: true };
+  const pref = await storage.getNotificationPreference(data.userId, data.projectId, event);
+  return { inApp: pref?.inApp ?? true, email: pref?.email ?? true };
+}
+
+/**
+ * Store a notification, push it to the user's open tabs and, by their email
+ * setting, queue it for sending now or for their next digest. The user's
+ * preferences decide which of these happen; email-only notifications are
+ * stored hidden from the app so a digest can still include them.
+ * Resolves to whether the notification reached the user at all.
+ */
+export async function createNotification(data: NotificationData): Promise<boolean> {
   try {
-    await db.insert(notifications).values(data);
+    const channels = await allowedChannels(data);
+    if (!channels.inApp && !channels.email) return false;
+    const user = await storage.getUser(data.userId);
+    const delivery = channels.email ? emailDeliveryFor(user) : "off";
+    if (!channels.inApp && delivery === "off") return false;
+
+    const { projectId: _projectId, adrId: _adrId, ...fields } = data;
+    const [notification] = await db
+      .insert(notifications)
+      .values({ ...fields, inApp: channels.inApp, emailPending: delivery === "daily" || delivery === "weekly" })
+      .returning();
+    if (channels.inApp) {
+      await publishLiveEvent({ type: "notification", userId: data.userId, notification });
+    }
+    if (user && delivery === "immediate") {
+      await enqueueEmail(renderNotificationEmail(user, notification), user.id);
+    }
+    return true;
   } catch (err) {
     logger.error("Failed to create notification", {
       message: err instanceof Error ? err.message : String(err),
       userId: data.userId,
     });
+    return false;
   }
 }
 
@@ -28,25 +76,14 @@ export async function notifyProjectMembers(
   title: string,
   body: string,
   href?: string,
+  adrId?: number,
 ): Promise<void> {
   try {
-    const { projectMembers, users } = await import("@shared/schema");
-    const { eq, and, ne } = await import("drizzle-orm");
-
-    let query = db
-      .select({ userId: users.id })
-      .from(projectMembers)
-      .innerJoin(users, eq(projectMembers.userId, users.id))
-      .where(eq(projectMembers.projectId, projectId));
-
-    if (excludeUserId) {
-      query = query.where(and(eq(projectMembers.projectId, projectId), ne(users.id, excludeUserId)));
-    }
-
-    const members = await query;
-
-    for (const member of members) {
-      await createNotification({ userId: member.userId, type, title, body, href });
+    // Includes everyone with access through a group
+    const userIds = await storage.getProjectUserIds(projectId);
+    for (const userId of userIds) {
+      if (userId === excludeUserId) continue;
+      await createNotification({ userId, type, title, body, href, projectId, adrId });
     }
   } catch (err) {
     logger.error("Failed to notify project members", {
@@ -0,0 +1,185 @@
+import * as client from "openid-client";
+import type { Express, Request, Response } from "express";
+import {
+  provisionExternalUser,
+  parseRoleMapping,
+  parseProjectMapping,
+  type GroupMappings,
+} from "./identity-sync";
+import { logger } from "./logger";
+import { stampSession } from "./sessions";
+import { userRoleEnum, type UserRole } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    // Per-attempt secrets between the login redirect and the callback
+    oidc?: { state: string; nonce: string; codeVerifier: string };
+  }
+}
+
+export interface OidcSettings {
+  issuer: URL;
+  clientId: string;
+  // Omit for public clients; PKCE protects the code exchange either way
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  usernameClaim: string;
+  displayNameClaim: string;
+  groupsClaim: string;
+  label: string;
+  // With SSO enabled, password sign-in is kept for global admins only unless set to "all"
+  localLogin: "admin" | "all";
+  mappings: GroupMappings;
+}
+
+/** Reads OIDC settings from the environment; null when OIDC is not configured. */
+export function oidcSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): OidcSettings | null {
+  if (!env.OIDC_ISSUER_URL) return null;
+  if (!env.OIDC_CLIENT_ID || !env.OIDC_REDIRECT_URI) {
+    throw new Error("OIDC_ISSUER_URL requires OIDC_CLIENT_ID and OIDC_REDIRECT_URI");
+  }
+  const defaultRole = (env.OIDC_DEFAULT_ROLE || "viewer") as UserRole;
+  if (!userRoleEnum.includes(defaultRole)) {
+    throw new Error(`Invalid OIDC_DEFAULT_ROLE "${defaultRole}"`);
+  }
+
+  return {
+    issuer: new URL(env.OIDC_ISSUER_URL),
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: env.OIDC_REDIRECT_URI,
+    scopes: env.OIDC_SCOPES || "openid profile email groups",
+    usernameClaim: env.OIDC_USERNAME_CLAIM || "preferred_username",
+    displayNameClaim: env.OIDC_DISPLAY_NAME_CLAIM || "name",
+    groupsClaim: env.OIDC_GROUPS_CLAIM || "groups",
+    label: env.OIDC_BUTTON_LABEL || "Sign in with SSO",
+    localLogin: env.OIDC_LOCAL_LOGIN === "all" ? "all" : "admin",
+    mappings: {
+      roles: parseRoleMapping(env.OIDC_ROLE_MAPPING),
+      projects: parseProjectMapping(env.OIDC_PROJECT_MAPPING),
+      defaultRole,
+      linkExistingUsers: env.OIDC_LINK_EXISTING_USERS === "true",
+    },
+  };
+}
+
+let settings: OidcSettings | null | undefined;
+
+export function getOidcSettings(): OidcSettings | null {
+  if (settings === undefined) settings = oidcSettingsFromEnv();
+  return settings;
+}
+
+let clientConfig: Promise<client.Configuration> | null = null;
+
+// Discovery runs on first use and is retried on the next login if the IdP was unreachable
+function getClientConfig(s: OidcSettings): Promise<client.Configuration> {
+  clientConfig ??= client
+    .discovery(
+      s.issuer,
+      s.clientId,
+      s.clientSecret,
+      s.clientSecret ? undefined : client.None(),
+      // Plain-http issuers are only expected for local mock IdPs
+      { execute: s.issuer.protocol === "http:" ? [client.allowInsecureRequests] : [] }
+    )
+    .catch((err) => {
+      clientConfig = null;
+      throw err;
+    });
+  return clientConfig;
+}
+
+function claimString(claims: Record<string, unknown>, name: string): string | undefined {
+  const value = claims[name];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function claimGroups(claims: Record<string, unknown>, name: string): string[] {
+  const value = claims[name];
+  if (Array.isArray(value)) return value.filter((g): g is string => typeof g === "string");
+  if (typeof value === "string") return value.split(",").map((g) => g.trim()).filter(Boolean);
+  return [];
+}
+
+function failLogin(res: Response, message: string) {
+  res.redirect(`/?ssoError=${encodeURIComponent(message)}`);
+}
+
+export function setupOidc(app: Express) {
+  const s = getOidcSettings();
+  if (!s) return;
+
+  app.get("/api/auth/oidc/login", async (req: Request, res: Response) => {
+    try {
+      const config = await getClientConfig(s);
+      const codeVerifier = client.randomPKCECodeVerifier();
+      const state = client.randomState();
+      const nonce = client.randomNonce();
+      const url = client.buildAuthorizationUrl(config, {
+        redirect_uri: s.redirectUri,
+        scope: s.scopes,
+        code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+        code_challenge_method: "S256",
+        state,
+        nonce,
+      });
+
+      req.session.oidc = { state, nonce, codeVerifier };
+      req.session.save((err) => {
+        if (err) return failLogin(res, "Could not start single sign-on");
+        res.redirect(url.href);
+      });
+    } catch (err) {
+      logger.error("OIDC login failed to start", { message: err instanceof Error ? err.message : String(err) });
+      failLogin(res, "The identity provider is unavailable");
+    }
+  });
+
+  app.get("/api/auth/oidc/callback", async (req: Request, res: Response) => {
+    const pending = req.session.oidc;
+    delete req.session.oidc;
+    if (!pending) return failLogin(res, "Your sign-in attempt expired, please try again");
+
+    try {
+      const config = await getClientConfig(s);
+      // Rebuild the callback URL from the registered redirect URI so proxies don't change its origin
+      const tokens = await client.authorizationCodeGrant(config, new URL(req.originalUrl, s.redirectUri), {
+        pkceCodeVerifier: pending.codeVerifier,
+        expectedState: pending.state,
+        expectedNonce: pending.nonce,
+      });
+
+      let claims: Record<string, unknown> = { ...tokens.claims() };
+      const sub = claimString(claims, "sub");
+      if (!sub) return failLogin(res, "The identity provider did not return a subject");
+      // Many providers only release profile and group claims through userinfo
+      if (claims[s.groupsClaim] === undefined || !claimString(claims, s.usernameClaim)) {
+        claims = { ...(await client.fetchUserInfo(config, tokens.access_token, sub)), ...claims };
+      }
+
+      const username = claimString(claims, s.usernameClaim) ?? claimString(claims, "email") ?? sub;
+      const user = await provisionExternalUser(
+        {
+          provider: "oidc",
+          externalId: sub,
+          username,
+          displayName: claimString(claims, s.displayNameClaim) ?? username,
+          groups: claimGroups(claims, s.groupsClaim),
+        },
+        s.mappings
+      );
+
+      req.login(user, (err) => {
+        if (err) return failLogin(res, "Sign-in failed");
+        stampSession(req);
+        res.redirect("/");
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn("OIDC callback failed", { message });
+      failLogin(res, message);
+    }
+  });
+}
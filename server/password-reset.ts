@@ -0,0 +1,63 @@
+import { createHash, randomBytes } from "node:crypto";
+import { storage } from "./storage";
+import { getMailer } from "./mailer";
+import { enqueueEmail } from "./email-queue";
+import type { PasswordResetToken, User } from "@shared/schema";
+
+export const RESET_LINK_MAX_HOURS = 7 * 24;
+
+export function hashResetToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/** Reset links are only offered for accounts whose password this app owns. */
+export function passwordManagedExternally(user: User): string | null {
+  if (user.authProvider === "oidc") return "This account signs in with single sign-on";
+  if (user.authProvider === "ldap") return "This account's password is managed in the LDAP directory";
+  return null;
+}
+
+/**
+ * Create a single-use reset link for a user, replacing any earlier unused
+ * one. The secret only appears in the returned URL.
+ */
+export async function issuePasswordReset(
+  user: User,
+  issuedBy: string,
+  expiresInHours: number,
+  baseUrl: string,
+): Promise<{ url: string; token: PasswordResetToken }> {
+  const secret = randomBytes(32).toString("base64url");
+  const token = await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashResetToken(secret),
+    createdBy: issuedBy,
+    expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+  });
+  return { url: `${baseUrl.replace(/\/$/, "")}/reset-password/${secret}`, token };
+}
+
+/** A token that exists, is unused and has not expired; used to render the reset form. */
+export async function findUsableResetToken(secret: string): Promise<PasswordResetToken | undefined> {
+  const token = await storage.getPasswordResetTokenByHash(hashResetToken(secret));
+  if (!token || token.usedAt || token.expiresAt.getTime() <= Date.now()) return undefined;
+  return token;
+}
+
+/** Queue the reset link for the background mail worker; the link is not kept after delivery. */
+export async function sendPasswordResetEmail(to: string, user: User, url: string, expiresAt: Date): Promise<void> {
+  if (!getMailer()) throw new Error("Email delivery is not configured");
+  await enqueueEmail({
+    to,
+    subject: "Reset your ADR Manager password",
+    text: [
+      `Hello ${user.displayName},`,
+      "",
+      `An administrator created a password reset link for your account (${user.username}):`,
+      url,
+      "",
+      `The link works once and expires on ${expiresAt.toUTCString()}.`,
+      "If you did not ask for this, let your administrator know.",
+    ].join("\n"),
+  }, user.id, true);
+}
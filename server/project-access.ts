@@ -0,0 +1,104 @@
+import { storage, type ProjectMemberWithUser } from "./storage";
+import {
+  builtInProjectRoles,
+  projectPermissionEnum,
+  type ProjectAccess,
+  type ProjectPermission,
+  type ProjectRole,
+  type ProjectRoleDefinition,
+  type User,
+} from "@shared/schema";
+
+function isProjectPermission(value: string): value is ProjectPermission {
+  return (projectPermissionEnum as readonly string[]).includes(value);
+}
+
+export function isBuiltInProjectRole(key: string): boolean {
+  return builtInProjectRoles.some((r) => r.key === key);
+}
+
+export function toRoleDefinition(role: ProjectRole): ProjectRoleDefinition {
+  return {
+    key: role.key,
+    name: role.name,
+    description: role.description,
+    // Permissions dropped from the catalogue are ignored rather than failing the whole role
+    permissions: role.permissions.filter(isProjectPermission),
+    statusTargets: role.statusTargets,
+    builtIn: false,
+  };
+}
+
+/** Built-in roles first, then the project's custom roles by name. */
+export async function getProjectRoleDefinitions(projectId: number): Promise<ProjectRoleDefinition[]> {
+  const custom = await storage.getProjectRoles(projectId);
+  return [...builtInProjectRoles, ...custom.map(toRoleDefinition)];
+}
+
+export async function findProjectRole(projectId: number, key: string): Promise<ProjectRoleDefinition | undefined> {
+  const builtIn = builtInProjectRoles.find((r) => r.key === key);
+  if (builtIn) return builtIn;
+  const custom = await storage.getProjectRole(projectId, key);
+  return custom && toRoleDefinition(custom);
+}
+
+// Admin always wins; otherwise the broader role, built-in before custom on a tie
+function rank(role: ProjectRoleDefinition): number {
+  if (role.key === "admin") return Number.MAX_SAFE_INTEGER;
+  return role.permissions.length * 2 + (role.builtIn ? 1 : 0);
+}
+
+function highest(definitions: ProjectRoleDefinition[]): ProjectRoleDefinition | undefined {
+  return definitions.reduce<ProjectRoleDefinition | undefined>(
+    (best, role) => (!best || rank(role) > rank(best) ? role : best),
+    undefined,
+  );
+}
+
+/**
+ * Combine direct and group grants. The reported role is the highest one;
+ * permissions are the union, so two narrow custom roles add up rather than
+ * one hiding the other. Status targets widen to "any" as soon as one grant
+ * allows any state.
+ */
+function combineGrants(grants: string[], definitions: ProjectRoleDefinition[]): ProjectAccess {
+  const top = highest(definitions);
+  const permissions = new Set<ProjectPermission>();
+  definitions.forEach((d) => d.permissions.forEach((p) => permissions.add(p)));
+  const movers = definitions.filter((d) => d.permissions.includes("adr.change_status"));
+  const statusTargets = movers.some((d) => d.statusTargets.length === 0)
+    ? []
+    : Array.from(new Set(movers.flatMap((d) => d.statusTargets)));
+  return {
+    role: top?.key ?? grants[0],
+    isAdmin: top?.key === "admin",
+    permissions: Array.from(permissions),
+    statusTargets,
+  };
+}
+
+/**
+ * Resolve what a user may do in a project, or null without access at all.
+ * Global admins act as project admins everywhere; everyone else needs a
+ * direct membership or a group grant. Roles that no longer exist grant read
+ * access only.
+ */
+export async function getProjectAccess(user: User, projectId: number): Promise<ProjectAccess | null> {
+  const grants = user.role === "admin" ? ["admin"] : await storage.getProjectRoleGrants(projectId, user.id);
+  if (grants.length === 0) return null;
+  const definitions = await Promise.all(grants.map((key) => findProjectRole(projectId, key)));
+  return combineGrants(grants, definitions.filter((d): d is ProjectRoleDefinition => !!d));
+}
+
+/** Project members with `role` set to the highest of their direct and group grants. */
+export async function getEffectiveProjectMembers(projectId: number): Promise<ProjectMemberWithUser[]> {
+  const [members, roles] = await Promise.all([
+    storage.getProjectMembers(projectId),
+    getProjectRoleDefinitions(projectId),
+  ]);
+  return members.map((member) => {
+    const grants = [...(member.directRole ? [member.directRole] : []), ...member.groups.map((g) => g.role)];
+    const top = highest(roles.filter((r) => grants.includes(r.key)));
+    return { ...member, role: top?.key ?? member.role };
+  });
+}
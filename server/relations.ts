@@ -0,0 +1,108 @@
+import { storage } from "./storage";
+import { applyStatusChange } from "./adr-status";
+import type { Adr, AdrRelation, AdrRelationType, User, WorkflowState } from "@shared/schema";
+import type { AdrReference } from "./storage";
+
+export type ResolvedRelation = AdrRelation & {
+  direction: "outgoing" | "incoming";
+  // The ADR on the other end, or null when it is redacted
+  related: AdrReference | null;
+  redacted: boolean;
+};
+
+/** Parses a `KEY-NNN` reference such as `PLAT-012`; returns null when malformed. */
+export function parseAdrReference(ref: string): { projectKey: string; adrNumber: number } | null {
+  const match = /^([A-Za-z0-9]+)-0*(\d+)$/.exec(ref.trim());
+  if (!match) return null;
+  return { projectKey: match[1].toUpperCase(), adrNumber: parseInt(match[2]) };
+}
+
+/**
+ * Attach the ADR on the other end of each relation. Relations pointing into a
+ * project the viewer cannot access keep their type and direction but expose
+ * nothing about the related ADR.
+ */
+export async function resolveRelations(
+  adrId: number,
+  relations: AdrRelation[],
+  canAccessProject: (projectId: number) => Promise<boolean>
+): Promise<ResolvedRelation[]> {
+  const otherId = (r: AdrRelation) => (r.sourceAdrId === adrId ? r.targetAdrId : r.sourceAdrId);
+  const references = await storage.getAdrReferences(Array.from(new Set(relations.map(otherId))));
+  const byId = new Map(references.map((a) => [a.id, a]));
+
+  const access = new Map<number, boolean>();
+  for (const projectId of Array.from(new Set(references.map((a) => a.projectId)))) {
+    access.set(projectId, await canAccessProject(projectId));
+  }
+
+  return relations.map((r) => {
+    const related = byId.get(otherId(r));
+    const visible = !!related && access.get(related.projectId) === true;
+    return {
+      ...r,
+      direction: r.sourceAdrId === adrId ? "outgoing" : "incoming",
+      related: visible ? related! : null,
+      redacted: !!related && !visible,
+    };
+  });
+}
+
+/** True when `source depends_on target` would close a loop of depends_on edges. */
+export async function createsDependencyCycle(sourceAdrId: number, targetAdrId: number): Promise<boolean> {
+  const edges = await storage.getRelationsByType("depends_on");
+  const dependsOn = new Map<number, number[]>();
+  for (const edge of edges) {
+    dependsOn.set(edge.sourceAdrId, [...(dependsOn.get(edge.sourceAdrId) ?? []), edge.targetAdrId]);
+  }
+
+  // Walk everything the target (transitively) depends on, looking for the source
+  const seen = new Set<number>();
+  const stack = [targetAdrId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === sourceAdrId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(dependsOn.get(current) ?? []));
+  }
+  return false;
+}
+
+/**
+ * The state a superseded ADR moves to: a "superseded" category state its
+ * workflow allows from where it is now. Undefined when there is none or it
+ * is superseded already.
+ */
+export async function supersededStateFor(older: Adr): Promise<WorkflowState | undefined> {
+  const workflow = await storage.getProjectWorkflow(older.projectId);
+  const current = workflow.find((s) => s.key === older.status);
+  if (!current || current.category === "superseded") return undefined;
+  return workflow.find((s) => s.category === "superseded" && current.transitions.includes(s.key));
+}
+
+/**
+ * When an accepted ADR supersedes another, move the superseded ADR to its
+ * workflow's superseded state through the normal status-change path.
+ * Acceptance and supersession are read from the workflow categories, so
+ * renamed states work too.
+ */
+export async function supersedeIfAccepted(
+  source: Adr,
+  target: Adr,
+  relationType: AdrRelationType,
+  actor: Pick<User, "id" | "displayName">
+): Promise<Adr | undefined> {
+  // superseded_by points the other way: the target is the newer decision
+  const [newer, older] = relationType === "supersedes" ? [source, target]
+    : relationType === "superseded_by" ? [target, source]
+    : [null, null];
+  if (!newer || !older) return undefined;
+
+  const newerWorkflow = await storage.getProjectWorkflow(newer.projectId);
+  if (newerWorkflow.find((s) => s.key === newer.status)?.category !== "accepted") return undefined;
+  const state = await supersededStateFor(older);
+  if (!state) return undefined;
+
+  return applyStatusChange(older, state.key, `Superseded by ADR ${newer.adrNumber}: ${newer.title}`, actor);
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AdrReviewerWithUser, AdrReviewWithUser } from "./storage";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getAdrReviewers: vi.fn(),
+    getAdrReviews: vi.fn(),
+  },
+}));
+vi.mock("./storage", () => ({ storage }));
+
+import { getReviewSummary } from "./reviews";
+
+function reviewer(userId: string): AdrReviewerWithUser {
+  return {
+    id: 0,
+    adrId: 1,
+    userId,
+    requestedBy: "owner",
+    createdAt: new Date(),
+    user: { id: userId, username: userId, displayName: userId },
+  };
+}
+
+let nextId = 1;
+// Listed newest first, as storage returns them
+function review(reviewerId: string, decision: string, dismissed = false): AdrReviewWithUser {
+  return {
+    id: nextId++,
+    adrId: 1,
+    reviewerId,
+    decision,
+    comment: "",
+    adrVersion: "1.0",
+    dismissedAt: dismissed ? new Date() : null,
+    createdAt: new Date(),
+    reviewer: { id: reviewerId, username: reviewerId, displayName: reviewerId },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getAdrReviewers.mockResolvedValue(["ann", "ben", "cat"].map(reviewer));
+  storage.getAdrReviews.mockResolvedValue([]);
+});
+
+describe("getReviewSummary", () => {
+  it("is met without reviews only when there is no quorum", async () => {
+    expect((await getReviewSummary(1, 0)).quorumMet).toBe(true);
+    expect(await getReviewSummary(1, 1)).toMatchObject({ approvals: 0, quorumMet: false });
+  });
+
+  it("is met once enough reviewers approve", async () => {
+    storage.getAdrReviews.mockResolvedValue([review("ann", "approve"), review("ben", "approve")]);
+    expect(await getReviewSummary(1, 2)).toMatchObject({ approvals: 2, blocking: 0, quorumMet: true });
+    expect((await getReviewSummary(1, 3)).quorumMet).toBe(false);
+  });
+
+  it("counts only each reviewer's latest decision", async () => {
+    storage.getAdrReviews.mockResolvedValue([review("ann", "approve"), review("ann", "approve"), review("ann", "reject")]);
+    expect(await getReviewSummary(1, 2)).toMatchObject({ approvals: 1, blocking: 0, quorumMet: false });
+
+    storage.getAdrReviews.mockResolvedValue([review("ann", "request_changes"), review("ann", "approve")]);
+    expect(await getReviewSummary(1, 1)).toMatchObject({ approvals: 0, blocking: 1 });
+  });
+
+  it("is blocked by any outstanding rejection or change request, whatever the approvals", async () => {
+    storage.getAdrReviews.mockResolvedValue([review("ann", "approve"), review("ben", "approve"), review("cat", "reject")]);
+    expect(await getReviewSummary(1, 2)).toMatchObject({ approvals: 2, blocking: 1, quorumMet: false });
+
+    storage.getAdrReviews.mockResolvedValue([review("ann", "approve"), review("cat", "request_changes")]);
+    expect((await getReviewSummary(1, 0)).quorumMet).toBe(false);
+  });
+
+  it("ignores reviews dismissed by a later edit", async () => {
+    storage.getAdrReviews.mockResolvedValue([review("ann", "approve", true), review("ben", "reject", true)]);
+    const summary = await getReviewSummary(1, 1);
+    expect(summary).toMatchObject({ approvals: 0, blocking: 0, quorumMet: false });
+    // Still listed for the history
+    expect(summary.reviews).toHaveLength(2);
+  });
+
+  it("ignores reviews from people who are no longer reviewers", async () => {
+    storage.getAdrReviews.mockResolvedValue([review("dan", "approve"), review("eve", "reject")]);
+    expect(await getReviewSummary(1, 1)).toMatchObject({ approvals: 0, blocking: 0, quorumMet: false });
+  });
+
+  it("reports each reviewer's decision", async () => {
+    storage.getAdrReviews.mockResolvedValue([review("ben", "approve")]);
+    const { reviewers } = await getReviewSummary(1, 1);
+    expect(reviewers.map((r) => [r.userId, r.decision])).toEqual([["ann", null], ["ben", "approve"], ["cat", null]]);
+  });
+});
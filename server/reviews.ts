@@ -0,0 +1,47 @@
+import { storage, type AdrReviewerWithUser, type AdrReviewWithUser } from "./storage";
+import type { ReviewDecision } from "@shared/schema";
+
+export interface ReviewSummary {
+  reviewers: (AdrReviewerWithUser & { decision: ReviewDecision | null })[];
+  reviews: AdrReviewWithUser[];
+  quorum: number;
+  approvals: number;
+  blocking: number;
+  quorumMet: boolean;
+}
+
+/**
+ * Evaluate the review state of an ADR against the project's quorum.
+ * Only each reviewer's latest decision on the current content counts
+ * (reviews dismissed by a later edit are kept for history only), and any
+ * outstanding reject or request-changes blocks acceptance regardless of approvals.
+ */
+export async function getReviewSummary(adrId: number, quorum: number): Promise<ReviewSummary> {
+  const [reviewers, reviews] = await Promise.all([
+    storage.getAdrReviewers(adrId),
+    storage.getAdrReviews(adrId),
+  ]);
+
+  // Reviews are returned newest first, so the first hit per reviewer is the latest
+  const latest = new Map<string, ReviewDecision>();
+  for (const review of reviews) {
+    if (!review.dismissedAt && !latest.has(review.reviewerId)) {
+      latest.set(review.reviewerId, review.decision as ReviewDecision);
+    }
+  }
+
+  const withDecisions = reviewers.map((r) => ({ ...r, decision: latest.get(r.userId) ?? null }));
+  const approvals = withDecisions.filter((r) => r.decision === "approve").length;
+  const blocking = withDecisions.filter(
+    (r) => r.decision === "reject" || r.decision === "request_changes"
+  ).length;
+
+  return {
+    reviewers: withDecisions,
+    reviews,
+    quorum,
+    approvals,
+    blocking,
+    quorumMet: blocking === 0 && approvals >= quorum,
+  };
+}
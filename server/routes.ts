@@ -1,49 +1,122 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "node:crypto";
 import { storage } from "./storage";
 import { db } from "./db";
 import {
-  statusTransitionMap,
-  adrStatusEnum,
   userRoleEnum,
-  projectMemberRoleEnum,
+  projectPermissionEnum,
+  workflowColorOptions,
+  workflowCategoryEnum,
+  reviewDecisionEnum,
+  adrRelationTypeEnum,
+  adrRelationInverses,
+  apiTokenScopeEnum,
+  emailDeliveryEnum,
+  webhookEventEnum,
+  type Webhook,
+  notificationEventEnum,
+  extractMentions,
+  type NotificationEvent,
+  type NotificationPreference,
+  hasProjectPermission,
+  canMoveToStatus,
+  type ProjectPermission,
+  type Adr,
+  type ApiToken,
+  type User,
 } from "@shared/schema";
 import { z } from "zod";
-import { requireAuth, requireRole, hashPassword } from "./auth";
-import { logAudit } from "./audit";
+import { requireAuth, requireRole, hashPassword, comparePasswords, authenticateRequest } from "./auth";
+import { generateApiToken } from "./api-tokens";
+import {
+  toSafeUser,
+  isTwoFactorEnabled,
+  canEnrolTwoFactor,
+  meetsProjectTwoFactorPolicy,
+  beginTotpEnrolment,
+  verifyTotpCode,
+  verifySecondFactor,
+  generateRecoveryCodes,
+} from "./two-factor";
+import {
+  RESET_LINK_MAX_HOURS,
+  issuePasswordReset,
+  findUsableResetToken,
+  passwordManagedExternally,
+  sendPasswordResetEmail,
+  hashResetToken,
+} from "./password-reset";
+import { getMailer } from "./mailer";
+import { listUserSessions, revokeUserSession, sessionPublicId } from "./sessions";
+import { getLoginThrottleSettings, normaliseUsername } from "./login-throttle";
+import { getLdapSettings, getLastLdapSync, syncLdapUsers, testLdapConfig } from "./ldap";
+import { logAudit, changedFields } from "./audit";
 import { createNotification, notifyProjectMembers } from "./notifications";
+import { clearPendingDigest } from "./email-queue";
+import { adrWebhookData, checkWebhookTarget, emitWebhookEvent, generateWebhookSecret, redeliverWebhook } from "./webhooks";
+import { getReviewSummary } from "./reviews";
+import {
+  getProjectAccess,
+  getProjectRoleDefinitions,
+  getEffectiveProjectMembers,
+  findProjectRole,
+  isBuiltInProjectRole,
+} from "./project-access";
+import { snapshotProjectAccess, notifyGroupAccessGained } from "./user-groups";
+import { openEventStream, publishAdrChange } from "./live-events";
+import { applyStatusChange } from "./adr-status";
+import { createsDependencyCycle, supersedeIfAccepted, supersededStateFor, parseAdrReference, resolveRelations } from "./relations";
+import { exportFormatEnum, exportAdrs, buildExportZip } from "./markdown-export";
+import { readImportUploads, planImport, commitImport } from "./markdown-import";
+import { searchAdrs, searchSortOptions } from "./search";
 import multer from "multer";
 import { v4 as uuidv4 } from "uuid";
 import { fileStorage } from "./file-storage";
 
 // ─── Project-level access middleware ─────────────────────────────────────────
 
-const roleHierarchy: Record<string, number> = { admin: 3, editor: 2, viewer: 1 };
+// Two-factor policy applies to these as well as to the admin-only project settings
+const twoFactorGuardedPermissions: ProjectPermission[] = ["members.manage", "adr.archive"];
 
-function requireProjectAccess(minRole?: "admin" | "editor" | "viewer") {
+/**
+ * Require project membership and, when given, a permission of the member's
+ * role. "admin" is reserved for the built-in admin role: project settings,
+ * the workflow and custom roles.
+ */
+function requireProjectAccess(required?: ProjectPermission | "admin") {
   return async (req: Request, res: Response, next: NextFunction) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Authentication required" });
-    }
-    const projectId = parseInt(req.params.projectId);
+    if (!(await authenticateRequest(req, res))) return;
+    const projectId = parseInt(String(req.params.projectId));
     if (isNaN(projectId)) {
       return res.status(400).json({ message: "Invalid project ID" });
     }
-    const user = req.user!;
-    // Global admins bypass project-level membership checks
-    if (user.role === "admin") return next();
-
-    const memberRole = await storage.getProjectMemberRole(projectId, user.id);
-    if (!memberRole) {
+    const access = await getProjectAccess(req.user!, projectId);
+    if (!access) {
       return res.status(403).json({ message: "You don't have access to this project" });
     }
-    if (minRole && (roleHierarchy[memberRole] || 0) < (roleHierarchy[minRole] || 0)) {
+    const allowed = required === "admin" ? access.isAdmin : !required || hasProjectPermission(access, required);
+    if (!allowed) {
       return res.status(403).json({ message: "Insufficient project permissions" });
     }
+    if (required === "admin" || (required && twoFactorGuardedPermissions.includes(required))) {
+      const project = await storage.getProject(projectId);
+      if (project && !meetsProjectTwoFactorPolicy(req.user!, project)) {
+        return res.status(403).json({
+          message: "This project requires two-factor authentication for admins. Enable it on your profile first.",
+          code: "two_factor_required",
+        });
+      }
+    }
     next();
   };
 }
 
+async function unknownStatusTargets(projectId: number, targets: string[]): Promise<string[]> {
+  const workflow = await storage.getProjectWorkflow(projectId);
+  return targets.filter((t) => !workflow.some((s) => s.key === t));
+}
+
 // ─── Validation schemas ───────────────────────────────────────────────────────
 
 const createProjectBody = z.object({
@@ -59,17 +132,52 @@ const createProjectBody = z.object({
 const updateProjectBody = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().nullable().optional(),
+  reviewQuorum: z.number().int().min(0).max(20).optional(),
+  requireAdminTwoFactor: z.boolean().optional(),
 });
 
+// Built-in or custom role keys; existence is checked against the project's roles
 const addMemberBody = z.object({
   userId: z.string().min(1, "User ID is required"),
-  role: z.enum(projectMemberRoleEnum),
+  role: z.string().min(1, "Role is required").max(50),
 });
 
 const updateMemberRoleBody = z.object({
-  role: z.enum(projectMemberRoleEnum),
+  role: z.string().min(1, "Role is required").max(50),
+});
+
+const userGroupBody = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().max(500).nullable().optional(),
+});
+
+const groupMembersBody = z.object({
+  userIds: z.array(z.string().min(1)).min(1, "Select at least one user"),
+});
+
+const projectGroupBody = z.object({
+  groupId: z.number().int().positive(),
+  role: z.string().min(1, "Role is required").max(50),
+});
+
+const projectRoleFields = {
+  name: z.string().min(1, "Name is required").max(100),
+  description: z.string().max(500).nullable().optional(),
+  permissions: z.array(z.enum(projectPermissionEnum)),
+  statusTargets: z.array(z.string()).default([]),
+};
+
+const createProjectRoleBody = z.object({
+  key: z
+    .string()
+    .min(1, "Key is required")
+    .max(50)
+    .regex(/^[a-z][a-z0-9_]*$/, "Key must be lowercase letters, numbers and underscores"),
+  ...projectRoleFields,
 });
 
+const updateProjectRoleBody = z.object(projectRoleFields).partial();
+
 const createAdrBody = z.object({
   title: z.string().min(1, "Title is required").max(200),
   context: z.string().min(1, "Context is required"),
@@ -93,10 +201,84 @@ const updateAdrBody = z.object({
 });
 
 const statusChangeBody = z.object({
-  status: z.enum(adrStatusEnum),
+  status: z.string().min(1, "Status is required"),
   reason: z.string().min(1, "Reason is required"),
 });
 
+const workflowStateBody = z.object({
+  key: z
+    .string()
+    .min(1, "Key is required")
+    .max(50)
+    .regex(/^[a-z][a-z0-9_]*$/, "Key must be lowercase letters, numbers and underscores"),
+  label: z.string().min(1, "Label is required").max(100),
+  color: z.enum(workflowColorOptions),
+  isTerminal: z.boolean(),
+  category: z.enum(workflowCategoryEnum),
+  transitions: z.array(z.string()),
+});
+
+const workflowBody = z
+  .object({
+    states: z.array(workflowStateBody).min(1, "At least one state is required"),
+  })
+  .superRefine(({ states }, ctx) => {
+    const keys = new Set<string>();
+    states.forEach((state, i) => {
+      if (keys.has(state.key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["states", i, "key"], message: `Duplicate state "${state.key}"` });
+      }
+      keys.add(state.key);
+    });
+    states.forEach((state, i) => {
+      for (const target of state.transitions) {
+        if (!keys.has(target)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["states", i, "transitions"], message: `Unknown target state "${target}"` });
+        } else if (target === state.key) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["states", i, "transitions"], message: `State "${state.key}" cannot transition to itself` });
+        }
+      }
+      if (state.isTerminal && state.transitions.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["states", i, "transitions"], message: `Terminal state "${state.key}" cannot have outgoing transitions` });
+      }
+    });
+  });
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .url("Enter a valid URL")
+  .max(2000)
+  .refine((url) => /^https?:\/\//i.test(url), "Webhook URLs must use http or https");
+
+const webhookFields = {
+  url: webhookUrl,
+  events: z.array(z.enum(webhookEventEnum)).min(1, "Select at least one event"),
+  active: z.boolean(),
+};
+
+const createWebhookBody = z.object({
+  ...webhookFields,
+  active: webhookFields.active.default(true),
+  // Generated when left out
+  secret: z.string().min(16, "Secrets must be at least 16 characters").max(200).optional(),
+});
+
+const updateWebhookBody = z.object({
+  ...webhookFields,
+  // Replaces the secret with a newly generated one, returned once
+  rotateSecret: z.boolean(),
+}).partial();
+
+const requestReviewersBody = z.object({
+  userIds: z.array(z.string().min(1)).min(1, "Select at least one reviewer"),
+});
+
+const reviewBody = z.object({
+  decision: z.enum(reviewDecisionEnum),
+  comment: z.string().min(1, "Comment is required"),
+});
+
 const archiveBody = z.object({
   reason: z.string().min(1, "Reason is required"),
 });
@@ -107,9 +289,98 @@ const commentBody = z.object({
   parentId: z.number().nullable().optional(),
 });
 
+const adrWatchBody = z.object({
+  watching: z.boolean(),
+});
+
+// Target is either an ADR id in the same project or a `KEY-NNN` reference into any project
 const relationBody = z.object({
-  targetAdrId: z.number(),
-  relationType: z.string().min(1),
+  targetAdrId: z.number().int().optional(),
+  targetRef: z.string().regex(/^[A-Za-z0-9]+-\d+$/, "Reference must look like KEY-NNN").optional(),
+  relationType: z.enum(adrRelationTypeEnum),
+}).refine((b) => b.targetAdrId !== undefined || b.targetRef !== undefined, {
+  message: "targetAdrId or targetRef is required",
+});
+
+const exportQuery = z.object({
+  format: z.enum(exportFormatEnum).default("madr"),
+});
+
+// Multi-value filters accept repeated parameters (?tag=a&tag=b) or comma-separated values
+const listParam = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .transform((v) => (v === undefined ? [] : (Array.isArray(v) ? v : [v]).flatMap((s) => s.split(",")).filter(Boolean)));
+
+const searchQuery = z.object({
+  q: z.string().optional(),
+  status: listParam,
+  team: listParam,
+  tag: listParam,
+  tagMode: z.enum(["any", "all"]).default("any"),
+  author: listParam,
+  projectId: listParam,
+  from: z.string().optional(),
+  to: z.string().optional(),
+  sort: z.enum(searchSortOptions).catch("relevance"),
+  limit: z.coerce.number().int().min(1).max(100).catch(20),
+  offset: z.coerce.number().int().min(0).catch(0),
+});
+
+const importQuery = z.object({
+  mode: z.enum(["preview", "commit"]).default("preview"),
+});
+
+const ldapTestBody = z.object({
+  username: z.string().optional(),
+  password: z.string().optional(),
+});
+
+const twoFactorCodeBody = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+const changePasswordBody = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+const notificationPreferencesBody = z.object({
+  // Events left out keep their current setting
+  preferences: z.array(z.object({
+    event: z.enum(notificationEventEnum),
+    inApp: z.boolean(),
+    email: z.boolean(),
+  })).max(notificationEventEnum.length),
+});
+
+const emailSettingsBody = z.object({
+  // null removes the address and with it every email
+  email: z.string().trim().email().max(254).nullable().optional(),
+  emailDelivery: z.enum(emailDeliveryEnum).optional(),
+});
+
+const passwordResetLinkBody = z.object({
+  expiresInHours: z.number().int().min(1).max(RESET_LINK_MAX_HOURS).default(24),
+  // Emails the link through the configured mailer instead of only returning it
+  email: z.string().trim().email().optional(),
+});
+
+const passwordResetBody = z.object({
+  token: z.string().min(1, "Token is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+const anonymiseUserBody = z.object({
+  // Typed by the admin as a guard against anonymising the wrong account
+  confirmUsername: z.string().min(1, "Confirmation is required"),
+});
+
+const createApiTokenBody = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(apiTokenScopeEnum),
+  // null creates a token that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
 });
 
 // ─── Route registration ───────────────────────────────────────────────────────
@@ -146,7 +417,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         entityType: "project",
         entityId: project.id,
         action: "created",
-        performedBy: req.user!.displayName,
+        performedBy: req.user!,
         metadata: { name: project.name, key: project.key },
       });
       res.status(201).json(project);
@@ -160,7 +431,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.get("/api/projects/:projectId", requireAuth, requireProjectAccess(), async (req, res) => {
     try {
-      const project = await storage.getProject(parseInt(req.params.projectId));
+      const project = await storage.getProject(parseInt(String(req.params.projectId)));
       if (!project) return res.status(404).json({ message: "Project not found" });
       res.json(project);
     } catch (err) {
@@ -174,14 +445,22 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const project = await storage.updateProject(parseInt(req.params.projectId), parsed.data);
+      // Keeps admins from locking themselves out of the setting they just changed
+      if (parsed.data.requireAdminTwoFactor && canEnrolTwoFactor(req.user!) && !isTwoFactorEnabled(req.user!)) {
+        return res.status(400).json({
+          message: "Enable two-factor authentication on your own account before requiring it for project admins",
+        });
+      }
+      const before = await storage.getProject(parseInt(String(req.params.projectId)));
+      if (!before) return res.status(404).json({ message: "Project not found" });
+      const project = await storage.updateProject(before.id, parsed.data);
       if (!project) return res.status(404).json({ message: "Project not found" });
       await logAudit({
         entityType: "project",
         entityId: project.id,
         action: "updated",
-        performedBy: req.user!.displayName,
-        changes: parsed.data,
+        performedBy: req.user!,
+        changes: changedFields(before, parsed.data),
       });
       res.json(project);
     } catch (err) {
@@ -191,14 +470,14 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.delete("/api/projects/:projectId", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
+      const projectId = parseInt(String(req.params.projectId));
       const deleted = await storage.deleteProject(projectId);
       if (!deleted) return res.status(404).json({ message: "Project not found" });
       await logAudit({
         entityType: "project",
         entityId: projectId,
         action: "deleted",
-        performedBy: req.user!.displayName,
+        performedBy: req.user!,
       });
       res.json({ message: "Project deleted" });
     } catch (err) {
@@ -210,32 +489,39 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.get("/api/projects/:projectId/members", requireAuth, requireProjectAccess(), async (req, res) => {
     try {
-      const members = await storage.getProjectMembers(parseInt(req.params.projectId));
+      const members = await getEffectiveProjectMembers(parseInt(String(req.params.projectId)));
       res.json(members);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/projects/:projectId/members", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+  app.post("/api/projects/:projectId/members", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
     try {
       const parsed = addMemberBody.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
       const { userId, role } = parsed.data;
+      const projectId = parseInt(String(req.params.projectId));
+      const definition = await findProjectRole(projectId, role);
+      if (!definition) return res.status(400).json({ message: `Unknown role "${role}"` });
+      if (role === "admin" && !(await getProjectAccess(req.user!, projectId))?.isAdmin) {
+        return res.status(403).json({ message: "Only project admins can grant the admin role" });
+      }
       const user = await storage.getUser(userId);
       if (!user) return res.status(404).json({ message: "User not found" });
+      if (!user.active) return res.status(400).json({ message: "Deactivated users cannot be added to projects" });
 
-      const existing = await storage.getProjectMemberRole(parseInt(req.params.projectId), userId);
+      const existing = await storage.getProjectMemberRole(projectId, userId);
       if (existing) return res.status(409).json({ message: "User is already a member of this project" });
 
-      const member = await storage.addProjectMember(parseInt(req.params.projectId), userId, role);
+      const member = await storage.addProjectMember(projectId, userId, role);
       await logAudit({
         entityType: "project_member",
         entityId: member.id,
         action: "added",
-        performedBy: req.user!.displayName,
+        performedBy: req.user!,
         metadata: { projectId: member.projectId, userId, role },
       });
 
@@ -243,8 +529,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         userId,
         type: "member_added",
         title: "Added to project",
-        body: `You have been added to the project as ${role}`,
+        body: `You have been added to the project as ${definition.name}`,
         href: `/projects/${member.projectId}`,
+        projectId: member.projectId,
       });
 
       res.status(201).json(member);
@@ -253,45 +540,75 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch("/api/projects/:projectId/members/:userId", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+  app.patch("/api/projects/:projectId/members/:userId", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
     try {
       const parsed = updateMemberRoleBody.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const projectId = parseInt(req.params.projectId);
-      const member = await storage.updateProjectMemberRole(
-        projectId,
-        req.params.userId,
-        parsed.data.role
-      );
+      const projectId = parseInt(String(req.params.projectId));
+      const userId = String(req.params.userId);
+      const { role } = parsed.data;
+      const definition = await findProjectRole(projectId, role);
+      if (!definition) return res.status(400).json({ message: `Unknown role "${role}"` });
+      const current = await storage.getProjectMemberRole(projectId, userId);
+      if (!current) return res.status(404).json({ message: "Member not found" });
+      if ((role === "admin" || current === "admin") && !(await getProjectAccess(req.user!, projectId))?.isAdmin) {
+        return res.status(403).json({ message: "Only project admins can grant or take away the admin role" });
+      }
+      const member = await storage.updateProjectMemberRole(projectId, userId, role);
       if (!member) return res.status(404).json({ message: "Member not found" });
       await logAudit({
         entityType: "project_member",
         entityId: member.id,
         action: "role_updated",
-        performedBy: req.user!.displayName,
-        changes: { role: { after: parsed.data.role } },
+        performedBy: req.user!,
+        changes: { role: { before: current, after: role } },
       });
+      if (current !== role && userId !== req.user!.id) {
+        await createNotification({
+          userId,
+          type: "role_changed",
+          title: "Project role changed",
+          body: `Your role in the project is now ${definition.name}`,
+          href: `/projects/${projectId}`,
+          projectId,
+        });
+      }
       res.json(member);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.delete("/api/projects/:projectId/members/:userId", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+  app.delete("/api/projects/:projectId/members/:userId", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const userId = req.params.userId;
+      const projectId = parseInt(String(req.params.projectId));
+      const userId = String(req.params.userId);
+      const current = await storage.getProjectMemberRole(projectId, userId);
+      if (current === "admin" && !(await getProjectAccess(req.user!, projectId))?.isAdmin) {
+        return res.status(403).json({ message: "Only project admins can remove admins" });
+      }
       const deleted = await storage.removeProjectMember(projectId, userId);
       if (!deleted) return res.status(404).json({ message: "Member not found" });
       await logAudit({
         entityType: "project_member",
         entityId: `${projectId}-${userId}`,
         action: "removed",
-        performedBy: req.user!.displayName,
+        performedBy: req.user!,
         metadata: { projectId, userId },
       });
+      if (userId !== req.user!.id) {
+        const project = await storage.getProject(projectId);
+        await createNotification({
+          userId,
+          type: "member_removed",
+          title: "Removed from project",
+          body: `You are no longer a direct member of ${project?.name ?? "a project"}`,
+          href: "/projects",
+          projectId,
+        });
+      }
       res.json({ message: "Member removed" });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
@@ -299,967 +616,2697 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 
   // Returns all users who are NOT yet members of the project (for Add Member dialog)
-  app.get("/api/projects/:projectId/members/candidates", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+  app.get("/api/projects/:projectId/members/candidates", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
+      const projectId = parseInt(String(req.params.projectId));
       const members = await storage.getProjectMembers(projectId);
-      const memberUserIds = new Set(members.map((m) => m.userId));
+      // Users with access only through a group can still be given a direct role
+      const memberUserIds = new Set(members.filter((m) => m.directRole).map((m) => m.userId));
       const allUsers = await storage.getUsers();
       const candidates = allUsers
-        .filter((u) => !memberUserIds.has(u.id))
-        .map(({ password: _pw, ...u }) => u);
+        .filter((u) => u.active && !memberUserIds.has(u.id))
+        .map(toSafeUser);
       res.json(candidates);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Project ADRs ────────────────────────────────────────────────────────────
+  // ── Project Groups ──────────────────────────────────────────────────────────
 
-  app.get("/api/projects/:projectId/adrs", requireAuth, requireProjectAccess(), async (req, res) => {
+  app.get("/api/projects/:projectId/groups", requireAuth, requireProjectAccess(), async (req, res) => {
     try {
-      const projectAdrs = await storage.getAdrs(parseInt(req.params.projectId));
-      res.json(projectAdrs);
+      res.json(await storage.getProjectGroupGrants(parseInt(String(req.params.projectId))));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.get("/api/projects/:projectId/adrs/:id", requireAuth, requireProjectAccess(), async (req, res) => {
+  // Groups not yet granted a role on the project (for the Add Group dialog)
+  app.get("/api/projects/:projectId/groups/candidates", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
     try {
-      const adr = await storage.getAdr(parseInt(req.params.id), parseInt(req.params.projectId));
-      if (!adr) return res.status(404).json({ message: "ADR not found" });
-      res.json(adr);
+      const granted = new Set(
+        (await storage.getProjectGroupGrants(parseInt(String(req.params.projectId)))).map((g) => g.groupId),
+      );
+      res.json((await storage.getUserGroups()).filter((g) => !granted.has(g.id)));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/projects/:projectId/adrs", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.post("/api/projects/:projectId/groups", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
     try {
-      const parsed = createAdrBody.safeParse(req.body);
+      const parsed = projectGroupBody.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const { title, context, decision, consequences, alternatives, tags, team, status } = parsed.data;
-      const author = req.user!.displayName;
-      const projectId = parseInt(req.params.projectId);
-
-      const adr = await storage.createAdr({
-        projectId,
-        title,
-        status: status || "draft",
-        context,
-        decision,
-        consequences,
-        alternatives: alternatives ?? null,
-        tags: tags || [],
-        team: team ?? null,
-        author,
-        version: "1.0",
-        archived: false,
-        archiveReason: null,
-      });
-
-      await storage.createVersion({
-        adrId: adr.id,
-        version: "1.0",
-        title: adr.title,
-        status: adr.status,
-        context: adr.context,
-        decision: adr.decision,
-        consequences: adr.consequences,
-        alternatives: adr.alternatives,
-        tags: adr.tags,
-        team: adr.team,
-        author: adr.author,
-        changeReason: "Initial creation",
-        changedBy: author,
-      });
+      const projectId = parseInt(String(req.params.projectId));
+      const { groupId, role } = parsed.data;
+      if (!(await findProjectRole(projectId, role))) {
+        return res.status(400).json({ message: `Unknown role "${role}"` });
+      }
+      if (role === "admin" && !(await getProjectAccess(req.user!, projectId))?.isAdmin) {
+        return res.status(403).json({ message: "Only project admins can grant the admin role" });
+      }
+      const group = await storage.getUserGroup(groupId);
+      if (!group) return res.status(404).json({ message: "Group not found" });
+      if (await storage.getProjectGroupGrant(projectId, groupId)) {
+        return res.status(409).json({ message: "Group already has access to this project" });
+      }
 
+      const members = (await storage.getUserGroupMembers(groupId)).filter((m) => m.active);
+      const before = await snapshotProjectAccess(members.map((m) => m.id));
+      const grant = await storage.addProjectGroupGrant(projectId, groupId, role);
       await logAudit({
-        entityType: "adr",
-        entityId: adr.id,
-        action: "created",
-        performedBy: author,
-        metadata: { projectId, title: adr.title, adrNumber: adr.adrNumber },
+        entityType: "project_group",
+        entityId: grant.id,
+        action: "added",
+        performedBy: req.user!,
+        metadata: { projectId, groupId, groupName: group.name, role },
       });
+      await notifyGroupAccessGained(group, before, projectId);
 
-      res.status(201).json(adr);
+      res.status(201).json(grant);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.patch("/api/projects/:projectId/adrs/:id", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.patch("/api/projects/:projectId/groups/:groupId", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const id = parseInt(req.params.id);
-      const existing = await storage.getAdr(id, projectId);
-      if (!existing) return res.status(404).json({ message: "ADR not found" });
-
-      const parsed = updateAdrBody.safeParse(req.body);
+      const parsed = updateMemberRoleBody.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const { title, context, decision, consequences, alternatives, tags, team, changeReason } = parsed.data;
-      const changedBy = req.user!.displayName;
-
-      const currentParts = existing.version.split(".");
-      const newMinor = parseInt(currentParts[1] || "0") + 1;
-      const newVersion = `${currentParts[0]}.${newMinor}`;
-
-      const updated = await storage.updateAdr(id, {
-        title: title ?? existing.title,
-        context: context ?? existing.context,
-        decision: decision ?? existing.decision,
-        consequences: consequences ?? existing.consequences,
-        alternatives: alternatives !== undefined ? alternatives : existing.alternatives,
-        tags: tags ?? existing.tags,
-        team: team !== undefined ? team : existing.team,
-        version: newVersion,
+      const projectId = parseInt(String(req.params.projectId));
+      const groupId = parseInt(String(req.params.groupId));
+      const { role } = parsed.data;
+      if (!(await findProjectRole(projectId, role))) {
+        return res.status(400).json({ message: `Unknown role "${role}"` });
+      }
+      const current = await storage.getProjectGroupGrant(projectId, groupId);
+      if (!current) return res.status(404).json({ message: "Group grant not found" });
+      if ((role === "admin" || current.role === "admin") && !(await getProjectAccess(req.user!, projectId))?.isAdmin) {
+        return res.status(403).json({ message: "Only project admins can grant or take away the admin role" });
+      }
+      const grant = await storage.updateProjectGroupGrant(projectId, groupId, role);
+      if (!grant) return res.status(404).json({ message: "Group grant not found" });
+      await logAudit({
+        entityType: "project_group",
+        entityId: grant.id,
+        action: "role_updated",
+        performedBy: req.user!,
+        changes: { role: { before: current.role, after: role } },
+        metadata: { projectId, groupId },
       });
+      res.json(grant);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
 
-      if (updated) {
-        await storage.createVersion({
-          adrId: id,
-          version: newVersion,
-          title: updated.title,
-          status: updated.status,
-          context: updated.context,
-          decision: updated.decision,
-          consequences: updated.consequences,
-          alternatives: updated.alternatives,
-          tags: updated.tags,
-          team: updated.team,
-          author: updated.author,
-          changeReason: changeReason || "Content update",
-          changedBy,
-        });
+  app.delete("/api/projects/:projectId/groups/:groupId", requireAuth, requireProjectAccess("members.manage"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const groupId = parseInt(String(req.params.groupId));
+      const current = await storage.getProjectGroupGrant(projectId, groupId);
+      if (!current) return res.status(404).json({ message: "Group grant not found" });
+      if (current.role === "admin" && !(await getProjectAccess(req.user!, projectId))?.isAdmin) {
+        return res.status(403).json({ message: "Only project admins can remove admin grants" });
       }
-
+      await storage.removeProjectGroupGrant(projectId, groupId);
       await logAudit({
-        entityType: "adr",
-        entityId: id,
-        action: "updated",
-        performedBy: changedBy,
-        changes: parsed.data,
+        entityType: "project_group",
+        entityId: current.id,
+        action: "removed",
+        performedBy: req.user!,
+        metadata: { projectId, groupId, role: current.role },
       });
+      res.json({ message: "Group removed" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
 
-      res.json(updated);
+  // ── Project Roles ───────────────────────────────────────────────────────────
+
+  // What the signed-in user may do here; the client shows and hides actions by it
+  app.get("/api/projects/:projectId/access", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      res.json(await getProjectAccess(req.user!, parseInt(String(req.params.projectId))));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.patch("/api/projects/:projectId/adrs/:id/status", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.get("/api/projects/:projectId/roles", requireAuth, requireProjectAccess(), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const id = parseInt(req.params.id);
-      const existing = await storage.getAdr(id, projectId);
-      if (!existing) return res.status(404).json({ message: "ADR not found" });
+      res.json(await getProjectRoleDefinitions(parseInt(String(req.params.projectId))));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
 
-      const parsed = statusChangeBody.safeParse(req.body);
+  app.post("/api/projects/:projectId/roles", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+    try {
+      const parsed = createProjectRoleBody.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const { status, reason } = parsed.data;
-      const changedBy = req.user!.displayName;
-
-      const allowed = statusTransitionMap[existing.status] || [];
-      if (!allowed.includes(status)) {
-        return res.status(400).json({ message: `Cannot transition from ${existing.status} to ${status}` });
+      const projectId = parseInt(String(req.params.projectId));
+      const { key, statusTargets } = parsed.data;
+      if (isBuiltInProjectRole(key) || await storage.getProjectRole(projectId, key)) {
+        return res.status(409).json({ message: `A role with key "${key}" already exists` });
       }
-
-      const currentMajor = parseInt(existing.version.split(".")[0] || "1");
-      const newVersion = `${currentMajor + 1}.0`;
-
-      const updated = await storage.updateAdr(id, { status, version: newVersion });
-      if (updated) {
-        await storage.createVersion({
-          adrId: id,
-          version: newVersion,
-          title: updated.title,
-          status: updated.status,
-          context: updated.context,
-          decision: updated.decision,
-          consequences: updated.consequences,
-          alternatives: updated.alternatives,
-          tags: updated.tags,
-          team: updated.team,
-          author: updated.author,
-          changeReason: `Status changed to ${status}: ${reason}`,
-          changedBy,
-        });
+      const unknown = await unknownStatusTargets(projectId, statusTargets);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown workflow states: ${unknown.join(", ")}` });
       }
-
+      const role = await storage.createProjectRole({ ...parsed.data, description: parsed.data.description ?? null, projectId });
       await logAudit({
-        entityType: "adr",
-        entityId: id,
-        action: "status_changed",
-        performedBy: changedBy,
-        changes: { status: { before: existing.status, after: status } },
-        metadata: { reason },
+        entityType: "project_role",
+        entityId: role.id,
+        action: "created",
+        performedBy: req.user!,
+        metadata: { projectId, key, permissions: role.permissions, statusTargets: role.statusTargets },
       });
-
-      await notifyProjectMembers(
-        projectId,
-        req.user!.id,
-        "status_changed",
-        `ADR ${existing.adrNumber} status changed`,
-        `${changedBy} changed status from ${existing.status} to ${status}`,
-        `/projects/${projectId}/adrs/${id}`
-      );
-
-      res.json(updated);
+      res.status(201).json(role);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.patch("/api/projects/:projectId/adrs/:id/archive", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+  app.patch("/api/projects/:projectId/roles/:key", requireAuth, requireProjectAccess("admin"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const id = parseInt(req.params.id);
-      const existing = await storage.getAdr(id, projectId);
-      if (!existing) return res.status(404).json({ message: "ADR not found" });
-
-      const parsed = archiveBody.safeParse(req.body);
+      const parsed = updateProjectRoleBody.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const adr = await storage.archiveAdr(id, parsed.data.reason);
-      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      const projectId = parseInt(String(req.params.projectId));
+      if (isBuiltInProjectRole(String(req.params.key))) {
+        return res.status(400).json({ message: "Built-in roles cannot be changed" });
+      }
+      const before = await storage.getProjectRole(projectId, String(req.params.key));
+      if (!before) return res.status(404).json({ message: "Role not found" });
+      const unknown = await unknownStatusTargets(projectId, parsed.data.statusTargets ?? []);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown workflow states: ${unknown.join(", ")}` });
+      }
+      const role = await storage.updateProjectRole(projectId, String(req.params.key), parsed.data);
+      if (!role) return res.status(404).json({ message: "Role not found" });
       await logAudit({
-        entityType: "adr",
-        entityId: id,
-        action: "archived",
-        performedBy: req.user!.displayName,
-        metadata: { reason: parsed.data.reason },
+        entityType: "project_role",
+        entityId: role.id,
+        action: "updated",
+        performedBy: req.user!,
+        changes: {
+          name: { before: before.name, after: role.name },
+          permissions: { before: before.permissions, after: role.permissions },
+          statusTargets: { before: before.statusTargets, after: role.statusTargets },
+        },
+        metadata: { projectId, key: role.key },
       });
-      res.json(adr);
+      res.json(role);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.get("/api/projects/:projectId/adrs/:id/versions", requireAuth, requireProjectAccess(), async (req, res) => {
+  app.delete("/api/projects/:projectId/roles/:key", requireAuth, requireProjectAccess("admin"), async (req, res) => {
     try {
-      const versions = await storage.getVersions(parseInt(req.params.id));
-      res.json(versions);
+      const projectId = parseInt(String(req.params.projectId));
+      const key = String(req.params.key);
+      if (isBuiltInProjectRole(key)) {
+        return res.status(400).json({ message: "Built-in roles cannot be deleted" });
+      }
+      const role = await storage.getProjectRole(projectId, key);
+      if (!role) return res.status(404).json({ message: "Role not found" });
+      const holders = await storage.countProjectMembersWithRole(projectId, key);
+      if (holders > 0) {
+        return res.status(409).json({
+          message: `${holders} member${holders === 1 ? " still has" : "s still have"} this role; give them another role first`,
+        });
+      }
+      await storage.deleteProjectRole(projectId, key);
+      await logAudit({
+        entityType: "project_role",
+        entityId: role.id,
+        action: "deleted",
+        performedBy: req.user!,
+        metadata: { projectId, key, name: role.name },
+      });
+      res.json({ message: "Role deleted" });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.get("/api/projects/:projectId/adrs/:id/versions/:versionId", requireAuth, requireProjectAccess(), async (req, res) => {
+  // ── Project Workflow ────────────────────────────────────────────────────────
+
+  app.get("/api/projects/:projectId/workflow", requireAuth, requireProjectAccess(), async (req, res) => {
     try {
-      const { adrVersions } = await import("@shared/schema");
-      const { eq } = await import("drizzle-orm");
-      const versionId = parseInt(req.params.versionId);
-      const [version] = await db.select().from(adrVersions).where(eq(adrVersions.id, versionId));
-      if (!version) return res.status(404).json({ message: "Version not found" });
-      res.json(version);
+      const states = await storage.getProjectWorkflow(parseInt(String(req.params.projectId)));
+      res.json(states);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.get("/api/projects/:projectId/adrs/:id/comments", requireAuth, requireProjectAccess(), async (req, res) => {
+  app.put("/api/projects/:projectId/workflow", requireAuth, requireProjectAccess("admin"), async (req, res) => {
     try {
-      const comments = await storage.getComments(parseInt(req.params.id));
-      res.json(comments);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+      const parsed = workflowBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const projectId = parseInt(String(req.params.projectId));
+      const { states } = parsed.data;
+
+      // ADRs must never be left in a state the workflow no longer knows about
+      const keys = new Set(states.map((s) => s.key));
+      const orphaned = (await storage.getProjectAdrStatuses(projectId)).filter((s) => !keys.has(s));
+      if (orphaned.length > 0) {
+        return res.status(409).json({
+          message: `Cannot remove states still used by ADRs: ${orphaned.join(", ")}`,
+        });
+      }
+
+      const before = await storage.getProjectWorkflow(projectId);
+      const updated = await storage.replaceProjectWorkflow(projectId, states);
+      await logAudit({
+        entityType: "project",
+        entityId: projectId,
+        action: "workflow_updated",
+        performedBy: req.user!,
+        changes: { workflow: { before, after: updated } },
+      });
+      res.json(updated);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Webhooks ────────────────────────────────────────────────────────────────
+
+  // Secrets are only shown when created or rotated
+  const toSafeWebhook = (webhook: Webhook) => {
+    const { secret, ...rest } = webhook;
+    return { ...rest, secretHint: secret.slice(-4) };
+  };
+
+  app.get("/api/projects/:projectId/webhooks", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+    try {
+      const list = await storage.getWebhooks(parseInt(String(req.params.projectId)));
+      res.json(list.map(toSafeWebhook));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/webhooks", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+    try {
+      const parsed = createWebhookBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const projectId = parseInt(String(req.params.projectId));
+      const { url, events, active, secret } = parsed.data;
+      const forbidden = await checkWebhookTarget(url);
+      if (forbidden) return res.status(400).json({ message: forbidden });
+      const webhook = await storage.createWebhook({
+        projectId,
+        url,
+        events: Array.from(new Set(events)),
+        active,
+        secret: secret ?? generateWebhookSecret(),
+        createdById: req.user!.id,
+      });
+      await logAudit({
+        entityType: "webhook",
+        entityId: webhook.id,
+        action: "created",
+        performedBy: req.user!,
+        metadata: { projectId, url, events: webhook.events },
+      });
+      res.status(201).json({ ...toSafeWebhook(webhook), secret: webhook.secret });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/webhooks/:webhookId", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+    try {
+      const parsed = updateWebhookBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const projectId = parseInt(String(req.params.projectId));
+      const existing = await storage.getWebhook(parseInt(String(req.params.webhookId)), projectId);
+      if (!existing) return res.status(404).json({ message: "Webhook not found" });
+
+      const { rotateSecret, events, ...fields } = parsed.data;
+      if (fields.url) {
+        const forbidden = await checkWebhookTarget(fields.url);
+        if (forbidden) return res.status(400).json({ message: forbidden });
+      }
+      const webhook = await storage.updateWebhook(existing.id, {
+        ...fields,
+        ...(events ? { events: Array.from(new Set(events)) } : {}),
+        ...(rotateSecret ? { secret: generateWebhookSecret() } : {}),
+      });
+      if (!webhook) return res.status(404).json({ message: "Webhook not found" });
+
+      const changes: Record<string, { before: unknown; after: unknown }> = {};
+      if (existing.url !== webhook.url) changes.url = { before: existing.url, after: webhook.url };
+      if (existing.events.join() !== webhook.events.join()) changes.events = { before: existing.events, after: webhook.events };
+      if (existing.active !== webhook.active) changes.active = { before: existing.active, after: webhook.active };
+      if (rotateSecret) changes.secret = { before: "(hidden)", after: "(rotated)" };
+      await logAudit({
+        entityType: "webhook",
+        entityId: webhook.id,
+        action: "updated",
+        performedBy: req.user!,
+        changes,
+        metadata: { projectId },
+      });
+      res.json(rotateSecret ? { ...toSafeWebhook(webhook), secret: webhook.secret } : toSafeWebhook(webhook));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/webhooks/:webhookId", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const webhook = await storage.getWebhook(parseInt(String(req.params.webhookId)), projectId);
+      if (!webhook) return res.status(404).json({ message: "Webhook not found" });
+      await storage.deleteWebhook(webhook.id);
+      await logAudit({
+        entityType: "webhook",
+        entityId: webhook.id,
+        action: "deleted",
+        performedBy: req.user!,
+        metadata: { projectId, url: webhook.url },
+      });
+      res.json({ message: "Webhook deleted" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // The most recent deliveries, newest first
+  app.get("/api/projects/:projectId/webhooks/:webhookId/deliveries", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const webhook = await storage.getWebhook(parseInt(String(req.params.webhookId)), projectId);
+      if (!webhook) return res.status(404).json({ message: "Webhook not found" });
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50")) || 50, 1), 200);
+      res.json(await storage.getWebhookDeliveries(webhook.id, limit));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post(
+    "/api/projects/:projectId/webhooks/:webhookId/deliveries/:deliveryId/redeliver",
+    requireAuth,
+    requireProjectAccess("admin"),
+    async (req, res) => {
+      try {
+        const projectId = parseInt(String(req.params.projectId));
+        const webhook = await storage.getWebhook(parseInt(String(req.params.webhookId)), projectId);
+        if (!webhook) return res.status(404).json({ message: "Webhook not found" });
+        if (!webhook.active) return res.status(400).json({ message: "Enable the webhook before redelivering" });
+        const delivery = await storage.getWebhookDelivery(parseInt(String(req.params.deliveryId)), webhook.id);
+        if (!delivery) return res.status(404).json({ message: "Delivery not found" });
+        res.status(201).json(await redeliverWebhook(delivery));
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+      }
+    }
+  );
+
+  // ── Project ADRs ────────────────────────────────────────────────────────────
+
+  app.get("/api/projects/:projectId/adrs", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const projectAdrs = await storage.getAdrs(parseInt(String(req.params.projectId)));
+      res.json(projectAdrs);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/adrs/:id", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), parseInt(String(req.params.projectId)));
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      res.json(adr);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/adrs", requireAuth, requireProjectAccess("adr.create"), async (req, res) => {
+    try {
+      const parsed = createAdrBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const { title, context, decision, consequences, alternatives, tags, team, status } = parsed.data;
+      const author = req.user!;
+      const projectId = parseInt(String(req.params.projectId));
+
+      const workflow = await storage.getProjectWorkflow(projectId);
+      const initial = status ? workflow.find((s) => s.key === status) : workflow[0];
+      if (!initial) {
+        return res.status(400).json({ message: `Unknown status: ${status}` });
+      }
+      // Starting anywhere but the initial state is a status change the role has to allow
+      if (initial.key !== workflow[0].key && !canMoveToStatus(await getProjectAccess(req.user!, projectId), initial.key)) {
+        return res.status(403).json({ message: `Your project role cannot create ADRs as ${initial.label}` });
+      }
+      if (initial.category === "accepted") {
+        // A new ADR has no reviews yet, so only a project without a quorum can start it accepted
+        const project = await storage.getProject(projectId);
+        if ((project?.reviewQuorum ?? 0) > 0) {
+          return res.status(400).json({ message: `Review quorum not met: new ADRs cannot start as ${initial.label}` });
+        }
+      }
+
+      const adr = await storage.createAdr({
+        projectId,
+        title,
+        status: initial.key,
+        context,
+        decision,
+        consequences,
+        alternatives: alternatives ?? null,
+        tags: tags || [],
+        team: team ?? null,
+        authorId: author.id,
+        author: author.displayName,
+        version: "1.0",
+        archived: false,
+        archiveReason: null,
+      });
+
+      await storage.createVersion({
+        adrId: adr.id,
+        version: "1.0",
+        title: adr.title,
+        status: adr.status,
+        context: adr.context,
+        decision: adr.decision,
+        consequences: adr.consequences,
+        alternatives: adr.alternatives,
+        tags: adr.tags,
+        team: adr.team,
+        author: adr.author,
+        changeReason: "Initial creation",
+        changedById: author.id,
+        changedBy: author.displayName,
+      });
+
+      await logAudit({
+        entityType: "adr",
+        entityId: adr.id,
+        action: "created",
+        performedBy: author,
+        metadata: { projectId, title: adr.title, adrNumber: adr.adrNumber },
+      });
+      await publishAdrChange(projectId, adr.id, "created", author, adr);
+      await emitWebhookEvent(projectId, "adr.created", { adr: adrWebhookData(adr) }, author);
+      await notifyProjectMembers(
+        projectId,
+        author.id,
+        "adr_created",
+        `New ADR ${adr.adrNumber}`,
+        `${author.displayName} created ${adr.title}`,
+        `/projects/${projectId}/adrs/${adr.id}`,
+        adr.id
+      );
+
+      res.status(201).json(adr);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/adrs/:id", requireAuth, requireProjectAccess("adr.edit"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const id = parseInt(String(req.params.id));
+      const existing = await storage.getAdr(id, projectId);
+      if (!existing) return res.status(404).json({ message: "ADR not found" });
+
+      const parsed = updateAdrBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const { title, context, decision, consequences, alternatives, tags, team, changeReason } = parsed.data;
+      const changedBy = req.user!;
+
+      const currentParts = existing.version.split(".");
+      const newMinor = parseInt(currentParts[1] || "0") + 1;
+      const newVersion = `${currentParts[0]}.${newMinor}`;
+
+      const updated = await storage.updateAdr(id, {
+        title: title ?? existing.title,
+        context: context ?? existing.context,
+        decision: decision ?? existing.decision,
+        consequences: consequences ?? existing.consequences,
+        alternatives: alternatives !== undefined ? alternatives : existing.alternatives,
+        tags: tags ?? existing.tags,
+        team: team !== undefined ? team : existing.team,
+        version: newVersion,
+      });
+
+      if (updated) {
+        await storage.createVersion({
+          adrId: id,
+          version: newVersion,
+          title: updated.title,
+          status: updated.status,
+          context: updated.context,
+          decision: updated.decision,
+          consequences: updated.consequences,
+          alternatives: updated.alternatives,
+          tags: updated.tags,
+          team: updated.team,
+          author: updated.author,
+          changeReason: changeReason || "Content update",
+          changedById: changedBy.id,
+          changedBy: changedBy.displayName,
+        });
+
+        // Reviews approved the previous wording, so they no longer count towards the quorum
+        const contentChanged = (["title", "context", "decision", "consequences", "alternatives"] as const)
+          .some((field) => updated[field] !== existing[field]);
+        if (contentChanged) await storage.dismissAdrReviews(id);
+      }
+
+      await logAudit({
+        entityType: "adr",
+        entityId: id,
+        action: "updated",
+        performedBy: changedBy,
+        changes: changedFields(existing, { title, context, decision, consequences, alternatives, tags, team }),
+        metadata: changeReason ? { changeReason } : undefined,
+      });
+      await publishAdrChange(projectId, id, "updated", changedBy, updated);
+      if (updated) {
+        await emitWebhookEvent(
+          projectId,
+          "adr.updated",
+          { adr: adrWebhookData(updated), changedFields: Object.keys(parsed.data).filter((k) => k !== "changeReason") },
+          changedBy
+        );
+      }
+
+      res.json(updated);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/adrs/:id/status", requireAuth, requireProjectAccess("adr.change_status"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const id = parseInt(String(req.params.id));
+      const existing = await storage.getAdr(id, projectId);
+      if (!existing) return res.status(404).json({ message: "ADR not found" });
+
+      const parsed = statusChangeBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const { status, reason } = parsed.data;
+
+      const workflow = await storage.getProjectWorkflow(projectId);
+      const allowed = workflow.find((s) => s.key === existing.status)?.transitions ?? [];
+      if (!allowed.includes(status)) {
+        return res.status(400).json({ message: `Cannot transition from ${existing.status} to ${status}` });
+      }
+      if (!canMoveToStatus(await getProjectAccess(req.user!, projectId), status)) {
+        return res.status(403).json({ message: `Your project role cannot move ADRs to ${status}` });
+      }
+
+      if (workflow.find((s) => s.key === status)?.category === "accepted") {
+        const project = await storage.getProject(projectId);
+        const summary = await getReviewSummary(id, project?.reviewQuorum ?? 0);
+        if (!summary.quorumMet) {
+          return res.status(400).json({
+            message: summary.blocking > 0
+              ? "Cannot accept while reviewers have rejected or requested changes"
+              : `Review quorum not met: ${summary.approvals} of ${summary.quorum} approvals`,
+          });
+        }
+      }
+
+      const updated = await applyStatusChange(existing, status, reason, req.user!);
+
+      res.json(updated);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/adrs/:id/archive", requireAuth, requireProjectAccess("adr.archive"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const id = parseInt(String(req.params.id));
+      const existing = await storage.getAdr(id, projectId);
+      if (!existing) return res.status(404).json({ message: "ADR not found" });
+
+      const parsed = archiveBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const adr = await storage.archiveAdr(id, parsed.data.reason);
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      await logAudit({
+        entityType: "adr",
+        entityId: id,
+        action: "archived",
+        performedBy: req.user!,
+        metadata: { reason: parsed.data.reason },
+      });
+      await publishAdrChange(projectId, id, "archived", req.user!, adr);
+      await emitWebhookEvent(
+        projectId,
+        "adr.updated",
+        { adr: adrWebhookData(adr), archiveReason: parsed.data.reason },
+        req.user!
+      );
+      res.json(adr);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/adrs/:id/versions", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const versions = await storage.getVersions(parseInt(String(req.params.id)));
+      res.json(versions);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/adrs/:id/versions/:versionId", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const version = await storage.getVersion(parseInt(String(req.params.versionId)));
+      if (!version) return res.status(404).json({ message: "Version not found" });
+      res.json(version);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── ADR Reviews ─────────────────────────────────────────────────────────────
+
+  app.get("/api/projects/:projectId/adrs/:id/reviews", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const id = parseInt(String(req.params.id));
+      const project = await storage.getProject(projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
+      const adr = await storage.getAdr(id, projectId);
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      const summary = await getReviewSummary(adr.id, project.reviewQuorum);
+      res.json(summary);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/adrs/:id/reviewers", requireAuth, requireProjectAccess("adr.edit"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const id = parseInt(String(req.params.id));
+      const adr = await storage.getAdr(id, projectId);
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+
+      const parsed = requestReviewersBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+
+      const members = await storage.getProjectMembers(projectId);
+      const memberIds = new Set(members.map((m) => m.userId));
+      const nonMembers = parsed.data.userIds.filter((userId) => !memberIds.has(userId));
+      if (nonMembers.length > 0) {
+        return res.status(400).json({ message: "Reviewers must be members of this project" });
+      }
+
+      const existing = new Set((await storage.getAdrReviewers(id)).map((r) => r.userId));
+      const toAdd = parsed.data.userIds.filter((userId) => !existing.has(userId));
+      for (const userId of toAdd) {
+        await storage.addAdrReviewer(id, userId, req.user!.id);
+        await createNotification({
+          userId,
+          type: "review_requested",
+          title: "Review requested",
+          body: `${req.user!.displayName} asked you to review ADR ${adr.adrNumber}: ${adr.title}`,
+          href: `/projects/${projectId}/adrs/${id}`,
+          projectId,
+          adrId: id,
+        });
+      }
+
+      if (toAdd.length > 0) {
+        await logAudit({
+          entityType: "adr",
+          entityId: id,
+          action: "reviewers_requested",
+          performedBy: req.user!,
+          metadata: { projectId, reviewerIds: toAdd },
+        });
+        await publishAdrChange(projectId, id, "review", req.user!);
+      }
+
+      const reviewers = await storage.getAdrReviewers(id);
+      res.status(201).json(reviewers);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/adrs/:id/reviewers/:userId", requireAuth, requireProjectAccess("adr.edit"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), projectId);
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      const userId = String(req.params.userId);
+      const removed = await storage.removeAdrReviewer(adr.id, userId);
+      if (!removed) return res.status(404).json({ message: "Reviewer not found" });
+      await logAudit({
+        entityType: "adr",
+        entityId: adr.id,
+        action: "reviewer_removed",
+        performedBy: req.user!,
+        metadata: { reviewerId: userId },
+      });
+      await publishAdrChange(projectId, adr.id, "review", req.user!);
+      res.json({ message: "Reviewer removed" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/adrs/:id/reviews", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const id = parseInt(String(req.params.id));
+      const adr = await storage.getAdr(id, projectId);
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+
+      const parsed = reviewBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+
+      const reviewer = (await storage.getAdrReviewers(id)).find((r) => r.userId === req.user!.id);
+      if (!reviewer) {
+        return res.status(403).json({ message: "You have not been asked to review this ADR" });
+      }
+
+      const review = await storage.createAdrReview({
+        adrId: id,
+        reviewerId: req.user!.id,
+        decision: parsed.data.decision,
+        comment: parsed.data.comment,
+        adrVersion: adr.version,
+      });
+
+      await logAudit({
+        entityType: "adr",
+        entityId: id,
+        action: "reviewed",
+        performedBy: req.user!,
+        metadata: { decision: review.decision, version: review.adrVersion, comment: review.comment },
+      });
+      await publishAdrChange(projectId, id, "review", req.user!);
+
+      if (reviewer.requestedBy !== req.user!.id) {
+        await createNotification({
+          userId: reviewer.requestedBy,
+          type: "review_submitted",
+          title: `ADR ${adr.adrNumber} reviewed`,
+          body: `${req.user!.displayName} submitted a review: ${review.decision.replace("_", " ")}`,
+          href: `/projects/${projectId}/adrs/${id}`,
+          projectId,
+          adrId: id,
+        });
+      }
+
+      res.status(201).json(review);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // Authors watch their own ADRs unless they opt out; anyone else opts in
+  const watchState = async (adr: Adr, userId: string) => {
+    const watch = await storage.getAdrWatch(adr.id, userId);
+    return { watching: watch ? watch.watching : adr.authorId === userId, explicit: !!watch };
+  };
+
+  app.get("/api/projects/:projectId/adrs/:id/watch", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), parseInt(String(req.params.projectId)));
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      res.json(await watchState(adr, req.user!.id));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.put("/api/projects/:projectId/adrs/:id/watch", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const parsed = adrWatchBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), parseInt(String(req.params.projectId)));
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      await storage.setAdrWatch(adr.id, req.user!.id, parsed.data.watching);
+      res.json(await watchState(adr, req.user!.id));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // Back to the default for this ADR
+  app.delete("/api/projects/:projectId/adrs/:id/watch", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), parseInt(String(req.params.projectId)));
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      await storage.deleteAdrWatch(adr.id, req.user!.id);
+      res.json(await watchState(adr, req.user!.id));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/adrs/:id/comments", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const comments = await storage.getComments(parseInt(String(req.params.id)));
+      res.json(comments);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/adrs/:id/comments", requireAuth, requireProjectAccess("adr.comment"), async (req, res) => {
+    try {
+      const parsed = commentBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const { content, section, parentId } = parsed.data;
+      const projectId = parseInt(String(req.params.projectId));
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), projectId);
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+
+      // Only project members can be mentioned; the client offers to invite the others
+      const members = await storage.getProjectMembers(projectId);
+      const membersByUsername = new Map(members.map((m) => [m.user.username.toLowerCase(), m]));
+      const mentioned = extractMentions(content);
+      const nonMembers = mentioned.filter((username) => !membersByUsername.has(username.toLowerCase()));
+      if (nonMembers.length > 0) {
+        return res.status(400).json({
+          message: `Not a member of this project: ${nonMembers.map((u) => `@${u}`).join(", ")}`,
+          nonMembers,
+        });
+      }
+      const mentionedIds = new Set(mentioned.map((username) => membersByUsername.get(username.toLowerCase())!.userId));
+
+      const comment = await storage.createComment({
+        adrId: adr.id,
+        content,
+        authorId: req.user!.id,
+        author: req.user!.displayName,
+        section: section || null,
+        parentId: parentId || null,
+      });
+      await publishAdrChange(projectId, comment.adrId, "comment", req.user!);
+      await emitWebhookEvent(projectId, "comment.created", {
+        adr: adrWebhookData(adr),
+        comment: { id: comment.id, content: comment.content, section: comment.section, parentId: comment.parentId },
+        mentions: mentioned,
+      }, req.user!);
+
+      const commentHref = `/projects/${projectId}/adrs/${adr.id}#comment-${comment.id}`;
+      const excerpt = content.length > 140 ? `${content.slice(0, 139)}…` : content;
+      mentionedIds.delete(req.user!.id);
+      const notifiedIds = new Set<string>();
+      for (const userId of Array.from(mentionedIds)) {
+        const notified = await createNotification({
+          userId,
+          type: "mention",
+          title: `${req.user!.displayName} mentioned you on ADR ${adr.adrNumber}`,
+          body: excerpt,
+          href: commentHref,
+          projectId,
+          adrId: adr.id,
+        });
+        if (notified) notifiedIds.add(userId);
+      }
+
+      // The ADR's author, its watchers and, for replies, the author of the comment replied to.
+      // Anyone who unwatched the ADR is skipped by createNotification, and anyone whose
+      // mention notification went out has heard about the comment already.
+      const recipients = new Set<string>();
+      if (adr.authorId) recipients.add(adr.authorId);
+      for (const watch of await storage.getAdrWatches(adr.id)) {
+        if (watch.watching) recipients.add(watch.userId);
+      }
+      if (comment.parentId) {
+        const parent = (await storage.getComments(adr.id)).find((c) => c.id === comment.parentId);
+        if (parent?.authorId) recipients.add(parent.authorId);
+      }
+      recipients.delete(req.user!.id);
+      for (const userId of Array.from(recipients)) {
+        if (notifiedIds.has(userId) || !members.some((m) => m.userId === userId)) continue;
+        await createNotification({
+          userId,
+          type: "comment_added",
+          title: `New comment on ADR ${adr.adrNumber}`,
+          body: `${req.user!.displayName} commented on ${adr.title}`,
+          href: commentHref,
+          projectId,
+          adrId: adr.id,
+        });
+      }
+      res.status(201).json(comment);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/adrs/:id/relations", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), parseInt(String(req.params.projectId)));
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      const relations = await storage.getRelations(adr.id);
+      const resolved = await resolveRelations(adr.id, relations, async (otherProjectId) =>
+        !!(await getProjectAccess(req.user!, otherProjectId))
+      );
+      res.json(resolved);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // Whole project graph in one call: non-archived ADRs as nodes, relations between them as edges
+  app.get("/api/projects/:projectId/graph", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const [projectAdrs, relations] = await Promise.all([
+        storage.getAdrs(projectId),
+        storage.getProjectRelations(projectId),
+      ]);
+      const nodeIds = new Set(projectAdrs.map((a) => a.id));
+      res.json({
+        nodes: projectAdrs.map((a) => ({
+          id: a.id,
+          adrNumber: a.adrNumber,
+          title: a.title,
+          status: a.status,
+          tags: a.tags ?? [],
+          team: a.team,
+        })),
+        edges: relations
+          .filter((r) => nodeIds.has(r.sourceAdrId) && nodeIds.has(r.targetAdrId))
+          .map((r) => ({ id: r.id, source: r.sourceAdrId, target: r.targetAdrId, type: r.relationType })),
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/adrs/:id/relations", requireAuth, requireProjectAccess("adr.edit"), async (req, res) => {
+    try {
+      const parsed = relationBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const projectId = parseInt(String(req.params.projectId));
+      const { targetAdrId, targetRef, relationType } = parsed.data;
+      const source = await storage.getAdr(parseInt(String(req.params.id)), projectId);
+      if (!source) return res.status(404).json({ message: "ADR not found" });
+
+      let target: Adr | undefined;
+      if (targetRef) {
+        const ref = parseAdrReference(targetRef);
+        target = ref ? await storage.getAdrByReference(ref.projectKey, ref.adrNumber) : undefined;
+      } else {
+        target = await storage.getAdr(targetAdrId!, projectId);
+      }
+      // ADRs in projects the user cannot see are reported exactly like missing ones
+      const targetAccess = target && await getProjectAccess(req.user!, target.projectId);
+      if (!target || !targetAccess) {
+        return res.status(400).json({ message: `Target ADR ${targetRef ?? targetAdrId} not found` });
+      }
+      // Supersession can mark the older ADR superseded, which needs that right in its project
+      if (adrRelationInverses[relationType]) {
+        const [older, olderAccess] = relationType === "supersedes"
+          ? [target, targetAccess]
+          : [source, await getProjectAccess(req.user!, projectId)];
+        const supersededState = await supersededStateFor(older);
+        if (supersededState && !canMoveToStatus(olderAccess, supersededState.key)) {
+          return res.status(403).json({ message: "Superseding an ADR requires permission to move it to superseded in its project" });
+        }
+      }
+      if (source.id === target.id) {
+        return res.status(400).json({ message: "An ADR cannot be related to itself" });
+      }
+      if (await storage.findRelation(source.id, target.id, relationType)) {
+        return res.status(409).json({ message: "This relation already exists" });
+      }
+      if (relationType === "depends_on" && await createsDependencyCycle(source.id, target.id)) {
+        return res.status(400).json({
+          message: `ADR ${target.adrNumber} already depends on ADR ${source.adrNumber}; this would create a dependency cycle`,
+        });
+      }
+
+      const relation = await storage.createRelation({ sourceAdrId: source.id, targetAdrId: target.id, relationType });
+      await logAudit({
+        entityType: "adr",
+        entityId: source.id,
+        action: "relation_added",
+        performedBy: req.user!,
+        metadata: {
+          relationType,
+          targetAdrId: target.id,
+          targetAdrNumber: target.adrNumber,
+          targetProjectId: target.projectId,
+        },
+      });
+      await supersedeIfAccepted(source, target, relationType, req.user!);
+      await publishAdrChange(source.projectId, source.id, "relation", req.user!);
+      await publishAdrChange(target.projectId, target.id, "relation", req.user!);
+
+      res.status(201).json(relation);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/adrs/:id/relations/:relationId", requireAuth, requireProjectAccess("adr.edit"), async (req, res) => {
+    try {
+      const adr = await storage.getAdr(parseInt(String(req.params.id)), parseInt(String(req.params.projectId)));
+      if (!adr) return res.status(404).json({ message: "ADR not found" });
+      const relation = await storage.getRelation(parseInt(String(req.params.relationId)));
+      if (!relation || (relation.sourceAdrId !== adr.id && relation.targetAdrId !== adr.id)) {
+        return res.status(404).json({ message: "Relation not found" });
+      }
+
+      await storage.deleteRelation(relation.id);
+      await logAudit({
+        entityType: "adr",
+        entityId: relation.sourceAdrId,
+        action: "relation_removed",
+        performedBy: req.user!,
+        metadata: { relationType: relation.relationType, targetAdrId: relation.targetAdrId },
+      });
+      await publishAdrChange(adr.projectId, adr.id, "relation", req.user!);
+      res.json({ message: "Relation removed" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Markdown export ─────────────────────────────────────────────────────────
+
+  app.get("/api/projects/:projectId/adrs/:id/export", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const parsed = exportQuery.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const projectId = parseInt(String(req.params.projectId));
+      const [project, adr] = await Promise.all([
+        storage.getProject(projectId),
+        storage.getAdr(parseInt(String(req.params.id)), projectId),
+      ]);
+      if (!project || !adr) return res.status(404).json({ message: "ADR not found" });
+
+      const related = await storage.getAdrs(projectId);
+      const [file] = await exportAdrs(project, [adr], parsed.data.format, [adr, ...related]);
+      res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${file.name}"`);
+      res.send(file.content);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/export", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const parsed = exportQuery.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const projectId = parseInt(String(req.params.projectId));
+      const project = await storage.getProject(projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
+
+      const projectAdrs = (await storage.getAdrs(projectId)).sort((a, b) => a.adrNumber - b.adrNumber);
+      const files = await exportAdrs(project, projectAdrs, parsed.data.format);
+      const zip = await buildExportZip(files);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${project.key}-adrs-${parsed.data.format}.zip"`);
+      res.send(zip);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Markdown import ─────────────────────────────────────────────────────────
+
+  const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 25 * 1024 * 1024, files: 1000 }, // 25MB
+    fileFilter: (req, file, cb) => {
+      if (/\.(md|markdown|zip)$/i.test(file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(new Error("Only Markdown (.md) files and .zip archives can be imported"));
+      }
+    },
+  });
+
+  // mode=preview (the default) is a dry run; mode=commit writes the same plan
+  app.post("/api/projects/:projectId/import",
+    requireAuth,
+    requireProjectAccess("adr.create"),
+    importUpload.array("files"),
+    async (req, res) => {
+      try {
+        const parsed = importQuery.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+        }
+        const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+        if (uploads.length === 0) {
+          return res.status(400).json({ message: "No files uploaded" });
+        }
+        const projectId = parseInt(String(req.params.projectId));
+        const { files, skipped } = await readImportUploads(uploads);
+        if (files.length === 0) {
+          return res.status(400).json({ message: "No ADR Markdown files found in the upload", skipped });
+        }
+
+        const project = await storage.getProject(projectId);
+        const access = await getProjectAccess(req.user!, projectId);
+        const planned = await planImport(projectId, files, (state) => {
+          if (!canMoveToStatus(access, state.key)) {
+            return `Your project role cannot create ADRs as "${state.label}"`;
+          }
+          if (state.category === "accepted" && (project?.reviewQuorum ?? 0) > 0 && !access?.isAdmin) {
+            return `Only project admins can import ADRs as "${state.label}" while a review quorum applies`;
+          }
+          return null;
+        });
+        const entries = planned.map((p) => ({
+          fileName: p.parsed.fileName,
+          originalNumber: p.parsed.originalNumber,
+          adrNumber: p.adrNumber,
+          title: p.parsed.title,
+          rawStatus: p.parsed.rawStatus,
+          status: p.status,
+          tags: p.parsed.tags,
+          relations: p.relations,
+          conflicts: p.conflicts,
+          warnings: p.warnings,
+        }));
+
+        if (parsed.data.mode === "preview") {
+          return res.json({ entries, skipped });
+        }
+
+        const created = await commitImport(projectId, planned, req.user!);
+        for (const adr of created) {
+          await publishAdrChange(projectId, adr.id, "created", req.user!, adr);
+          await emitWebhookEvent(projectId, "adr.created", { adr: adrWebhookData(adr), imported: true }, req.user!);
+        }
+        await logAudit({
+          entityType: "project",
+          entityId: projectId,
+          action: "adrs_imported",
+          performedBy: req.user!,
+          metadata: { count: created.length, files: files.length, skipped: skipped.length },
+        });
+        res.status(201).json({ entries, skipped, created: created.length });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+      }
+    }
+  );
+
+  // ── Attachments ─────────────────────────────────────────────────────────────
+
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+    fileFilter: (req, file, cb) => {
+      const allowedTypes = ["image/png", "image/jpeg", "image/svg+xml", "image/gif", "application/pdf"];
+      if (allowedTypes.includes(file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new Error("Only PNG, JPEG, SVG, GIF, and PDF files are allowed"));
+      }
+    },
+  });
+
+  app.post("/api/projects/:projectId/attachments",
+    requireAuth,
+    requireProjectAccess("attachments.manage"),
+    upload.single("file"),
+    async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        const projectId = parseInt(String(req.params.projectId));
+        const { adrId } = req.body;
+        const ext = req.file.originalname.split(".").pop() || "bin";
+        const objectName = `projects/${projectId}/${uuidv4()}.${ext}`;
+        
+        await fileStorage.upload(objectName, req.file.buffer, req.file.mimetype, req.file.size);
+        
+        const attachment = await storage.createAttachment({
+          projectId,
+          adrId: adrId ? parseInt(adrId) : null,
+          name: req.file.originalname,
+          objectName,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+          uploadedById: req.user!.id,
+          uploadedBy: req.user!.displayName,
+        });
+
+        await logAudit({
+          entityType: "attachment",
+          entityId: attachment.id,
+          action: "uploaded",
+          performedBy: req.user!,
+          metadata: { projectId, adrId: adrId || null, name: attachment.name },
+        });
+        await emitWebhookEvent(projectId, "attachment.uploaded", {
+          attachment: {
+            id: attachment.id,
+            adrId: attachment.adrId,
+            name: attachment.name,
+            mimeType: attachment.mimeType,
+            sizeBytes: attachment.sizeBytes,
+          },
+        }, req.user!);
+
+        res.status(201).json(attachment);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+      }
+    }
+  );
+
+  app.get("/api/projects/:projectId/attachments", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const attachments = await storage.getProjectAttachments(projectId);
+      const withUrls = await Promise.all(
+        attachments.map(async (att) => ({
+          ...att,
+          url: await fileStorage.getSignedUrl(att.objectName),
+        }))
+      );
+      res.json(withUrls);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/adrs/:adrId/attachments", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const adrId = parseInt(String(req.params.adrId));
+      const attachments = await storage.getAdrAttachments(adrId);
+      const withUrls = await Promise.all(
+        attachments.map(async (att) => ({
+          ...att,
+          url: await fileStorage.getSignedUrl(att.objectName),
+        }))
+      );
+      res.json(withUrls);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/attachments/:id", requireAuth, requireProjectAccess("attachments.manage"), async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id));
+      const attachment = await storage.getAttachment(id);
+      if (!attachment) return res.status(404).json({ message: "Attachment not found" });
+      
+      await fileStorage.delete(attachment.objectName);
+      await storage.deleteAttachment(id);
+      
+      await logAudit({
+        entityType: "attachment",
+        entityId: id,
+        action: "deleted",
+        performedBy: req.user!,
+        metadata: { name: attachment.name },
+      });
+
+      res.json({ message: "Attachment deleted" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Project Requirements (FR/NFR) ───────────────────────────────────────────
+
+  app.get("/api/projects/:projectId/requirements", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const requirements = await storage.getProjectRequirements(projectId);
+      res.json(requirements);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/requirements", requireAuth, requireProjectAccess("requirements.manage"), async (req, res) => {
+    try {
+      const projectId = parseInt(String(req.params.projectId));
+      const schema = z.object({
+        type: z.enum(["FR", "NFR"]),
+        code: z.string().min(1).max(20),
+        title: z.string().min(1).max(200),
+        description: z.string().optional(),
+        priority: z.enum(["must", "should", "could", "wont"]).default("should"),
+        status: z.enum(["draft", "approved", "deprecated"]).default("draft"),
+      });
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+      }
+      const requirement = await storage.createProjectRequirement({
+        ...parsed.data,
+        projectId,
+        createdBy: req.user!.displayName,
+      });
+      await logAudit({
+        entityType: "requirement",
+        entityId: requirement.id,
+        action: "created",
+        performedBy: req.user!,
+        metadata: { projectId, code: requirement.code, type: requirement.type },
+      });
+      await emitWebhookEvent(projectId, "requirement.changed", { change: "created", requirement }, req.user!);
+      res.status(201).json(requirement);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/requirements/:id", requireAuth, requireProjectAccess("requirements.manage"), async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id));
+      const schema = z.object({
+        title: z.string().min(1).max(200).optional(),
+        description: z.string().optional(),
+        priority: z.enum(["must", "should", "could", "wont"]).optional(),
+        status: z.enum(["draft", "approved", "deprecated"]).optional(),
+      });
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+      }
+      const before = await storage.getProjectRequirement(id);
+      if (!before || before.projectId !== parseInt(String(req.params.projectId))) {
+        return res.status(404).json({ message: "Requirement not found" });
+      }
+      const requirement = await storage.updateProjectRequirement(id, parsed.data);
+      if (!requirement) return res.status(404).json({ message: "Requirement not found" });
+      await logAudit({
+        entityType: "requirement",
+        entityId: id,
+        action: "updated",
+        performedBy: req.user!,
+        changes: changedFields(before, parsed.data),
+      });
+      await emitWebhookEvent(requirement.projectId, "requirement.changed", { change: "updated", requirement }, req.user!);
+      res.json(requirement);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/requirements/:id", requireAuth, requireProjectAccess("requirements.manage"), async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id));
+      const requirement = await storage.getProjectRequirement(id);
+      const deleted = await storage.deleteProjectRequirement(id);
+      if (!requirement || !deleted) return res.status(404).json({ message: "Requirement not found" });
+      await logAudit({
+        entityType: "requirement",
+        entityId: id,
+        action: "deleted",
+        performedBy: req.user!,
+      });
+      await emitWebhookEvent(requirement.projectId, "requirement.changed", { change: "deleted", requirement }, req.user!);
+      res.json({ message: "Requirement deleted" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/adrs/:adrId/requirements", requireAuth, requireProjectAccess("requirements.manage"), async (req, res) => {
+    try {
+      const adrId = parseInt(String(req.params.adrId));
+      const schema = z.object({
+        requirementId: z.number(),
+      });
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+      }
+      const link = await storage.linkAdrToRequirement(adrId, parsed.data.requirementId);
+      res.status(201).json(link);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/adrs/:adrId/requirements/:reqId", requireAuth, requireProjectAccess("requirements.manage"), async (req, res) => {
+    try {
+      const adrId = parseInt(String(req.params.adrId));
+      const reqId = parseInt(String(req.params.reqId));
+      const deleted = await storage.unlinkAdrFromRequirement(adrId, reqId);
+      if (!deleted) return res.status(404).json({ message: "Link not found" });
+      res.json({ message: "Requirement unlinked" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/projects/:projectId/adrs/:adrId/requirements", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const adrId = parseInt(String(req.params.adrId));
+      const requirements = await storage.getAdrRequirements(adrId);
+      res.json(requirements);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Notifications ────────────────────────────────────────────────────────────
+
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const { notifications } = await import("@shared/schema");
+      const { eq, and, desc } = await import("drizzle-orm");
+      const rawLimit = Math.min(Math.max(parseInt(String(req.query.limit || "50")), 1), 200);
+      const rawOffset = Math.max(parseInt(String(req.query.offset || "0")), 0);
+
+      const userNotifications = await db
+        .select()
+        .from(notifications)
+        .where(and(eq(notifications.userId, req.user!.id), eq(notifications.inApp, true)))
+        .orderBy(desc(notifications.createdAt))
+        .limit(isNaN(rawLimit) ? 50 : rawLimit)
+        .offset(isNaN(rawOffset) ? 0 : rawOffset);
+      
+      res.json(userNotifications);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", requireAuth, async (req, res) => {
+    try {
+      const { notifications } = await import("@shared/schema");
+      const { eq, and, count } = await import("drizzle-orm");
+      
+      const [result] = await db
+        .select({ count: count() })
+        .from(notifications)
+        .where(and(
+          eq(notifications.userId, req.user!.id),
+          eq(notifications.inApp, true),
+          eq(notifications.isRead, false),
+        ));
+      
+      res.json({ count: result?.count || 0 });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const { notifications } = await import("@shared/schema");
+      const { eq, and } = await import("drizzle-orm");
+      const id = parseInt(String(req.params.id));
+      
+      const [notification] = await db
+        .update(notifications)
+        .set({ isRead: true })
+        .where(and(eq(notifications.id, id), eq(notifications.userId, req.user!.id)))
+        .returning();
+      
+      if (!notification) return res.status(404).json({ message: "Notification not found" });
+      res.json(notification);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const { notifications } = await import("@shared/schema");
+      const { eq, and } = await import("drizzle-orm");
+      
+      await db
+        .update(notifications)
+        .set({ isRead: true })
+        .where(and(eq(notifications.userId, req.user!.id), eq(notifications.isRead, false)));
+      
+      res.json({ message: "All notifications marked as read" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Live Events ──────────────────────────────────────────────────────────────
+
+  // Server-Sent Events: the user's new notifications, plus ADR changes in `projectId` if given
+  app.get("/api/events", requireAuth, async (req, res) => {
+    try {
+      let projectId: number | null = null;
+      if (req.query.projectId) {
+        projectId = parseInt(String(req.query.projectId));
+        if (!(await getProjectAccess(req.user!, projectId))) {
+          return res.status(403).json({ message: "You do not have access to this project" });
+        }
+      }
+      await openEventStream(req, res, projectId);
+    } catch (err) {
+      if (res.headersSent) return;
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Search ───────────────────────────────────────────────────────────────────
+
+  app.get("/api/search", requireAuth, async (req, res) => {
+    try {
+      const parsed = searchQuery.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const { q, status, team, tag, tagMode, author, projectId, from, to, sort, limit, offset } = parsed.data;
+
+      const { projects } = await import("@shared/schema");
+
+      // First get projects user has access to
+      let accessibleProjectIds: number[];
+      if (req.user!.role === "admin") {
+        const allProjects = await db.select({ id: projects.id }).from(projects);
+        accessibleProjectIds = allProjects.map((p) => p.id);
+      } else {
+        accessibleProjectIds = await storage.getAccessibleProjectIds(req.user!.id);
+      }
+
+      if (accessibleProjectIds.length === 0) {
+        return res.json({
+          results: [],
+          total: 0,
+          facets: { status: [], team: [], tag: [], author: [], project: [] },
+        });
+      }
+
+      const response = await searchAdrs(
+        {
+          q,
+          statuses: status,
+          teams: team,
+          tags: tag,
+          tagMode,
+          authors: author,
+          projectIds: projectId.map((id) => parseInt(id)).filter((id) => !isNaN(id)),
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+          sort,
+          limit,
+          offset,
+        },
+        accessibleProjectIds
+      );
+      res.json(response);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Architecture Diagrams (per ADR) ─────────────────────────────────────────
+
+  app.get("/api/projects/:projectId/adrs/:adrId/diagrams", requireAuth, requireProjectAccess(), async (req, res) => {
+    try {
+      const adrId = parseInt(String(req.params.adrId));
+      const diagrams = await storage.getAdrDiagrams(adrId);
+      res.json(diagrams);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/projects/:projectId/adrs/:adrId/diagrams", requireAuth, requireProjectAccess("diagrams.manage"), async (req, res) => {
+    try {
+      const adrId = parseInt(String(req.params.adrId));
+      const schema = z.object({
+        name: z.string().min(1).max(255),
+        diagramData: z.string(),
+      });
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+      }
+      const diagram = await storage.createDiagram({
+        adrId,
+        name: parsed.data.name,
+        diagramData: parsed.data.diagramData,
+        createdById: req.user!.id,
+        createdBy: req.user!.displayName,
+      });
+      await logAudit({
+        entityType: "diagram",
+        entityId: diagram.id,
+        action: "created",
+        performedBy: req.user!,
+        metadata: { adrId, name: diagram.name },
+      });
+      res.status(201).json(diagram);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/adrs/:adrId/diagrams/:id", requireAuth, requireProjectAccess("diagrams.manage"), async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id));
+      const schema = z.object({
+        name: z.string().min(1).max(255).optional(),
+        diagramData: z.string().optional(),
+      });
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+      }
+      const diagram = await storage.updateDiagram(id, parsed.data);
+      if (!diagram) return res.status(404).json({ message: "Diagram not found" });
+      await logAudit({
+        entityType: "diagram",
+        entityId: id,
+        action: "updated",
+        performedBy: req.user!,
+      });
+      res.json(diagram);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/adrs/:adrId/diagrams/:id", requireAuth, requireProjectAccess("diagrams.manage"), async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id));
+      const deleted = await storage.deleteDiagram(id);
+      if (!deleted) return res.status(404).json({ message: "Diagram not found" });
+      await logAudit({
+        entityType: "diagram",
+        entityId: id,
+        action: "deleted",
+        performedBy: req.user!,
+      });
+      res.json({ message: "Diagram deleted" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Audit Logs ──────────────────────────────────────────────────────────────
+
+  app.get("/api/audit-logs", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const { entityType, action, performedBy, from, to } = req.query;
+      const auditLimit = Math.min(Math.max(parseInt(String(req.query.limit || "50")), 1), 200);
+      const auditOffset = Math.max(parseInt(String(req.query.offset || "0")), 0);
+      
+      const { auditLogs, actorName } = await import("@shared/schema");
+      const { eq, or, and, gte, lte, desc, getTableColumns } = await import("drizzle-orm");
+      
+      const performedByName = actorName(auditLogs.performedById, auditLogs.performedBy);
+      let query = db
+        .select({ ...getTableColumns(auditLogs), performedBy: performedByName })
+        .from(auditLogs)
+        .$dynamic();
+      
+      const conditions = [];
+      if (entityType) conditions.push(eq(auditLogs.entityType, String(entityType)));
+      if (action) conditions.push(eq(auditLogs.action, String(action)));
+      // A user ID, or a name for system actors and entries without one
+      if (performedBy) {
+        conditions.push(or(eq(auditLogs.performedById, String(performedBy)), eq(performedByName, String(performedBy))));
+      }
+      if (from) conditions.push(gte(auditLogs.performedAt, new Date(String(from))));
+      if (to) conditions.push(lte(auditLogs.performedAt, new Date(String(to))));
+      
+      if (conditions.length > 0) {
+        query = query.where(and(...conditions));
+      }
+      
+      const logs = await query
+        .orderBy(desc(auditLogs.performedAt))
+        .limit(isNaN(auditLimit) ? 50 : auditLimit)
+        .offset(isNaN(auditOffset) ? 0 : auditOffset);
+      
+      res.json(logs);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Users ────────────────────────────────────────────────────────────────────
+
+  app.get("/api/users", requireAuth, requireRole("admin"), async (_req, res) => {
+    try {
+      const allUsers = await storage.getUsers();
+      res.json(allUsers.map(toSafeUser));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/users", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const { username, password, displayName, role } = req.body;
+      if (!username || !password || !displayName || !role) {
+        return res.status(400).json({ message: "All fields are required" });
+      }
+      if (username.length < 3) {
+        return res.status(400).json({ message: "Username must be at least 3 characters" });
+      }
+      if (password.length < 6) {
+        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      }
+      if (!userRoleEnum.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      const existing = await storage.getUserByUsername(username);
+      if (existing) return res.status(409).json({ message: "Username already taken" });
+
+      const hashedPassword = await hashPassword(password);
+      const user = await storage.createUser({ username, password: hashedPassword, displayName, role });
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "created",
+        performedBy: req.user!,
+        metadata: { username, role },
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/users/:id/role", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const { role } = req.body;
+      if (!role || !userRoleEnum.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "Cannot change your own role" });
+      }
+      const before = await storage.getUser(String(req.params.id));
+      if (!before) return res.status(404).json({ message: "User not found" });
+      const user = await storage.updateUserRole(before.id, role);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "role_updated",
+        performedBy: req.user!,
+        changes: { role: { before: before.role, after: role } },
+      });
+      res.json(toSafeUser(user));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // Users are never deleted: ADRs, comments and the audit trail keep referring to them
+  app.post("/api/users/:id/deactivate", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const userId = String(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Cannot deactivate your own account" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!user.active) return res.status(400).json({ message: "User is already deactivated" });
+      const { user: deactivated, memberships, groups } = (await storage.deactivateUser(userId))!;
+      await logAudit({
+        entityType: "user",
+        entityId: userId,
+        action: "deactivated",
+        performedBy: req.user!,
+        // Kept so an admin can restore access after reactivating
+        metadata: {
+          username: user.username,
+          memberships: memberships.map((m) => ({ projectId: m.projectId, role: m.role })),
+          groups: groups.map((g) => g.groupId),
+        },
+      });
+      res.json(toSafeUser(deactivated));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/projects/:projectId/adrs/:id/comments", requireAuth, requireProjectAccess(), async (req, res) => {
+  app.post("/api/users/:id/reactivate", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const parsed = commentBody.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
-      }
-      const { content, section, parentId } = parsed.data;
-      const comment = await storage.createComment({
-        adrId: parseInt(req.params.id),
-        content,
-        author: req.user!.displayName,
-        section: section || null,
-        parentId: parentId || null,
+      const user = await storage.getUser(String(req.params.id));
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (user.anonymisedAt) return res.status(400).json({ message: "Anonymised accounts cannot be reactivated" });
+      if (user.active) return res.status(400).json({ message: "User is already active" });
+      const reactivated = await storage.reactivateUser(user.id);
+      if (!reactivated) return res.status(404).json({ message: "User not found" });
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "reactivated",
+        performedBy: req.user!,
+        metadata: { username: user.username },
       });
-      res.status(201).json(comment);
+      res.json(toSafeUser(reactivated));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.get("/api/projects/:projectId/adrs/:id/relations", requireAuth, requireProjectAccess(), async (req, res) => {
+  // Right-to-erasure requests: the account stays as a nameless placeholder so history still adds up
+  app.post("/api/users/:id/anonymise", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const relations = await storage.getRelations(parseInt(req.params.id));
-      res.json(relations);
+      const parsed = anonymiseUserBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const userId = String(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Cannot anonymise your own account" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (user.anonymisedAt) return res.status(400).json({ message: "User is already anonymised" });
+      if (parsed.data.confirmUsername !== user.username) {
+        return res.status(400).json({ message: "Type the username to confirm" });
+      }
+
+      const suffix = user.id.replace(/-/g, "").slice(0, 8);
+      const anonymised = await storage.anonymiseUser(user.id, {
+        username: `former-user-${suffix}`,
+        displayName: `Former user ${suffix}`,
+        password: await hashPassword(randomBytes(32).toString("hex")),
+      });
+      if (!anonymised) return res.status(404).json({ message: "User not found" });
+      // Recorded under the new name only; the old one is exactly what was erased
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "anonymised",
+        performedBy: req.user!,
+      });
+      res.json(toSafeUser(anonymised));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/projects/:projectId/adrs/:id/relations", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.post("/api/users/:id/password-reset", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const parsed = relationBody.safeParse(req.body);
+      const parsed = passwordResetLinkBody.safeParse(req.body ?? {});
       if (!parsed.success) {
         return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const relation = await storage.createRelation({
-        sourceAdrId: parseInt(req.params.id),
-        targetAdrId: parsed.data.targetAdrId,
-        relationType: parsed.data.relationType,
+      const user = await storage.getUser(String(req.params.id));
+      if (!user) return res.status(404).json({ message: "User not found" });
+      const external = passwordManagedExternally(user);
+      if (external) return res.status(400).json({ message: external });
+      if (!user.active) return res.status(400).json({ message: "This account has been disabled" });
+      const { email, expiresInHours } = parsed.data;
+      if (email && !getMailer()) {
+        return res.status(400).json({ message: "Email delivery is not configured; share the link directly instead" });
+      }
+
+      const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+      const { url, token } = await issuePasswordReset(user, req.user!.displayName, expiresInHours, baseUrl);
+      if (email) await sendPasswordResetEmail(email, user, url, token.expiresAt);
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "password_reset_issued",
+        performedBy: req.user!,
+        metadata: { username: user.username, expiresAt: token.expiresAt, emailQueued: !!email },
       });
-      res.status(201).json(relation);
+      res.status(201).json({ url, expiresAt: token.expiresAt, emailQueuedFor: email ?? null });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Attachments ─────────────────────────────────────────────────────────────
-
-  const upload = multer({
-    storage: multer.memoryStorage(),
-    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
-    fileFilter: (req, file, cb) => {
-      const allowedTypes = ["image/png", "image/jpeg", "image/svg+xml", "image/gif", "application/pdf"];
-      if (allowedTypes.includes(file.mimetype)) {
-        cb(null, true);
-      } else {
-        cb(new Error("Only PNG, JPEG, SVG, GIF, and PDF files are allowed"));
+  // For users who lost their authenticator and recovery codes
+  app.post("/api/users/:id/2fa/reset", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const userId = String(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Manage your own two-factor authentication from your profile" });
       }
-    },
-  });
-
-  app.post("/api/projects/:projectId/attachments",
-    requireAuth,
-    requireProjectAccess("editor"),
-    upload.single("file"),
-    async (req, res) => {
-      try {
-        if (!req.file) {
-          return res.status(400).json({ message: "No file uploaded" });
-        }
-        const projectId = parseInt(req.params.projectId);
-        const { adrId } = req.body;
-        const ext = req.file.originalname.split(".").pop() || "bin";
-        const objectName = `projects/${projectId}/${uuidv4()}.${ext}`;
-        
-        await fileStorage.upload(objectName, req.file.buffer, req.file.mimetype, req.file.size);
-        
-        const attachment = await storage.createAttachment({
-          projectId,
-          adrId: adrId ? parseInt(adrId) : null,
-          name: req.file.originalname,
-          objectName,
-          mimeType: req.file.mimetype,
-          sizeBytes: req.file.size,
-          uploadedBy: req.user!.displayName,
-        });
-
-        await logAudit({
-          entityType: "attachment",
-          entityId: attachment.id,
-          action: "uploaded",
-          performedBy: req.user!.displayName,
-          metadata: { projectId, adrId: adrId || null, name: attachment.name },
-        });
-
-        res.status(201).json(attachment);
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      if (!isTwoFactorEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled for this user" });
       }
-    }
-  );
-
-  app.get("/api/projects/:projectId/attachments", requireAuth, requireProjectAccess("viewer"), async (req, res) => {
-    try {
-      const projectId = parseInt(req.params.projectId);
-      const attachments = await storage.getProjectAttachments(projectId);
-      const withUrls = await Promise.all(
-        attachments.map(async (att) => ({
-          ...att,
-          url: await fileStorage.getSignedUrl(att.objectName),
-        }))
-      );
-      res.json(withUrls);
+      await storage.disableTotp(user.id);
+      await logAudit({
+        entityType: "user",
+        entityId: user.id,
+        action: "2fa_reset",
+        performedBy: req.user!,
+        metadata: { username: user.username },
+      });
+      await createNotification({
+        userId: user.id,
+        type: "security",
+        title: "Two-factor authentication reset",
+        body: `${req.user!.displayName} reset your two-factor authentication. Set it up again from your profile.`,
+        href: "/profile",
+      });
+      res.json(toSafeUser((await storage.getUser(user.id))!));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.get("/api/projects/:projectId/adrs/:adrId/attachments", requireAuth, requireProjectAccess("viewer"), async (req, res) => {
+  app.get("/api/users/:id/sessions", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const adrId = parseInt(req.params.adrId);
-      const attachments = await storage.getAdrAttachments(adrId);
-      const withUrls = await Promise.all(
-        attachments.map(async (att) => ({
-          ...att,
-          url: await fileStorage.getSignedUrl(att.objectName),
-        }))
-      );
-      res.json(withUrls);
+      const user = await storage.getUser(String(req.params.id));
+      if (!user) return res.status(404).json({ message: "User not found" });
+      res.json(await listUserSessions(user.id, req.sessionID));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.delete("/api/projects/:projectId/attachments/:id", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.post("/api/users/:id/logout", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const attachment = await storage.getAttachment(id);
-      if (!attachment) return res.status(404).json({ message: "Attachment not found" });
-      
-      await fileStorage.delete(attachment.objectName);
-      await storage.deleteAttachment(id);
-      
+      const userId = String(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Manage your own sessions from your profile" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      const sessionsRevoked = await storage.deleteUserSessions(user.id);
       await logAudit({
-        entityType: "attachment",
-        entityId: id,
-        action: "deleted",
-        performedBy: req.user!.displayName,
-        metadata: { name: attachment.name },
+        entityType: "user",
+        entityId: user.id,
+        action: "force_logout",
+        performedBy: req.user!,
+        metadata: { username: user.username, sessionsRevoked },
       });
-
-      res.json({ message: "Attachment deleted" });
+      res.json({ message: "User signed out", sessionsRevoked });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Project Requirements (FR/NFR) ───────────────────────────────────────────
+  // ── User Groups ──────────────────────────────────────────────────────────────
 
-  app.get("/api/projects/:projectId/requirements", requireAuth, requireProjectAccess("viewer"), async (req, res) => {
+  app.get("/api/groups", requireAuth, requireRole("admin"), async (_req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const requirements = await storage.getProjectRequirements(projectId);
-      res.json(requirements);
+      res.json(await storage.getUserGroups());
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/projects/:projectId/requirements", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.post("/api/groups", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const projectId = parseInt(req.params.projectId);
-      const schema = z.object({
-        type: z.enum(["FR", "NFR"]),
-        code: z.string().min(1).max(20),
-        title: z.string().min(1).max(200),
-        description: z.string().optional(),
-        priority: z.enum(["must", "should", "could", "wont"]).default("should"),
-        status: z.enum(["draft", "approved", "deprecated"]).default("draft"),
-      });
-      const parsed = schema.safeParse(req.body);
+      const parsed = userGroupBody.safeParse(req.body);
       if (!parsed.success) {
-        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const requirement = await storage.createProjectRequirement({
-        ...parsed.data,
-        projectId,
-        createdBy: req.user!.displayName,
-      });
+      if (await storage.getUserGroupByName(parsed.data.name)) {
+        return res.status(409).json({ message: `A group named "${parsed.data.name}" already exists` });
+      }
+      const group = await storage.createUserGroup({ name: parsed.data.name, description: parsed.data.description ?? null });
       await logAudit({
-        entityType: "requirement",
-        entityId: requirement.id,
+        entityType: "user_group",
+        entityId: group.id,
         action: "created",
-        performedBy: req.user!.displayName,
-        metadata: { projectId, code: requirement.code, type: requirement.type },
+        performedBy: req.user!,
+        metadata: { name: group.name },
       });
-      res.status(201).json(requirement);
+      res.status(201).json(group);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.patch("/api/projects/:projectId/requirements/:id", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  // The group with its members and the projects it has access to
+  app.get("/api/groups/:id", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const schema = z.object({
-        title: z.string().min(1).max(200).optional(),
-        description: z.string().optional(),
-        priority: z.enum(["must", "should", "could", "wont"]).optional(),
-        status: z.enum(["draft", "approved", "deprecated"]).optional(),
-      });
-      const parsed = schema.safeParse(req.body);
+      const id = parseInt(String(req.params.id));
+      const group = await storage.getUserGroup(id);
+      if (!group) return res.status(404).json({ message: "Group not found" });
+      const [members, projects] = await Promise.all([
+        storage.getUserGroupMembers(id),
+        storage.getUserGroupGrants(id),
+      ]);
+      res.json({ ...group, members, projects });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.patch("/api/groups/:id", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = userGroupBody.partial().safeParse(req.body);
       if (!parsed.success) {
-        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const requirement = await storage.updateProjectRequirement(id, parsed.data);
-      if (!requirement) return res.status(404).json({ message: "Requirement not found" });
+      const id = parseInt(String(req.params.id));
+      const before = await storage.getUserGroup(id);
+      if (!before) return res.status(404).json({ message: "Group not found" });
+      if (parsed.data.name) {
+        const clash = await storage.getUserGroupByName(parsed.data.name);
+        if (clash && clash.id !== id) {
+          return res.status(409).json({ message: `A group named "${parsed.data.name}" already exists` });
+        }
+      }
+      const group = await storage.updateUserGroup(id, parsed.data);
+      if (!group) return res.status(404).json({ message: "Group not found" });
       await logAudit({
-        entityType: "requirement",
+        entityType: "user_group",
         entityId: id,
         action: "updated",
-        performedBy: req.user!.displayName,
-        changes: parsed.data,
+        performedBy: req.user!,
+        changes: {
+          name: { before: before.name, after: group.name },
+          description: { before: before.description, after: group.description },
+        },
       });
-      res.json(requirement);
+      res.json(group);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.delete("/api/projects/:projectId/requirements/:id", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+  app.delete("/api/groups/:id", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteProjectRequirement(id);
-      if (!deleted) return res.status(404).json({ message: "Requirement not found" });
+      const id = parseInt(String(req.params.id));
+      const group = await storage.getUserGroup(id);
+      if (!group) return res.status(404).json({ message: "Group not found" });
+      const grants = await storage.getUserGroupGrants(id);
+      await storage.deleteUserGroup(id);
       await logAudit({
-        entityType: "requirement",
+        entityType: "user_group",
         entityId: id,
         action: "deleted",
-        performedBy: req.user!.displayName,
+        performedBy: req.user!,
+        metadata: { name: group.name, projects: grants.map((g) => ({ projectId: g.projectId, role: g.role })) },
       });
-      res.json({ message: "Requirement deleted" });
+      res.json({ message: "Group deleted" });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/projects/:projectId/adrs/:adrId/requirements", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.post("/api/groups/:id/members", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const adrId = parseInt(req.params.adrId);
-      const schema = z.object({
-        requirementId: z.number(),
-      });
-      const parsed = schema.safeParse(req.body);
+      const parsed = groupMembersBody.safeParse(req.body);
       if (!parsed.success) {
-        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const id = parseInt(String(req.params.id));
+      const group = await storage.getUserGroup(id);
+      if (!group) return res.status(404).json({ message: "Group not found" });
+      for (const userId of parsed.data.userIds) {
+        const user = await storage.getUser(userId);
+        if (!user) return res.status(404).json({ message: `User ${userId} not found` });
+        if (!user.active) return res.status(400).json({ message: `${user.displayName} is deactivated` });
       }
-      const link = await storage.linkAdrToRequirement(adrId, parsed.data.requirementId);
-      res.status(201).json(link);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
-    }
-  });
-
-  app.delete("/api/projects/:projectId/adrs/:adrId/requirements/:reqId", requireAuth, requireProjectAccess("editor"), async (req, res) => {
-    try {
-      const adrId = parseInt(req.params.adrId);
-      const reqId = parseInt(req.params.reqId);
-      const deleted = await storage.unlinkAdrFromRequirement(adrId, reqId);
-      if (!deleted) return res.status(404).json({ message: "Link not found" });
-      res.json({ message: "Requirement unlinked" });
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
-    }
-  });
 
-  app.get("/api/projects/:projectId/adrs/:adrId/requirements", requireAuth, requireProjectAccess("viewer"), async (req, res) => {
-    try {
-      const adrId = parseInt(req.params.adrId);
-      const requirements = await storage.getAdrRequirements(adrId);
-      res.json(requirements);
+      const before = await snapshotProjectAccess(parsed.data.userIds);
+      const added = await storage.addUserGroupMembers(id, parsed.data.userIds);
+      if (added.length > 0) {
+        await logAudit({
+          entityType: "user_group",
+          entityId: id,
+          action: "members_added",
+          performedBy: req.user!,
+          metadata: { name: group.name, userIds: added },
+        });
+        await notifyGroupAccessGained(group, new Map(added.map((userId) => [userId, before.get(userId)!])));
+      }
+      res.status(201).json({ added: added.length });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Notifications ────────────────────────────────────────────────────────────
-
-  app.get("/api/notifications", requireAuth, async (req, res) => {
+  app.delete("/api/groups/:id/members/:userId", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const { notifications } = await import("@shared/schema");
-      const { eq, desc } = await import("drizzle-orm");
-      const rawLimit = Math.min(Math.max(parseInt(String(req.query.limit || "50")), 1), 200);
-      const rawOffset = Math.max(parseInt(String(req.query.offset || "0")), 0);
-
-      const userNotifications = await db
-        .select()
-        .from(notifications)
-        .where(eq(notifications.userId, req.user!.id))
-        .orderBy(desc(notifications.createdAt))
-        .limit(isNaN(rawLimit) ? 50 : rawLimit)
-        .offset(isNaN(rawOffset) ? 0 : rawOffset);
-      
-      res.json(userNotifications);
+      const id = parseInt(String(req.params.id));
+      const userId = String(req.params.userId);
+      const removed = await storage.removeUserGroupMember(id, userId);
+      if (!removed) return res.status(404).json({ message: "Group member not found" });
+      await logAudit({
+        entityType: "user_group",
+        entityId: id,
+        action: "member_removed",
+        performedBy: req.user!,
+        metadata: { userId },
+      });
+      res.json({ message: "Member removed" });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.get("/api/notifications/unread-count", requireAuth, async (req, res) => {
-    try {
-      const { notifications } = await import("@shared/schema");
-      const { eq, and, count } = await import("drizzle-orm");
-      
-      const [result] = await db
-        .select({ count: count() })
-        .from(notifications)
-        .where(and(eq(notifications.userId, req.user!.id), eq(notifications.isRead, false)));
-      
-      res.json({ count: result?.count || 0 });
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
-    }
-  });
+  // ── Login protection ─────────────────────────────────────────────────────────
 
-  app.patch("/api/notifications/:id/read", requireAuth, async (req, res) => {
+  app.get("/api/admin/lockouts", requireAuth, requireRole("admin"), async (_req, res) => {
     try {
-      const { notifications } = await import("@shared/schema");
-      const { eq, and } = await import("drizzle-orm");
-      const id = parseInt(req.params.id);
-      
-      const [notification] = await db
-        .update(notifications)
-        .set({ isRead: true })
-        .where(and(eq(notifications.id, id), eq(notifications.userId, req.user!.id)))
-        .returning();
-      
-      if (!notification) return res.status(404).json({ message: "Notification not found" });
-      res.json(notification);
+      const settings = getLoginThrottleSettings();
+      const rows = await storage.getActiveLockouts();
+      const allUsers = await storage.getUsers();
+      const byUsername = new Map(allUsers.map((u) => [normaliseUsername(u.username), u]));
+      res.json({
+        settings: {
+          windowMinutes: settings.windowMs / 60000,
+          delayAfter: settings.delayAfter,
+          lockoutThreshold: settings.lockoutThreshold,
+          ipLockoutThreshold: settings.ipLockoutThreshold,
+          lockoutMinutes: settings.lockoutMs / 60000,
+        },
+        lockouts: rows.map((row) => {
+          const user = row.scope === "username" ? byUsername.get(row.key) : undefined;
+          return {
+            ...row,
+            user: user ? { id: user.id, username: user.username, displayName: user.displayName } : null,
+          };
+        }),
+      });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.patch("/api/notifications/read-all", requireAuth, async (req, res) => {
+  app.delete("/api/admin/lockouts/:id", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const { notifications } = await import("@shared/schema");
-      const { eq, and } = await import("drizzle-orm");
-      
-      await db
-        .update(notifications)
-        .set({ isRead: true })
-        .where(and(eq(notifications.userId, req.user!.id), eq(notifications.isRead, false)));
-      
-      res.json({ message: "All notifications marked as read" });
+      const row = await storage.clearLoginThrottleById(parseInt(String(req.params.id)));
+      if (!row) return res.status(404).json({ message: "Lockout not found" });
+      const user = row.scope === "username"
+        ? (await storage.getUsers()).find((u) => normaliseUsername(u.username) === row.key)
+        : undefined;
+      await logAudit({
+        entityType: row.scope === "username" ? "user" : "ip_address",
+        entityId: user?.id ?? row.key,
+        action: "unlocked",
+        performedBy: req.user!,
+        metadata: { scope: row.scope, key: row.key, failures: row.failures },
+      });
+      res.json({ message: "Lockout cleared" });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Search ───────────────────────────────────────────────────────────────────
-
-  app.get("/api/search", requireAuth, async (req, res) => {
-    try {
-      const {
-        q,
-        status,
-        team,
-        tag,
-        author,
-        projectId,
-        from,
-        to,
-      } = req.query;
-
-      const SORT_ALLOWLIST = ["newest", "oldest", "title"] as const;
-      const rawSort = String(req.query.sort || "newest");
-      const sort = SORT_ALLOWLIST.includes(rawSort as (typeof SORT_ALLOWLIST)[number])
-        ? rawSort
-        : "newest";
-      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "20")), 1), 100);
-      const offset = Math.max(parseInt(String(req.query.offset || "0")), 0);
+  app.get("/api/admin/mailer", requireAuth, requireRole("admin"), (_req, res) => {
+    const mailer = getMailer();
+    res.json({ configured: !!mailer, transport: mailer?.name ?? null });
+  });
 
-      const { adrs, projects, projectMembers } = await import("@shared/schema");
-      const { eq, and, or, ilike, gte, lte, desc, asc, inArray } = await import("drizzle-orm");
+  // ── LDAP directory ───────────────────────────────────────────────────────────
+
+  app.get("/api/admin/ldap", requireAuth, requireRole("admin"), async (_req, res) => {
+    const s = getLdapSettings();
+    if (!s) return res.json({ configured: false });
+    res.json({
+      configured: true,
+      url: s.url,
+      userSearchBase: s.userSearchBase,
+      serviceAccount: !!s.serviceBindDn,
+      syncIntervalMinutes: s.syncIntervalMinutes,
+      roleMappings: s.mappings.roles.size,
+      projectMappings: s.mappings.projects.length,
+      lastSync: getLastLdapSync(),
+    });
+  });
 
-      // First get projects user has access to
-      let accessibleProjectIds: number[];
-      if (req.user!.role === "admin") {
-        const allProjects = await db.select({ id: projects.id }).from(projects);
-        accessibleProjectIds = allProjects.map((p) => p.id);
-      } else {
-        const memberships = await db
-          .select({ projectId: projectMembers.projectId })
-          .from(projectMembers)
-          .where(eq(projectMembers.userId, req.user!.id));
-        accessibleProjectIds = memberships.map((m) => m.projectId);
+  app.post("/api/admin/ldap/test", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const s = getLdapSettings();
+      if (!s) return res.status(400).json({ message: "LDAP is not configured" });
+      const parsed = ldapTestBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
+      const steps = await testLdapConfig(s, parsed.data.username, parsed.data.password);
+      res.json({ ok: steps.every((step) => step.ok), steps });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
 
-      if (accessibleProjectIds.length === 0) {
-        return res.json([]);
-      }
+  app.post("/api/admin/ldap/sync", requireAuth, requireRole("admin"), async (_req, res) => {
+    try {
+      const s = getLdapSettings();
+      if (!s) return res.status(400).json({ message: "LDAP is not configured" });
+      const result = await syncLdapUsers(s);
+      if (result.error) return res.status(502).json({ message: result.error, result });
+      res.json(result);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
 
-      let query = db
-        .select({
-          id: adrs.id,
-          adrNumber: adrs.adrNumber,
-          title: adrs.title,
-          status: adrs.status,
-          context: adrs.context,
-          decision: adrs.decision,
-          consequences: adrs.consequences,
-          team: adrs.team,
-          tags: adrs.tags,
-          author: adrs.author,
-          createdAt: adrs.createdAt,
-          updatedAt: adrs.updatedAt,
-          projectId: adrs.projectId,
-          projectKey: projects.key,
-          projectName: projects.name,
-        })
-        .from(adrs)
-        .innerJoin(projects, eq(adrs.projectId, projects.id))
-        .$dynamic();
+  // ── API Tokens ───────────────────────────────────────────────────────────────
 
-      const conditions = [inArray(adrs.projectId, accessibleProjectIds)];
+  // Tokens are managed from an interactive session only, so a leaked token cannot mint more
+  const rejectApiToken = (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiToken) return res.status(403).json({ message: "API tokens cannot be used to manage API tokens" });
+    next();
+  };
+  const safeToken = ({ tokenHash: _, ...token }: ApiToken) => token;
 
-      if (projectId) {
-        conditions.push(eq(adrs.projectId, parseInt(String(projectId))));
-      }
-      if (status) {
-        conditions.push(eq(adrs.status, String(status)));
-      }
-      if (team) {
-        conditions.push(eq(adrs.team, String(team)));
-      }
-      if (author) {
-        conditions.push(eq(adrs.author, String(author)));
-      }
-      if (from) {
-        conditions.push(gte(adrs.createdAt, new Date(String(from))));
-      }
-      if (to) {
-        conditions.push(lte(adrs.createdAt, new Date(String(to))));
-      }
-      if (tag) {
-        conditions.push(ilike(adrs.tags, `%${String(tag)}%`));
-      }
-      if (q) {
-        const searchTerm = String(q);
-        conditions.push(
-          or(
-            ilike(adrs.title, `%${searchTerm}%`),
-            ilike(adrs.context, `%${searchTerm}%`),
-            ilike(adrs.decision, `%${searchTerm}%`),
-            ilike(adrs.consequences, `%${searchTerm}%`)
-          )!
-        );
+  app.get("/api/tokens", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.user!.id);
+      res.json(tokens.map(safeToken));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/tokens", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const parsed = createApiTokenBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
+      const { name, scope, expiresInDays } = parsed.data;
+      const { secret, tokenHash, tokenPrefix } = generateApiToken();
+      const token = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        scope,
+        tokenHash,
+        tokenPrefix,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      await logAudit({
+        entityType: "api_token",
+        entityId: token.id,
+        action: "created",
+        performedBy: req.user!,
+        metadata: { name, scope, expiresAt: token.expiresAt, userId: req.user!.id },
+      });
+      // The plaintext secret is returned once and never stored
+      res.status(201).json({ ...safeToken(token), token: secret });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
 
-      query = query.where(and(...conditions));
+  app.delete("/api/tokens/:id", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const token = await storage.revokeApiToken(parseInt(String(req.params.id)), req.user!.id);
+      if (!token) return res.status(404).json({ message: "Token not found" });
+      await logAudit({
+        entityType: "api_token",
+        entityId: token.id,
+        action: "revoked",
+        performedBy: req.user!,
+        metadata: { name: token.name, userId: token.userId },
+      });
+      res.json({ message: "Token revoked" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
 
-      if (sort === "newest") {
-        query = query.orderBy(desc(adrs.createdAt));
-      } else if (sort === "oldest") {
-        query = query.orderBy(asc(adrs.createdAt));
-      } else if (sort === "title") {
-        query = query.orderBy(asc(adrs.title));
-      } else {
-        query = query.orderBy(desc(adrs.updatedAt));
-      }
+  // ── Two-Factor Authentication ────────────────────────────────────────────────
 
-      const results = await query
-        .limit(isNaN(limit) ? 20 : limit)
-        .offset(isNaN(offset) ? 0 : offset);
+  const rejectSsoAccount = (req: Request, res: Response, next: NextFunction) => {
+    if (!canEnrolTwoFactor(req.user!)) {
+      return res.status(400).json({ message: "Two-factor authentication is managed by your single sign-on provider" });
+    }
+    next();
+  };
 
-      res.json(results);
+  app.get("/api/auth/2fa", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const user = req.user!;
+      res.json({
+        available: canEnrolTwoFactor(user),
+        enabled: isTwoFactorEnabled(user),
+        enabledAt: user.totpEnabledAt,
+        recoveryCodesRemaining: isTwoFactorEnabled(user) ? await storage.countRecoveryCodes(user.id) : 0,
+      });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Architecture Diagrams (per ADR) ─────────────────────────────────────────
-
-  app.get("/api/projects/:projectId/adrs/:adrId/diagrams", requireAuth, requireProjectAccess("viewer"), async (req, res) => {
+  app.post("/api/auth/2fa/setup", requireAuth, rejectApiToken, rejectSsoAccount, async (req, res) => {
     try {
-      const adrId = parseInt(req.params.adrId);
-      const diagrams = await storage.getAdrDiagrams(adrId);
-      res.json(diagrams);
+      if (isTwoFactorEnabled(req.user!)) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      res.json(await beginTotpEnrolment(req.user!));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/projects/:projectId/adrs/:adrId/diagrams", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  app.post("/api/auth/2fa/enable", requireAuth, rejectApiToken, rejectSsoAccount, async (req, res) => {
     try {
-      const adrId = parseInt(req.params.adrId);
-      const schema = z.object({
-        name: z.string().min(1).max(255),
-        diagramData: z.string(),
-      });
-      const parsed = schema.safeParse(req.body);
+      const parsed = twoFactorCodeBody.safeParse(req.body);
       if (!parsed.success) {
-        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const diagram = await storage.createDiagram({
-        adrId,
-        name: parsed.data.name,
-        diagramData: parsed.data.diagramData,
-        createdBy: req.user!.displayName,
-      });
+      const user = req.user!;
+      if (isTwoFactorEnabled(user)) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start the setup before confirming a code" });
+      }
+      if (!(await verifyTotpCode(user, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      await storage.enableTotp(user.id);
+      const recoveryCodes = await generateRecoveryCodes(user.id);
       await logAudit({
-        entityType: "diagram",
-        entityId: diagram.id,
-        action: "created",
-        performedBy: req.user!.displayName,
-        metadata: { adrId, name: diagram.name },
+        entityType: "user",
+        entityId: user.id,
+        action: "2fa_enrolled",
+        performedBy: user,
       });
-      res.status(201).json(diagram);
+      res.json({ recoveryCodes });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.patch("/api/projects/:projectId/adrs/:adrId/diagrams/:id", requireAuth, requireProjectAccess("editor"), async (req, res) => {
+  // Issuing new codes invalidates every earlier one
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, rejectApiToken, rejectSsoAccount, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const schema = z.object({
-        name: z.string().min(1).max(255).optional(),
-        diagramData: z.string().optional(),
-      });
-      const parsed = schema.safeParse(req.body);
+      const parsed = twoFactorCodeBody.safeParse(req.body);
       if (!parsed.success) {
-        return res.status(400).json({ message: "Validation failed", errors: parsed.error });
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const diagram = await storage.updateDiagram(id, parsed.data);
-      if (!diagram) return res.status(404).json({ message: "Diagram not found" });
+      const user = req.user!;
+      if (!isTwoFactorEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifyTotpCode(user, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      const recoveryCodes = await generateRecoveryCodes(user.id);
       await logAudit({
-        entityType: "diagram",
-        entityId: id,
-        action: "updated",
-        performedBy: req.user!.displayName,
+        entityType: "user",
+        entityId: user.id,
+        action: "recovery_codes_regenerated",
+        performedBy: user,
       });
-      res.json(diagram);
+      res.json({ recoveryCodes });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.delete("/api/projects/:projectId/adrs/:adrId/diagrams/:id", requireAuth, requireProjectAccess("admin"), async (req, res) => {
+  app.post("/api/auth/2fa/disable", requireAuth, rejectApiToken, rejectSsoAccount, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteDiagram(id);
-      if (!deleted) return res.status(404).json({ message: "Diagram not found" });
+      const parsed = twoFactorCodeBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
+      }
+      const user = req.user!;
+      if (!isTwoFactorEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(user, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid authentication or recovery code" });
+      }
+      await storage.disableTotp(user.id);
       await logAudit({
-        entityType: "diagram",
-        entityId: id,
-        action: "deleted",
-        performedBy: req.user!.displayName,
+        entityType: "user",
+        entityId: user.id,
+        action: "2fa_disabled",
+        performedBy: user,
       });
-      res.json({ message: "Diagram deleted" });
+      res.json({ message: "Two-factor authentication disabled" });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Audit Logs ──────────────────────────────────────────────────────────────
+  // ── Email notifications ─────────────────────────────────────────────────────
 
-  app.get("/api/audit-logs", requireAuth, requireRole("admin"), async (req, res) => {
+  app.get("/api/auth/email-settings", requireAuth, rejectApiToken, (req, res) => {
+    const user = req.user!;
+    res.json({ email: user.email, emailDelivery: user.emailDelivery, mailConfigured: !!getMailer() });
+  });
+
+  app.patch("/api/auth/email-settings", requireAuth, rejectApiToken, async (req, res) => {
     try {
-      const { entityType, action, performedBy, from, to } = req.query;
-      const auditLimit = Math.min(Math.max(parseInt(String(req.query.limit || "50")), 1), 200);
-      const auditOffset = Math.max(parseInt(String(req.query.offset || "0")), 0);
-      
-      const { auditLogs } = await import("@shared/schema");
-      const { eq, and, gte, lte, desc } = await import("drizzle-orm");
-      
-      let query = db.select().from(auditLogs).$dynamic();
-      
-      const conditions = [];
-      if (entityType) conditions.push(eq(auditLogs.entityType, String(entityType)));
-      if (action) conditions.push(eq(auditLogs.action, String(action)));
-      if (performedBy) conditions.push(eq(auditLogs.performedBy, String(performedBy)));
-      if (from) conditions.push(gte(auditLogs.performedAt, new Date(String(from))));
-      if (to) conditions.push(lte(auditLogs.performedAt, new Date(String(to))));
-      
-      if (conditions.length > 0) {
-        query = query.where(and(...conditions));
+      const parsed = emailSettingsBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      
-      const logs = await query
-        .orderBy(desc(auditLogs.performedAt))
-        .limit(isNaN(auditLimit) ? 50 : auditLimit)
-        .offset(isNaN(auditOffset) ? 0 : auditOffset);
-      
-      res.json(logs);
+      const before = req.user!;
+      const user = await storage.updateUser(before.id, parsed.data);
+      if (!user) return res.status(404).json({ message: "User not found" });
+      // Notifications held for a digest that will no longer be sent
+      const digest = (u: User) => !!u.email && (u.emailDelivery === "daily" || u.emailDelivery === "weekly");
+      if (digest(before) && !digest(user)) await clearPendingDigest(user.id);
+
+      const changes: Record<string, { before: unknown; after: unknown }> = {};
+      if (before.email !== user.email) changes.email = { before: before.email, after: user.email };
+      if (before.emailDelivery !== user.emailDelivery) {
+        changes.emailDelivery = { before: before.emailDelivery, after: user.emailDelivery };
+      }
+      if (Object.keys(changes).length > 0) {
+        await logAudit({
+          entityType: "user",
+          entityId: user.id,
+          action: "email_settings_updated",
+          performedBy: user,
+          changes,
+        });
+      }
+      res.json(toSafeUser(user));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  // ── Users ────────────────────────────────────────────────────────────────────
+  // ── Notification preferences ────────────────────────────────────────────────
 
-  app.get("/api/users", requireAuth, requireRole("admin"), async (_req, res) => {
+  // Every channel is on until the user switches it off
+  const resolvePreferences = (rows: NotificationPreference[]) =>
+    Object.fromEntries(notificationEventEnum.map((event) => {
+      const row = rows.find((r) => r.event === event);
+      return [event, { inApp: row?.inApp ?? true, email: row?.email ?? true }];
+    })) as Record<NotificationEvent, { inApp: boolean; email: boolean }>;
+
+  // One entry per project the user is notified about, i.e. where they are a member
+  app.get("/api/notification-preferences", requireAuth, rejectApiToken, async (req, res) => {
     try {
-      const allUsers = await storage.getUsers();
-      res.json(allUsers.map(({ password, ...u }) => u));
+      const user = req.user!;
+      const [projectList, rows] = await Promise.all([
+        storage.getProjects(user.id, false),
+        storage.getNotificationPreferences(user.id),
+      ]);
+      res.json(projectList.map((project) => ({
+        projectId: project.id,
+        projectKey: project.key,
+        projectName: project.name,
+        preferences: resolvePreferences(rows.filter((r) => r.projectId === project.id)),
+      })));
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.post("/api/users", requireAuth, requireRole("admin"), async (req, res) => {
+  app.put("/api/notification-preferences/:projectId", requireAuth, rejectApiToken, requireProjectAccess(), async (req, res) => {
     try {
-      const { username, password, displayName, role } = req.body;
-      if (!username || !password || !displayName || !role) {
-        return res.status(400).json({ message: "All fields are required" });
+      const parsed = notificationPreferencesBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      if (username.length < 3) {
-        return res.status(400).json({ message: "Username must be at least 3 characters" });
+      const projectId = parseInt(String(req.params.projectId));
+      await storage.setNotificationPreferences(req.user!.id, projectId, parsed.data.preferences);
+      const rows = await storage.getNotificationPreferences(req.user!.id);
+      res.json({ projectId, preferences: resolvePreferences(rows.filter((r) => r.projectId === projectId)) });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ADRs the user explicitly watches or has muted, in projects they can still open
+  app.get("/api/watches", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const user = req.user!;
+      const watches = await storage.getUserAdrWatches(user.id);
+      if (user.role === "admin") return res.json(watches);
+      const projectIds = new Set(await storage.getAccessibleProjectIds(user.id));
+      res.json(watches.filter((w) => projectIds.has(w.adr.projectId)));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // ── Passwords ────────────────────────────────────────────────────────────────
+
+  app.post("/api/auth/password", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const parsed = changePasswordBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      if (password.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      const user = req.user!;
+      const external = passwordManagedExternally(user);
+      if (external) return res.status(400).json({ message: external });
+      const { currentPassword, newPassword } = parsed.data;
+      if (!(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
       }
-      if (!userRoleEnum.includes(role)) {
-        return res.status(400).json({ message: "Invalid role" });
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ message: "The new password must be different from the current one" });
       }
-      const existing = await storage.getUserByUsername(username);
-      if (existing) return res.status(409).json({ message: "Username already taken" });
-
-      const hashedPassword = await hashPassword(password);
-      const user = await storage.createUser({ username, password: hashedPassword, displayName, role });
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+      // Sign out every other browser; this one stays logged in
+      const sessionsRevoked = await storage.deleteUserSessions(user.id, req.sessionID);
       await logAudit({
         entityType: "user",
         entityId: user.id,
-        action: "created",
-        performedBy: req.user!.displayName,
-        metadata: { username, role },
+        action: "password_changed",
+        performedBy: user,
+        metadata: { sessionsRevoked },
       });
-      const { password: _, ...safeUser } = user;
-      res.status(201).json(safeUser);
+      res.json({ message: "Password changed", sessionsRevoked });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.patch("/api/users/:id/role", requireAuth, requireRole("admin"), async (req, res) => {
+  // Public: lets the reset page greet the user before they choose a password.
+  // The token travels in the query string so it stays out of the request log.
+  app.get("/api/auth/password-reset", async (req, res) => {
     try {
-      const { role } = req.body;
-      if (!role || !userRoleEnum.includes(role)) {
-        return res.status(400).json({ message: "Invalid role" });
+      const token = await findUsableResetToken(String(req.query.token ?? ""));
+      const user = token && (await storage.getUser(token.userId));
+      if (!token || !user || !user.active) {
+        return res.status(404).json({ message: "This reset link is invalid or has expired" });
       }
-      if (req.params.id === req.user!.id) {
-        return res.status(400).json({ message: "Cannot change your own role" });
+      res.json({ username: user.username, displayName: user.displayName, expiresAt: token.expiresAt });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.post("/api/auth/password-reset", async (req, res) => {
+    try {
+      const parsed = passwordResetBody.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.flatten() });
       }
-      const user = await storage.updateUserRole(req.params.id, role);
-      if (!user) return res.status(404).json({ message: "User not found" });
+      const token = await storage.consumePasswordResetToken(hashResetToken(parsed.data.token));
+      const user = token && (await storage.getUser(token.userId));
+      if (!token || !user || !user.active || passwordManagedExternally(user)) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      await storage.updateUser(user.id, { password: await hashPassword(parsed.data.newPassword) });
+      // The new password should work straight away, even if the account was locked by failed guesses
+      await storage.clearLoginThrottle("username", normaliseUsername(user.username));
+      const sessionsRevoked = await storage.deleteUserSessions(user.id);
       await logAudit({
         entityType: "user",
         entityId: user.id,
-        action: "role_updated",
-        performedBy: req.user!.displayName,
-        changes: { role: { after: role } },
+        action: "password_reset",
+        performedBy: user,
+        metadata: { issuedBy: token.createdBy, sessionsRevoked },
       });
-      const { password: _, ...safeUser } = user;
-      res.json(safeUser);
+      res.json({ message: "Password updated. You can now sign in with your new password." });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
   });
 
-  app.delete("/api/users/:id", requireAuth, requireRole("admin"), async (req, res) => {
+  // ── Sessions ─────────────────────────────────────────────────────────────────
+
+  app.get("/api/auth/sessions", requireAuth, rejectApiToken, async (req, res) => {
     try {
-      if (req.params.id === req.user!.id) {
-        return res.status(400).json({ message: "Cannot delete your own account" });
+      res.json(await listUserSessions(req.user!.id, req.sessionID));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const publicId = String(req.params.id);
+      if (publicId === sessionPublicId(req.sessionID)) {
+        return res.status(400).json({ message: "Use sign out to end the current session" });
       }
-      const userId = req.params.id;
-      const deleted = await storage.deleteUser(userId);
-      if (!deleted) return res.status(404).json({ message: "User not found" });
+      const revoked = await revokeUserSession(req.user!.id, publicId);
+      if (!revoked) return res.status(404).json({ message: "Session not found" });
       await logAudit({
         entityType: "user",
-        entityId: userId,
-        action: "deleted",
-        performedBy: req.user!.displayName,
+        entityId: req.user!.id,
+        action: "session_revoked",
+        performedBy: req.user!,
+        metadata: { sessionsRevoked: 1 },
       });
-      res.json({ message: "User deleted" });
+      res.json({ message: "Session revoked" });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
+    }
+  });
+
+  // Sign out every other browser; this one stays logged in
+  app.delete("/api/auth/sessions", requireAuth, rejectApiToken, async (req, res) => {
+    try {
+      const sessionsRevoked = await storage.deleteUserSessions(req.user!.id, req.sessionID);
+      if (sessionsRevoked > 0) {
+        await logAudit({
+          entityType: "user",
+          entityId: req.user!.id,
+          action: "session_revoked",
+          performedBy: req.user!,
+          metadata: { sessionsRevoked },
+        });
+      }
+      res.json({ message: "Other sessions signed out", sessionsRevoked });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Internal server error"; res.status(500).json({ message: msg });
     }
@@ -0,0 +1,251 @@
+import { sql, type SQL, and, or, eq, gte, lte, desc, asc, inArray, arrayContains, arrayOverlaps, isNotNull } from "drizzle-orm";
+import { db } from "./db";
+import { adrs, projects, adrSearchVector, adrSearchText, stripHtml, actorName } from "@shared/schema";
+
+// Keep the highlight markers in sync with the client's snippet renderer
+const headlineOptions =
+  'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "';
+
+function lexemes(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^0-9a-z\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Translate the search box syntax into a `to_tsquery` expression:
+ * `"exact phrase"`, `-excluded`, `prefix*` and `OR` between terms;
+ * everything else is ANDed. Returns null when nothing searchable is left.
+ */
+export function buildTsQuery(input: string): string | null {
+  const parts: string[] = [];
+  let nextOperator = "&";
+  const tokenPattern = /(-?)"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(input)) !== null) {
+    let negated = match[1] === "-";
+    let term: string;
+    let prefix = false;
+    if (match[2] !== undefined) {
+      term = match[2];
+    } else {
+      term = match[3];
+      if (term === "OR" || term === "|") {
+        if (parts.length > 0) nextOperator = "|";
+        continue;
+      }
+      if (term.startsWith("-") && term.length > 1) {
+        negated = true;
+        term = term.slice(1);
+      }
+      prefix = term.endsWith("*");
+    }
+
+    const words = lexemes(term);
+    if (words.length === 0) continue;
+    if (prefix) words[words.length - 1] += ":*";
+    let expr = words.length > 1 ? `(${words.join(" <-> ")})` : words[0];
+    if (negated) expr = `!${expr}`;
+
+    if (parts.length > 0) parts.push(nextOperator);
+    parts.push(expr);
+    nextOperator = "&";
+  }
+
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+export function adrSearchQuery(tsQuery: string): SQL {
+  return sql`to_tsquery('english', ${tsQuery})`;
+}
+
+/** Highlighted excerpt of the HTML-stripped body, or its opening when there is no query. */
+export function adrSnippet(tsQuery: string | null): SQL<string> {
+  if (!tsQuery) {
+    return sql<string>`left(${stripHtml(adrs.context)}, 400)`;
+  }
+  return sql<string>`ts_headline('english', ${adrSearchText(adrs)}, ${adrSearchQuery(tsQuery)}, ${headlineOptions})`;
+}
+
+const entities: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+/** Decode the entities tiptap writes, and collapse whitespace left by stripped tags. */
+export function cleanSnippet(snippet: string): string {
+  return snippet
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => entities[entity])
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export const searchSortOptions = ["relevance", "newest", "oldest", "title"] as const;
+export type SearchSort = typeof searchSortOptions[number];
+
+export interface SearchFilters {
+  q?: string;
+  statuses: string[];
+  teams: string[];
+  tags: string[];
+  tagMode: "any" | "all";
+  authors: string[];
+  projectIds: number[];
+  from?: Date;
+  to?: Date;
+  sort: SearchSort;
+  limit: number;
+  offset: number;
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type SearchFacet = "status" | "team" | "tag" | "author" | "project";
+
+// Authors are keyed by user ID; ADRs without one (imports, unmatched legacy rows) by name
+const authorKey = sql<string>`coalesce(${adrs.authorId}, ${adrs.author})`;
+const authorName = actorName(adrs.authorId, adrs.author);
+
+/**
+ * Run a search over the given projects. Each facet is counted with every
+ * filter applied except its own, so the UI can show how many results
+ * picking another value of the same filter would give.
+ */
+export async function searchAdrs(filters: SearchFilters, accessibleProjectIds: number[]) {
+  const tsQuery = filters.q ? buildTsQuery(filters.q) : null;
+  const searchVector = adrSearchVector(adrs);
+  const rank = tsQuery
+    ? sql<number>`ts_rank(${searchVector}, ${adrSearchQuery(tsQuery)})`
+    : sql<number>`0`;
+
+  const base: SQL[] = [inArray(adrs.projectId, accessibleProjectIds)];
+  if (filters.from) base.push(gte(adrs.createdAt, filters.from));
+  if (filters.to) base.push(lte(adrs.createdAt, filters.to));
+  if (tsQuery) base.push(sql`${searchVector} @@ ${adrSearchQuery(tsQuery)}`);
+
+  const faceted: Record<SearchFacet, SQL | undefined> = {
+    status: filters.statuses.length > 0 ? inArray(adrs.status, filters.statuses) : undefined,
+    team: filters.teams.length > 0 ? inArray(adrs.team, filters.teams) : undefined,
+    tag: filters.tags.length === 0
+      ? undefined
+      : filters.tagMode === "all"
+        ? arrayContains(adrs.tags, filters.tags)
+        : arrayOverlaps(adrs.tags, filters.tags),
+    // Names are still accepted so links from before authors were keyed by ID keep working
+    author: filters.authors.length > 0
+      ? or(inArray(authorKey, filters.authors), inArray(authorName, filters.authors))
+      : undefined,
+    project: filters.projectIds.length > 0 ? inArray(adrs.projectId, filters.projectIds) : undefined,
+  };
+
+  const where = (except?: SearchFacet) =>
+    and(
+      ...base,
+      ...(Object.keys(faceted) as SearchFacet[])
+        .filter((facet) => facet !== except)
+        .map((facet) => faceted[facet])
+        .filter((condition): condition is SQL => condition !== undefined)
+    );
+
+  const orderBy =
+    filters.sort === "relevance" && tsQuery ? [desc(rank), desc(adrs.updatedAt)]
+    : filters.sort === "oldest" ? [asc(adrs.createdAt)]
+    : filters.sort === "title" ? [asc(adrs.title)]
+    : filters.sort === "newest" ? [desc(adrs.createdAt)]
+    : [desc(adrs.updatedAt)];
+
+  const countBy = (column: typeof adrs.status | typeof adrs.team, facet: SearchFacet) =>
+    db
+      .select({ value: column, count: sql<number>`count(*)::int` })
+      .from(adrs)
+      .where(and(where(facet), isNotNull(column)))
+      .groupBy(column)
+      .orderBy(desc(sql`count(*)`));
+
+  const tagRows = db
+    .select({ tag: sql<string>`unnest(${adrs.tags})`.as("tag") })
+    .from(adrs)
+    .where(where("tag"))
+    .as("tag_rows");
+
+  const authorRows = db
+    .select({ key: authorKey.as("author_key"), name: authorName.as("author_name") })
+    .from(adrs)
+    .where(where("author"))
+    .as("author_rows");
+
+  const [results, [{ total }], statusCounts, teamCounts, authorCounts, tagCounts, projectCounts] = await Promise.all([
+    db
+      .select({
+        id: adrs.id,
+        adrNumber: adrs.adrNumber,
+        title: adrs.title,
+        status: adrs.status,
+        context: adrs.context,
+        decision: adrs.decision,
+        consequences: adrs.consequences,
+        team: adrs.team,
+        tags: adrs.tags,
+        authorId: adrs.authorId,
+        author: authorName,
+        createdAt: adrs.createdAt,
+        updatedAt: adrs.updatedAt,
+        projectId: adrs.projectId,
+        projectKey: projects.key,
+        projectName: projects.name,
+        rank,
+        snippet: adrSnippet(tsQuery),
+      })
+      .from(adrs)
+      .innerJoin(projects, eq(adrs.projectId, projects.id))
+      .where(where())
+      .orderBy(...orderBy)
+      .limit(filters.limit)
+      .offset(filters.offset),
+    db.select({ total: sql<number>`count(*)::int` }).from(adrs).where(where()),
+    countBy(adrs.status, "status"),
+    countBy(adrs.team, "team"),
+    db
+      .select({ value: authorRows.key, label: authorRows.name, count: sql<number>`count(*)::int` })
+      .from(authorRows)
+      .groupBy(authorRows.key, authorRows.name)
+      .orderBy(desc(sql`count(*)`)),
+    db
+      .select({ value: tagRows.tag, count: sql<number>`count(*)::int` })
+      .from(tagRows)
+      .groupBy(tagRows.tag)
+      .orderBy(desc(sql`count(*)`)),
+    db
+      .select({ id: adrs.projectId, key: projects.key, name: projects.name, count: sql<number>`count(*)::int` })
+      .from(adrs)
+      .innerJoin(projects, eq(adrs.projectId, projects.id))
+      .where(where("project"))
+      .groupBy(adrs.projectId, projects.key, projects.name)
+      .orderBy(projects.key),
+  ]);
+
+  const toFacet = (rows: { value: string | null; count: number }[]): FacetCount[] =>
+    rows.map((r) => ({ value: r.value ?? "", label: r.value ?? "", count: r.count }));
+
+  return {
+    results: results.map((r) => ({ ...r, snippet: cleanSnippet(r.snippet ?? "") })),
+    total,
+    facets: {
+      status: toFacet(statusCounts),
+      team: toFacet(teamCounts),
+      tag: toFacet(tagCounts),
+      author: authorCounts.map((a) => ({ value: a.value, label: a.label, count: a.count })),
+      project: projectCounts.map((p) => ({ value: String(p.id), label: `${p.key} · ${p.name}`, count: p.count })),
+    } satisfies Record<SearchFacet, FacetCount[]>,
+  };
+}
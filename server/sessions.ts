@@ -0,0 +1,85 @@
+import { createHash } from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import { storage, type StoredSession } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    // Shown to the user in their list of active sessions
+    meta?: { createdAt: number; lastSeenAt: number; ip: string; userAgent: string };
+  }
+}
+
+// Writing the session on every request would cost a DB round-trip each time
+const ACTIVITY_RESOLUTION_MS = 60 * 1000;
+
+export interface SessionInfo {
+  id: string;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  current: boolean;
+}
+
+/**
+ * Public handle for a session. The raw session ID never leaves the server,
+ * so listing sessions cannot leak anything usable as a cookie.
+ */
+export function sessionPublicId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+/** Record where and when a session was signed in; call right after `req.login`. */
+export function stampSession(req: Request): void {
+  const now = Date.now();
+  req.session.meta = {
+    createdAt: now,
+    lastSeenAt: now,
+    ip: req.ip || "unknown",
+    userAgent: String(req.headers["user-agent"] ?? "").slice(0, 512),
+  };
+}
+
+/** Keeps last-activity time, IP and user agent of signed-in sessions current. */
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated?.() && req.session) {
+    const meta = req.session.meta;
+    if (!meta) {
+      // Sessions signed in before activity tracking existed
+      stampSession(req);
+    } else if (Date.now() - meta.lastSeenAt >= ACTIVITY_RESOLUTION_MS) {
+      meta.lastSeenAt = Date.now();
+      meta.ip = req.ip || meta.ip;
+    }
+  }
+  next();
+}
+
+function toSessionInfo(row: StoredSession, currentSid?: string): SessionInfo {
+  const meta = row.sess.meta as { createdAt?: number; lastSeenAt?: number; ip?: string; userAgent?: string } | undefined;
+  return {
+    id: sessionPublicId(row.sid),
+    createdAt: meta?.createdAt ? new Date(meta.createdAt).toISOString() : null,
+    lastSeenAt: meta?.lastSeenAt ? new Date(meta.lastSeenAt).toISOString() : null,
+    expiresAt: row.expire.toISOString(),
+    ip: meta?.ip ?? null,
+    userAgent: meta?.userAgent || null,
+    current: row.sid === currentSid,
+  };
+}
+
+/** Active sessions of a user, most recently used first. */
+export async function listUserSessions(userId: string, currentSid?: string): Promise<SessionInfo[]> {
+  const rows = await storage.getUserSessions(userId);
+  return rows
+    .map((row) => toSessionInfo(row, currentSid))
+    .sort((a, b) => (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+}
+
+/** Delete one of the user's sessions by its public ID; false when it does not belong to them. */
+export async function revokeUserSession(userId: string, publicId: string): Promise<boolean> {
+  const rows = await storage.getUserSessions(userId);
+  const match = rows.find((row) => sessionPublicId(row.sid) === publicId);
+  return match ? storage.deleteSession(match.sid) : false;
+}
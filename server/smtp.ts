@@ -0,0 +1,170 @@
+import net from "node:net";
+import tls from "node:tls";
+import os from "node:os";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // Send credentials even when the connection could not be encrypted
+  allowInsecureAuth?: boolean;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+/**
+ * One SMTP conversation. Replies are read line by line; a reply is complete
+ * at the first line whose code is followed by a space rather than a dash.
+ */
+class SmtpSession {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+    socket.on("data", (chunk: Buffer) => this.receive(chunk.toString("utf8")));
+    socket.on("error", (err) => this.fail(err));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private receive(data: string) {
+    this.buffer += data;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines.map((l) => l.slice(4)) };
+        this.lines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(err: Error) {
+    this.failure ??= err;
+    this.waiting?.reject(err);
+    this.waiting = null;
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiting = { resolve, reject }; });
+  }
+
+  async expect(codes: number[], command?: string): Promise<SmtpReply> {
+    if (command !== undefined) this.socket.write(`${command}\r\n`);
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      const shown = command?.startsWith("AUTH") ? "AUTH" : command ?? "greeting";
+      throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  /** Swap the plain socket for TLS after a successful STARTTLS. */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("close");
+    plain.removeAllListeners("error");
+    plain.setTimeout(0);
+    const secure = tls.connect({ socket: plain, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const connected = () => {
+      socket.removeListener("error", reject);
+      clearTimeout(timer);
+      resolve(socket);
+    };
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, connected)
+      : net.connect({ host: options.host, port: options.port }, connected);
+    socket.once("error", reject);
+    const timer = setTimeout(() => socket.destroy(new Error("SMTP connection timed out")), TIMEOUT_MS);
+  });
+}
+
+// A line starting with a dot would otherwise end the message early
+function dotStuff(data: string): string {
+  return data.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+}
+
+function envelopeAddress(value: string): string {
+  return /<([^>]+)>/.exec(value)?.[1] ?? value.trim();
+}
+
+/** Deliver one prepared RFC 5322 message to a single recipient. */
+export async function sendSmtp(options: SmtpOptions, from: string, to: string, data: string): Promise<void> {
+  const session = new SmtpSession(await connect(options));
+  try {
+    await session.expect([220]);
+    const hello = `EHLO ${os.hostname() || "localhost"}`;
+    const ehlo = await session.expect([250], hello);
+
+    let encrypted = options.secure;
+    if (!options.secure && ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+      await session.expect([220], "STARTTLS");
+      await session.upgrade(options.host);
+      await session.expect([250], hello);
+      encrypted = true;
+    }
+
+    if (options.user) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error("SMTP server does not offer STARTTLS; refusing to send credentials in clear text");
+      }
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ""}`).toString("base64");
+      await session.expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await session.expect([250], `MAIL FROM:<${envelopeAddress(from)}>`);
+    await session.expect([250, 251], `RCPT TO:<${envelopeAddress(to)}>`);
+    await session.expect([354], "DATA");
+    session.write(`${dotStuff(data)}\r\n.\r\n`);
+    await session.expect([250]);
+    await session.expect([221], "QUIT").catch(() => {});
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,131 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+
+// An in-process PostgreSQL with the app's schema stands in for the real database
+vi.mock("./db", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { generateDrizzleJson, generateMigration } = await import("drizzle-kit/api");
+  const schema = await import("@shared/schema");
+  const client = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  // Created by connect-pg-simple at runtime rather than by the schema
+  await client.exec(`CREATE TABLE "session" ("sid" varchar PRIMARY KEY, "sess" json NOT NULL, "expire" timestamp(6) NOT NULL)`);
+  return { db: drizzle(client, { schema }), pool: {} };
+});
+
+import { db } from "./db";
+import { storage } from "./storage";
+
+const {
+  users, projects, adrs, adrComments, notifications, emailQueue, webhooks, webhookDeliveries,
+  auditLogs, apiTokens, loginThrottles,
+} = schema;
+
+describe("anonymiseUser", () => {
+  let alice: schema.User;
+  let bob: schema.User;
+  let adrId: number;
+  let webhookId: number;
+
+  beforeAll(async () => {
+    [alice, bob] = await db.insert(users).values([
+      { username: "a.lice", password: "x", displayName: "Alice Liddell", email: "Alice@Example.org", role: "editor" },
+      { username: "bob", password: "x", displayName: "Bob Builder", email: "bob@example.org" },
+    ]).returning();
+    const [project] = await db.insert(projects).values({ name: "Platform", key: "PLAT", createdBy: bob.id }).returning();
+    [{ id: adrId }] = await db.insert(adrs).values({
+      projectId: project.id, adrNumber: 1, title: "Use PostgreSQL", context: "c", decision: "d", consequences: "e",
+      authorId: alice.id, author: alice.displayName,
+    }).returning();
+    [{ id: webhookId }] = await db.insert(webhooks).values({ projectId: project.id, url: "https://hooks.example.com", secret: "s" }).returning();
+
+    await db.insert(adrComments).values([
+      { adrId, content: "Agreed with @a.lice, see @a.lice.bob and x@a.lice", authorId: bob.id, author: bob.displayName },
+      { adrId, content: "Thanks @bob", authorId: alice.id, author: alice.displayName },
+    ]);
+    await db.insert(notifications).values([
+      { userId: bob.id, type: "comment", title: "Alice Liddell commented", body: "@A.LICE: looks good" },
+      { userId: alice.id, type: "comment", title: "Bob Builder commented", body: "Thanks @a.lice" },
+    ]);
+    await db.insert(emailQueue).values([
+      { userId: bob.id, recipient: "bob@example.org", subject: "Alice Liddell mentioned you", textBody: "Hi @a.lice.", htmlBody: "<p>Alice Liddell</p>" },
+      { recipient: "Alice <alice@example.org>", subject: "Digest", textBody: "Your weekly digest" },
+      { userId: alice.id, recipient: "alice@example.org", subject: "Review requested", textBody: "..." },
+    ]);
+    await db.insert(webhookDeliveries).values({
+      webhookId,
+      event: "comment.created",
+      payload: JSON.stringify({ actor: { displayName: "Alice Liddell" }, data: { mentions: ["a.lice"], content: "cc @a.lice" } }),
+    });
+    await db.insert(auditLogs).values([
+      { entityType: "adr", entityId: String(adrId), action: "created", performedById: alice.id, performedBy: alice.displayName, metadata: JSON.stringify({ author: "Alice Liddell" }) },
+      { entityType: "user", entityId: "a.lice", action: "locked_out", performedBy: "Login protection" },
+    ]);
+    await db.insert(apiTokens).values({ userId: alice.id, name: "CI", tokenHash: "h", tokenPrefix: "adrm_x" });
+    await db.insert(loginThrottles).values({ scope: "username", key: "a.lice", failures: 3 });
+    for (const user of [alice, bob]) {
+      await db.execute(sql`INSERT INTO "session" VALUES (${`sid-${user.username}`}, ${JSON.stringify({ passport: { user: user.id } })}, now() + interval '1 day')`);
+    }
+
+    await storage.anonymiseUser(alice.id, { username: "former-user-1", displayName: "Former user 1", password: "y" });
+  }, 120_000);
+
+  it("replaces the account's identity and disables it", async () => {
+    const user = await storage.getUser(alice.id);
+    expect(user).toMatchObject({ username: "former-user-1", displayName: "Former user 1", email: null, active: false });
+    expect(user!.anonymisedAt).toBeInstanceOf(Date);
+    expect(await db.select().from(apiTokens).where(eq(apiTokens.userId, alice.id))).toEqual([]);
+    expect(await db.select().from(loginThrottles)).toEqual([]);
+    expect(await storage.getUserSessions(alice.id)).toEqual([]);
+    expect(await storage.getUserSessions(bob.id)).toHaveLength(1);
+  });
+
+  it("renames authorship and audit entries", async () => {
+    const [adr] = await db.select().from(adrs).where(eq(adrs.id, adrId));
+    expect(adr.author).toBe("Former user 1");
+    const logs = await db.select().from(auditLogs).orderBy(auditLogs.id);
+    expect(logs[0]).toMatchObject({ performedBy: "Former user 1", metadata: '{"author":"Former user 1"}' });
+    expect(logs[1].entityId).toBe(alice.id);
+  });
+
+  it("rewrites @mentions in comments without touching longer usernames or email addresses", async () => {
+    const comments = await db.select().from(adrComments).orderBy(adrComments.id);
+    expect(comments[0].content).toBe("Agreed with @former-user-1, see @a.lice.bob and x@a.lice");
+    expect(comments[1].author).toBe("Former user 1");
+  });
+
+  it("scrubs other people's notifications and drops the user's own", async () => {
+    const rows = await db.select().from(notifications);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ userId: bob.id, title: "Former user 1 commented", body: "@former-user-1: looks good" });
+  });
+
+  it("scrubs queued mail naming the user and drops mail addressed to them", async () => {
+    const rows = await db.select().from(emailQueue);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      recipient: "bob@example.org",
+      subject: "Former user 1 mentioned you",
+      textBody: "Hi @former-user-1.",
+      htmlBody: "<p>Former user 1</p>",
+    });
+  });
+
+  it("scrubs webhook payloads", async () => {
+    const [delivery] = await db.select().from(webhookDeliveries);
+    expect(JSON.parse(delivery.payload)).toEqual({
+      actor: { displayName: "Former user 1" },
+      data: { mentions: ["former-user-1"], content: "cc @former-user-1" },
+    });
+  });
+
+  it("leaves other users alone", async () => {
+    expect(await storage.getUser(bob.id)).toMatchObject({ username: "bob", displayName: "Bob Builder", active: true });
+    const [comment] = await db.select().from(adrComments).where(eq(adrComments.authorId, alice.id));
+    expect(comment.content).toBe("Thanks @bob");
+  });
+});
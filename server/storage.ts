@@ -6,30 +6,122 @@ import {
   type User, type InsertUser,
   type Project, type InsertProject,
   type ProjectMember,
+  type ProjectRole, type InsertProjectRole, projectRoles,
+  type UserGroup, type InsertUserGroup, type UserGroupMember, type ProjectGroupGrant,
+  userGroups, userGroupMembers, projectGroupGrants,
   type ProjectRequirement, type InsertProjectRequirement,
   type AdrRequirementLink,
   type Attachment, type InsertAttachment,
   type Diagram, type InsertDiagram,
-  adrs, adrVersions, adrComments, adrRelations, users, projects, projectMembers,
-  projectRequirements, adrRequirementLinks, attachments, diagrams,
+  type WorkflowState, type WorkflowColor, type WorkflowCategory,
+  type AdrRelationType, adrRelationInverses,
+  type AdrReviewer, type AdrReview, type InsertAdrReview,
+  type ApiToken, type InsertApiToken, apiTokens,
+  recoveryCodes,
+  type PasswordResetToken, type InsertPasswordResetToken, passwordResetTokens, emailQueue,
+  type LoginThrottle, type LoginThrottleScope, loginThrottles,
+  auditLogs, notifications, actorName,
+  type NotificationPreference, notificationPreferences, type AdrWatch, adrWatches,
+  type Webhook, type InsertWebhook, type WebhookDelivery, webhooks, webhookDeliveries,
+  adrs, adrVersions, adrReviewers, adrReviews, adrComments, adrRelations, users, projects, projectMembers,
+  projectRequirements, adrRequirementLinks, attachments, diagrams, projectWorkflowStates,
+  defaultWorkflowStates, defaultWorkflowCategory, isMentionableUsername,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, or, and, inArray } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { eq, desc, sql, or, and, inArray, isNull, getTableColumns } from "drizzle-orm";
+
+// ─── Actor columns ───────────────────────────────────────────────────────────
+
+// Author and actor names are read from the users table, so renames show everywhere
+const adrColumns = { ...getTableColumns(adrs), author: actorName(adrs.authorId, adrs.author) };
+const versionColumns = { ...getTableColumns(adrVersions), changedBy: actorName(adrVersions.changedById, adrVersions.changedBy) };
+const commentColumns = { ...getTableColumns(adrComments), author: actorName(adrComments.authorId, adrComments.author) };
+const attachmentColumns = { ...getTableColumns(attachments), uploadedBy: actorName(attachments.uploadedById, attachments.uploadedBy) };
+const diagramColumns = { ...getTableColumns(diagrams), createdBy: actorName(diagrams.createdById, diagrams.createdBy) };
+
+// A PostgreSQL regex for `@username` as mentionPattern reads it: not part of a longer username
+function mentionRegex(username: string): string {
+  const escaped = username.replace(/[.+\\-]/g, "\\$&");
+  return `(^|[^[:alnum:]_@])@${escaped}(?![[:alnum:]_.+@-]*[[:alnum:]_])`;
+}
 
 // ─── Project Member with User info ───────────────────────────────────────────
 
-export type ProjectMemberWithUser = ProjectMember & {
+export type ProjectMemberGroupGrant = { groupId: number; groupName: string; role: string };
+
+// Everyone with access to a project, directly or through groups
+export type ProjectMemberWithUser = Omit<ProjectMember, "id"> & {
+  // Direct membership row; null when access comes from groups only
+  id: number | null;
+  directRole: string | null;
+  groups: ProjectMemberGroupGrant[];
   user: Pick<User, "id" | "username" | "displayName" | "role">;
 };
 
+export type UserGroupWithCounts = UserGroup & { memberCount: number; projectCount: number };
+
+export type UserGroupMemberWithUser = Pick<User, "id" | "username" | "displayName" | "active"> & { addedAt: Date };
+
+export type ProjectGroupGrantWithGroup = ProjectGroupGrant & { groupName: string; memberCount: number };
+
+export type UserGroupProjectGrant = ProjectGroupGrant & { projectName: string; projectKey: string };
+
+// Minimal view of an ADR as seen from a relation in any project
+export type AdrReference = Pick<Adr, "id" | "projectId" | "adrNumber" | "title" | "status" | "archived"> & {
+  projectKey: string;
+};
+
+// A row of connect-pg-simple's "session" table
+export type StoredSession = {
+  sid: string;
+  sess: Record<string, any>;
+  expire: Date;
+};
+
+// What an anonymised account is renamed to; the password is a fresh unusable hash
+export type AnonymisedIdentity = {
+  username: string;
+  displayName: string;
+  password: string;
+};
+
+export type AdrReviewerWithUser = AdrReviewer & {
+  user: Pick<User, "id" | "username" | "displayName">;
+};
+
+export type AdrReviewWithUser = AdrReview & {
+  reviewer: Pick<User, "id" | "username" | "displayName">;
+};
+
+export type NotificationPreferenceInput = Pick<NotificationPreference, "event" | "inApp" | "email">;
+
+export type AdrWatchWithAdr = AdrWatch & {
+  adr: Pick<Adr, "id" | "projectId" | "adrNumber" | "title" | "status"> & { projectKey: string; projectName: string };
+};
+
+// An ADR to import with its original number; relations refer to entries by index
+export type ImportedAdrInput = {
+  adr: InsertAdr;
+  adrNumber: number;
+  createdAt?: Date;
+};
+
+export type ImportedRelationInput = {
+  source: number;
+  target: number;
+  relationType: AdrRelationType;
+};
+
 // ─── Storage Interface ───────────────────────────────────────────────────────
 
 export interface IStorage {
   // Projects
   getProjects(userId: string, isGlobalAdmin: boolean): Promise<Project[]>;
   getProject(id: number): Promise<Project | undefined>;
+  getProjectByKey(key: string): Promise<Project | undefined>;
   createProject(data: InsertProject): Promise<Project>;
-  updateProject(id: number, data: Partial<Pick<Project, "name" | "description">>): Promise<Project | undefined>;
+  updateProject(id: number, data: Partial<Pick<Project, "name" | "description" | "reviewQuorum">>): Promise<Project | undefined>;
   deleteProject(id: number): Promise<boolean>;
 
   // Project Members
@@ -39,33 +131,147 @@ export interface IStorage {
   updateProjectMemberRole(projectId: number, userId: string, role: string): Promise<ProjectMember | undefined>;
   removeProjectMember(projectId: number, userId: string): Promise<boolean>;
 
+  // Effective project access (direct and group grants)
+  getProjectRoleGrants(projectId: number, userId: string): Promise<string[]>;
+  getAccessibleProjectIds(userId: string): Promise<number[]>;
+  getProjectUserIds(projectId: number): Promise<string[]>;
+
+  // User Groups
+  getUserGroups(): Promise<UserGroupWithCounts[]>;
+  getUserGroup(id: number): Promise<UserGroup | undefined>;
+  getUserGroupByName(name: string): Promise<UserGroup | undefined>;
+  createUserGroup(data: InsertUserGroup): Promise<UserGroup>;
+  updateUserGroup(id: number, data: Partial<Pick<UserGroup, "name" | "description">>): Promise<UserGroup | undefined>;
+  deleteUserGroup(id: number): Promise<boolean>;
+  getUserGroupMembers(groupId: number): Promise<UserGroupMemberWithUser[]>;
+  addUserGroupMembers(groupId: number, userIds: string[]): Promise<string[]>;
+  removeUserGroupMember(groupId: number, userId: string): Promise<boolean>;
+  getUserGroupGrants(groupId: number): Promise<UserGroupProjectGrant[]>;
+
+  // Project Group Grants
+  getProjectGroupGrants(projectId: number): Promise<ProjectGroupGrantWithGroup[]>;
+  getProjectGroupGrant(projectId: number, groupId: number): Promise<ProjectGroupGrant | undefined>;
+  addProjectGroupGrant(projectId: number, groupId: number, role: string): Promise<ProjectGroupGrant>;
+  updateProjectGroupGrant(projectId: number, groupId: number, role: string): Promise<ProjectGroupGrant | undefined>;
+  removeProjectGroupGrant(projectId: number, groupId: number): Promise<boolean>;
+
+  // Project Roles
+  getProjectRoles(projectId: number): Promise<ProjectRole[]>;
+  getProjectRole(projectId: number, key: string): Promise<ProjectRole | undefined>;
+  createProjectRole(role: InsertProjectRole): Promise<ProjectRole>;
+  updateProjectRole(projectId: number, key: string, data: Partial<Pick<ProjectRole, "name" | "description" | "permissions" | "statusTargets">>): Promise<ProjectRole | undefined>;
+  deleteProjectRole(projectId: number, key: string): Promise<boolean>;
+  // Direct memberships and group grants holding the role
+  countProjectMembersWithRole(projectId: number, role: string): Promise<number>;
+
+  // Project Workflow
+  getProjectWorkflow(projectId: number): Promise<WorkflowState[]>;
+  replaceProjectWorkflow(projectId: number, states: WorkflowState[]): Promise<WorkflowState[]>;
+  getProjectAdrStatuses(projectId: number): Promise<string[]>;
+
   // ADRs
   getAdrs(projectId: number): Promise<Adr[]>;
   getAdr(id: number, projectId: number): Promise<Adr | undefined>;
+  getAdrByReference(projectKey: string, adrNumber: number): Promise<Adr | undefined>;
+  getAdrReferences(ids: number[]): Promise<AdrReference[]>;
   createAdr(adr: InsertAdr): Promise<Adr>;
   updateAdr(id: number, data: Partial<InsertAdr>): Promise<Adr | undefined>;
   archiveAdr(id: number, reason: string): Promise<Adr | undefined>;
   getNextAdrNumber(projectId: number): Promise<number>;
+  getAdrNumbers(projectId: number): Promise<number[]>;
+  importAdrs(entries: ImportedAdrInput[], relations: ImportedRelationInput[]): Promise<Adr[]>;
 
   // Versions
   createVersion(version: InsertAdrVersion): Promise<AdrVersion>;
+  getVersion(id: number): Promise<AdrVersion | undefined>;
   getVersions(adrId: number): Promise<AdrVersion[]>;
 
+  // Reviews
+  getAdrReviewers(adrId: number): Promise<AdrReviewerWithUser[]>;
+  addAdrReviewer(adrId: number, userId: string, requestedBy: string): Promise<AdrReviewer>;
+  removeAdrReviewer(adrId: number, userId: string): Promise<boolean>;
+  getAdrReviews(adrId: number): Promise<AdrReviewWithUser[]>;
+  createAdrReview(data: InsertAdrReview): Promise<AdrReview>;
+  dismissAdrReviews(adrId: number): Promise<number>;
+
   // Comments
   getComments(adrId: number): Promise<AdrComment[]>;
   createComment(comment: InsertAdrComment): Promise<AdrComment>;
 
+  // Notification Preferences
+  getNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
+  getNotificationPreference(userId: string, projectId: number, event: string): Promise<NotificationPreference | undefined>;
+  setNotificationPreferences(userId: string, projectId: number, prefs: NotificationPreferenceInput[]): Promise<NotificationPreference[]>;
+
+  // Webhooks
+  getWebhooks(projectId: number): Promise<Webhook[]>;
+  getWebhook(id: number, projectId: number): Promise<Webhook | undefined>;
+  createWebhook(data: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: number, data: Partial<Pick<Webhook, "url" | "secret" | "events" | "active">>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: number, webhookId: number): Promise<WebhookDelivery | undefined>;
+
+  // ADR Watches
+  getAdrWatch(adrId: number, userId: string): Promise<AdrWatch | undefined>;
+  getAdrWatches(adrId: number): Promise<AdrWatch[]>;
+  getUserAdrWatches(userId: string): Promise<AdrWatchWithAdr[]>;
+  setAdrWatch(adrId: number, userId: string, watching: boolean): Promise<AdrWatch>;
+  deleteAdrWatch(adrId: number, userId: string): Promise<boolean>;
+
   // Relations
   getRelations(adrId: number): Promise<AdrRelation[]>;
+  getRelation(id: number): Promise<AdrRelation | undefined>;
+  findRelation(sourceAdrId: number, targetAdrId: number, relationType: string): Promise<AdrRelation | undefined>;
+  getRelationsByType(relationType: AdrRelationType): Promise<AdrRelation[]>;
   createRelation(relation: InsertAdrRelation): Promise<AdrRelation>;
+  deleteRelation(id: number): Promise<AdrRelation | undefined>;
+  getProjectRelations(projectId: number): Promise<AdrRelation[]>;
 
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByExternalId(authProvider: string, externalId: string): Promise<User | undefined>;
+  updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getUsers(): Promise<User[]>;
   updateUserRole(id: string, role: string): Promise<User | undefined>;
-  deleteUser(id: string): Promise<boolean>;
+  deactivateUser(id: string): Promise<{ user: User; memberships: ProjectMember[]; groups: UserGroupMember[] } | undefined>;
+  reactivateUser(id: string): Promise<User | undefined>;
+  anonymiseUser(id: string, replacement: AnonymisedIdentity): Promise<User | undefined>;
+
+  // Two-Factor Authentication
+  setTotpSecret(userId: string, secret: string): Promise<void>;
+  enableTotp(userId: string): Promise<User | undefined>;
+  disableTotp(userId: string): Promise<void>;
+  recordTotpStep(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
+
+  // Passwords & Sessions
+  createPasswordResetToken(data: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  getUserSessions(userId: string): Promise<StoredSession[]>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptSessionId?: string): Promise<number>;
+
+  // Login Throttling
+  getLoginThrottle(scope: LoginThrottleScope, key: string): Promise<LoginThrottle | undefined>;
+  recordLoginThrottleFailure(scope: LoginThrottleScope, key: string, windowMs: number): Promise<LoginThrottle>;
+  lockLoginThrottle(id: number, lockedUntil: Date): Promise<void>;
+  getActiveLockouts(): Promise<LoginThrottle[]>;
+  clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<LoginThrottle | undefined>;
+  clearLoginThrottleById(id: number): Promise<LoginThrottle | undefined>;
+  pruneLoginThrottles(windowMs: number): Promise<void>;
+
+  // API Tokens
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(data: InsertApiToken): Promise<ApiToken>;
+  revokeApiToken(id: number, userId: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
 
   // Project Requirements
   getProjectRequirements(projectId: number): Promise<ProjectRequirement[]>;
@@ -102,12 +308,8 @@ export class DatabaseStorage implements IStorage {
     if (isGlobalAdmin) {
       return db.select().from(projects).orderBy(desc(projects.createdAt));
     }
-    // Return only projects the user is a member of
-    const memberRows = await db
-      .select({ projectId: projectMembers.projectId })
-      .from(projectMembers)
-      .where(eq(projectMembers.userId, userId));
-    const ids = memberRows.map((r) => r.projectId);
+    // Return only projects the user can access, directly or through a group
+    const ids = await this.getAccessibleProjectIds(userId);
     if (ids.length === 0) return [];
     const result = await db
       .select()
@@ -122,12 +324,17 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
 
+  async getProjectByKey(key: string): Promise<Project | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.key, key));
+    return project;
+  }
+
   async createProject(data: InsertProject): Promise<Project> {
     const [project] = await db.insert(projects).values(data).returning();
     return project;
   }
 
-  async updateProject(id: number, data: Partial<Pick<Project, "name" | "description">>): Promise<Project | undefined> {
+  async updateProject(id: number, data: Partial<Pick<Project, "name" | "description" | "reviewQuorum">>): Promise<Project | undefined> {
     const [project] = await db
       .update(projects)
       .set({ ...data, updatedAt: new Date() })
@@ -143,11 +350,20 @@ export class DatabaseStorage implements IStorage {
     for (const adr of projectAdrs) {
       await db.delete(adrComments).where(eq(adrComments.adrId, adr.id));
       await db.delete(adrVersions).where(eq(adrVersions.adrId, adr.id));
+      await db.delete(adrReviewers).where(eq(adrReviewers.adrId, adr.id));
+      await db.delete(adrReviews).where(eq(adrReviews.adrId, adr.id));
+      await db.delete(adrWatches).where(eq(adrWatches.adrId, adr.id));
       await db.delete(adrRelations).where(
         or(eq(adrRelations.sourceAdrId, adr.id), eq(adrRelations.targetAdrId, adr.id))
       );
     }
     await db.delete(adrs).where(eq(adrs.projectId, id));
+    await db.delete(projectWorkflowStates).where(eq(projectWorkflowStates.projectId, id));
+    await db.delete(projectRoles).where(eq(projectRoles.projectId, id));
+    await db.delete(projectGroupGrants).where(eq(projectGroupGrants.projectId, id));
+    await db.delete(notificationPreferences).where(eq(notificationPreferences.projectId, id));
+    const projectWebhooks = await db.select({ id: webhooks.id }).from(webhooks).where(eq(webhooks.projectId, id));
+    for (const webhook of projectWebhooks) await this.deleteWebhook(webhook.id);
     const result = await db.delete(projects).where(eq(projects.id, id)).returning();
     return result.length > 0;
   }
@@ -155,36 +371,54 @@ export class DatabaseStorage implements IStorage {
   // ── Project Members ───────────────────────────────────────────────────────
 
   async getProjectMembers(projectId: number): Promise<ProjectMemberWithUser[]> {
-    const rows = await db
-      .select({
-        id: projectMembers.id,
-        projectId: projectMembers.projectId,
-        userId: projectMembers.userId,
-        role: projectMembers.role,
-        createdAt: projectMembers.createdAt,
-        userId2: users.id,
-        username: users.username,
-        displayName: users.displayName,
-        userRole: users.role,
-      })
+    const userColumns = {
+      userId: users.id,
+      username: users.username,
+      displayName: users.displayName,
+      userRole: users.role,
+    };
+    const direct = await db
+      .select({ id: projectMembers.id, role: projectMembers.role, createdAt: projectMembers.createdAt, ...userColumns })
       .from(projectMembers)
       .innerJoin(users, eq(projectMembers.userId, users.id))
       .where(eq(projectMembers.projectId, projectId))
       .orderBy(projectMembers.createdAt);
-
-    return rows.map((r) => ({
-      id: r.id,
-      projectId: r.projectId,
+    // Disabled accounts have no access even while still listed in a group
+    const viaGroups = await db
+      .select({
+        groupId: userGroups.id,
+        groupName: userGroups.name,
+        role: projectGroupGrants.role,
+        createdAt: userGroupMembers.createdAt,
+        ...userColumns,
+      })
+      .from(projectGroupGrants)
+      .innerJoin(userGroups, eq(projectGroupGrants.groupId, userGroups.id))
+      .innerJoin(userGroupMembers, eq(userGroupMembers.groupId, userGroups.id))
+      .innerJoin(users, eq(userGroupMembers.userId, users.id))
+      .where(and(eq(projectGroupGrants.projectId, projectId), eq(users.active, true)))
+      .orderBy(userGroupMembers.createdAt, userGroups.name);
+
+    const byUser = new Map<string, ProjectMemberWithUser>();
+    const entry = (r: typeof direct[number] | typeof viaGroups[number]): ProjectMemberWithUser => ({
+      id: null,
+      projectId,
       userId: r.userId,
       role: r.role,
+      directRole: null,
+      groups: [],
       createdAt: r.createdAt,
-      user: {
-        id: r.userId2,
-        username: r.username,
-        displayName: r.displayName,
-        role: r.userRole,
-      },
-    }));
+      user: { id: r.userId, username: r.username, displayName: r.displayName, role: r.userRole },
+    });
+    for (const r of direct) {
+      byUser.set(r.userId, { ...entry(r), id: r.id, directRole: r.role });
+    }
+    for (const r of viaGroups) {
+      const member = byUser.get(r.userId) ?? entry(r);
+      member.groups.push({ groupId: r.groupId, groupName: r.groupName, role: r.role });
+      byUser.set(r.userId, member);
+    }
+    return Array.from(byUser.values());
   }
 
   async getProjectMemberRole(projectId: number, userId: string): Promise<string | null> {
@@ -220,11 +454,265 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // ── Effective Project Access ──────────────────────────────────────────────
+
+  async getProjectRoleGrants(projectId: number, userId: string): Promise<string[]> {
+    const direct = await this.getProjectMemberRole(projectId, userId);
+    const viaGroups = await db
+      .select({ role: projectGroupGrants.role })
+      .from(projectGroupGrants)
+      .innerJoin(userGroupMembers, eq(userGroupMembers.groupId, projectGroupGrants.groupId))
+      .where(and(eq(projectGroupGrants.projectId, projectId), eq(userGroupMembers.userId, userId)));
+    return [...(direct ? [direct] : []), ...viaGroups.map((r) => r.role)];
+  }
+
+  async getAccessibleProjectIds(userId: string): Promise<number[]> {
+    const rows = await db.execute<{ project_id: number }>(sql`
+      SELECT ${projectMembers.projectId} AS project_id FROM ${projectMembers} WHERE ${projectMembers.userId} = ${userId}
+      UNION
+      SELECT ${projectGroupGrants.projectId} FROM ${projectGroupGrants}
+      JOIN ${userGroupMembers} ON ${userGroupMembers.groupId} = ${projectGroupGrants.groupId}
+      WHERE ${userGroupMembers.userId} = ${userId}
+    `);
+    return rows.rows.map((r) => Number(r.project_id));
+  }
+
+  async getProjectUserIds(projectId: number): Promise<string[]> {
+    const members = await this.getProjectMembers(projectId);
+    return members.map((m) => m.userId);
+  }
+
+  // ── User Groups ───────────────────────────────────────────────────────────
+
+  async getUserGroups(): Promise<UserGroupWithCounts[]> {
+    return db
+      .select({
+        ...getTableColumns(userGroups),
+        memberCount: sql<number>`(select count(*)::int from ${userGroupMembers} where ${userGroupMembers.groupId} = ${userGroups.id})`,
+        projectCount: sql<number>`(select count(*)::int from ${projectGroupGrants} where ${projectGroupGrants.groupId} = ${userGroups.id})`,
+      })
+      .from(userGroups)
+      .orderBy(userGroups.name);
+  }
+
+  async getUserGroup(id: number): Promise<UserGroup | undefined> {
+    const [group] = await db.select().from(userGroups).where(eq(userGroups.id, id));
+    return group;
+  }
+
+  async getUserGroupByName(name: string): Promise<UserGroup | undefined> {
+    const [group] = await db.select().from(userGroups).where(sql`lower(${userGroups.name}) = lower(${name})`);
+    return group;
+  }
+
+  async createUserGroup(data: InsertUserGroup): Promise<UserGroup> {
+    const [group] = await db.insert(userGroups).values(data).returning();
+    return group;
+  }
+
+  async updateUserGroup(id: number, data: Partial<Pick<UserGroup, "name" | "description">>): Promise<UserGroup | undefined> {
+    const [group] = await db
+      .update(userGroups)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(userGroups.id, id))
+      .returning();
+    return group;
+  }
+
+  async deleteUserGroup(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(userGroupMembers).where(eq(userGroupMembers.groupId, id));
+      await tx.delete(projectGroupGrants).where(eq(projectGroupGrants.groupId, id));
+      const result = await tx.delete(userGroups).where(eq(userGroups.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
+  async getUserGroupMembers(groupId: number): Promise<UserGroupMemberWithUser[]> {
+    return db
+      .select({
+        id: users.id,
+        username: users.username,
+        displayName: users.displayName,
+        active: users.active,
+        addedAt: userGroupMembers.createdAt,
+      })
+      .from(userGroupMembers)
+      .innerJoin(users, eq(userGroupMembers.userId, users.id))
+      .where(eq(userGroupMembers.groupId, groupId))
+      .orderBy(users.displayName);
+  }
+
+  async addUserGroupMembers(groupId: number, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) return [];
+    const added = await db
+      .insert(userGroupMembers)
+      .values(userIds.map((userId) => ({ groupId, userId })))
+      .onConflictDoNothing()
+      .returning({ userId: userGroupMembers.userId });
+    return added.map((r) => r.userId);
+  }
+
+  async removeUserGroupMember(groupId: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(userGroupMembers)
+      .where(and(eq(userGroupMembers.groupId, groupId), eq(userGroupMembers.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getUserGroupGrants(groupId: number): Promise<UserGroupProjectGrant[]> {
+    return db
+      .select({ ...getTableColumns(projectGroupGrants), projectName: projects.name, projectKey: projects.key })
+      .from(projectGroupGrants)
+      .innerJoin(projects, eq(projectGroupGrants.projectId, projects.id))
+      .where(eq(projectGroupGrants.groupId, groupId))
+      .orderBy(projects.name);
+  }
+
+  // ── Project Group Grants ──────────────────────────────────────────────────
+
+  async getProjectGroupGrants(projectId: number): Promise<ProjectGroupGrantWithGroup[]> {
+    return db
+      .select({
+        ...getTableColumns(projectGroupGrants),
+        groupName: userGroups.name,
+        memberCount: sql<number>`(select count(*)::int from ${userGroupMembers} where ${userGroupMembers.groupId} = ${userGroups.id})`,
+      })
+      .from(projectGroupGrants)
+      .innerJoin(userGroups, eq(projectGroupGrants.groupId, userGroups.id))
+      .where(eq(projectGroupGrants.projectId, projectId))
+      .orderBy(userGroups.name);
+  }
+
+  async getProjectGroupGrant(projectId: number, groupId: number): Promise<ProjectGroupGrant | undefined> {
+    const [grant] = await db
+      .select()
+      .from(projectGroupGrants)
+      .where(and(eq(projectGroupGrants.projectId, projectId), eq(projectGroupGrants.groupId, groupId)));
+    return grant;
+  }
+
+  async addProjectGroupGrant(projectId: number, groupId: number, role: string): Promise<ProjectGroupGrant> {
+    const [grant] = await db.insert(projectGroupGrants).values({ projectId, groupId, role }).returning();
+    return grant;
+  }
+
+  async updateProjectGroupGrant(projectId: number, groupId: number, role: string): Promise<ProjectGroupGrant | undefined> {
+    const [grant] = await db
+      .update(projectGroupGrants)
+      .set({ role })
+      .where(and(eq(projectGroupGrants.projectId, projectId), eq(projectGroupGrants.groupId, groupId)))
+      .returning();
+    return grant;
+  }
+
+  async removeProjectGroupGrant(projectId: number, groupId: number): Promise<boolean> {
+    const result = await db
+      .delete(projectGroupGrants)
+      .where(and(eq(projectGroupGrants.projectId, projectId), eq(projectGroupGrants.groupId, groupId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // ── Project Roles ─────────────────────────────────────────────────────────
+
+  async getProjectRoles(projectId: number): Promise<ProjectRole[]> {
+    return db
+      .select()
+      .from(projectRoles)
+      .where(eq(projectRoles.projectId, projectId))
+      .orderBy(projectRoles.name);
+  }
+
+  async getProjectRole(projectId: number, key: string): Promise<ProjectRole | undefined> {
+    const [role] = await db
+      .select()
+      .from(projectRoles)
+      .where(and(eq(projectRoles.projectId, projectId), eq(projectRoles.key, key)));
+    return role;
+  }
+
+  async createProjectRole(role: InsertProjectRole): Promise<ProjectRole> {
+    const [created] = await db.insert(projectRoles).values(role).returning();
+    return created;
+  }
+
+  async updateProjectRole(
+    projectId: number,
+    key: string,
+    data: Partial<Pick<ProjectRole, "name" | "description" | "permissions" | "statusTargets">>
+  ): Promise<ProjectRole | undefined> {
+    const [role] = await db
+      .update(projectRoles)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(projectRoles.projectId, projectId), eq(projectRoles.key, key)))
+      .returning();
+    return role;
+  }
+
+  async deleteProjectRole(projectId: number, key: string): Promise<boolean> {
+    const result = await db
+      .delete(projectRoles)
+      .where(and(eq(projectRoles.projectId, projectId), eq(projectRoles.key, key)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async countProjectMembersWithRole(projectId: number, role: string): Promise<number> {
+    const [members] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.role, role)));
+    const [groups] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(projectGroupGrants)
+      .where(and(eq(projectGroupGrants.projectId, projectId), eq(projectGroupGrants.role, role)));
+    return (members?.count ?? 0) + (groups?.count ?? 0);
+  }
+
+  // ── Project Workflow ──────────────────────────────────────────────────────
+
+  async getProjectWorkflow(projectId: number): Promise<WorkflowState[]> {
+    const rows = await db
+      .select()
+      .from(projectWorkflowStates)
+      .where(eq(projectWorkflowStates.projectId, projectId))
+      .orderBy(projectWorkflowStates.position);
+    if (rows.length === 0) return defaultWorkflowStates;
+    return rows.map((r) => ({
+      key: r.key,
+      label: r.label,
+      color: r.color as WorkflowColor,
+      isTerminal: r.isTerminal,
+      category: (r.category as WorkflowCategory | null) ?? defaultWorkflowCategory(r.key, r.isTerminal),
+      transitions: r.transitions,
+    }));
+  }
+
+  async replaceProjectWorkflow(projectId: number, states: WorkflowState[]): Promise<WorkflowState[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(projectWorkflowStates).where(eq(projectWorkflowStates.projectId, projectId));
+      await tx.insert(projectWorkflowStates).values(
+        states.map((s, position) => ({ ...s, projectId, position }))
+      );
+    });
+    return this.getProjectWorkflow(projectId);
+  }
+
+  async getProjectAdrStatuses(projectId: number): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ status: adrs.status })
+      .from(adrs)
+      .where(eq(adrs.projectId, projectId));
+    return rows.map((r) => r.status);
+  }
+
   // ── ADRs ──────────────────────────────────────────────────────────────────
 
   async getAdrs(projectId: number): Promise<Adr[]> {
     return db
-      .select()
+      .select(adrColumns)
       .from(adrs)
       .where(and(eq(adrs.projectId, projectId), eq(adrs.archived, false)))
       .orderBy(desc(adrs.createdAt));
@@ -232,18 +720,44 @@ export class DatabaseStorage implements IStorage {
 
   async getAdr(id: number, projectId: number): Promise<Adr | undefined> {
     const [adr] = await db
-      .select()
+      .select(adrColumns)
       .from(adrs)
       .where(and(eq(adrs.id, id), eq(adrs.projectId, projectId)));
     return adr;
   }
 
+  async getAdrByReference(projectKey: string, adrNumber: number): Promise<Adr | undefined> {
+    const [adr] = await db
+      .select(adrColumns)
+      .from(adrs)
+      .innerJoin(projects, eq(adrs.projectId, projects.id))
+      .where(and(eq(projects.key, projectKey), eq(adrs.adrNumber, adrNumber)));
+    return adr;
+  }
+
+  async getAdrReferences(ids: number[]): Promise<AdrReference[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select({
+        id: adrs.id,
+        projectId: adrs.projectId,
+        adrNumber: adrs.adrNumber,
+        title: adrs.title,
+        status: adrs.status,
+        archived: adrs.archived,
+        projectKey: projects.key,
+      })
+      .from(adrs)
+      .innerJoin(projects, eq(adrs.projectId, projects.id))
+      .where(inArray(adrs.id, ids));
+  }
+
   async createAdr(data: InsertAdr): Promise<Adr> {
     const adrNumber = await this.getNextAdrNumber(data.projectId);
     const [adr] = await db
       .insert(adrs)
       .values({ ...data, adrNumber, version: "1.0" })
-      .returning();
+      .returning(adrColumns);
     return adr;
   }
 
@@ -252,7 +766,7 @@ export class DatabaseStorage implements IStorage {
       .update(adrs)
       .set({ ...data, updatedAt: new Date() })
       .where(eq(adrs.id, id))
-      .returning();
+      .returning(adrColumns);
     return adr;
   }
 
@@ -261,7 +775,7 @@ export class DatabaseStorage implements IStorage {
       .update(adrs)
       .set({ archived: true, archiveReason: reason, updatedAt: new Date() })
       .where(eq(adrs.id, id))
-      .returning();
+      .returning(adrColumns);
     return adr;
   }
 
@@ -273,36 +787,305 @@ export class DatabaseStorage implements IStorage {
     return (result?.max || 0) + 1;
   }
 
+  // Includes archived ADRs, which still hold their number
+  async getAdrNumbers(projectId: number): Promise<number[]> {
+    const rows = await db
+      .select({ adrNumber: adrs.adrNumber })
+      .from(adrs)
+      .where(eq(adrs.projectId, projectId));
+    return rows.map((r) => r.adrNumber);
+  }
+
+  // All or nothing: a failure part-way (e.g. a number taken meanwhile) leaves no half-imported ADRs behind
+  async importAdrs(entries: ImportedAdrInput[], relations: ImportedRelationInput[]): Promise<Adr[]> {
+    return db.transaction(async (tx) => {
+      const created: Adr[] = [];
+      for (const { adr: data, adrNumber, createdAt } of entries) {
+        const [adr] = await tx
+          .insert(adrs)
+          .values({
+            ...data,
+            adrNumber,
+            version: "1.0",
+            ...(createdAt ? { createdAt, updatedAt: createdAt } : {}),
+          })
+          .returning(adrColumns);
+        await tx.insert(adrVersions).values({
+          adrId: adr.id,
+          version: "1.0",
+          title: adr.title,
+          status: adr.status,
+          context: adr.context,
+          decision: adr.decision,
+          consequences: adr.consequences,
+          alternatives: adr.alternatives,
+          tags: adr.tags,
+          team: adr.team,
+          author: adr.author,
+          changeReason: "Imported",
+          changedById: data.authorId,
+          changedBy: data.author,
+        });
+        created.push(adr);
+      }
+
+      for (const { source, target, relationType } of relations) {
+        const sourceAdrId = created[source].id;
+        const targetAdrId = created[target].id;
+        await tx.insert(adrRelations).values({ sourceAdrId, targetAdrId, relationType }).onConflictDoNothing();
+        const inverse = adrRelationInverses[relationType];
+        if (inverse) {
+          await tx
+            .insert(adrRelations)
+            .values({ sourceAdrId: targetAdrId, targetAdrId: sourceAdrId, relationType: inverse })
+            .onConflictDoNothing();
+        }
+      }
+      return created;
+    });
+  }
+
   // ── Versions ──────────────────────────────────────────────────────────────
 
   async createVersion(data: InsertAdrVersion): Promise<AdrVersion> {
-    const [version] = await db.insert(adrVersions).values(data).returning();
+    const [version] = await db.insert(adrVersions).values(data).returning(versionColumns);
+    return version;
+  }
+
+  async getVersion(id: number): Promise<AdrVersion | undefined> {
+    const [version] = await db.select(versionColumns).from(adrVersions).where(eq(adrVersions.id, id));
     return version;
   }
 
   async getVersions(adrId: number): Promise<AdrVersion[]> {
     return db
-      .select()
+      .select(versionColumns)
       .from(adrVersions)
       .where(eq(adrVersions.adrId, adrId))
       .orderBy(desc(adrVersions.createdAt));
   }
 
+  // ── Reviews ───────────────────────────────────────────────────────────────
+
+  async getAdrReviewers(adrId: number): Promise<AdrReviewerWithUser[]> {
+    const rows = await db
+      .select({
+        reviewer: adrReviewers,
+        username: users.username,
+        displayName: users.displayName,
+      })
+      .from(adrReviewers)
+      .innerJoin(users, eq(adrReviewers.userId, users.id))
+      .where(eq(adrReviewers.adrId, adrId))
+      .orderBy(adrReviewers.createdAt);
+
+    return rows.map((r) => ({
+      ...r.reviewer,
+      user: { id: r.reviewer.userId, username: r.username, displayName: r.displayName },
+    }));
+  }
+
+  async addAdrReviewer(adrId: number, userId: string, requestedBy: string): Promise<AdrReviewer> {
+    const [reviewer] = await db
+      .insert(adrReviewers)
+      .values({ adrId, userId, requestedBy })
+      .returning();
+    return reviewer;
+  }
+
+  async removeAdrReviewer(adrId: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(adrReviewers)
+      .where(and(eq(adrReviewers.adrId, adrId), eq(adrReviewers.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getAdrReviews(adrId: number): Promise<AdrReviewWithUser[]> {
+    const rows = await db
+      .select({
+        review: adrReviews,
+        username: users.username,
+        displayName: users.displayName,
+      })
+      .from(adrReviews)
+      .innerJoin(users, eq(adrReviews.reviewerId, users.id))
+      .where(eq(adrReviews.adrId, adrId))
+      .orderBy(desc(adrReviews.createdAt));
+
+    return rows.map((r) => ({
+      ...r.review,
+      reviewer: { id: r.review.reviewerId, username: r.username, displayName: r.displayName },
+    }));
+  }
+
+  async createAdrReview(data: InsertAdrReview): Promise<AdrReview> {
+    const [review] = await db.insert(adrReviews).values(data).returning();
+    return review;
+  }
+
+  async dismissAdrReviews(adrId: number): Promise<number> {
+    const dismissed = await db
+      .update(adrReviews)
+      .set({ dismissedAt: new Date() })
+      .where(and(eq(adrReviews.adrId, adrId), isNull(adrReviews.dismissedAt)))
+      .returning({ id: adrReviews.id });
+    return dismissed.length;
+  }
+
   // ── Comments ──────────────────────────────────────────────────────────────
 
   async getComments(adrId: number): Promise<AdrComment[]> {
     return db
-      .select()
+      .select(commentColumns)
       .from(adrComments)
       .where(eq(adrComments.adrId, adrId))
       .orderBy(adrComments.createdAt);
   }
 
   async createComment(data: InsertAdrComment): Promise<AdrComment> {
-    const [comment] = await db.insert(adrComments).values(data).returning();
+    const [comment] = await db.insert(adrComments).values(data).returning(commentColumns);
     return comment;
   }
 
+  // ── Notification Preferences ──────────────────────────────────────────────
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    return db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+
+  async getNotificationPreference(userId: string, projectId: number, event: string): Promise<NotificationPreference | undefined> {
+    const [pref] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(and(
+        eq(notificationPreferences.userId, userId),
+        eq(notificationPreferences.projectId, projectId),
+        eq(notificationPreferences.event, event),
+      ));
+    return pref;
+  }
+
+  async setNotificationPreferences(
+    userId: string,
+    projectId: number,
+    prefs: NotificationPreferenceInput[],
+  ): Promise<NotificationPreference[]> {
+    if (prefs.length === 0) return [];
+    return db
+      .insert(notificationPreferences)
+      .values(prefs.map((p) => ({ ...p, userId, projectId })))
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.projectId, notificationPreferences.event],
+        set: { inApp: sql`excluded.in_app`, email: sql`excluded.email`, updatedAt: sql`now()` },
+      })
+      .returning();
+  }
+
+  // ── Webhooks ──────────────────────────────────────────────────────────────
+
+  async getWebhooks(projectId: number): Promise<Webhook[]> {
+    return db.select().from(webhooks).where(eq(webhooks.projectId, projectId)).orderBy(webhooks.createdAt);
+  }
+
+  async getWebhook(id: number, projectId: number): Promise<Webhook | undefined> {
+    const [webhook] = await db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.projectId, projectId)));
+    return webhook;
+  }
+
+  async createWebhook(data: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await db.insert(webhooks).values(data).returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: number, data: Partial<Pick<Webhook, "url" | "secret" | "events" | "active">>): Promise<Webhook | undefined> {
+    const [webhook] = await db
+      .update(webhooks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+    const result = await db.delete(webhooks).where(eq(webhooks.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(id: number, webhookId: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.webhookId, webhookId)));
+    return delivery;
+  }
+
+  // ── ADR Watches ───────────────────────────────────────────────────────────
+
+  async getAdrWatch(adrId: number, userId: string): Promise<AdrWatch | undefined> {
+    const [watch] = await db
+      .select()
+      .from(adrWatches)
+      .where(and(eq(adrWatches.adrId, adrId), eq(adrWatches.userId, userId)));
+    return watch;
+  }
+
+  async getAdrWatches(adrId: number): Promise<AdrWatch[]> {
+    return db.select().from(adrWatches).where(eq(adrWatches.adrId, adrId));
+  }
+
+  async getUserAdrWatches(userId: string): Promise<AdrWatchWithAdr[]> {
+    const rows = await db
+      .select({
+        watch: adrWatches,
+        adr: {
+          id: adrs.id,
+          projectId: adrs.projectId,
+          adrNumber: adrs.adrNumber,
+          title: adrs.title,
+          status: adrs.status,
+          projectKey: projects.key,
+          projectName: projects.name,
+        },
+      })
+      .from(adrWatches)
+      .innerJoin(adrs, eq(adrWatches.adrId, adrs.id))
+      .innerJoin(projects, eq(adrs.projectId, projects.id))
+      .where(and(eq(adrWatches.userId, userId), eq(adrs.archived, false)))
+      .orderBy(projects.name, adrs.adrNumber);
+    return rows.map((r) => ({ ...r.watch, adr: r.adr }));
+  }
+
+  async setAdrWatch(adrId: number, userId: string, watching: boolean): Promise<AdrWatch> {
+    const [watch] = await db
+      .insert(adrWatches)
+      .values({ adrId, userId, watching })
+      .onConflictDoUpdate({ target: [adrWatches.adrId, adrWatches.userId], set: { watching } })
+      .returning();
+    return watch;
+  }
+
+  async deleteAdrWatch(adrId: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(adrWatches)
+      .where(and(eq(adrWatches.adrId, adrId), eq(adrWatches.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
   // ── Relations ─────────────────────────────────────────────────────────────
 
   async getRelations(adrId: number): Promise<AdrRelation[]> {
@@ -314,11 +1097,81 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async createRelation(data: InsertAdrRelation): Promise<AdrRelation> {
-    const [relation] = await db.insert(adrRelations).values(data).returning();
+  async getRelation(id: number): Promise<AdrRelation | undefined> {
+    const [relation] = await db.select().from(adrRelations).where(eq(adrRelations.id, id));
+    return relation;
+  }
+
+  async findRelation(sourceAdrId: number, targetAdrId: number, relationType: string): Promise<AdrRelation | undefined> {
+    const [relation] = await db
+      .select()
+      .from(adrRelations)
+      .where(and(
+        eq(adrRelations.sourceAdrId, sourceAdrId),
+        eq(adrRelations.targetAdrId, targetAdrId),
+        eq(adrRelations.relationType, relationType),
+      ));
     return relation;
   }
 
+  async getRelationsByType(relationType: AdrRelationType): Promise<AdrRelation[]> {
+    return db.select().from(adrRelations).where(eq(adrRelations.relationType, relationType));
+  }
+
+  // Creates the inverse edge too for paired types; existing edges are left as they are
+  async createRelation(data: InsertAdrRelation): Promise<AdrRelation> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(adrRelations).values(data).onConflictDoNothing().returning();
+      const inverse = adrRelationInverses[data.relationType as AdrRelationType];
+      if (inverse) {
+        await tx
+          .insert(adrRelations)
+          .values({ sourceAdrId: data.targetAdrId, targetAdrId: data.sourceAdrId, relationType: inverse })
+          .onConflictDoNothing();
+      }
+      if (created) return created;
+      const [existing] = await tx
+        .select()
+        .from(adrRelations)
+        .where(and(
+          eq(adrRelations.sourceAdrId, data.sourceAdrId),
+          eq(adrRelations.targetAdrId, data.targetAdrId),
+          eq(adrRelations.relationType, data.relationType),
+        ));
+      return existing;
+    });
+  }
+
+  async deleteRelation(id: number): Promise<AdrRelation | undefined> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(adrRelations).where(eq(adrRelations.id, id)).returning();
+      const inverse = deleted && adrRelationInverses[deleted.relationType as AdrRelationType];
+      if (inverse) {
+        await tx.delete(adrRelations).where(and(
+          eq(adrRelations.sourceAdrId, deleted.targetAdrId),
+          eq(adrRelations.targetAdrId, deleted.sourceAdrId),
+          eq(adrRelations.relationType, inverse),
+        ));
+      }
+      return deleted;
+    });
+  }
+
+  // Relations whose source ADR belongs to the project
+  async getProjectRelations(projectId: number): Promise<AdrRelation[]> {
+    return db
+      .select({
+        id: adrRelations.id,
+        sourceAdrId: adrRelations.sourceAdrId,
+        targetAdrId: adrRelations.targetAdrId,
+        relationType: adrRelations.relationType,
+        createdAt: adrRelations.createdAt,
+      })
+      .from(adrRelations)
+      .innerJoin(adrs, eq(adrRelations.sourceAdrId, adrs.id))
+      .where(eq(adrs.projectId, projectId));
+  }
+
   // ── Users ─────────────────────────────────────────────────────────────────
 
   async getUser(id: string): Promise<User | undefined> {
@@ -331,6 +1184,21 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByExternalId(authProvider: string, externalId: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.authProvider, authProvider), eq(users.externalId, externalId)));
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(data).where(eq(users.id, id)).returning();
+    // Deactivated users are signed out everywhere, whichever code path disabled them
+    if (user && data.active === false) await this.deleteUserSessions(id);
+    return user;
+  }
+
   async createUser(data: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(data).returning();
     return user;
@@ -345,12 +1213,380 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async deleteUser(id: string): Promise<boolean> {
-    await db.delete(projectMembers).where(eq(projectMembers.userId, id));
-    const result = await db.delete(users).where(eq(users.id, id)).returning();
+  async deactivateUser(id: string): Promise<{ user: User; memberships: ProjectMember[]; groups: UserGroupMember[] } | undefined> {
+    const result = await db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ active: false, deactivatedAt: sql`coalesce(${users.deactivatedAt}, now())` })
+        .where(eq(users.id, id))
+        .returning();
+      if (!user) return undefined;
+      const memberships = await tx.delete(projectMembers).where(eq(projectMembers.userId, id)).returning();
+      const groups = await tx.delete(userGroupMembers).where(eq(userGroupMembers.userId, id)).returning();
+      return { user, memberships, groups };
+    });
+    if (result) await this.deleteUserSessions(id);
+    return result;
+  }
+
+  async reactivateUser(id: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ active: true, deactivatedAt: null })
+      .where(and(eq(users.id, id), isNull(users.anonymisedAt)))
+      .returning();
+    return user;
+  }
+
+  /**
+   * Scrub a user's name from every record that stores it as text and turn the
+   * account into an unusable placeholder. Records linked to the user are
+   * matched by ID; older records without one by exact display name.
+   */
+  async anonymiseUser(id: string, replacement: AnonymisedIdentity): Promise<User | undefined> {
+    const user = await this.getUser(id);
+    if (!user) return undefined;
+    const oldName = user.displayName;
+    const newName = replacement.displayName;
+
+    const byActor = (idColumn: AnyPgColumn, nameColumn: AnyPgColumn) =>
+      or(eq(idColumn, id), and(isNull(idColumn), eq(nameColumn, oldName)));
+
+    const [anonymised] = await db.transaction(async (tx) => {
+      await tx.update(adrs).set({ author: newName }).where(byActor(adrs.authorId, adrs.author));
+      await tx.update(adrVersions).set({ author: newName }).where(eq(adrVersions.author, oldName));
+      await tx.update(adrVersions).set({ changedBy: newName }).where(byActor(adrVersions.changedById, adrVersions.changedBy));
+      await tx.update(adrComments).set({ author: newName }).where(byActor(adrComments.authorId, adrComments.author));
+      await tx.update(projectRequirements).set({ createdBy: newName }).where(eq(projectRequirements.createdBy, oldName));
+      await tx.update(attachments).set({ uploadedBy: newName }).where(byActor(attachments.uploadedById, attachments.uploadedBy));
+      await tx.update(diagrams).set({ createdBy: newName }).where(byActor(diagrams.createdById, diagrams.createdBy));
+      await tx.update(passwordResetTokens).set({ createdBy: newName }).where(eq(passwordResetTokens.createdBy, oldName));
+      await tx.update(auditLogs).set({ performedBy: newName }).where(byActor(auditLogs.performedById, auditLogs.performedBy));
+
+      // Audit details are JSON text; only whole string values are replaced
+      const renames: [string, string][] = [[oldName, newName], [user.username, replacement.username]];
+      for (const [from, to] of renames) {
+        const quotedFrom = JSON.stringify(from);
+        const quotedTo = JSON.stringify(to);
+        await tx
+          .update(auditLogs)
+          .set({
+            changes: sql`replace(${auditLogs.changes}, ${quotedFrom}, ${quotedTo})`,
+            metadata: sql`replace(${auditLogs.metadata}, ${quotedFrom}, ${quotedTo})`,
+          })
+          .where(or(
+            sql`strpos(${auditLogs.changes}, ${quotedFrom}) > 0`,
+            sql`strpos(${auditLogs.metadata}, ${quotedFrom}) > 0`,
+          ));
+      }
+      // Failed sign-ins for unknown accounts are audited under the typed username
+      await tx
+        .update(auditLogs)
+        .set({ entityId: id })
+        .where(and(eq(auditLogs.entityType, "user"), eq(auditLogs.entityId, user.username.trim().toLowerCase())));
+
+      // Other people's notifications mention the user in free text
+      await tx
+        .update(notifications)
+        .set({
+          title: sql`replace(${notifications.title}, ${oldName}, ${newName})`,
+          body: sql`replace(${notifications.body}, ${oldName}, ${newName})`,
+        })
+        .where(or(sql`strpos(${notifications.title}, ${oldName}) > 0`, sql`strpos(${notifications.body}, ${oldName}) > 0`));
+
+      // @mentions in comments and in the notifications, emails and webhook payloads quoting them
+      if (isMentionableUsername(user.username)) {
+        const pattern = mentionRegex(user.username);
+        const unmention = (column: AnyPgColumn) =>
+          sql`regexp_replace(${column}, ${pattern}, ${`\\1@${replacement.username}`}, 'gi')`;
+        const mentions = (column: AnyPgColumn) => sql`${column} ~* ${pattern}`;
+        await tx.update(adrComments).set({ content: unmention(adrComments.content) }).where(mentions(adrComments.content));
+        await tx
+          .update(notifications)
+          .set({ title: unmention(notifications.title), body: unmention(notifications.body) })
+          .where(or(mentions(notifications.title), mentions(notifications.body)));
+        await tx
+          .update(emailQueue)
+          .set({ subject: unmention(emailQueue.subject), textBody: unmention(emailQueue.textBody), htmlBody: unmention(emailQueue.htmlBody) })
+          .where(or(mentions(emailQueue.subject), mentions(emailQueue.textBody), mentions(emailQueue.htmlBody)));
+        await tx.update(webhookDeliveries).set({ payload: unmention(webhookDeliveries.payload) }).where(mentions(webhookDeliveries.payload));
+      }
+
+      // Mail to other people naming the user, queued or kept after sending
+      await tx
+        .update(emailQueue)
+        .set({
+          subject: sql`replace(${emailQueue.subject}, ${oldName}, ${newName})`,
+          textBody: sql`replace(${emailQueue.textBody}, ${oldName}, ${newName})`,
+          htmlBody: sql`replace(${emailQueue.htmlBody}, ${oldName}, ${newName})`,
+        })
+        .where(or(
+          sql`strpos(${emailQueue.subject}, ${oldName}) > 0`,
+          sql`strpos(${emailQueue.textBody}, ${oldName}) > 0`,
+          sql`strpos(${emailQueue.htmlBody}, ${oldName}) > 0`,
+        ));
+      // Webhook payloads are JSON text like audit details: the actor, ADR authors and mention lists
+      for (const [from, to] of renames) {
+        await tx
+          .update(webhookDeliveries)
+          .set({ payload: sql`replace(${webhookDeliveries.payload}, ${JSON.stringify(from)}, ${JSON.stringify(to)})` })
+          .where(sql`strpos(${webhookDeliveries.payload}, ${JSON.stringify(from)}) > 0`);
+      }
+
+      await tx.delete(notifications).where(eq(notifications.userId, id));
+      await tx.delete(projectMembers).where(eq(projectMembers.userId, id));
+      await tx.delete(userGroupMembers).where(eq(userGroupMembers.userId, id));
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, id));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, id));
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, id));
+      await tx.delete(emailQueue).where(eq(emailQueue.userId, id));
+      if (user.email) {
+        await tx.delete(emailQueue).where(sql`strpos(lower(${emailQueue.recipient}), ${user.email.toLowerCase()}) > 0`);
+      }
+      await tx.delete(notificationPreferences).where(eq(notificationPreferences.userId, id));
+      await tx.delete(adrWatches).where(eq(adrWatches.userId, id));
+      await tx
+        .delete(loginThrottles)
+        .where(and(eq(loginThrottles.scope, "username"), eq(loginThrottles.key, user.username.trim().toLowerCase())));
+
+      return tx
+        .update(users)
+        .set({
+          username: replacement.username,
+          displayName: newName,
+          password: replacement.password,
+          externalId: null,
+          active: false,
+          deactivatedAt: sql`coalesce(${users.deactivatedAt}, now())`,
+          anonymisedAt: new Date(),
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastStep: null,
+          email: null,
+          emailDigestSentAt: null,
+        })
+        .where(eq(users.id, id))
+        .returning();
+    });
+    await this.deleteUserSessions(id);
+    return anonymised;
+  }
+
+  // ── Two-Factor Authentication ─────────────────────────────────────────────
+
+  // A new secret replaces any unfinished enrolment but never an enabled one
+  async setTotpSecret(userId: string, secret: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ totpSecret: secret, totpLastStep: null })
+      .where(and(eq(users.id, userId), isNull(users.totpEnabledAt)));
+  }
+
+  async enableTotp(userId: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ totpEnabledAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.totpEnabledAt)))
+      .returning();
+    return user;
+  }
+
+  async disableTotp(userId: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastStep: null })
+      .where(eq(users.id, userId));
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  }
+
+  // Atomically moves the accepted step forward; false when the step was already used
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const result = await db
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), sql`${users.totpLastStep} < ${step}`)))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash), isNull(recoveryCodes.usedAt)))
+      .returning({ id: recoveryCodes.id });
     return result.length > 0;
   }
 
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row?.count ?? 0;
+  }
+
+  // ── Passwords & Sessions ──────────────────────────────────────────────────
+
+  // Issuing a new link invalidates any earlier unused link for the same user
+  async createPasswordResetToken(data: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(passwordResetTokens)
+        .where(and(eq(passwordResetTokens.userId, data.userId), isNull(passwordResetTokens.usedAt)));
+      const [token] = await tx.insert(passwordResetTokens).values(data).returning();
+      return token;
+    });
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  // Marks the token used in the same statement that checks it, so a link works only once
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        sql`${passwordResetTokens.expiresAt} > now()`,
+      ))
+      .returning();
+    return token;
+  }
+
+  // Sessions live in connect-pg-simple's "session" table, keyed by passport's serialized user id
+  async getUserSessions(userId: string): Promise<StoredSession[]> {
+    const result = await db.execute(sql`
+      SELECT sid, sess, expire FROM "session"
+      WHERE sess->'passport'->>'user' = ${userId} AND expire > now()
+      ORDER BY expire DESC
+    `);
+    return (result.rows as Array<{ sid: string; sess: Record<string, any>; expire: Date | string }>).map((row) => ({
+      sid: row.sid,
+      sess: row.sess,
+      expire: new Date(row.expire),
+    }));
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const result = await db.execute(sql`DELETE FROM "session" WHERE sid = ${sid}`);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const result = await db.execute(sql`
+      DELETE FROM "session"
+      WHERE sess->'passport'->>'user' = ${userId}
+      ${exceptSessionId ? sql`AND sid <> ${exceptSessionId}` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // ── Login Throttling ──────────────────────────────────────────────────────
+
+  async getLoginThrottle(scope: LoginThrottleScope, key: string): Promise<LoginThrottle | undefined> {
+    const [row] = await db
+      .select()
+      .from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+    return row;
+  }
+
+  // Counts one failure, restarting the count when the previous window has passed
+  async recordLoginThrottleFailure(scope: LoginThrottleScope, key: string, windowMs: number): Promise<LoginThrottle> {
+    const expired = sql`${loginThrottles.firstFailureAt} < now() - (${windowMs} * interval '1 millisecond')`;
+    const [row] = await db
+      .insert(loginThrottles)
+      .values({ scope, key, failures: 1 })
+      .onConflictDoUpdate({
+        target: [loginThrottles.scope, loginThrottles.key],
+        set: {
+          failures: sql`CASE WHEN ${expired} THEN 1 ELSE ${loginThrottles.failures} + 1 END`,
+          firstFailureAt: sql`CASE WHEN ${expired} THEN now() ELSE ${loginThrottles.firstFailureAt} END`,
+          lastFailureAt: sql`now()`,
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  async lockLoginThrottle(id: number, lockedUntil: Date): Promise<void> {
+    await db.update(loginThrottles).set({ lockedUntil }).where(eq(loginThrottles.id, id));
+  }
+
+  async getActiveLockouts(): Promise<LoginThrottle[]> {
+    return db
+      .select()
+      .from(loginThrottles)
+      .where(sql`${loginThrottles.lockedUntil} > now()`)
+      .orderBy(desc(loginThrottles.lockedUntil));
+  }
+
+  async clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<LoginThrottle | undefined> {
+    const [row] = await db
+      .delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+      .returning();
+    return row;
+  }
+
+  async clearLoginThrottleById(id: number): Promise<LoginThrottle | undefined> {
+    const [row] = await db.delete(loginThrottles).where(eq(loginThrottles.id, id)).returning();
+    return row;
+  }
+
+  // Drops counters that can no longer delay or lock anyone
+  async pruneLoginThrottles(windowMs: number): Promise<void> {
+    await db.delete(loginThrottles).where(and(
+      sql`${loginThrottles.lastFailureAt} < now() - (${windowMs} * interval '1 millisecond')`,
+      or(isNull(loginThrottles.lockedUntil), sql`${loginThrottles.lockedUntil} < now()`),
+    ));
+  }
+
+  // ── API Tokens ────────────────────────────────────────────────────────────
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createApiToken(data: InsertApiToken): Promise<ApiToken> {
+    const [token] = await db.insert(apiTokens).values(data).returning();
+    return token;
+  }
+
+  // Only the owner can revoke; already-revoked tokens are left untouched
+  async revokeApiToken(id: number, userId: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning();
+    return token;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+
   // ── Project Requirements ──────────────────────────────────────────────────
 
   async getProjectRequirements(projectId: number): Promise<ProjectRequirement[]> {
@@ -432,13 +1668,13 @@ export class DatabaseStorage implements IStorage {
   // ── Attachments ───────────────────────────────────────────────────────────
 
   async createAttachment(data: InsertAttachment): Promise<Attachment> {
-    const [attachment] = await db.insert(attachments).values(data).returning();
+    const [attachment] = await db.insert(attachments).values(data).returning(attachmentColumns);
     return attachment;
   }
 
   async getProjectAttachments(projectId: number): Promise<Attachment[]> {
     return db
-      .select()
+      .select(attachmentColumns)
       .from(attachments)
       .where(eq(attachments.projectId, projectId))
       .orderBy(desc(attachments.createdAt));
@@ -446,7 +1682,7 @@ export class DatabaseStorage implements IStorage {
 
   async getAdrAttachments(adrId: number): Promise<Attachment[]> {
     return db
-      .select()
+      .select(attachmentColumns)
       .from(attachments)
       .where(eq(attachments.adrId, adrId))
       .orderBy(attachments.createdAt);
@@ -454,7 +1690,7 @@ export class DatabaseStorage implements IStorage {
 
   async getAttachment(id: number): Promise<Attachment | undefined> {
     const [attachment] = await db
-      .select()
+      .select(attachmentColumns)
       .from(attachments)
       .where(eq(attachments.id, id));
     return attachment;
@@ -471,20 +1707,20 @@ export class DatabaseStorage implements IStorage {
   // ── Diagrams ──────────────────────────────────────────────────────────────
 
   async createDiagram(data: InsertDiagram): Promise<Diagram> {
-    const [diagram] = await db.insert(diagrams).values(data).returning();
+    const [diagram] = await db.insert(diagrams).values(data).returning(diagramColumns);
     return diagram;
   }
 
   async getAdrDiagrams(adrId: number): Promise<Diagram[]> {
     return db
-      .select()
+      .select(diagramColumns)
       .from(diagrams)
       .where(eq(diagrams.adrId, adrId))
       .orderBy(desc(diagrams.updatedAt));
   }
 
   async getDiagram(id: number): Promise<Diagram | undefined> {
-    const [diagram] = await db.select().from(diagrams).where(eq(diagrams.id, id));
+    const [diagram] = await db.select(diagramColumns).from(diagrams).where(eq(diagrams.id, id));
     return diagram;
   }
 
@@ -493,7 +1729,7 @@ export class DatabaseStorage implements IStorage {
       .update(diagrams)
       .set({ ...data, updatedAt: new Date() })
       .where(eq(diagrams.id, id))
-      .returning();
+      .returning(diagramColumns);
     return diagram;
   }
 
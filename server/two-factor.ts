@@ -0,0 +1,96 @@
+import { createHash, randomBytes } from "node:crypto";
+import * as OTPAuth from "otpauth";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import type { Project, SafeUser, User } from "@shared/schema";
+
+const ISSUER = "ADR Manager";
+const RECOVERY_CODE_COUNT = 10;
+
+export type SecondFactorMethod = "totp" | "recovery_code";
+
+function totpFor(user: User, secret: string): OTPAuth.TOTP {
+  return new OTPAuth.TOTP({
+    issuer: ISSUER,
+    label: user.username,
+    algorithm: "SHA1",
+    digits: 6,
+    period: 30,
+    secret: OTPAuth.Secret.fromBase32(secret),
+  });
+}
+
+export function isTwoFactorEnabled(user: User): boolean {
+  return !!user.totpEnabledAt && !!user.totpSecret;
+}
+
+/** Strip credentials and 2FA secrets before a user is sent to the client. */
+export function toSafeUser(user: User): SafeUser {
+  const { password: _pw, totpSecret: _secret, totpLastStep: _step, ...rest } = user;
+  return { ...rest, twoFactorEnabled: isTwoFactorEnabled(user) };
+}
+
+// SSO accounts are expected to get their second factor from the identity provider
+export function canEnrolTwoFactor(user: User): boolean {
+  return user.authProvider !== "oidc";
+}
+
+/** Whether the user may use admin actions in a project that requires 2FA for its admins. */
+export function meetsProjectTwoFactorPolicy(user: User, project: Pick<Project, "requireAdminTwoFactor">): boolean {
+  return !project.requireAdminTwoFactor || !canEnrolTwoFactor(user) || isTwoFactorEnabled(user);
+}
+
+/**
+ * Start (or restart) enrolment with a fresh secret. The secret is stored but
+ * not enforced until the user confirms it with a valid code.
+ */
+export async function beginTotpEnrolment(user: User): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const secret = new OTPAuth.Secret({ size: 20 }).base32;
+  await storage.setTotpSecret(user.id, secret);
+  const otpauthUrl = totpFor(user, secret).toString();
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/**
+ * Check a 6-digit code against the user's secret, allowing one step of clock
+ * drift either way. Accepted steps are recorded so a code only works once.
+ */
+export async function verifyTotpCode(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+  const totp = totpFor(user, user.totpSecret);
+  const token = code.replace(/\s/g, "");
+  const delta = totp.validate({ token, window: 1 });
+  if (delta === null) return false;
+  return storage.recordTotpStep(user.id, totp.counter() + delta);
+}
+
+function normaliseRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normaliseRecoveryCode(code)).digest("hex");
+}
+
+/** Replace the user's recovery codes; the plaintext codes are only returned here. */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+/**
+ * Verify a second factor for a user with 2FA enabled: six digits are treated
+ * as a TOTP code, anything else as a single-use recovery code.
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<SecondFactorMethod | null> {
+  if (!isTwoFactorEnabled(user)) return null;
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed.replace(/\s/g, ""))) {
+    return (await verifyTotpCode(user, trimmed)) ? "totp" : null;
+  }
+  return (await storage.consumeRecoveryCode(user.id, hashRecoveryCode(trimmed))) ? "recovery_code" : null;
+}
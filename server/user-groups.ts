@@ -0,0 +1,47 @@
+import { storage } from "./storage";
+import { createNotification } from "./notifications";
+import { findProjectRole } from "./project-access";
+import type { UserGroup } from "@shared/schema";
+
+export type ProjectAccessSnapshot = Map<string, Set<number>>;
+
+/** Projects each user can reach right now, taken before a group change. */
+export async function snapshotProjectAccess(userIds: string[]): Promise<ProjectAccessSnapshot> {
+  const snapshot: ProjectAccessSnapshot = new Map();
+  for (const userId of userIds) {
+    snapshot.set(userId, new Set(await storage.getAccessibleProjectIds(userId)));
+  }
+  return snapshot;
+}
+
+/**
+ * Send the usual "Added to project" notification to users in the snapshot
+ * who can now reach one of the group's projects they could not before.
+ * People who already had access, directly or through another group, are
+ * left alone. Returns how many notifications were sent.
+ */
+export async function notifyGroupAccessGained(
+  group: UserGroup,
+  before: ProjectAccessSnapshot,
+  onlyProjectId?: number,
+): Promise<number> {
+  const grants = (await storage.getUserGroupGrants(group.id))
+    .filter((g) => onlyProjectId === undefined || g.projectId === onlyProjectId);
+  let sent = 0;
+  for (const grant of grants) {
+    const role = await findProjectRole(grant.projectId, grant.role);
+    for (const [userId, projectIds] of Array.from(before.entries())) {
+      if (projectIds.has(grant.projectId)) continue;
+      await createNotification({
+        userId,
+        type: "member_added",
+        title: "Added to project",
+        body: `You have been added to ${grant.projectName} as ${role?.name ?? grant.role} through ${group.name}`,
+        href: `/projects/${grant.projectId}`,
+        projectId: grant.projectId,
+      });
+      sent++;
+    }
+  }
+  return sent;
+}
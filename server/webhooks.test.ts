@@ -0,0 +1,94 @@
+import { createHmac } from "node:crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+// Host names resolve from this table instead of real DNS
+const hosts: Record<string, string[]> = {
+  "hooks.example.com": ["93.184.216.34"],
+  "localhost": ["127.0.0.1", "::1"],
+  "metadata.internal": ["169.254.169.254"],
+  "mixed.example.com": ["93.184.216.34", "10.0.0.5"],
+  "hooks.corp.example": ["10.20.1.1"],
+  "intranet.example": ["10.20.3.4"],
+};
+
+vi.mock("node:dns", () => ({
+  lookup: (hostname: string, _options: unknown, callback: (err: NodeJS.ErrnoException | null, addresses: { address: string; family: number }[]) => void) => {
+    const addresses = hosts[hostname];
+    if (!addresses) return callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: "ENOTFOUND" }), []);
+    callback(null, addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })));
+  },
+}));
+
+async function loadWebhooks(allowedHosts = "") {
+  vi.resetModules();
+  vi.stubEnv("WEBHOOK_ALLOWED_HOSTS", allowedHosts);
+  return import("./webhooks");
+}
+
+describe("checkWebhookTarget", () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts public addresses and host names", async () => {
+    const { checkWebhookTarget } = await loadWebhooks();
+    expect(await checkWebhookTarget("https://93.184.216.34/hook")).toBeNull();
+    expect(await checkWebhookTarget("https://[2606:2800:220:1:248:1893:25c8:1946]/hook")).toBeNull();
+    expect(await checkWebhookTarget("https://hooks.example.com/hook")).toBeNull();
+  });
+
+  it.each([
+    "http://127.0.0.1:8080/hook",
+    "http://10.1.2.3/hook",
+    "http://172.16.0.1/hook",
+    "http://192.168.1.1/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://0.0.0.0/hook",
+    "http://[::1]/hook",
+    "http://[fd00::1]/hook",
+    "http://[fe80::1]/hook",
+  ])("refuses the internal address in %s", async (url) => {
+    const { checkWebhookTarget } = await loadWebhooks();
+    expect(await checkWebhookTarget(url)).toMatch(/private or local address/);
+  });
+
+  it("checks IPv4-mapped IPv6 addresses as the IPv4 address they carry", async () => {
+    const { checkWebhookTarget } = await loadWebhooks();
+    expect(await checkWebhookTarget("http://[::ffff:127.0.0.1]/hook")).toMatch(/private or local address/);
+    // The URL parser rewrites the dotted form to hex: ::ffff:a9fe:a9fe
+    expect(await checkWebhookTarget("http://[::ffff:169.254.169.254]/hook")).toMatch(/private or local address/);
+    expect(await checkWebhookTarget("http://[::ffff:93.184.216.34]/hook")).toBeNull();
+  });
+
+  it("refuses host names that resolve to any internal address", async () => {
+    const { checkWebhookTarget } = await loadWebhooks();
+    expect(await checkWebhookTarget("http://localhost:5000/hook")).toMatch(/localhost is a private or local address/);
+    expect(await checkWebhookTarget("http://metadata.internal/")).toMatch(/private or local address/);
+    expect(await checkWebhookTarget("https://mixed.example.com/hook")).toMatch(/private or local address/);
+  });
+
+  it("lets host names that do not resolve yet through", async () => {
+    const { checkWebhookTarget } = await loadWebhooks();
+    expect(await checkWebhookTarget("https://not-yet.example.com/hook")).toBeNull();
+  });
+
+  it("allows host names, addresses and ranges listed in WEBHOOK_ALLOWED_HOSTS", async () => {
+    const { checkWebhookTarget } = await loadWebhooks("Hooks.Corp.Example, 10.20.3.0/24, 192.168.1.10");
+    expect(await checkWebhookTarget("https://hooks.corp.example/hook")).toBeNull();
+    expect(await checkWebhookTarget("https://intranet.example/hook")).toBeNull();
+    expect(await checkWebhookTarget("http://192.168.1.10/hook")).toBeNull();
+    expect(await checkWebhookTarget("http://192.168.1.11/hook")).toMatch(/private or local address/);
+    expect(await checkWebhookTarget("http://127.0.0.1/hook")).toMatch(/private or local address/);
+  });
+});
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with the secret", async () => {
+    const { signWebhookPayload } = await loadWebhooks();
+    const expected = createHmac("sha256", "whsec_test").update('1700000000.{"id":"1"}').digest("hex");
+    expect(signWebhookPayload("whsec_test", "1700000000", '{"id":"1"}')).toBe(expected);
+    expect(signWebhookPayload("whsec_other", "1700000000", '{"id":"1"}')).not.toBe(expected);
+  });
+});
@@ -0,0 +1,343 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { lookup as dnsLookup, type LookupOptions } from "node:dns";
+import { BlockList, isIP } from "node:net";
+import http from "node:http";
+import https from "node:https";
+import { and, arrayContains, asc, eq, inArray, lt, lte, ne, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { logger } from "./logger";
+import { appUrl } from "./email-templates";
+import {
+  webhooks,
+  webhookDeliveries,
+  type Actor,
+  type Adr,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "@shared/schema";
+
+const POLL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 6;
+const TIMEOUT_MS = 10 * 1000;
+// Claimed deliveries stay hidden from other instances while being sent, one after another;
+// the lease outlasts a batch where every receiver times out, so none is claimed twice
+const LEASE_SECONDS = (BATCH_SIZE * TIMEOUT_MS) / 1000 + 60;
+const LEASE = sql`now() + make_interval(secs => ${LEASE_SECONDS})`;
+
+// Loopback, private, link-local, unique-local and other non-public ranges: webhooks must not
+// reach the server's own network (or a cloud metadata endpoint) unless allowed below
+const blockedAddresses = new BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+// WEBHOOK_ALLOWED_HOSTS: comma-separated host names, addresses or CIDR ranges that may be
+// targeted even though they are internal, e.g. "hooks.corp.example,10.20.0.0/16"
+const allowedHostNames = new Set<string>();
+const allowedAddresses = new BlockList();
+for (const entry of (process.env.WEBHOOK_ALLOWED_HOSTS || "").split(",").map((e) => e.trim().toLowerCase()).filter(Boolean)) {
+  const [address, prefix] = entry.split("/");
+  const family = isIP(address);
+  if (!family) allowedHostNames.add(entry);
+  else if (prefix) allowedAddresses.addSubnet(address, Number(prefix), family === 4 ? "ipv4" : "ipv6");
+  else allowedAddresses.addAddress(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+// Set when asked to run during a run, so events queued meanwhile are not left for the next poll
+let rerun = false;
+
+/** Body POSTed to subscribers; `id` identifies the event and survives redelivery. */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  project: { id: number; key: string; name: string } | null;
+  actor: { id: string | null; displayName: string } | null;
+  data: Record<string, unknown>;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`. Receivers recompute it with their
+ * copy of the secret and reject stale timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function isForbiddenAddress(hostname: string, address: string): boolean {
+  if (allowedHostNames.has(hostname.toLowerCase())) return false;
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  const plain = dotted
+    ? dotted[1]
+    : hex
+      ? [parseInt(hex[1], 16) >> 8, parseInt(hex[1], 16) & 255, parseInt(hex[2], 16) >> 8, parseInt(hex[2], 16) & 255].join(".")
+      : address;
+  const type = isIP(plain) === 4 ? "ipv4" : "ipv6";
+  return !allowedAddresses.check(plain, type) && blockedAddresses.check(plain, type);
+}
+
+function forbiddenTargetError(hostname: string): Error {
+  return new Error(`${hostname} is a private or local address; allow it with WEBHOOK_ALLOWED_HOSTS`);
+}
+
+// Checks every address a host resolves to when the connection is made, so a name
+// cannot pass validation and later resolve somewhere internal
+function guardedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (err: NodeJS.ErrnoException | null, address: string | { address: string; family: number }[], family?: number) => void,
+) {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || addresses.some((a) => isForbiddenAddress(hostname, a.address))) {
+      return callback(forbiddenTargetError(hostname), "");
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * Why `url` may not receive webhooks, or null when it may. Host names that do
+ * not resolve yet are let through; deliveries check again on every attempt.
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname)) return isForbiddenAddress(hostname, hostname) ? forbiddenTargetError(hostname).message : null;
+  return new Promise((resolve) => {
+    guardedLookup(hostname, { all: true }, (err) => {
+      resolve(err && !(err as NodeJS.ErrnoException).code ? err.message : null);
+    });
+  });
+}
+
+// Resolves with the status code; the response body is discarded unread
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+  // Literal addresses never go through the lookup
+  if (isIP(hostname) && isForbiddenAddress(hostname, hostname)) return Promise.reject(forbiddenTargetError(hostname));
+  return new Promise((resolve, reject) => {
+    const req = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: guardedLookup as typeof dnsLookup,
+    }, (res) => {
+      clearTimeout(deadline);
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    const deadline = setTimeout(() => req.destroy(new Error(`No response within ${TIMEOUT_MS / 1000}s`)), TIMEOUT_MS);
+    req.on("error", (err) => {
+      clearTimeout(deadline);
+      reject(err);
+    });
+    req.end(body);
+  });
+}
+
+/** The ADR as described in webhook payloads. */
+export function adrWebhookData(adr: Adr): Record<string, unknown> {
+  return {
+    id: adr.id,
+    adrNumber: adr.adrNumber,
+    title: adr.title,
+    status: adr.status,
+    version: adr.version,
+    tags: adr.tags,
+    archived: adr.archived,
+    url: appUrl(`/projects/${adr.projectId}/adrs/${adr.id}`),
+  };
+}
+
+/**
+ * Queue `event` for every active webhook of the project subscribed to it.
+ * Never throws: a broken subscription must not fail the change that caused it.
+ */
+export async function emitWebhookEvent(
+  projectId: number,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  actor: Actor | string | null,
+): Promise<void> {
+  try {
+    const subscribed = await db
+      .select({ id: webhooks.id })
+      .from(webhooks)
+      .where(and(eq(webhooks.projectId, projectId), eq(webhooks.active, true), arrayContains(webhooks.events, [event])));
+    if (subscribed.length === 0) return;
+
+    const project = await storage.getProject(projectId);
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      project: project ? { id: project.id, key: project.key, name: project.name } : null,
+      actor: actor === null
+        ? null
+        : typeof actor === "string"
+          ? { id: null, displayName: actor }
+          : { id: actor.id, displayName: actor.displayName },
+      data,
+    };
+    const body = JSON.stringify(payload);
+    await db.insert(webhookDeliveries).values(subscribed.map((w) => ({ webhookId: w.id, event, payload: body })));
+    setImmediate(() => void processWebhookQueue());
+  } catch (err) {
+    logger.error("Failed to queue webhook event", {
+      message: err instanceof Error ? err.message : String(err),
+      projectId,
+      event,
+    });
+  }
+}
+
+/** Send a past delivery's payload again, as a new delivery with its own attempts. */
+export async function redeliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [copy] = await db
+    .insert(webhookDeliveries)
+    .values({
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: delivery.payload,
+      redeliveryOf: delivery.id,
+    })
+    .returning();
+  setImmediate(() => void processWebhookQueue());
+  return copy;
+}
+
+async function claimDueDeliveries() {
+  const due = db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, sql`now()`)))
+    .orderBy(asc(webhookDeliveries.id))
+    .limit(BATCH_SIZE)
+    .for("update", { skipLocked: true });
+  const claimed = await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: LEASE })
+    .where(inArray(webhookDeliveries.id, due))
+    .returning();
+  if (claimed.length === 0) return [];
+  const targets = await db
+    .select()
+    .from(webhooks)
+    .where(inArray(webhooks.id, claimed.map((d) => d.webhookId)));
+  return claimed.map((delivery) => ({ delivery, webhook: targets.find((w) => w.id === delivery.webhookId) }));
+}
+
+async function deliver(delivery: WebhookDelivery, webhook: Webhook | undefined): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  if (!webhook || !webhook.active) {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: "failed", lastError: "Webhook is disabled" })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return;
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const started = Date.now();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    // Redirects are not followed: they could point the signed payload anywhere
+    responseStatus = await postWebhook(webhook.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "ADR-Manager-Webhooks/1.0",
+      "X-ADR-Event": delivery.event,
+      "X-ADR-Delivery": String(delivery.id),
+      "X-ADR-Timestamp": timestamp,
+      "X-ADR-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, delivery.payload)}`,
+    }, delivery.payload);
+    if (responseStatus < 200 || responseStatus >= 300) error = `Receiver answered ${responseStatus}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+  const durationMs = Date.now() - started;
+
+  if (!error) {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: "delivered", attempts, responseStatus, durationMs, lastError: null, deliveredAt: sql`now()` })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return;
+  }
+
+  const giveUp = attempts >= MAX_ATTEMPTS;
+  // Back off 1, 2, 4, 8, 16 minutes between attempts
+  const retryMinutes = 2 ** (attempts - 1);
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: giveUp ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      durationMs,
+      lastError: error.slice(0, 1000),
+      nextAttemptAt: sql`now() + make_interval(mins => ${retryMinutes})`,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+  logger.warn(giveUp ? "Webhook delivery failed, giving up" : "Webhook delivery failed, will retry", {
+    id: delivery.id,
+    webhookId: webhook.id,
+    attempts,
+    message: error,
+  });
+}
+
+/** Send whatever deliveries are due. Safe to call at any time. */
+export async function processWebhookQueue(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = true;
+  try {
+    do {
+      rerun = false;
+      let batch: Awaited<ReturnType<typeof claimDueDeliveries>>;
+      do {
+        batch = await claimDueDeliveries();
+        for (const { delivery, webhook } of batch) await deliver(delivery, webhook);
+      } while (batch.length === BATCH_SIZE);
+    } while (rerun);
+    await db
+      .delete(webhookDeliveries)
+      .where(and(ne(webhookDeliveries.status, "pending"), lt(webhookDeliveries.createdAt, sql`now() - interval '30 days'`)));
+  } catch (err) {
+    logger.error("Webhook queue run failed", { message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    running = false;
+  }
+}
+
+export function startWebhookWorker() {
+  if (timer) return;
+  timer = setInterval(() => void processWebhookQueue(), POLL_MS);
+  timer.unref();
+}
+
+export function stopWebhookWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
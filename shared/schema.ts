@@ -1,4 +1,4 @@
-import { sql } from "drizzle-orm";
+import { sql, type SQL, type SQLWrapper } from "drizzle-orm";
 import { pgTable, text, varchar, integer, timestamp, boolean, serial, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -10,6 +10,10 @@ export const projects = pgTable("projects", {
   name: varchar("name", { length: 100 }).notNull(),
   description: text("description"),
   key: varchar("key", { length: 10 }).notNull().unique(),
+  // Minimum approvals before an ADR can be accepted; 0 disables the review gate
+  reviewQuorum: integer("review_quorum").notNull().default(1),
+  // Project admins must have two-factor authentication enabled to use admin actions
+  requireAdminTwoFactor: boolean("require_admin_two_factor").notNull().default(false),
   createdBy: varchar("created_by").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -42,6 +46,144 @@ export const projectMembers = pgTable("project_members", {
 
 export type ProjectMember = typeof projectMembers.$inferSelect;
 
+// ─── Project Roles ───────────────────────────────────────────────────────────
+
+// What a project role can be granted. Viewing is implied by membership.
+export const projectPermissionEnum = [
+  "adr.create",
+  "adr.edit",
+  "adr.change_status",
+  "adr.archive",
+  "adr.comment",
+  "requirements.manage",
+  "diagrams.manage",
+  "attachments.manage",
+  "members.manage",
+] as const;
+export type ProjectPermission = typeof projectPermissionEnum[number];
+
+export const projectPermissionLabels: Record<ProjectPermission, string> = {
+  "adr.create": "Create and import ADRs",
+  "adr.edit": "Edit ADR content, relations and reviewers",
+  "adr.change_status": "Change ADR status",
+  "adr.archive": "Archive ADRs",
+  "adr.comment": "Comment on ADRs",
+  "requirements.manage": "Manage requirements and their links",
+  "diagrams.manage": "Manage diagrams",
+  "attachments.manage": "Manage attachments",
+  "members.manage": "Manage members",
+};
+
+// Custom roles defined by project admins alongside the built-in admin, editor and viewer
+export const projectRoles = pgTable("project_roles", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  key: varchar("key", { length: 50 }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  permissions: text("permissions").array().notNull().default(sql`'{}'::text[]`),
+  // Workflow states adr.change_status may move ADRs into; empty means any state
+  statusTargets: text("status_targets").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (t) => ({
+  projectKeyUnique: unique().on(t.projectId, t.key),
+  projectIdx: index("project_roles_project_idx").on(t.projectId),
+}));
+
+export type ProjectRole = typeof projectRoles.$inferSelect;
+export type InsertProjectRole = typeof projectRoles.$inferInsert;
+
+export type ProjectRoleDefinition = Pick<ProjectRole, "key" | "name" | "description" | "statusTargets"> & {
+  permissions: ProjectPermission[];
+  builtIn: boolean;
+};
+
+export const builtInProjectRoles: ProjectRoleDefinition[] = [
+  {
+    key: "admin",
+    name: "Admin",
+    description: "Everything, including project settings, workflow and roles",
+    permissions: [...projectPermissionEnum],
+    statusTargets: [],
+    builtIn: true,
+  },
+  {
+    key: "editor",
+    name: "Editor",
+    description: "Writes and maintains ADRs and their requirements, diagrams and attachments",
+    permissions: projectPermissionEnum.filter((p) => p !== "adr.archive" && p !== "members.manage"),
+    statusTargets: [],
+    builtIn: true,
+  },
+  {
+    key: "viewer",
+    name: "Viewer",
+    description: "Reads and comments",
+    permissions: ["adr.comment"],
+    statusTargets: [],
+    builtIn: true,
+  },
+];
+
+/** What the signed-in user may do in a project, as resolved from their role. */
+export interface ProjectAccess {
+  // The highest of the user's direct and group grants
+  role: string;
+  // Only the built-in admin role may change project settings, the workflow and roles
+  isAdmin: boolean;
+  permissions: ProjectPermission[];
+  statusTargets: string[];
+}
+
+export function hasProjectPermission(access: ProjectAccess | null | undefined, permission: ProjectPermission): boolean {
+  return !!access && access.permissions.includes(permission);
+}
+
+export function canMoveToStatus(access: ProjectAccess | null | undefined, status: string): boolean {
+  return hasProjectPermission(access, "adr.change_status")
+    && (access!.statusTargets.length === 0 || access!.statusTargets.includes(status));
+}
+
+// ─── User Groups ─────────────────────────────────────────────────────────────
+
+// Teams managed by global admins; granting a group a project role gives it to every member
+export const userGroups = pgTable("user_groups", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type UserGroup = typeof userGroups.$inferSelect;
+export type InsertUserGroup = typeof userGroups.$inferInsert;
+
+export const userGroupMembers = pgTable("user_group_members", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  groupUserUnique: unique().on(t.groupId, t.userId),
+  userIdx: index("ugm_user_idx").on(t.userId),
+}));
+
+export type UserGroupMember = typeof userGroupMembers.$inferSelect;
+
+export const projectGroupGrants = pgTable("project_group_grants", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  groupId: integer("group_id").notNull(),
+  role: text("role").notNull().default("viewer"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  projectGroupUnique: unique().on(t.projectId, t.groupId),
+  groupIdx: index("pgg_group_idx").on(t.groupId),
+}));
+
+export type ProjectGroupGrant = typeof projectGroupGrants.$inferSelect;
+
 // ─── ADR Status ───────────────────────────────────────────────────────────────
 
 export const adrStatusEnum = ["draft", "proposed", "in_review", "accepted", "deprecated", "superseded"] as const;
@@ -50,8 +192,32 @@ export type AdrStatus = typeof adrStatusEnum[number];
 export const adrRelationTypeEnum = ["supersedes", "superseded_by", "conflicts_with", "depends_on", "related_to"] as const;
 export type AdrRelationType = typeof adrRelationTypeEnum[number];
 
+// Relation types stored as a pair; adding or removing one side also maintains the other
+export const adrRelationInverses: Partial<Record<AdrRelationType, AdrRelationType>> = {
+  supersedes: "superseded_by",
+  superseded_by: "supersedes",
+};
+
 // ─── ADRs ─────────────────────────────────────────────────────────────────────
 
+// Full-text search document: tiptap HTML is stripped before indexing, and
+// fields are weighted title (A) > decision (B) > context (C) > the rest (D).
+// The GIN index below is built on this exact expression, so queries must use it too.
+export function stripHtml(column: SQLWrapper): SQL {
+  return sql`regexp_replace(coalesce(${column}, ''), '<[^>]*>', ' ', 'g')`;
+}
+
+export function adrSearchVector(t: Record<"title" | "decision" | "context" | "consequences" | "alternatives", SQLWrapper>): SQL {
+  return sql`(setweight(to_tsvector('english', coalesce(${t.title}, '')), 'A')
+    || setweight(to_tsvector('english', ${stripHtml(t.decision)}), 'B')
+    || setweight(to_tsvector('english', ${stripHtml(t.context)}), 'C')
+    || setweight(to_tsvector('english', ${stripHtml(t.consequences)} || ' ' || ${stripHtml(t.alternatives)}), 'D'))`;
+}
+
+export function adrSearchText(t: Record<"decision" | "context" | "consequences" | "alternatives", SQLWrapper>): SQL {
+  return sql`${stripHtml(t.decision)} || ' ' || ${stripHtml(t.context)} || ' ' || ${stripHtml(t.consequences)} || ' ' || ${stripHtml(t.alternatives)}`;
+}
+
 export const adrs = pgTable("adrs", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").notNull(),
@@ -64,6 +230,8 @@ export const adrs = pgTable("adrs", {
   alternatives: text("alternatives"),
   tags: text("tags").array().default(sql`'{}'::text[]`),
   team: varchar("team", { length: 100 }),
+  authorId: varchar("author_id").references(() => users.id),
+  // Name at the time of writing; only shown when authorId is unset (see actorName)
   author: varchar("author", { length: 100 }).notNull(),
   version: varchar("version", { length: 20 }).notNull().default("1.0"),
   archived: boolean("archived").notNull().default(false),
@@ -75,6 +243,8 @@ export const adrs = pgTable("adrs", {
   projectIdx: index("adrs_project_idx").on(t.projectId),
   statusIdx: index("adrs_status_idx").on(t.status),
   authorIdx: index("adrs_author_idx").on(t.author),
+  authorIdIdx: index("adrs_author_id_idx").on(t.authorId),
+  searchIdx: index("adrs_search_idx").using("gin", adrSearchVector(t)),
 }));
 
 export const insertAdrSchema = createInsertSchema(adrs).omit({
@@ -103,6 +273,7 @@ export const adrVersions = pgTable("adr_versions", {
   team: varchar("team", { length: 100 }),
   author: varchar("author", { length: 100 }).notNull(),
   changeReason: text("change_reason"),
+  changedById: varchar("changed_by_id").references(() => users.id),
   changedBy: varchar("changed_by", { length: 100 }).notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (t) => ({
@@ -117,6 +288,41 @@ export const insertAdrVersionSchema = createInsertSchema(adrVersions).omit({
 export type InsertAdrVersion = z.infer<typeof insertAdrVersionSchema>;
 export type AdrVersion = typeof adrVersions.$inferSelect;
 
+// ─── ADR Reviews ─────────────────────────────────────────────────────────────
+
+export const reviewDecisionEnum = ["approve", "reject", "request_changes"] as const;
+export type ReviewDecision = typeof reviewDecisionEnum[number];
+
+export const adrReviewers = pgTable("adr_reviewers", {
+  id: serial("id").primaryKey(),
+  adrId: integer("adr_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  requestedBy: varchar("requested_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  adrUserUnique: unique().on(t.adrId, t.userId),
+  adrIdx: index("adr_reviewers_adr_idx").on(t.adrId),
+}));
+
+export type AdrReviewer = typeof adrReviewers.$inferSelect;
+
+export const adrReviews = pgTable("adr_reviews", {
+  id: serial("id").primaryKey(),
+  adrId: integer("adr_id").notNull(),
+  reviewerId: varchar("reviewer_id").notNull(),
+  decision: text("decision").notNull(),
+  comment: text("comment").notNull(),
+  adrVersion: varchar("adr_version", { length: 20 }).notNull(),
+  // Set when the ADR's content is edited after the review; dismissed reviews no longer count
+  dismissedAt: timestamp("dismissed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  adrIdx: index("adr_reviews_adr_idx").on(t.adrId),
+}));
+
+export type AdrReview = typeof adrReviews.$inferSelect;
+export type InsertAdrReview = typeof adrReviews.$inferInsert;
+
 // ─── ADR Comments ────────────────────────────────────────────────────────────
 
 export const adrComments = pgTable("adr_comments", {
@@ -124,6 +330,7 @@ export const adrComments = pgTable("adr_comments", {
   adrId: integer("adr_id").notNull(),
   section: varchar("section", { length: 50 }),
   content: text("content").notNull(),
+  authorId: varchar("author_id").references(() => users.id),
   author: varchar("author", { length: 100 }).notNull(),
   parentId: integer("parent_id"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -137,6 +344,24 @@ export const insertAdrCommentSchema = createInsertSchema(adrComments).omit({
 export type InsertAdrComment = z.infer<typeof insertAdrCommentSchema>;
 export type AdrComment = typeof adrComments.$inferSelect;
 
+// `@username` where not preceded by a word character or `@`, so email addresses don't count.
+// Usernames may contain `.`, `+`, `-` and `@` but must start and end with a word character.
+export const mentionPattern = /(^|[^\w@])@(\w(?:[\w.+@-]*\w)?)/g;
+
+export function isMentionableUsername(username: string): boolean {
+  return /^\w(?:[\w.+@-]*\w)?$/.test(username);
+}
+
+/** Usernames mentioned in `text`, each once, in order of first mention. */
+export function extractMentions(text: string): string[] {
+  const seen = new Map<string, string>();
+  for (const match of Array.from(text.matchAll(mentionPattern))) {
+    const key = match[2].toLowerCase();
+    if (!seen.has(key)) seen.set(key, match[2]);
+  }
+  return Array.from(seen.values());
+}
+
 // ─── ADR Relations ───────────────────────────────────────────────────────────
 
 export const adrRelations = pgTable("adr_relations", {
@@ -145,7 +370,11 @@ export const adrRelations = pgTable("adr_relations", {
   targetAdrId: integer("target_adr_id").notNull(),
   relationType: text("relation_type").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (t) => ({
+  relationUnique: unique().on(t.sourceAdrId, t.targetAdrId, t.relationType),
+  sourceIdx: index("adr_relations_source_idx").on(t.sourceAdrId),
+  targetIdx: index("adr_relations_target_idx").on(t.targetAdrId),
+}));
 
 export const insertAdrRelationSchema = createInsertSchema(adrRelations).omit({
   id: true,
@@ -175,6 +404,75 @@ export const statusLabels: Record<string, string> = {
   superseded: "Superseded",
 };
 
+// ─── Project Workflows ───────────────────────────────────────────────────────
+
+export const workflowColorOptions = [
+  "zinc", "blue", "amber", "emerald", "red", "violet", "sky", "orange", "rose", "teal",
+] as const;
+export type WorkflowColor = typeof workflowColorOptions[number];
+
+// What a state means regardless of its key; the review quorum applies to "accepted" states,
+// and ADRs superseded by an accepted one move to a "superseded" state
+export const workflowCategoryEnum = ["open", "accepted", "superseded", "closed"] as const;
+export type WorkflowCategory = typeof workflowCategoryEnum[number];
+
+export const workflowCategoryLabels: Record<WorkflowCategory, string> = {
+  open: "Open",
+  accepted: "Accepted",
+  superseded: "Superseded",
+  closed: "Closed",
+};
+
+// One row per state; the first state (lowest position) is the initial state for new ADRs.
+export const projectWorkflowStates = pgTable("project_workflow_states", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  key: varchar("key", { length: 50 }).notNull(),
+  label: varchar("label", { length: 100 }).notNull(),
+  color: varchar("color", { length: 20 }).notNull().default("zinc"),
+  isTerminal: boolean("is_terminal").notNull().default(false),
+  // Null on states saved before categories existed; see defaultWorkflowCategory
+  category: varchar("category", { length: 20 }),
+  transitions: text("transitions").array().notNull().default(sql`'{}'::text[]`),
+  position: integer("position").notNull().default(0),
+}, (t) => ({
+  projectKeyUnique: unique().on(t.projectId, t.key),
+  projectIdx: index("pws_project_idx").on(t.projectId),
+}));
+
+export type ProjectWorkflowState = typeof projectWorkflowStates.$inferSelect;
+
+export type WorkflowState = Pick<ProjectWorkflowState, "key" | "label" | "isTerminal" | "transitions"> & {
+  color: WorkflowColor;
+  category: WorkflowCategory;
+};
+
+export function defaultWorkflowCategory(key: string, isTerminal: boolean): WorkflowCategory {
+  if (key === "accepted") return "accepted";
+  if (key === "superseded") return "superseded";
+  if (key === "deprecated" || isTerminal) return "closed";
+  return "open";
+}
+
+const defaultStatusColors: Record<AdrStatus, WorkflowColor> = {
+  draft: "zinc",
+  proposed: "blue",
+  in_review: "amber",
+  accepted: "emerald",
+  deprecated: "red",
+  superseded: "violet",
+};
+
+// Used by projects that have not customised their workflow
+export const defaultWorkflowStates: WorkflowState[] = adrStatusEnum.map((key) => ({
+  key,
+  label: statusLabels[key],
+  color: defaultStatusColors[key],
+  isTerminal: statusTransitionMap[key].length === 0,
+  category: defaultWorkflowCategory(key, statusTransitionMap[key].length === 0),
+  transitions: statusTransitionMap[key],
+}));
+
 export const tagOptions = [
   "database", "security", "frontend", "backend", "infrastructure",
   "api", "auth", "performance", "testing", "devops",
@@ -191,20 +489,52 @@ export const teamOptions = [
 export const userRoleEnum = ["admin", "editor", "viewer"] as const;
 export type UserRole = typeof userRoleEnum[number];
 
+// How notifications reach a user by email: one message each, or bundled into a digest
+export const emailDeliveryEnum = ["off", "immediate", "daily", "weekly"] as const;
+export type EmailDelivery = typeof emailDeliveryEnum[number];
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   displayName: varchar("display_name", { length: 100 }).notNull(),
   role: text("role").notNull().default("viewer"),
+  // "local" accounts sign in with a password; others are provisioned by an identity provider
+  authProvider: text("auth_provider").notNull().default("local"),
+  // Stable subject identifier at the identity provider (e.g. the OIDC `sub` claim)
+  externalId: text("external_id"),
+  // Inactive accounts cannot sign in or use API tokens
+  active: boolean("active").notNull().default(true),
+  deactivatedAt: timestamp("deactivated_at"),
+  // Set once the account's name has been scrubbed from all records; cannot be undone
+  anonymisedAt: timestamp("anonymised_at"),
+  // Base32 TOTP secret; stored during enrolment, only enforced once totpEnabledAt is set
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Last accepted TOTP time step, so a code cannot be replayed within its window
+  totpLastStep: integer("totp_last_step"),
+  email: text("email"),
+  emailDelivery: text("email_delivery").notNull().default("immediate"),
+  // When the last digest went out; the next one is due at the following daily or weekly slot
+  emailDigestSentAt: timestamp("email_digest_sent_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (t) => ({
+  externalIdentityUnique: unique("users_external_identity_unique").on(t.authProvider, t.externalId),
+}));
+
+export const authProviderEnum = ["local", "oidc", "ldap"] as const;
+export type AuthProvider = typeof authProviderEnum[number];
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   displayName: true,
   role: true,
+  authProvider: true,
+  externalId: true,
+  active: true,
+  email: true,
+  emailDelivery: true,
 });
 
 export const registerSchema = z.object({
@@ -221,6 +551,23 @@ export const loginSchema = z.object({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Whoever performed an action: stored by ID, shown by their current name
+export type Actor = Pick<User, "id" | "displayName">;
+
+/**
+ * Display name for an actor column pair: the referenced user's current name,
+ * or the stored name for rows without a user (imports, system actors, and
+ * legacy rows the backfill could not match).
+ */
+export function actorName(idColumn: SQLWrapper, fallback: SQLWrapper): SQL<string> {
+  return sql<string>`coalesce((select ${users.displayName} from ${users} where ${users.id} = ${idColumn}), ${fallback})`;
+}
+
+// A user as returned by the API: credentials and 2FA secrets are never sent
+export type SafeUser = Omit<User, "password" | "totpSecret" | "totpLastStep"> & {
+  twoFactorEnabled: boolean;
+};
+
 export const rolePermissions: Record<string, {
   canCreate: boolean;
   canEdit: boolean;
@@ -235,19 +582,99 @@ export const rolePermissions: Record<string, {
   viewer: { canCreate: false, canEdit: false, canChangeStatus: false, canArchive: false, canComment: true, canManageUsers: false, canManageProjects: false },
 };
 
-// Project-level permissions (based on membership role)
-export const projectRolePermissions: Record<string, {
-  canCreate: boolean;
-  canEdit: boolean;
-  canChangeStatus: boolean;
-  canArchive: boolean;
-  canComment: boolean;
-  canManageMembers: boolean;
-}> = {
-  admin: { canCreate: true, canEdit: true, canChangeStatus: true, canArchive: true, canComment: true, canManageMembers: true },
-  editor: { canCreate: true, canEdit: true, canChangeStatus: true, canArchive: false, canComment: true, canManageMembers: false },
-  viewer: { canCreate: false, canEdit: false, canChangeStatus: false, canArchive: false, canComment: true, canManageMembers: false },
-};
+// ─── API Tokens ──────────────────────────────────────────────────────────────
+
+// read tokens may only call GET/HEAD endpoints; write tokens act with the owner's full rights
+export const apiTokenScopeEnum = ["read", "write"] as const;
+export type ApiTokenScope = typeof apiTokenScopeEnum[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  // SHA-256 of the secret; the plaintext is only shown once at creation
+  tokenHash: text("token_hash").notNull().unique(),
+  // First characters of the secret so users can tell tokens apart
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(),
+  scope: text("scope").notNull().default("read"),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  userIdx: index("api_tokens_user_idx").on(t.userId),
+}));
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// ─── Login Throttling ────────────────────────────────────────────────────────
+
+// Failed sign-ins are counted separately per username and per client IP
+export const loginThrottleScopeEnum = ["username", "ip"] as const;
+export type LoginThrottleScope = typeof loginThrottleScopeEnum[number];
+
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(),
+  // Lower-cased username or client IP address
+  key: text("key").notNull(),
+  // Failures since firstFailureAt; the count restarts once the window has passed
+  failures: integer("failures").notNull().default(0),
+  firstFailureAt: timestamp("first_failure_at").notNull().defaultNow(),
+  lastFailureAt: timestamp("last_failure_at").notNull().defaultNow(),
+  lockedUntil: timestamp("locked_until"),
+}, (t) => ({
+  scopeKeyUnique: unique("login_throttles_scope_key_unique").on(t.scope, t.key),
+}));
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+
+// ─── Password Reset Tokens ───────────────────────────────────────────────────
+
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  // SHA-256 of the secret in the reset link; the link itself is only shown once
+  tokenHash: text("token_hash").notNull().unique(),
+  createdBy: varchar("created_by", { length: 100 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  userIdx: index("password_reset_tokens_user_idx").on(t.userId),
+}));
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+// ─── Two-Factor Recovery Codes ───────────────────────────────────────────────
+
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  // SHA-256 of the normalised code; the plaintext is only shown once
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  userIdx: index("recovery_codes_user_idx").on(t.userId),
+}));
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
 
 // ─── Audit Logs ──────────────────────────────────────────────────────────────
 
@@ -256,6 +683,8 @@ export const auditLogs = pgTable("audit_logs", {
   entityType: text("entity_type").notNull(),
   entityId: text("entity_id").notNull(),
   action: text("action").notNull(),
+  // Unset for system actors such as "LDAP sync", which only have a name
+  performedById: varchar("performed_by_id").references(() => users.id),
   performedBy: varchar("performed_by", { length: 100 }).notNull(),
   changes: text("changes"),
   metadata: text("metadata"),
@@ -263,6 +692,7 @@ export const auditLogs = pgTable("audit_logs", {
 }, (t) => ({
   entityTypeIdx: index("audit_entity_type_idx").on(t.entityType),
   performedByIdx: index("audit_performed_by_idx").on(t.performedBy),
+  performedByIdIdx: index("audit_performed_by_id_idx").on(t.performedById),
   performedAtIdx: index("audit_performed_at_idx").on(t.performedAt),
 }));
 
@@ -310,6 +740,7 @@ export const attachments = pgTable("attachments", {
   objectName: text("object_name").notNull(),
   mimeType: varchar("mime_type", { length: 100 }).notNull(),
   sizeBytes: integer("size_bytes").notNull(),
+  uploadedById: varchar("uploaded_by_id").references(() => users.id),
   uploadedBy: varchar("uploaded_by", { length: 100 }).notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -327,6 +758,10 @@ export const notifications = pgTable("notifications", {
   body: text("body").notNull(),
   href: text("href"),
   isRead: boolean("is_read").notNull().default(false),
+  // Waiting to go out in the user's next email digest
+  emailPending: boolean("email_pending").notNull().default(false),
+  // False for email-only notifications, kept so they can go into a digest
+  inApp: boolean("in_app").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (t) => ({
   userIdx: index("notifs_user_idx").on(t.userId),
@@ -336,6 +771,186 @@ export const notifications = pgTable("notifications", {
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = typeof notifications.$inferInsert;
 
+// Groups of notification types that users switch on and off per project
+export const notificationEventEnum = [
+  "status_changes",
+  "comments",
+  "mentions",
+  "new_adrs",
+  "review_requests",
+  "membership",
+] as const;
+export type NotificationEvent = typeof notificationEventEnum[number];
+
+export const notificationEventLabels: Record<NotificationEvent, string> = {
+  status_changes: "Status changes",
+  comments: "Comments",
+  mentions: "Mentions",
+  new_adrs: "New ADRs",
+  review_requests: "Review requests and reviews",
+  membership: "Membership changes",
+};
+
+// Notification types not listed here (e.g. admin notices) are always delivered
+export const notificationTypeEvents: Record<string, NotificationEvent> = {
+  status_changed: "status_changes",
+  comment_added: "comments",
+  mention: "mentions",
+  adr_created: "new_adrs",
+  review_requested: "review_requests",
+  review_submitted: "review_requests",
+  member_added: "membership",
+  role_changed: "membership",
+  member_removed: "membership",
+};
+
+export const notificationChannelEnum = ["inApp", "email"] as const;
+export type NotificationChannel = typeof notificationChannelEnum[number];
+
+// One row per user, project and event once the user changes it; no row means every channel is on
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  projectId: integer("project_id").notNull(),
+  event: text("event").notNull(),
+  inApp: boolean("in_app").notNull().default(true),
+  email: boolean("email").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (t) => ({
+  userProjectEventUnique: unique().on(t.userId, t.projectId, t.event),
+}));
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+// An explicit watch (or unwatch) of one ADR. Authors watch their ADRs without a row;
+// unwatching mutes status change and comment notifications for that ADR.
+export const adrWatches = pgTable("adr_watches", {
+  id: serial("id").primaryKey(),
+  adrId: integer("adr_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  watching: boolean("watching").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  adrUserUnique: unique().on(t.adrId, t.userId),
+  userIdx: index("adr_watches_user_idx").on(t.userId),
+}));
+
+export type AdrWatch = typeof adrWatches.$inferSelect;
+
+// What changed about an ADR, so live clients know which of their queries are stale
+export type AdrChange =
+  | "created"
+  | "updated"
+  | "status_changed"
+  | "archived"
+  | "comment"
+  | "review"
+  | "relation";
+
+export type AdrSummary = Pick<Adr, "id" | "adrNumber" | "title" | "status" | "version" | "archived">;
+
+/** Pushed to browsers over `/api/events`. */
+export type LiveEvent =
+  | { type: "notification"; userId: string; notification: Notification }
+  | {
+      type: "adr";
+      projectId: number;
+      adrId: number;
+      change: AdrChange;
+      actorId: string | null;
+      // Present when the ADR row itself changed, so lists can be patched in place
+      adr?: AdrSummary;
+    };
+
+// ─── Email Queue ─────────────────────────────────────────────────────────────
+
+// Outgoing email, sent by a background worker so requests never wait on SMTP
+export const emailQueue = pgTable("email_queue", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 100 }),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body"),
+  // Bodies carrying secrets (reset links) are blanked once sent or given up on
+  sensitive: boolean("sensitive").notNull().default(false),
+  // pending → sent, or failed once retries run out
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  sendAfter: timestamp("send_after").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+}, (t) => ({
+  dueIdx: index("email_queue_due_idx").on(t.status, t.sendAfter),
+}));
+
+export type QueuedEmail = typeof emailQueue.$inferSelect;
+
+// ─── Webhooks ────────────────────────────────────────────────────────────────
+
+export const webhookEventEnum = [
+  "adr.created",
+  "adr.updated",
+  "adr.status_changed",
+  "comment.created",
+  "requirement.changed",
+  "attachment.uploaded",
+] as const;
+export type WebhookEvent = typeof webhookEventEnum[number];
+
+export const webhookEventLabels: Record<WebhookEvent, string> = {
+  "adr.created": "ADR created",
+  "adr.updated": "ADR updated or archived",
+  "adr.status_changed": "ADR status changed",
+  "comment.created": "Comment added",
+  "requirement.changed": "Requirement created, updated or deleted",
+  "attachment.uploaded": "Attachment uploaded",
+};
+
+// A project's subscription: matching events are POSTed to `url`, signed with `secret`
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  url: text("url").notNull(),
+  // Kept in plain text because every delivery is signed with it
+  secret: text("secret").notNull(),
+  events: text("events").array().notNull().default(sql`'{}'::text[]`),
+  active: boolean("active").notNull().default(true),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (t) => ({
+  projectIdx: index("webhooks_project_idx").on(t.projectId),
+}));
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+
+// One attempt series per event and webhook; a redelivery is a new row with the same payload
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull(),
+  event: text("event").notNull(),
+  payload: text("payload").notNull(),
+  // pending → delivered, or failed once retries run out
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  // Time until the receiver answered, or gave up
+  durationMs: integer("duration_ms"),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  redeliveryOf: integer("redelivery_of"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+}, (t) => ({
+  webhookIdx: index("webhook_deliveries_webhook_idx").on(t.webhookId, t.createdAt),
+  dueIdx: index("webhook_deliveries_due_idx").on(t.status, t.nextAttemptAt),
+}));
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
 // ─── Architecture Diagrams ───────────────────────────────────────────────────
 
 export const diagrams = pgTable("diagrams", {
@@ -343,6 +958,7 @@ export const diagrams = pgTable("diagrams", {
   adrId: integer("adr_id").notNull(),
   name: varchar("name", { length: 255 }).notNull(),
   diagramData: text("diagram_data").notNull(),
+  createdById: varchar("created_by_id").references(() => users.id),
   createdBy: varchar("created_by", { length: 100 }).notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -352,3 +968,11 @@ export const diagrams = pgTable("diagrams", {
 
 export type Diagram = typeof diagrams.$inferSelect;
 export type InsertDiagram = typeof diagrams.$inferInsert;
+
+// ─── Data Migrations ─────────────────────────────────────────────────────────
+
+// One-off data fixes run at startup; a row marks one as done so it never runs again
+export const dataMigrations = pgTable("data_migrations", {
+  name: varchar("name", { length: 100 }).primaryKey(),
+  completedAt: timestamp("completed_at").notNull().defaultNow(),
+});
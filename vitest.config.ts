@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // server/db.ts refuses to load without one; tests mock storage and never connect
+    env: { DATABASE_URL: "postgres://test@localhost/test" },
+  },
+});